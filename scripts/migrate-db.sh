@@ -1,16 +1,16 @@
 #!/bin/bash
 
 # Database migration script for ASI MCP Gateway
-# Executes the schema.sql file against the D1 database
+# Applies pending versioned migrations (src/db/migrations) to the D1 database.
+# Pass --remote for the deployed database, --env preview for the preview one.
 
 echo "🔄 Running database migrations..."
 
-# Execute the schema file
-wrangler d1 execute MCP_DB --file=./src/db/schema.sql
+pnpm exec tsx scripts/migrate.ts up "$@"
 
 if [ $? -eq 0 ]; then
     echo "✅ Database migration completed successfully!"
 else
     echo "❌ Database migration failed!"
     exit 1
-fi 
\ No newline at end of file
+fi
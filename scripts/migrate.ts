@@ -0,0 +1,125 @@
+#!/usr/bin/env tsx
+/**
+ * Apply, revert or inspect D1 schema migrations through wrangler
+ *
+ *   tsx scripts/migrate.ts status [--local | --remote] [--env preview]
+ *   tsx scripts/migrate.ts up     [--to <version>] [--local | --remote] [--env preview]
+ *   tsx scripts/migrate.ts down   [--to <version>] [--local | --remote] [--env preview]
+ *
+ * Uses the same runner as the Worker (src/db/migrator.ts). `down` without
+ * `--to` reverts only the latest migration; `--to 0` reverts everything.
+ */
+
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  migrationLabel,
+  type MigrationTarget
+} from "../src/db/migrator";
+import { migrations } from "../src/db/migrations";
+
+const USAGE = "Usage: tsx scripts/migrate.ts <status|up|down> [--to <version>] [--local | --remote] [--env <name>] [--database <binding>]";
+
+interface Options {
+  command: string;
+  to?: number;
+  location: "--local" | "--remote";
+  env?: string;
+  database: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const [command, ...rest] = argv;
+  const options: Options = { command, location: "--local", database: "MCP_DB" };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--local" || arg === "--remote") {
+      options.location = arg;
+    } else if (arg === "--to") {
+      options.to = Number.parseInt(rest[++i] ?? "", 10);
+      if (!Number.isInteger(options.to) || options.to < 0) {
+        throw new Error("--to needs a migration version number");
+      }
+    } else if (arg === "--env") {
+      options.env = rest[++i];
+    } else if (arg === "--database") {
+      options.database = rest[++i];
+    } else {
+      throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!["status", "up", "down"].includes(command)) {
+    throw new Error(USAGE);
+  }
+  return options;
+}
+
+/**
+ * Run migrations with `wrangler d1 execute` against the local or remote database
+ */
+function wranglerTarget(options: Options): MigrationTarget {
+  const baseArgs = [
+    "d1", "execute", options.database, options.location,
+    ...(options.env ? ["--env", options.env] : []),
+    ...(options.location === "--remote" ? ["--yes"] : [])
+  ];
+
+  return {
+    async query<T>(sql: string) {
+      const output = execFileSync("wrangler", [...baseArgs, "--command", sql, "--json"], { encoding: "utf8" });
+      const parsed = JSON.parse(output) as { results?: T[] }[];
+      return parsed[0]?.results ?? [];
+    },
+    async execute(statements: string[]) {
+      const dir = mkdtempSync(join(tmpdir(), "mcp-migrate-"));
+      const file = join(dir, "migration.sql");
+      try {
+        writeFileSync(file, statements.map((statement) => `${statement};`).join("\n"));
+        execFileSync("wrangler", [...baseArgs, "--file", file], { stdio: ["ignore", "ignore", "inherit"] });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const target = wranglerTarget(options);
+  const where = `${options.database} (${options.location.slice(2)}${options.env ? `, ${options.env}` : ""})`;
+
+  if (options.command === "status") {
+    console.log(`📊 Migrations for ${where}:`);
+    for (const status of await getMigrationStatus(target, migrations)) {
+      const state = !status.applied
+        ? "pending"
+        : status.checksum_matches
+          ? `applied ${new Date(status.applied_at! * 1000).toISOString()}`
+          : "applied, CHANGED since";
+      console.log(`  ${migrationLabel(status)}  ${state}`);
+    }
+    return;
+  }
+
+  const changed = options.command === "up"
+    ? await migrateUp(target, migrations, { to: options.to })
+    : await migrateDown(target, migrations, { to: options.to });
+
+  console.log(
+    changed.length > 0
+      ? `✅ ${options.command === "up" ? "Applied" : "Reverted"} ${changed.map(migrationLabel).join(", ")} on ${where}`
+      : `✅ Nothing to do on ${where}`
+  );
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -2,7 +2,7 @@
 /**
  * Setup script for live API tests
  * 
- * Retrieves OAuth tokens from D1 database for the lloyd-mcp-dev user
+ * Retrieves OAuth tokens from D1 database for the user in LIVE_TEST_USER_ID
  */
 
 import { config } from "dotenv";
@@ -34,7 +34,11 @@ interface ToolCredential {
 async function setupLiveTests() {
   console.log("🚀 Setting up live API test credentials from D1 database...\n");
   
-  const userId = "lloyd-mcp-dev"; // Derived from bearer token: lloyd-mcp-dev-c6849b2b7aeb02df
+  const userId = process.env.LIVE_TEST_USER_ID; // user_id from the user_sessions table
+  if (!userId) {
+    console.error("❌ Set LIVE_TEST_USER_ID in .dev.vars to the user whose credentials should be used");
+    process.exit(1);
+  }
   const provider = "pandadoc";
   
   try {
@@ -25,7 +25,6 @@ SECRETS=(
   "COOKIE_ENCRYPTION_KEY"
   "SENTRY_DSN"
   "SENTRY_SAMPLE_RATE"
-  "AUTH_HEADER_SECRET"
   "OAUTH_ENABLED"
 )
 
@@ -0,0 +1,22 @@
+/**
+ * Who may use the admin API
+ *
+ * Admins are users holding the admin app role in Entra ID (the `roles` claim
+ * from their sign-in). The role name defaults to MCP.Admin and can be changed
+ * with ADMIN_ROLE. Access tokens for the admin API must also carry ADMIN_SCOPE,
+ * which only operator-configured clients can be allowed to request, so an MCP
+ * client an admin happens to sign in to gets no admin rights.
+ */
+
+import type { VerifiedIdentity } from "../auth/session-identity";
+
+export const DEFAULT_ADMIN_ROLE = "MCP.Admin";
+export const ADMIN_SCOPE = "mcp:admin";
+
+export function getAdminRole(env: Pick<Env, "ADMIN_ROLE">): string {
+  return env.ADMIN_ROLE || DEFAULT_ADMIN_ROLE;
+}
+
+export function isAdmin(identity: Pick<VerifiedIdentity, "roles">, env: Pick<Env, "ADMIN_ROLE">): boolean {
+  return identity.roles?.includes(getAdminRole(env)) ?? false;
+}
@@ -0,0 +1,122 @@
+/**
+ * Admin REST API
+ *
+ *   GET    /api/admin/users                                  users by last sign-in (?search=&limit=&offset=)
+ *   GET    /api/admin/users/:userId                          a user with their provider connections
+ *   DELETE /api/admin/users/:userId/connections/:provider    force-disconnect a provider
+ *   GET    /api/admin/clients                                preconfigured and dynamically registered clients
+ *   PATCH  /api/admin/clients/:clientId                      enable or disable a client { active }
+ *   GET    /api/admin/audit-logs                             events, newest first (filters, &limit=&cursor=)
+ *   GET    /api/admin/audit-logs/export?format=csv|jsonl     every matching event (filters)
+ *   *      /api/admin/roles/...                              tool access policies (see ./policies)
+ */
+
+import type { VerifiedIdentity } from "../auth/session-identity";
+import { exportAuditLogs, parseAuditLogQuery, queryAuditLogs, toAuditLogRecord } from "./audit-logs";
+import {
+  disconnectProvider,
+  getUser,
+  listClients,
+  listUsers,
+  parseLimit,
+  setClientActive,
+  splitPath
+} from "./management";
+import { handlePolicyAdmin } from "./policies";
+import { invalidRequest, json, notFound, readJson } from "./responses";
+
+/**
+ * Handle a request under /api/admin. `path` is the rest of the path after it.
+ */
+export async function handleAdminApi(
+  request: Request,
+  env: Env,
+  admin: VerifiedIdentity,
+  path: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const segments = splitPath(path);
+  if (!segments) {
+    return invalidRequest("Malformed path");
+  }
+  const [collection, id, subcollection, itemId, ...rest] = segments;
+
+  if (collection === "roles") {
+    return handlePolicyAdmin(request, env, admin, path.replace(/^\/+roles/, ""));
+  }
+
+  if (rest.length > 0) {
+    return notFound("Unknown admin endpoint");
+  }
+
+  // /api/admin/users[/:userId[/connections/:provider]]
+  if (collection === "users") {
+    if (!id && request.method === "GET") {
+      const users = await listUsers(env, {
+        search: url.searchParams.get("search") ?? undefined,
+        limit: parseLimit(url.searchParams.get("limit")),
+        offset: Math.max(Number.parseInt(url.searchParams.get("offset") ?? "0", 10) || 0, 0)
+      });
+      return json({ users });
+    }
+
+    if (id && !subcollection && request.method === "GET") {
+      const user = await getUser(env, id);
+      return user ? json(user) : notFound("No user with that id");
+    }
+
+    if (id && subcollection === "connections" && itemId && request.method === "DELETE") {
+      if (!(await disconnectProvider(env, request, admin, id, itemId))) {
+        return notFound("The user has no connection to that provider");
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // /api/admin/clients[/:clientId]
+  if (collection === "clients" && !subcollection) {
+    if (!id && request.method === "GET") {
+      return json({ clients: await listClients(env) });
+    }
+
+    if (id && request.method === "PATCH") {
+      const body = await readJson(request);
+      if (!body.ok) return invalidRequest("Request body must be JSON");
+
+      const active = (body.body as { active?: unknown } | null)?.active;
+      if (typeof active !== "boolean") {
+        return invalidRequest("active must be true or false");
+      }
+
+      const client = await setClientActive(env, request, admin, id, active);
+      return client ? json(client) : notFound("No dynamically registered client with that id");
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // /api/admin/audit-logs[/export]
+  if (collection === "audit-logs" && (!id || id === "export") && !subcollection) {
+    if (request.method !== "GET") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const parsed = parseAuditLogQuery(url.searchParams);
+    if (!parsed.valid) return invalidRequest(parsed.error);
+
+    if (id === "export") {
+      const format = url.searchParams.get("format") ?? "csv";
+      if (format !== "csv" && format !== "jsonl") {
+        return invalidRequest('format must be "csv" or "jsonl"');
+      }
+      return exportAuditLogs(env.MCP_DB, parsed.query.filters, format);
+    }
+
+    const { logs, nextCursor } = await queryAuditLogs(env.MCP_DB, parsed.query);
+    return json({ audit_logs: logs.map(toAuditLogRecord), next_cursor: nextCursor });
+  }
+
+  return notFound("Unknown admin endpoint");
+}
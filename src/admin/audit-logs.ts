@@ -0,0 +1,212 @@
+/**
+ * Audit log queries and exports for the admin API and console
+ *
+ * Filters: user_id, provider, tool_name, event_type, outcome, and a time range
+ * (`from` inclusive, `to` exclusive) given as ISO 8601 or unix seconds. Pages
+ * are newest first; `next_cursor` fetches the following page. Exports stream
+ * every matching row as CSV or JSON Lines without holding them in memory.
+ */
+
+import { createRepositories } from "../db/operations";
+import type { AuditLog, AuditLogCursor, AuditLogFilters } from "../db/types";
+import { MAX_PAGE_SIZE, parseLimit } from "./management";
+
+export const AUDIT_EVENT_TYPES: AuditLog["event_type"][] = [
+  "auth_grant",
+  "auth_revoke",
+  "token_refresh",
+  "token_create",
+  "tool_call",
+  "policy_change",
+  "client_change"
+];
+
+export const AUDIT_OUTCOMES: AuditLog["outcome"][] = ["success", "failure"];
+
+export type AuditExportFormat = "csv" | "jsonl";
+
+const CSV_COLUMNS: (keyof AuditLog)[] = [
+  "id",
+  "created_at",
+  "user_id",
+  "event_type",
+  "outcome",
+  "provider",
+  "tool_name",
+  "ip_address",
+  "user_agent",
+  "metadata"
+];
+
+export interface AuditLogQuery {
+  filters: AuditLogFilters;
+  limit: number;
+  cursor?: AuditLogCursor;
+}
+
+function parseTime(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const millis = Date.parse(value);
+  return Number.isNaN(millis) ? null : Math.floor(millis / 1000);
+}
+
+export function encodeAuditCursor(log: Pick<AuditLog, "created_at" | "id">): string {
+  return btoa(JSON.stringify([log.created_at, log.id]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeAuditCursor(cursor: string): AuditLogCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof createdAt === "number" && typeof id === "string" ? { created_at: createdAt, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate audit log query parameters. Empty parameters are ignored.
+ */
+export function parseAuditLogQuery(
+  params: URLSearchParams
+): { valid: true; query: AuditLogQuery } | { valid: false; error: string } {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+  const filters: AuditLogFilters = {
+    user_id: get("user_id"),
+    provider: get("provider"),
+    tool_name: get("tool_name")
+  };
+
+  const eventType = get("event_type");
+  if (eventType !== undefined) {
+    if (!AUDIT_EVENT_TYPES.includes(eventType as AuditLog["event_type"])) {
+      return { valid: false, error: `event_type must be one of: ${AUDIT_EVENT_TYPES.join(", ")}` };
+    }
+    filters.event_type = eventType as AuditLog["event_type"];
+  }
+
+  const outcome = get("outcome");
+  if (outcome !== undefined) {
+    if (!AUDIT_OUTCOMES.includes(outcome as AuditLog["outcome"])) {
+      return { valid: false, error: `outcome must be one of: ${AUDIT_OUTCOMES.join(", ")}` };
+    }
+    filters.outcome = outcome as AuditLog["outcome"];
+  }
+
+  for (const bound of ["from", "to"] as const) {
+    const value = get(bound);
+    if (value === undefined) continue;
+
+    const time = parseTime(value);
+    if (time === null) {
+      return { valid: false, error: `${bound} must be an ISO 8601 date or unix seconds` };
+    }
+    filters[bound] = time;
+  }
+
+  const cursorParam = get("cursor");
+  const cursor = cursorParam ? decodeAuditCursor(cursorParam) : undefined;
+  if (cursor === null) {
+    return { valid: false, error: "Invalid cursor" };
+  }
+
+  return { valid: true, query: { filters, limit: parseLimit(params.get("limit")), cursor } };
+}
+
+/**
+ * One page of matching events and the cursor for the next page, if any
+ */
+export async function queryAuditLogs(
+  db: D1Database,
+  query: AuditLogQuery
+): Promise<{ logs: AuditLog[]; nextCursor: string | null }> {
+  // One extra row tells whether another page follows
+  const rows = await createRepositories(db).auditLogs.list(query.filters, query.limit + 1, query.cursor);
+  const logs = rows.slice(0, query.limit);
+  const nextCursor = rows.length > query.limit ? encodeAuditCursor(logs[logs.length - 1]) : null;
+
+  return { logs, nextCursor };
+}
+
+/**
+ * An audit log row as returned by the API, with its metadata parsed
+ */
+export function toAuditLogRecord(log: AuditLog): Omit<AuditLog, "metadata"> & { metadata: unknown } {
+  let metadata: unknown = null;
+  try {
+    metadata = log.metadata ? JSON.parse(log.metadata) : null;
+  } catch {
+    metadata = log.metadata;
+  }
+  return { ...log, metadata };
+}
+
+// Columns holding text that came from users or clients rather than from us
+const FREE_TEXT_COLUMNS: (keyof AuditLog)[] = ["provider", "tool_name", "user_agent", "metadata"];
+
+function csvField(value: unknown, freeText: boolean): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Keep spreadsheet apps from evaluating free text as formulas
+  if (freeText && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(log: AuditLog): string {
+  return CSV_COLUMNS.map((column) =>
+    csvField(
+      column === "created_at" ? new Date(log.created_at * 1000).toISOString() : log[column],
+      FREE_TEXT_COLUMNS.includes(column)
+    )
+  ).join(",") + "\r\n";
+}
+
+/**
+ * Stream every event matching the filters, newest first, as CSV or JSON Lines
+ */
+export function exportAuditLogs(db: D1Database, filters: AuditLogFilters, format: AuditExportFormat): Response {
+  const encoder = new TextEncoder();
+  const repository = createRepositories(db).auditLogs;
+  let cursor: AuditLogCursor | undefined;
+  let started = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started && format === "csv") {
+        controller.enqueue(encoder.encode(CSV_COLUMNS.join(",") + "\r\n"));
+      }
+      started = true;
+
+      const logs = await repository.list(filters, MAX_PAGE_SIZE, cursor);
+      if (logs.length === 0) {
+        controller.close();
+        return;
+      }
+
+      const chunk = logs
+        .map((log) => (format === "csv" ? toCsvRow(log) : JSON.stringify(toAuditLogRecord(log)) + "\n"))
+        .join("");
+      controller.enqueue(encoder.encode(chunk));
+
+      const last = logs[logs.length - 1];
+      cursor = { created_at: last.created_at, id: last.id };
+      if (logs.length < MAX_PAGE_SIZE) {
+        controller.close();
+      }
+    }
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="audit-logs-${date}.${format}"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
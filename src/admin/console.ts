@@ -0,0 +1,106 @@
+/**
+ * Admin console pages
+ *
+ *   GET  /admin/users[?search=]                                   users
+ *   GET  /admin/users/:userId                                     a user, their connections and recent activity
+ *   POST /admin/users/:userId/connections/:provider/disconnect
+ *   GET  /admin/clients                                           OAuth clients
+ *   POST /admin/clients/:clientId/enable | disable
+ *   GET  /admin/audit-logs[?filters&cursor=]                      audit log (see ./audit-logs)
+ *   GET  /admin/audit-logs/export?format=csv|jsonl&filters        download
+ */
+
+import type { VerifiedIdentity } from "../auth/session-identity";
+import { exportAuditLogs, parseAuditLogQuery, queryAuditLogs } from "./audit-logs";
+import {
+  disconnectProvider,
+  getUser,
+  listClients,
+  listUsers,
+  setClientActive,
+  splitPath
+} from "./management";
+import { renderAuditLogPage, renderClientsPage, renderNotFoundPage, renderUserPage, renderUsersPage } from "./pages";
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 303, headers: { Location: location } });
+}
+
+/**
+ * Handle a request under /admin. `path` is the rest of the path after it.
+ * Form posts must already have been checked to come from our own pages.
+ */
+export async function handleAdminConsole(
+  request: Request,
+  env: Env,
+  admin: VerifiedIdentity,
+  path: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const segments = splitPath(path);
+  if (!segments) {
+    return renderNotFoundPage(admin, "There is no such admin page.");
+  }
+  const [section, id, subsection, itemId, action, ...rest] = segments;
+  const isPost = request.method === "POST";
+
+  if (!section) {
+    return redirect("/admin/users");
+  }
+
+  if (rest.length > 0) {
+    return renderNotFoundPage(admin, "There is no such admin page.");
+  }
+
+  if (section === "users") {
+    if (!id && !isPost) {
+      const search = url.searchParams.get("search")?.trim() ?? "";
+      return renderUsersPage(admin, await listUsers(env, { search, limit: 100 }), search);
+    }
+
+    if (id && !subsection && !isPost) {
+      const user = await getUser(env, id);
+      if (!user) {
+        return renderNotFoundPage(admin, "No user with that id.");
+      }
+      const { logs } = await queryAuditLogs(env.MCP_DB, { filters: { user_id: id }, limit: 20 });
+      return renderUserPage(admin, user, logs);
+    }
+
+    if (id && subsection === "connections" && itemId && action === "disconnect" && isPost) {
+      await disconnectProvider(env, request, admin, id, itemId);
+      return redirect(`/admin/users/${encodeURIComponent(id)}`);
+    }
+  }
+
+  if (section === "clients") {
+    if (!id && !isPost) {
+      return renderClientsPage(admin, await listClients(env));
+    }
+
+    if (id && (subsection === "enable" || subsection === "disable") && !itemId && isPost) {
+      await setClientActive(env, request, admin, id, subsection === "enable");
+      return redirect("/admin/clients");
+    }
+  }
+
+  if (section === "audit-logs" && !id && !isPost) {
+    const parsed = parseAuditLogQuery(url.searchParams);
+    if (!parsed.valid) {
+      return renderAuditLogPage(admin, [], url.searchParams, null, parsed.error);
+    }
+    const { logs, nextCursor } = await queryAuditLogs(env.MCP_DB, parsed.query);
+    return renderAuditLogPage(admin, logs, url.searchParams, nextCursor);
+  }
+
+  if (section === "audit-logs" && id === "export" && !subsection && !isPost) {
+    const parsed = parseAuditLogQuery(url.searchParams);
+    const format = url.searchParams.get("format") === "jsonl" ? "jsonl" : "csv";
+    if (!parsed.valid) {
+      return renderAuditLogPage(admin, [], url.searchParams, null, parsed.error);
+    }
+    return exportAuditLogs(env.MCP_DB, parsed.query.filters, format);
+  }
+
+  return renderNotFoundPage(admin, "There is no such admin page.");
+}
@@ -0,0 +1,177 @@
+/**
+ * Admin operations on users, their provider connections and OAuth clients.
+ * Shared by the admin API and the admin console pages; neither ever returns
+ * stored tokens.
+ */
+
+import { ClientRegistry, type RegisteredClient } from "../auth/client-registry";
+import type { VerifiedIdentity } from "../auth/session-identity";
+import { createRepositories } from "../db/operations";
+import type { CreateAuditLogInput, ToolCredential, UserSession } from "../db/types";
+
+export const MAX_PAGE_SIZE = 200;
+
+export interface ConnectionSummary {
+  provider: string;
+  scopes: string[];
+  expires_at: number | null;
+  connected_at: number;
+  updated_at: number;
+}
+
+export interface UserSummary {
+  user_id: string;
+  email: string;
+  name: string;
+  tenant_id: string | null;
+  groups: string[];
+  roles: string[];
+  last_sign_in_at: number;
+  connections: ConnectionSummary[];
+}
+
+export type ClientSummary = RegisteredClient & { preconfigured: boolean };
+
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toConnectionSummary(credential: ToolCredential): ConnectionSummary {
+  return {
+    provider: credential.provider,
+    scopes: parseJsonArray(credential.scopes),
+    expires_at: credential.expires_at ?? null,
+    connected_at: credential.created_at,
+    updated_at: credential.updated_at
+  };
+}
+
+export function toUserSummary(user: UserSession, credentials: ToolCredential[]): UserSummary {
+  return {
+    user_id: user.user_id,
+    email: user.email,
+    name: user.name,
+    tenant_id: user.tenant_id ?? null,
+    groups: parseJsonArray(user.groups),
+    roles: parseJsonArray(user.roles),
+    last_sign_in_at: user.updated_at,
+    connections: credentials.filter((c) => c.user_id === user.user_id).map(toConnectionSummary)
+  };
+}
+
+/**
+ * Clamp a requested page size to 1..MAX_PAGE_SIZE
+ */
+export function parseLimit(value: string | null, fallback = 50): number {
+  const limit = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : fallback;
+}
+
+/**
+ * Split an admin path into its decoded segments; null if a segment is malformed
+ * percent-encoding
+ */
+export function splitPath(path: string): string[] | null {
+  try {
+    return path.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record an admin's change in the audit log. Failures are logged, not raised,
+ * so the change itself still succeeds.
+ */
+export async function auditAdminAction(
+  env: Env,
+  request: Request,
+  admin: VerifiedIdentity,
+  event: Omit<CreateAuditLogInput, "ip_address" | "user_agent">
+): Promise<void> {
+  try {
+    await createRepositories(env.MCP_DB).auditLogs.create({
+      ...event,
+      metadata: { ...event.metadata, adminUserId: admin.userId },
+      ip_address: request.headers.get("CF-Connecting-IP"),
+      user_agent: request.headers.get("User-Agent")
+    });
+  } catch (error) {
+    console.error("Failed to log audit event:", error);
+  }
+}
+
+export async function listUsers(
+  env: Env,
+  options: { limit?: number; offset?: number; search?: string } = {}
+): Promise<UserSummary[]> {
+  const repositories = createRepositories(env.MCP_DB);
+  const users = await repositories.userSessions.list(options.limit, options.offset, options.search || undefined);
+  const credentials = await repositories.toolCredentials.findByUsers(users.map((user) => user.user_id));
+
+  return users.map((user) => toUserSummary(user, credentials));
+}
+
+export async function getUser(env: Env, userId: string): Promise<UserSummary | null> {
+  const repositories = createRepositories(env.MCP_DB);
+  const user = await repositories.userSessions.findByUserId(userId);
+  if (!user) return null;
+
+  return toUserSummary(user, await repositories.toolCredentials.findByUser(userId));
+}
+
+/**
+ * Delete a user's stored credential for a provider, so tools for it ask the
+ * user to connect again. Returns false if the user had no such connection.
+ */
+export async function disconnectProvider(
+  env: Env,
+  request: Request,
+  admin: VerifiedIdentity,
+  userId: string,
+  provider: string
+): Promise<boolean> {
+  if (!(await createRepositories(env.MCP_DB).toolCredentials.delete(userId, provider))) {
+    return false;
+  }
+
+  await auditAdminAction(env, request, admin, {
+    user_id: userId,
+    event_type: "auth_revoke",
+    provider,
+    metadata: { action: "provider_disconnect" }
+  });
+  return true;
+}
+
+export async function listClients(env: Env): Promise<ClientSummary[]> {
+  return new ClientRegistry(env).listClients();
+}
+
+/**
+ * Enable or disable a dynamically registered client. Tokens already issued to a
+ * disabled client are refused from then on.
+ */
+export async function setClientActive(
+  env: Env,
+  request: Request,
+  admin: VerifiedIdentity,
+  clientId: string,
+  active: boolean
+): Promise<RegisteredClient | null> {
+  const client = await new ClientRegistry(env).setClientActive(clientId, active);
+  if (!client) return null;
+
+  await auditAdminAction(env, request, admin, {
+    user_id: admin.userId,
+    event_type: "client_change",
+    metadata: { action: active ? "client_enable" : "client_disable", clientId, clientName: client.clientName }
+  });
+  return client;
+}
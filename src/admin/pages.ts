@@ -0,0 +1,225 @@
+/**
+ * Server-rendered pages for the admin console at /admin
+ */
+
+import type { AuditLog } from "../db/types";
+import type { VerifiedIdentity } from "../auth/session-identity";
+import { sanitizeHtml as h } from "../workers-oauth-utils";
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES } from "./audit-logs";
+import type { ClientSummary, UserSummary } from "./management";
+
+function formatTime(seconds: number | null | undefined): string {
+  return seconds ? new Date(seconds * 1000).toISOString().replace("T", " ").slice(0, 19) : "—";
+}
+
+function postButton(action: string, label: string, danger = false): string {
+  return `<form method="post" action="${h(action)}"><button type="submit"${danger ? ' class="danger"' : ""}>${h(label)}</button></form>`;
+}
+
+function page(title: string, admin: VerifiedIdentity, body: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${h(title)} · MCP Admin</title>
+    <style>
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+        line-height: 1.5;
+        color: #333;
+        background-color: #f9fafb;
+        max-width: 1100px;
+        margin: 0 auto;
+        padding: 1rem;
+      }
+      header { display: flex; justify-content: space-between; align-items: center; border-bottom: 1px solid #e5e7eb; margin-bottom: 1rem; }
+      nav a { margin-right: 1rem; color: #0070f3; text-decoration: none; }
+      table { width: 100%; border-collapse: collapse; background: #fff; font-size: 0.9em; }
+      th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+      code, .mono { font-family: monospace; font-size: 0.85em; word-break: break-all; }
+      form { display: inline; margin: 0; }
+      .filters form { display: flex; gap: 0.5rem; margin-bottom: 1rem; }
+      input, select { padding: 0.4rem; border: 1px solid #d1d5db; border-radius: 4px; }
+      button { padding: 0.3rem 0.8rem; border-radius: 4px; border: 1px solid #0070f3; background: #fff; color: #0070f3; cursor: pointer; }
+      button.danger { border-color: #f44336; color: #f44336; }
+      .muted { color: #6b7280; }
+      .error { color: #b91c1c; }
+    </style>
+  </head>
+  <body>
+    <header>
+      <nav>
+        <a href="/admin/users">Users</a>
+        <a href="/admin/clients">Clients</a>
+        <a href="/admin/audit-logs">Audit log</a>
+      </nav>
+      <div><span class="muted">${h(admin.email ?? admin.userId)}</span> ${postButton("/admin/logout", "Sign out")}</div>
+    </header>
+    <h1>${h(title)}</h1>
+    ${body}
+  </body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'",
+      "X-Frame-Options": "DENY",
+      "Cache-Control": "no-store"
+    }
+  });
+}
+
+export function renderUsersPage(admin: VerifiedIdentity, users: UserSummary[], search: string): Response {
+  const rows = users
+    .map(
+      (user) => `
+      <tr>
+        <td><a href="/admin/users/${encodeURIComponent(user.user_id)}">${h(user.name)}</a><div class="muted">${h(user.email)}</div></td>
+        <td>${user.connections.map((c) => h(c.provider)).join(", ") || '<span class="muted">none</span>'}</td>
+        <td>${user.roles.map(h).join(", ")}</td>
+        <td>${formatTime(user.last_sign_in_at)}</td>
+      </tr>`
+    )
+    .join("");
+
+  return page(
+    "Users",
+    admin,
+    `<div class="filters"><form method="get" action="/admin/users">
+      <input type="search" name="search" value="${h(search)}" placeholder="Email or name">
+      <button type="submit">Search</button>
+    </form></div>
+    <table>
+      <thead><tr><th>User</th><th>Connected providers</th><th>Roles</th><th>Last sign-in</th></tr></thead>
+      <tbody>${rows || '<tr><td colspan="4" class="muted">No users found</td></tr>'}</tbody>
+    </table>`
+  );
+}
+
+export function renderUserPage(admin: VerifiedIdentity, user: UserSummary, recentEvents: AuditLog[]): Response {
+  const userPath = `/admin/users/${encodeURIComponent(user.user_id)}`;
+  const connections = user.connections
+    .map(
+      (connection) => `
+      <tr>
+        <td>${h(connection.provider)}</td>
+        <td>${connection.scopes.map(h).join(" ")}</td>
+        <td>${formatTime(connection.connected_at)}</td>
+        <td>${formatTime(connection.expires_at)}</td>
+        <td>${postButton(`${userPath}/connections/${encodeURIComponent(connection.provider)}/disconnect`, "Disconnect", true)}</td>
+      </tr>`
+    )
+    .join("");
+
+  return page(
+    user.name,
+    admin,
+    `<p>${h(user.email)} · <code>${h(user.user_id)}</code>${user.tenant_id ? ` · tenant <code>${h(user.tenant_id)}</code>` : ""}</p>
+    <p>Roles: ${user.roles.map(h).join(", ") || '<span class="muted">none</span>'}<br>
+    Groups: ${user.groups.map((g) => `<code>${h(g)}</code>`).join(" ") || '<span class="muted">none</span>'}</p>
+    <h2>Provider connections</h2>
+    <table>
+      <thead><tr><th>Provider</th><th>Scopes</th><th>Connected</th><th>Expires</th><th></th></tr></thead>
+      <tbody>${connections || '<tr><td colspan="5" class="muted">No providers connected</td></tr>'}</tbody>
+    </table>
+    <h2>Recent activity</h2>
+    ${auditTable(recentEvents)}
+    <p><a href="/admin/audit-logs?user_id=${encodeURIComponent(user.user_id)}">Full audit log for this user</a></p>`
+  );
+}
+
+export function renderClientsPage(admin: VerifiedIdentity, clients: ClientSummary[]): Response {
+  const rows = clients
+    .map((client) => {
+      const action = `/admin/clients/${encodeURIComponent(client.clientId)}/${client.active ? "disable" : "enable"}`;
+      return `
+      <tr>
+        <td>${h(client.clientName)}<div class="mono muted">${h(client.clientId)}</div></td>
+        <td class="mono">${client.redirectUris.map(h).join("<br>")}</td>
+        <td>${client.preconfigured ? "Preconfigured" : "Dynamic"}</td>
+        <td>${client.active ? "Active" : "Disabled"}</td>
+        <td>${client.preconfigured ? "" : postButton(action, client.active ? "Disable" : "Enable", client.active)}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return page(
+    "Clients",
+    admin,
+    `<table>
+      <thead><tr><th>Client</th><th>Redirect URIs</th><th>Type</th><th>Status</th><th></th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`
+  );
+}
+
+function auditTable(logs: AuditLog[]): string {
+  const rows = logs
+    .map(
+      (log) => `
+      <tr>
+        <td>${formatTime(log.created_at)}</td>
+        <td>${h(log.event_type)}${log.outcome === "failure" ? ' <span class="error">failed</span>' : ""}</td>
+        <td class="mono"><a href="/admin/users/${encodeURIComponent(log.user_id)}">${h(log.user_id)}</a></td>
+        <td>${h(log.provider ?? "")}</td>
+        <td>${h(log.tool_name ?? "")}</td>
+        <td class="mono">${h(log.metadata ?? "")}</td>
+      </tr>`
+    )
+    .join("");
+
+  return `<table>
+      <thead><tr><th>Time (UTC)</th><th>Event</th><th>User</th><th>Provider</th><th>Tool</th><th>Details</th></tr></thead>
+      <tbody>${rows || '<tr><td colspan="6" class="muted">No events</td></tr>'}</tbody>
+    </table>`;
+}
+
+export function renderAuditLogPage(
+  admin: VerifiedIdentity,
+  logs: AuditLog[],
+  params: URLSearchParams,
+  nextCursor: string | null,
+  error?: string
+): Response {
+  const value = (name: string) => h(params.get(name) ?? "");
+  const options = (name: string, choices: string[]) =>
+    ['<option value="">Any</option>', ...choices.map((choice) =>
+      `<option value="${h(choice)}"${params.get(name) === choice ? " selected" : ""}>${h(choice)}</option>`
+    )].join("");
+
+  const filters = new URLSearchParams(params);
+  filters.delete("cursor");
+  const nextParams = new URLSearchParams(filters);
+  if (nextCursor) nextParams.set("cursor", nextCursor);
+  const exportParams = (format: string) => {
+    const query = new URLSearchParams(filters);
+    query.set("format", format);
+    return h(`/admin/audit-logs/export?${query}`);
+  };
+
+  return page(
+    "Audit log",
+    admin,
+    `<div class="filters"><form method="get" action="/admin/audit-logs">
+      <input type="text" name="user_id" value="${value("user_id")}" placeholder="User id">
+      <input type="text" name="provider" value="${value("provider")}" placeholder="Provider">
+      <input type="text" name="tool_name" value="${value("tool_name")}" placeholder="Tool">
+      <select name="event_type">${options("event_type", AUDIT_EVENT_TYPES)}</select>
+      <select name="outcome">${options("outcome", AUDIT_OUTCOMES)}</select>
+      <input type="text" name="from" value="${value("from")}" placeholder="From (2024-01-31)">
+      <input type="text" name="to" value="${value("to")}" placeholder="To">
+      <button type="submit">Filter</button>
+    </form></div>
+    ${error ? `<p class="error">${h(error)}</p>` : ""}
+    <p>Export: <a href="${exportParams("csv")}">CSV</a> · <a href="${exportParams("jsonl")}">JSON Lines</a></p>
+    ${auditTable(logs)}
+    ${nextCursor ? `<p><a href="/admin/audit-logs?${h(nextParams.toString())}">Older events →</a></p>` : ""}`
+  );
+}
+
+export function renderNotFoundPage(admin: VerifiedIdentity, message: string): Response {
+  return page("Not found", admin, `<p>${h(message)}</p>`, 404);
+}
@@ -0,0 +1,188 @@
+/**
+ * Admin API for tool access policies
+ *
+ *   GET    /api/admin/roles                          list roles
+ *   POST   /api/admin/roles                          create a role { name, description? }
+ *   GET    /api/admin/roles/:roleId                  a role with its assignments and rules
+ *   DELETE /api/admin/roles/:roleId                  delete a role with its assignments and rules
+ *   POST   /api/admin/roles/:roleId/assignments      assign { subject_type: "user" | "group", subject_id }
+ *   DELETE /api/admin/roles/:roleId/assignments/:id
+ *   POST   /api/admin/roles/:roleId/rules            add { effect: "allow" | "deny", provider, operation? }
+ *   DELETE /api/admin/roles/:roleId/rules/:id
+ */
+
+import { createRepositories } from "../db/operations";
+import type { CreateRoleAssignmentInput, CreateRoleInput } from "../db/types";
+import { parsePolicyRuleRequest } from "../auth/tool-policy";
+import type { VerifiedIdentity } from "../auth/session-identity";
+import { auditAdminAction } from "./management";
+import { invalidRequest, json, notFound, readJson } from "./responses";
+
+const MAX_ROLE_NAME_LENGTH = 64;
+const MAX_SUBJECT_ID_LENGTH = 256;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && error.message.includes("UNIQUE");
+}
+
+export function parseRoleRequest(body: unknown): { valid: true; role: CreateRoleInput } | { valid: false; error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > MAX_ROLE_NAME_LENGTH) {
+    return { valid: false, error: `name is required and must be at most ${MAX_ROLE_NAME_LENGTH} characters` };
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== "string") {
+    return { valid: false, error: "description must be a string" };
+  }
+
+  return { valid: true, role: { name, description: (input.description as string | undefined)?.trim() || null } };
+}
+
+export function parseAssignmentRequest(
+  body: unknown
+): { valid: true; assignment: CreateRoleAssignmentInput } | { valid: false; error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  if (input.subject_type !== "user" && input.subject_type !== "group") {
+    return { valid: false, error: 'subject_type must be "user" or "group"' };
+  }
+
+  const subjectId = typeof input.subject_id === "string" ? input.subject_id.trim() : "";
+  if (!subjectId || subjectId.length > MAX_SUBJECT_ID_LENGTH) {
+    return { valid: false, error: "subject_id is required (a user id, or an Entra group object id)" };
+  }
+
+  return { valid: true, assignment: { subject_type: input.subject_type, subject_id: subjectId } };
+}
+
+/**
+ * Handle a request under /api/admin/roles. `path` is the rest of the path after it.
+ */
+export async function handlePolicyAdmin(
+  request: Request,
+  env: Env,
+  admin: VerifiedIdentity,
+  path: string
+): Promise<Response> {
+  const policies = createRepositories(env.MCP_DB).policies;
+  const [roleId, collection, itemId, ...rest] = path.split("/").filter(Boolean);
+  if (rest.length > 0) {
+    return notFound("Unknown admin endpoint");
+  }
+
+  const audit = (action: string, details: Record<string, unknown>) =>
+    auditAdminAction(env, request, admin, {
+      user_id: admin.userId,
+      event_type: "policy_change",
+      metadata: { action, ...details }
+    });
+
+  // /api/admin/roles
+  if (!roleId) {
+    if (request.method === "GET") {
+      return json({ roles: await policies.listRoles() });
+    }
+
+    if (request.method === "POST") {
+      const body = await readJson(request);
+      if (!body.ok) return invalidRequest("Request body must be JSON");
+
+      const parsed = parseRoleRequest(body.body);
+      if (!parsed.valid) return invalidRequest(parsed.error);
+
+      try {
+        const role = await policies.createRole(parsed.role);
+        await audit("role_create", { roleId: role.id, name: role.name });
+        return json(role, 201);
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          return json({ error: "conflict", error_description: "A role with that name already exists" }, 409);
+        }
+        throw error;
+      }
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  const role = await policies.getRole(roleId);
+  if (!role) {
+    return notFound("No role with that id");
+  }
+
+  // /api/admin/roles/:roleId
+  if (!collection) {
+    if (request.method === "GET") {
+      const [assignments, rules] = await Promise.all([policies.listAssignments(roleId), policies.listRules(roleId)]);
+      return json({ ...role, assignments, rules });
+    }
+
+    if (request.method === "DELETE") {
+      await policies.deleteRole(roleId);
+      await audit("role_delete", { roleId, name: role.name });
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // /api/admin/roles/:roleId/assignments[/:id]
+  if (collection === "assignments") {
+    if (!itemId && request.method === "POST") {
+      const body = await readJson(request);
+      if (!body.ok) return invalidRequest("Request body must be JSON");
+
+      const parsed = parseAssignmentRequest(body.body);
+      if (!parsed.valid) return invalidRequest(parsed.error);
+
+      try {
+        const assignment = await policies.addAssignment(roleId, parsed.assignment);
+        await audit("role_assign", { roleId, ...parsed.assignment });
+        return json(assignment, 201);
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          return json({ error: "conflict", error_description: "The role is already assigned to that subject" }, 409);
+        }
+        throw error;
+      }
+    }
+
+    if (itemId && request.method === "DELETE") {
+      if (!await policies.removeAssignment(roleId, itemId)) {
+        return notFound("No assignment with that id");
+      }
+      await audit("role_unassign", { roleId, assignmentId: itemId });
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // /api/admin/roles/:roleId/rules[/:id]
+  if (collection === "rules") {
+    if (!itemId && request.method === "POST") {
+      const body = await readJson(request);
+      if (!body.ok) return invalidRequest("Request body must be JSON");
+
+      const parsed = parsePolicyRuleRequest(body.body);
+      if (!parsed.valid) return invalidRequest(parsed.error);
+
+      const rule = await policies.addRule(roleId, parsed.rule);
+      await audit("rule_create", { roleId, ruleId: rule.id, ...parsed.rule });
+      return json(rule, 201);
+    }
+
+    if (itemId && request.method === "DELETE") {
+      if (!await policies.removeRule(roleId, itemId)) {
+        return notFound("No rule with that id");
+      }
+      await audit("rule_delete", { roleId, ruleId: itemId });
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  return notFound("Unknown admin endpoint");
+}
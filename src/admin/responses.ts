@@ -0,0 +1,26 @@
+/**
+ * JSON responses shared by the admin API handlers
+ */
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" }
+  });
+}
+
+export function invalidRequest(description: string): Response {
+  return json({ error: "invalid_request", error_description: description }, 400);
+}
+
+export function notFound(description: string): Response {
+  return json({ error: "not_found", error_description: description }, 404);
+}
+
+export async function readJson(request: Request): Promise<{ ok: true; body: unknown } | { ok: false }> {
+  try {
+    return { ok: true, body: await request.json() };
+  } catch {
+    return { ok: false };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Browser sessions for the admin console
+ *
+ * Admins sign in to /admin through the same identity provider flow as MCP
+ * clients, as the built-in admin-console client. The session is kept in KV and
+ * the browser only holds its id in an HttpOnly cookie.
+ */
+
+import type { VerifiedIdentity } from "../auth/session-identity";
+
+export const ADMIN_CONSOLE_CLIENT_ID = "admin-console";
+
+const SESSION_COOKIE = "__Host-mcp-admin";
+const SESSION_TTL_SECONDS = 8 * 60 * 60; // 8 hours
+
+function getSessionId(request: Request): string | null {
+  const cookies = request.headers.get("Cookie")?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const [name, value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE && value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Start a session for a signed-in admin. Returns the Set-Cookie header value.
+ */
+export async function createAdminSession(kv: KVNamespace, identity: VerifiedIdentity): Promise<string> {
+  const sessionId = crypto.randomUUID();
+  await kv.put(`admin_session:${sessionId}`, JSON.stringify(identity), { expirationTtl: SESSION_TTL_SECONDS });
+
+  return `${SESSION_COOKIE}=${sessionId}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}`;
+}
+
+export async function getAdminSession(request: Request, kv: KVNamespace): Promise<VerifiedIdentity | null> {
+  const sessionId = getSessionId(request);
+  const stored = sessionId ? await kv.get(`admin_session:${sessionId}`) : null;
+  return stored ? (JSON.parse(stored) as VerifiedIdentity) : null;
+}
+
+/**
+ * End the browser's session. Returns the Set-Cookie header value that clears it.
+ */
+export async function endAdminSession(request: Request, kv: KVNamespace): Promise<string> {
+  const sessionId = getSessionId(request);
+  if (sessionId) {
+    await kv.delete(`admin_session:${sessionId}`);
+  }
+
+  return `${SESSION_COOKIE}=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0`;
+}
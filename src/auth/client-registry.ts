@@ -6,6 +6,8 @@
  * For now, we use a static configuration with environment variable overrides.
  */
 
+import { ALL_TOOLS_SCOPE, getAllToolScopes } from './tool-scopes';
+
 export interface RegisteredClient {
 	clientId: string;
 	clientName: string;
@@ -15,6 +17,9 @@ export interface RegisteredClient {
 	active: boolean;
 }
 
+// Dynamically registered clients are kept in KV for a year
+export const DYNAMIC_CLIENT_TTL_SECONDS = 31536000;
+
 // Default clients for development and testing
 const DEFAULT_CLIENTS: RegisteredClient[] = [
 	{
@@ -40,6 +45,7 @@ const DEFAULT_CLIENTS: RegisteredClient[] = [
 
 export class ClientRegistry {
 	private clients: Map<string, RegisteredClient>;
+	private preconfiguredClientIds: Set<string>;
 	private env: Env;
 
 	constructor(env: Env) {
@@ -62,6 +68,8 @@ export class ClientRegistry {
 				console.error('Failed to parse OAUTH_REGISTERED_CLIENTS:', error);
 			}
 		}
+
+		this.preconfiguredClientIds = new Set(this.clients.keys());
 	}
 
 	/**
@@ -156,9 +164,11 @@ export class ClientRegistry {
 			return { valid: false, error: 'Invalid client_id' };
 		}
 
-		// Check if all requested scopes are allowed
+		// Check if all requested scopes are allowed. Clients allowed every tool may
+		// also narrow their request to individual tool scopes.
+		const toolScopes = client.allowedScopes.includes(ALL_TOOLS_SCOPE) ? getAllToolScopes() : [];
 		const invalidScopes = requestedScopes.filter(scope => 
-			!client.allowedScopes.includes(scope)
+			!client.allowedScopes.includes(scope) && !toolScopes.includes(scope)
 		);
 
 		if (invalidScopes.length > 0) {
@@ -187,6 +197,68 @@ export class ClientRegistry {
 		return client || undefined;
 	}
 
+	/**
+	 * Whether a client was configured by the operator rather than registered dynamically.
+	 * Only dynamically registered clients need the user's explicit consent.
+	 */
+	isPreconfiguredClient(clientId: string): boolean {
+		return this.preconfiguredClientIds.has(clientId);
+	}
+
+	/**
+	 * Every known client: the preconfigured ones, then those registered dynamically
+	 */
+	async listClients(): Promise<Array<RegisteredClient & { preconfigured: boolean }>> {
+		const clients = Array.from(this.clients.values()).map(client => ({ ...client, preconfigured: true }));
+		
+		let cursor: string | undefined;
+		do {
+			const page = await this.env.OAUTH_KV.list({ prefix: 'oauth_client:', cursor });
+			for (const key of page.keys) {
+				const client = await this.getClientFromKVOrRegistry(key.name.slice('oauth_client:'.length));
+				if (client && !this.isPreconfiguredClient(client.clientId)) {
+					clients.push({ ...client, preconfigured: false });
+				}
+			}
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+		
+		return clients;
+	}
+
+	/**
+	 * Enable or disable a dynamically registered client. Preconfigured clients are
+	 * managed through OAUTH_REGISTERED_CLIENTS instead. Returns the updated client,
+	 * or null if there is no such dynamic client.
+	 */
+	async setClientActive(clientId: string, active: boolean): Promise<RegisteredClient | null> {
+		if (this.isPreconfiguredClient(clientId)) {
+			return null;
+		}
+		
+		const client = await this.getClientFromKVOrRegistry(clientId);
+		if (!client) {
+			return null;
+		}
+		
+		const updated = { ...client, active };
+		await this.env.OAUTH_KV.put(
+			`oauth_client:${clientId}`,
+			JSON.stringify(updated),
+			{ expirationTtl: DYNAMIC_CLIENT_TTL_SECONDS }
+		);
+		return updated;
+	}
+
+	/**
+	 * Whether tokens issued to a client may still be used. Only clients that were
+	 * explicitly disabled are refused.
+	 */
+	async isClientActive(clientId: string): Promise<boolean> {
+		const client = await this.getClientFromKVOrRegistry(clientId);
+		return client?.active ?? true;
+	}
+
 	/**
 	 * Register a new client dynamically (for future use)
 	 */
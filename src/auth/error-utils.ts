@@ -3,8 +3,6 @@
  * Standardizes error handling patterns across auth files
  */
 
-import { getAuthUrl } from "./provider-config";
-
 /**
  * Standard OAuth error response structure
  */
@@ -36,14 +34,13 @@ export function isOAuthError(data: any): data is OAuthErrorResponse {
  */
 export function createAuthRequiredResponse(
   provider: string,
-  baseUrl: string,
-  userId: string,
+  authUrl: string,
   customMessage?: string
 ): AuthRequiredResponse {
   return {
     requiresAuth: true,
     provider,
-    authUrl: getAuthUrl(provider, baseUrl, userId),
+    authUrl,
     message: customMessage || `Please authenticate with ${provider} to use this tool.`
   };
 }
@@ -53,13 +50,12 @@ export function createAuthRequiredResponse(
  */
 export function createTokenExpiredResponse(
   provider: string,
-  baseUrl: string,
-  userId: string
+  authUrl: string
 ): AuthRequiredResponse {
   return {
     requiresAuth: true,
     provider,
-    authUrl: getAuthUrl(provider, baseUrl, userId),
+    authUrl,
     message: `Token expired for ${provider}. Please re-authenticate.`
   };
 }
@@ -83,14 +79,13 @@ export function isTokenError(error: any): boolean {
 export function handleOAuthError(
   error: any,
   provider: string,
-  baseUrl: string,
-  userId: string,
+  authUrl: string,
   context?: string
 ): AuthRequiredResponse | never {
   console.error(`OAuth error for ${provider}${context ? ` in ${context}` : ''}:`, error);
   
   if (isTokenError(error)) {
-    return createTokenExpiredResponse(provider, baseUrl, userId);
+    return createTokenExpiredResponse(provider, authUrl);
   }
   
   // Re-throw non-token errors
@@ -0,0 +1,47 @@
+/**
+ * Google Workspace sign-in
+ *
+ * Plain OIDC against accounts.google.com. The account chooser is limited to the
+ * configured Workspace domain with `hd` and the ID token's `hd` claim must match,
+ * since the request parameter alone can be edited by the user. Without a domain
+ * nobody can sign in: any Google account, gmail.com included, would otherwise get in.
+ */
+
+import { OidcProvider } from './oidc';
+
+export const GOOGLE_ISSUER = 'https://accounts.google.com';
+
+export interface GoogleProviderConfig {
+	clientId: string;
+	clientSecret: string;
+	workspaceDomain?: string;
+}
+
+export function createGoogleProvider(config: GoogleProviderConfig): OidcProvider {
+	const domain = config.workspaceDomain?.toLowerCase();
+
+	return new OidcProvider({
+		id: 'google',
+		displayName: 'Google',
+		issuer: GOOGLE_ISSUER,
+		clientId: config.clientId,
+		clientSecret: config.clientSecret,
+		scopes: ['openid', 'email', 'profile'],
+		claimMapping: { tenantId: 'hd' },
+		authorizeParams: {
+			// Google only returns a refresh token for offline access
+			access_type: 'offline',
+			prompt: 'select_account',
+			...(domain ? { hd: domain } : {})
+		},
+		validateClaims: claims => {
+			if (!domain) {
+				return 'No Google Workspace domain is allowed to sign in; set GOOGLE_WORKSPACE_DOMAIN';
+			}
+			if (typeof claims.hd !== 'string' || claims.hd.toLowerCase() !== domain) {
+				return `Sign in with a ${domain} Google Workspace account`;
+			}
+			return null;
+		}
+	});
+}
@@ -0,0 +1,137 @@
+/**
+ * Identity provider registry
+ *
+ * A provider is available when its credentials are configured. The one used for
+ * a sign-in is, in order: the provider the user picked, the provider mapped to
+ * their email domain (IDP_EMAIL_DOMAINS), the only configured provider, or
+ * OAUTH_PROVIDER. When none of these decide, the authorize page asks the user.
+ */
+
+import { defaults } from '../../config/mcp.defaults';
+import { createGoogleProvider } from './google';
+import { MicrosoftProvider } from './microsoft';
+import { OidcProvider } from './oidc';
+import { createOktaProvider } from './okta';
+import type { IdentityProvider } from './types';
+
+export { IdentityProviderError } from './types';
+export type { IdentityProvider, UpstreamTokens, UpstreamUser } from './types';
+
+export type IdentityProviderEnv = Partial<Pick<Env,
+	| 'MICROSOFT_CLIENT_ID' | 'MICROSOFT_CLIENT_SECRET' | 'MICROSOFT_TENANT_ID' | 'MICROSOFT_ALLOWED_TENANTS'
+	| 'GOOGLE_CLIENT_ID' | 'GOOGLE_CLIENT_SECRET' | 'GOOGLE_WORKSPACE_DOMAIN'
+	| 'OKTA_DOMAIN' | 'OKTA_CLIENT_ID' | 'OKTA_CLIENT_SECRET' | 'OKTA_AUTHORIZATION_SERVER'
+	| 'OIDC_ISSUER' | 'OIDC_CLIENT_ID' | 'OIDC_CLIENT_SECRET' | 'OIDC_DISPLAY_NAME' | 'OIDC_SCOPES'
+	| 'OIDC_EMAIL_CLAIM' | 'OIDC_NAME_CLAIM' | 'OIDC_TENANT_CLAIM'
+	| 'IDP_EMAIL_DOMAINS' | 'OAUTH_PROVIDER'
+>>;
+
+/**
+ * Every provider with credentials configured, in the order they're offered to users
+ */
+export function getIdentityProviders(env: IdentityProviderEnv): IdentityProvider[] {
+	const providers: IdentityProvider[] = [];
+
+	if (env.MICROSOFT_CLIENT_ID && env.MICROSOFT_CLIENT_SECRET) {
+		providers.push(new MicrosoftProvider({
+			tenantId: env.MICROSOFT_TENANT_ID || 'common',
+			clientId: env.MICROSOFT_CLIENT_ID,
+			clientSecret: env.MICROSOFT_CLIENT_SECRET,
+			allowedTenants: env.MICROSOFT_ALLOWED_TENANTS?.split(/[\s,]+/).filter(Boolean)
+		}));
+	}
+
+	if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+		providers.push(createGoogleProvider({
+			clientId: env.GOOGLE_CLIENT_ID,
+			clientSecret: env.GOOGLE_CLIENT_SECRET,
+			workspaceDomain: env.GOOGLE_WORKSPACE_DOMAIN
+		}));
+	}
+
+	if (env.OKTA_DOMAIN && env.OKTA_CLIENT_ID && env.OKTA_CLIENT_SECRET) {
+		providers.push(createOktaProvider({
+			domain: env.OKTA_DOMAIN,
+			clientId: env.OKTA_CLIENT_ID,
+			clientSecret: env.OKTA_CLIENT_SECRET,
+			authorizationServer: env.OKTA_AUTHORIZATION_SERVER
+		}));
+	}
+
+	if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET) {
+		providers.push(new OidcProvider({
+			id: 'oidc',
+			displayName: env.OIDC_DISPLAY_NAME || 'Single sign-on',
+			issuer: env.OIDC_ISSUER,
+			clientId: env.OIDC_CLIENT_ID,
+			clientSecret: env.OIDC_CLIENT_SECRET,
+			scopes: env.OIDC_SCOPES ? env.OIDC_SCOPES.split(/[\s,]+/).filter(Boolean) : undefined,
+			claimMapping: {
+				email: env.OIDC_EMAIL_CLAIM,
+				name: env.OIDC_NAME_CLAIM,
+				tenantId: env.OIDC_TENANT_CLAIM
+			}
+		}));
+	}
+
+	return providers;
+}
+
+export function getIdentityProvider(env: IdentityProviderEnv, id: string): IdentityProvider | null {
+	return getIdentityProviders(env).find(provider => provider.id === id) ?? null;
+}
+
+/**
+ * Provider id used when a sign-in doesn't pick one
+ */
+export function getDefaultProviderId(env: IdentityProviderEnv): string {
+	return env.OAUTH_PROVIDER || defaults.oauth.provider;
+}
+
+/**
+ * Email domain → provider id map from IDP_EMAIL_DOMAINS
+ */
+function getEmailDomainMap(env: IdentityProviderEnv): Record<string, string> {
+	if (!env.IDP_EMAIL_DOMAINS) return {};
+
+	try {
+		const parsed = JSON.parse(env.IDP_EMAIL_DOMAINS) as Record<string, string>;
+		return Object.fromEntries(
+			Object.entries(parsed).map(([domain, id]) => [domain.toLowerCase(), id])
+		);
+	} catch (error) {
+		console.error('Invalid IDP_EMAIL_DOMAINS:', error);
+		return {};
+	}
+}
+
+export interface IdentityProviderHint {
+	// Provider the user picked
+	idp?: string | null;
+	// Email the user entered, matched against IDP_EMAIL_DOMAINS
+	email?: string | null;
+}
+
+/**
+ * Pick the provider for a sign-in, or null when the user has to choose
+ */
+export function selectIdentityProvider(env: IdentityProviderEnv, hint: IdentityProviderHint = {}): IdentityProvider | null {
+	const providers = getIdentityProviders(env);
+	const byId = (id: string | undefined) => providers.find(provider => provider.id === id) ?? null;
+
+	if (hint.idp) {
+		return byId(hint.idp);
+	}
+
+	const domain = hint.email?.split('@')[1]?.trim().toLowerCase();
+	if (domain) {
+		const mapped = byId(getEmailDomainMap(env)[domain]);
+		if (mapped) return mapped;
+	}
+
+	if (providers.length === 1) {
+		return providers[0];
+	}
+
+	return env.OAUTH_PROVIDER ? byId(env.OAUTH_PROVIDER) : null;
+}
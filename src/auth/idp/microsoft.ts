@@ -0,0 +1,198 @@
+/**
+ * Microsoft Entra ID sign-in
+ *
+ * The ID token is verified against Microsoft's JWKS (signature, issuer for the
+ * token's tenant, audience, nonce) and its tenant checked against the allowlist.
+ * The profile still comes from Graph `/me` so user ids stay stable, bound to the
+ * token by object id. Group ids and app roles come from the `groups` and
+ * `roles` claims, or from Graph when the user has too many groups to fit in
+ * the token.
+ */
+
+import { decodeJwtPayload } from '../jwt';
+import { discover, requestTokens, verifyIdToken, type IdTokenClaims } from './oidc';
+import {
+	IdentityProviderError,
+	type AuthorizeUrlParams,
+	type IdentityProvider,
+	type UpstreamTokens,
+	type UpstreamUser
+} from './types';
+
+const MICROSOFT_SCOPES = 'openid profile email User.Read offline_access';
+const LOGIN_HOST = 'https://login.microsoftonline.com';
+
+// Authorities that accept accounts from any tenant
+const MULTI_TENANT_AUTHORITIES = new Set(['common', 'organizations', 'consumers']);
+
+export interface MicrosoftProviderConfig {
+	tenantId: string;
+	clientId: string;
+	clientSecret: string;
+	// Tenant ids allowed to sign in. Required for multi-tenant authorities; a
+	// single-tenant authority only issues tokens for its own tenant.
+	allowedTenants?: string[];
+}
+
+type MicrosoftIdTokenClaims = IdTokenClaims & {
+	tid: string;
+	oid?: string;
+	groups?: string[];
+	roles?: string[];
+	// Present instead of `groups` when the user is in too many groups (group overage)
+	_claim_names?: { groups?: string };
+	hasgroups?: boolean;
+};
+
+export class MicrosoftProvider implements IdentityProvider {
+	readonly id = 'microsoft';
+	readonly displayName = 'Microsoft';
+
+	constructor(private config: MicrosoftProviderConfig) {}
+
+	private get endpoint(): string {
+		return `${LOGIN_HOST}/${this.config.tenantId}/oauth2/v2.0`;
+	}
+
+	async getAuthorizeUrl(params: AuthorizeUrlParams): Promise<string> {
+		const url = new URL(`${this.endpoint}/authorize`);
+		url.searchParams.set('client_id', this.config.clientId);
+		url.searchParams.set('response_type', 'code');
+		url.searchParams.set('redirect_uri', params.redirectUri);
+		url.searchParams.set('scope', MICROSOFT_SCOPES);
+		url.searchParams.set('state', params.state);
+		url.searchParams.set('nonce', params.nonce);
+		url.searchParams.set('code_challenge', params.codeChallenge);
+		url.searchParams.set('code_challenge_method', 'S256');
+		if (params.loginHint) {
+			url.searchParams.set('login_hint', params.loginHint);
+		} else {
+			url.searchParams.set('prompt', 'select_account');
+		}
+
+		return url.toString();
+	}
+
+	async exchangeCode(code: string, codeVerifier: string, redirectUri: string): Promise<UpstreamTokens> {
+		return requestTokens(`${this.endpoint}/token`, {
+			client_id: this.config.clientId,
+			client_secret: this.config.clientSecret,
+			code,
+			code_verifier: codeVerifier,
+			grant_type: 'authorization_code',
+			redirect_uri: redirectUri,
+			scope: MICROSOFT_SCOPES
+		}, this.id);
+	}
+
+	async getUser(tokens: UpstreamTokens, nonce: string): Promise<UpstreamUser> {
+		const claims = await this.verifyIdToken(tokens, nonce);
+		this.checkTenant(claims.tid);
+
+		const profile = await this.graph<{
+			id: string;
+			mail?: string | null;
+			userPrincipalName: string;
+			displayName?: string;
+		}>(tokens.access_token, '/me');
+
+		if (claims.oid && profile.id !== claims.oid) {
+			throw new IdentityProviderError('Graph profile does not belong to the signed-in user', this.id);
+		}
+		const email = profile.mail || profile.userPrincipalName;
+
+		return {
+			subject: claims.oid ?? claims.sub,
+			email,
+			name: profile.displayName || email,
+			tenantId: claims.tid,
+			groups: await this.getGroups(tokens.access_token, claims),
+			roles: claims.roles ?? []
+		};
+	}
+
+	async refresh(refreshToken: string): Promise<UpstreamTokens> {
+		return requestTokens(`${this.endpoint}/token`, {
+			client_id: this.config.clientId,
+			client_secret: this.config.clientSecret,
+			refresh_token: refreshToken,
+			grant_type: 'refresh_token',
+			scope: MICROSOFT_SCOPES
+		}, this.id);
+	}
+
+	private async verifyIdToken(tokens: UpstreamTokens, nonce: string): Promise<MicrosoftIdTokenClaims> {
+		if (!tokens.id_token) {
+			throw new IdentityProviderError('Token response did not include an ID token', this.id);
+		}
+
+		// Multi-tenant discovery documents name a templated issuer, so the expected
+		// issuer is built from the token's tenant and then checked with its signature
+		const tid = decodeJwtPayload<{ tid?: string }>(tokens.id_token)?.tid;
+		if (!tid) {
+			throw new IdentityProviderError('Invalid ID token: missing tenant', this.id);
+		}
+
+		const { jwks_uri } = await discover(
+			`${LOGIN_HOST}/${this.config.tenantId}/v2.0`,
+			issuer => issuer.startsWith(`${LOGIN_HOST}/`) && issuer.endsWith('/v2.0')
+		);
+
+		return await verifyIdToken(tokens.id_token, jwks_uri, {
+			issuer: `${LOGIN_HOST}/${tid}/v2.0`,
+			audience: this.config.clientId,
+			nonce
+		}) as MicrosoftIdTokenClaims;
+	}
+
+	private checkTenant(tid: string): void {
+		const allowed = (this.config.allowedTenants ?? []).map(tenant => tenant.toLowerCase());
+
+		if (allowed.length > 0) {
+			if (!allowed.includes(tid.toLowerCase())) {
+				throw new IdentityProviderError(`Tenant ${tid} is not allowed to sign in`, this.id);
+			}
+			return;
+		}
+
+		if (MULTI_TENANT_AUTHORITIES.has(this.config.tenantId.toLowerCase())) {
+			throw new IdentityProviderError('No tenants are allowed to sign in; set MICROSOFT_ALLOWED_TENANTS', this.id);
+		}
+	}
+
+	/**
+	 * Group ids from the token, or from Graph on group overage. Sign-in fails
+	 * rather than continuing without groups, which rules may depend on.
+	 */
+	private async getGroups(accessToken: string, claims: MicrosoftIdTokenClaims): Promise<string[]> {
+		if (claims.groups) {
+			return claims.groups;
+		}
+		if (!claims._claim_names?.groups && !claims.hasgroups) {
+			return [];
+		}
+
+		const { value } = await this.graph<{ value: string[] }>(accessToken, '/me/getMemberGroups', {
+			securityEnabledOnly: false
+		});
+		return value;
+	}
+
+	private async graph<T>(accessToken: string, path: string, body?: unknown): Promise<T> {
+		const response = await fetch(`https://graph.microsoft.com/v1.0${path}`, {
+			method: body ? 'POST' : 'GET',
+			headers: {
+				'Authorization': `Bearer ${accessToken}`,
+				'Accept': 'application/json',
+				...(body ? { 'Content-Type': 'application/json' } : {})
+			},
+			body: body ? JSON.stringify(body) : undefined
+		});
+
+		if (!response.ok) {
+			throw new IdentityProviderError(`Microsoft Graph ${path} failed with status ${response.status}`, this.id);
+		}
+
+		return await response.json() as T;
+	}
+}
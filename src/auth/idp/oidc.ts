@@ -0,0 +1,313 @@
+/**
+ * Generic OpenID Connect identity provider
+ *
+ * Endpoints come from the issuer's discovery document. The ID token returned at
+ * sign-in is verified against the issuer's JWKS (signature, iss, aud, exp, nonce)
+ * and its claims are mapped to a user. Discovery documents and key sets are
+ * cached per isolate; an unknown `kid` triggers one JWKS refetch so key
+ * rotation at the provider is picked up without a deploy.
+ */
+
+import { JWT_ALGORITHMS, decodeJwtHeader, verifyJwtSignature, type JwtAlgorithm } from '../jwt';
+import {
+	IdentityProviderError,
+	type AuthorizeUrlParams,
+	type IdentityProvider,
+	type UpstreamTokens,
+	type UpstreamUser
+} from './types';
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const CLOCK_SKEW_SECONDS = 300;
+
+export interface OidcDiscoveryDocument {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	jwks_uri: string;
+	userinfo_endpoint?: string;
+}
+
+export type IdTokenClaims = Record<string, unknown> & {
+	iss: string;
+	sub: string;
+	aud: string | string[];
+	exp: number;
+	iat?: number;
+	nonce?: string;
+	azp?: string;
+};
+
+/**
+ * Claim names to read each user field from
+ */
+export interface OidcClaimMapping {
+	subject?: string;
+	email?: string;
+	name?: string;
+	tenantId?: string;
+}
+
+export interface OidcProviderConfig {
+	id: string;
+	displayName: string;
+	issuer: string;
+	clientId: string;
+	clientSecret: string;
+	scopes?: string[];
+	claimMapping?: OidcClaimMapping;
+	// Extra authorization request parameters (e.g. Google's `hd`)
+	authorizeParams?: Record<string, string>;
+	// Provider-specific checks on verified claims; returns an error message to reject the sign-in
+	validateClaims?: (claims: IdTokenClaims) => string | null;
+}
+
+export interface IdTokenExpectations {
+	issuer: string;
+	audience: string;
+	nonce: string;
+}
+
+interface CachedJwks {
+	keys: JsonWebKey[];
+	loadedAt: number;
+}
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; loadedAt: number }>();
+const jwksCache = new Map<string, CachedJwks>();
+
+/**
+ * Fetch (or reuse) the issuer's discovery document. Multi-tenant issuers whose
+ * document names a templated issuer pass their own check.
+ */
+export async function discover(
+	issuer: string,
+	acceptIssuer: (documentIssuer: string) => boolean = documentIssuer => documentIssuer === issuer
+): Promise<OidcDiscoveryDocument> {
+	const cached = discoveryCache.get(issuer);
+	if (cached && Date.now() - cached.loadedAt < DISCOVERY_CACHE_TTL_MS) {
+		return cached.document;
+	}
+
+	const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, {
+		headers: { 'Accept': 'application/json' }
+	});
+	if (!response.ok) {
+		throw new IdentityProviderError(`OIDC discovery failed with status ${response.status}`, issuer);
+	}
+
+	const document = await response.json() as OidcDiscoveryDocument;
+	// OIDC Discovery §4.3: the document must be for the issuer we asked about
+	if (!acceptIssuer(document.issuer)) {
+		throw new IdentityProviderError(`Discovery document issuer ${document.issuer} does not match ${issuer}`, issuer);
+	}
+
+	discoveryCache.set(issuer, { document, loadedAt: Date.now() });
+	return document;
+}
+
+async function loadJwks(jwksUri: string, forceRefresh = false): Promise<JsonWebKey[]> {
+	const cached = jwksCache.get(jwksUri);
+	if (!forceRefresh && cached && Date.now() - cached.loadedAt < JWKS_CACHE_TTL_MS) {
+		return cached.keys;
+	}
+
+	const response = await fetch(jwksUri, { headers: { 'Accept': 'application/json' } });
+	if (!response.ok) {
+		throw new IdentityProviderError(`JWKS fetch failed with status ${response.status}`, jwksUri);
+	}
+
+	const { keys } = await response.json() as { keys: JsonWebKey[] };
+	jwksCache.set(jwksUri, { keys, loadedAt: Date.now() });
+	return keys;
+}
+
+/**
+ * Find the signing key for a token, refetching the JWKS once if the kid is unknown
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined): Promise<JsonWebKey | null> {
+	const matches = (keys: JsonWebKey[]) =>
+		keys.find(key => (key as { kid?: string }).kid === kid && key.use !== 'enc') ?? null;
+
+	return matches(await loadJwks(jwksUri)) ?? matches(await loadJwks(jwksUri, true));
+}
+
+/**
+ * Verify an ID token (OIDC Core §3.1.3.7) and return its claims
+ */
+export async function verifyIdToken(
+	idToken: string,
+	jwksUri: string,
+	expected: IdTokenExpectations
+): Promise<IdTokenClaims> {
+	const fail = (reason: string): never => {
+		throw new IdentityProviderError(`Invalid ID token: ${reason}`, expected.issuer);
+	};
+
+	const header = decodeJwtHeader(idToken);
+	if (!header) fail('unsupported or missing algorithm');
+
+	const jwk = await findSigningKey(jwksUri, header!.kid);
+	if (!jwk) fail('signing key not found');
+
+	const alg: JwtAlgorithm = header!.alg;
+	if ((jwk!.kty === 'RSA') !== (alg === 'RS256') || (jwk!.alg && jwk!.alg !== alg)) {
+		fail('algorithm does not match the signing key');
+	}
+
+	const publicKey = await crypto.subtle.importKey('jwk', jwk!, JWT_ALGORITHMS[alg].import, false, ['verify']);
+	const claims = await verifyJwtSignature<IdTokenClaims>(idToken, { alg, publicKey });
+	if (!claims) fail('signature verification failed');
+
+	checkIdTokenClaims(claims!, expected);
+	return claims!;
+}
+
+/**
+ * Issuer, audience, lifetime and nonce checks for an already signature-checked ID token
+ */
+export function checkIdTokenClaims(claims: IdTokenClaims, expected: IdTokenExpectations): void {
+	const fail = (reason: string): never => {
+		throw new IdentityProviderError(`Invalid ID token: ${reason}`, expected.issuer);
+	};
+	const now = Math.floor(Date.now() / 1000);
+
+	if (claims.iss !== expected.issuer) fail('issuer mismatch');
+
+	const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+	if (!audiences.includes(expected.audience)) fail('audience mismatch');
+	if (audiences.length > 1 && claims.azp !== expected.audience) fail('authorized party mismatch');
+
+	if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= now) fail('token expired');
+	if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) fail('issued in the future');
+	if (!claims.sub) fail('missing subject');
+
+	if (claims.nonce !== expected.nonce) fail('nonce mismatch');
+}
+
+/**
+ * Map verified claims to a user
+ */
+export function mapClaims(claims: IdTokenClaims, mapping: OidcClaimMapping = {}): UpstreamUser {
+	const read = (name: string | undefined) => {
+		const value = name ? claims[name] : undefined;
+		return typeof value === 'string' ? value : undefined;
+	};
+
+	const email = read(mapping.email ?? 'email');
+	if (!email) {
+		throw new IdentityProviderError('ID token has no email claim', claims.iss);
+	}
+	if (claims.email_verified === false) {
+		throw new IdentityProviderError('Email address is not verified', claims.iss);
+	}
+
+	return {
+		subject: read(mapping.subject ?? 'sub')!,
+		email,
+		name: read(mapping.name ?? 'name') ?? email,
+		tenantId: read(mapping.tenantId)
+	};
+}
+
+/**
+ * POST a form to a token endpoint and return the token response
+ */
+export async function requestTokens(
+	tokenEndpoint: string,
+	params: Record<string, string>,
+	provider: string
+): Promise<UpstreamTokens> {
+	const response = await fetch(tokenEndpoint, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			'Accept': 'application/json'
+		},
+		body: new URLSearchParams(params).toString()
+	});
+
+	if (!response.ok) {
+		console.error(`${provider} token request failed:`, response.status, await response.text());
+		throw new IdentityProviderError(`Token request failed with status ${response.status}`, provider);
+	}
+
+	return await response.json() as UpstreamTokens;
+}
+
+export class OidcProvider implements IdentityProvider {
+	readonly id: string;
+	readonly displayName: string;
+
+	constructor(private config: OidcProviderConfig) {
+		this.id = config.id;
+		this.displayName = config.displayName;
+	}
+
+	async getAuthorizeUrl(params: AuthorizeUrlParams): Promise<string> {
+		const { authorization_endpoint } = await discover(this.config.issuer);
+
+		const url = new URL(authorization_endpoint);
+		url.searchParams.set('client_id', this.config.clientId);
+		url.searchParams.set('response_type', 'code');
+		url.searchParams.set('redirect_uri', params.redirectUri);
+		url.searchParams.set('scope', (this.config.scopes ?? ['openid', 'email', 'profile']).join(' '));
+		url.searchParams.set('state', params.state);
+		url.searchParams.set('nonce', params.nonce);
+		url.searchParams.set('code_challenge', params.codeChallenge);
+		url.searchParams.set('code_challenge_method', 'S256');
+		if (params.loginHint) {
+			url.searchParams.set('login_hint', params.loginHint);
+		}
+		for (const [name, value] of Object.entries(this.config.authorizeParams ?? {})) {
+			url.searchParams.set(name, value);
+		}
+
+		return url.toString();
+	}
+
+	async exchangeCode(code: string, codeVerifier: string, redirectUri: string): Promise<UpstreamTokens> {
+		const { token_endpoint } = await discover(this.config.issuer);
+
+		return requestTokens(token_endpoint, {
+			grant_type: 'authorization_code',
+			client_id: this.config.clientId,
+			client_secret: this.config.clientSecret,
+			code,
+			code_verifier: codeVerifier,
+			redirect_uri: redirectUri
+		}, this.id);
+	}
+
+	async getUser(tokens: UpstreamTokens, nonce: string): Promise<UpstreamUser> {
+		if (!tokens.id_token) {
+			throw new IdentityProviderError('Token response did not include an ID token', this.id);
+		}
+
+		const { jwks_uri } = await discover(this.config.issuer);
+		const claims = await verifyIdToken(tokens.id_token, jwks_uri, {
+			issuer: this.config.issuer,
+			audience: this.config.clientId,
+			nonce
+		});
+
+		const rejection = this.config.validateClaims?.(claims);
+		if (rejection) {
+			throw new IdentityProviderError(rejection, this.id);
+		}
+
+		return mapClaims(claims, this.config.claimMapping);
+	}
+
+	async refresh(refreshToken: string): Promise<UpstreamTokens> {
+		const { token_endpoint } = await discover(this.config.issuer);
+
+		return requestTokens(token_endpoint, {
+			grant_type: 'refresh_token',
+			client_id: this.config.clientId,
+			client_secret: this.config.clientSecret,
+			refresh_token: refreshToken
+		}, this.id);
+	}
+}
@@ -0,0 +1,30 @@
+/**
+ * Okta sign-in through an Okta authorization server
+ */
+
+import { OidcProvider } from './oidc';
+
+export interface OktaProviderConfig {
+	// Okta org domain, e.g. example.okta.com
+	domain: string;
+	clientId: string;
+	clientSecret: string;
+	// Custom authorization server id; the org's "default" server when omitted
+	authorizationServer?: string;
+}
+
+export function oktaIssuer(domain: string, authorizationServer = 'default'): string {
+	const host = domain.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+	return `https://${host}/oauth2/${authorizationServer}`;
+}
+
+export function createOktaProvider(config: OktaProviderConfig): OidcProvider {
+	return new OidcProvider({
+		id: 'okta',
+		displayName: 'Okta',
+		issuer: oktaIssuer(config.domain, config.authorizationServer),
+		clientId: config.clientId,
+		clientSecret: config.clientSecret,
+		scopes: ['openid', 'email', 'profile', 'offline_access']
+	});
+}
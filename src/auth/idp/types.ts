@@ -0,0 +1,63 @@
+/**
+ * Upstream identity providers users sign in with before we issue MCP tokens
+ */
+
+/**
+ * Token endpoint response from an upstream identity provider
+ */
+export interface UpstreamTokens {
+	access_token: string;
+	refresh_token?: string;
+	expires_in?: number;
+	id_token?: string;
+	token_type?: string;
+}
+
+/**
+ * The signed-in user, mapped from the provider's claims
+ */
+export interface UpstreamUser {
+	// Stable identifier at the provider (the `sub` claim for OIDC)
+	subject: string;
+	email: string;
+	name: string;
+	tenantId?: string;
+	// Directory group ids and application roles, where the provider reports them
+	groups?: string[];
+	roles?: string[];
+}
+
+export interface AuthorizeUrlParams {
+	redirectUri: string;
+	state: string;
+	nonce: string;
+	codeChallenge: string;
+	loginHint?: string;
+}
+
+export interface IdentityProvider {
+	readonly id: string;
+	readonly displayName: string;
+
+	getAuthorizeUrl(params: AuthorizeUrlParams): Promise<string>;
+
+	exchangeCode(code: string, codeVerifier: string, redirectUri: string): Promise<UpstreamTokens>;
+
+	/**
+	 * Validate the sign-in result and map it to a user. The nonce is the one sent
+	 * in the authorization request.
+	 */
+	getUser(tokens: UpstreamTokens, nonce: string): Promise<UpstreamUser>;
+
+	refresh(refreshToken: string): Promise<UpstreamTokens>;
+}
+
+/**
+ * Sign-in failed at or after the upstream provider (bad token, claim mismatch, ...)
+ */
+export class IdentityProviderError extends Error {
+	constructor(message: string, public readonly provider: string) {
+		super(message);
+		this.name = 'IdentityProviderError';
+	}
+}
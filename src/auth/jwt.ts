@@ -0,0 +1,167 @@
+/**
+ * Minimal JWS compact serialization for access tokens (RFC 7515 / RFC 9068)
+ *
+ * Only the two algorithms we issue are supported. ES256 signatures from WebCrypto
+ * are already in the raw r||s form JWS expects, so no DER conversion is needed.
+ */
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtHeader {
+	alg: JwtAlgorithm;
+	typ?: string;
+	kid?: string;
+}
+
+export interface AccessTokenClaims {
+	iss: string;
+	sub: string;
+	aud: string;
+	client_id: string;
+	scope: string;
+	exp: number;
+	iat: number;
+	jti: string;
+	email?: string;
+	name?: string;
+	tid?: string;
+	groups?: string[];
+	roles?: string[];
+}
+
+export const JWT_ALGORITHMS: Record<JwtAlgorithm, { generate: SubtleCryptoGenerateKeyAlgorithm; import: SubtleCryptoImportKeyAlgorithm; sign: SubtleCryptoSignAlgorithm }> = {
+	RS256: {
+		generate: { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+		import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+		sign: { name: 'RSASSA-PKCS1-v1_5' }
+	},
+	ES256: {
+		generate: { name: 'ECDSA', namedCurve: 'P-256' },
+		import: { name: 'ECDSA', namedCurve: 'P-256' },
+		sign: { name: 'ECDSA', hash: 'SHA-256' }
+	}
+};
+
+export function isJwtAlgorithm(value: unknown): value is JwtAlgorithm {
+	return value === 'RS256' || value === 'ES256';
+}
+
+/**
+ * Cheap shape check used to route a bearer token to JWT or opaque validation
+ */
+export function looksLikeJwt(token: string): boolean {
+	return token.split('.').length === 3;
+}
+
+export function base64UrlEncode(data: Uint8Array | string): string {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+	const binary = atob(base64);
+	return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Sign a claim set with the given private key
+ */
+export async function signJwt(
+	claims: object,
+	key: { kid: string; alg: JwtAlgorithm; privateKey: CryptoKey },
+	typ: string = 'at+jwt'
+): Promise<string> {
+	const header: JwtHeader = { alg: key.alg, typ, kid: key.kid };
+	const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+
+	const signature = await crypto.subtle.sign(
+		JWT_ALGORITHMS[key.alg].sign,
+		key.privateKey,
+		new TextEncoder().encode(signingInput)
+	);
+
+	return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Decode the protected header without verifying anything
+ */
+export function decodeJwtHeader(token: string): JwtHeader | null {
+	try {
+		const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[0])));
+		return isJwtAlgorithm(header?.alg) ? header : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read a JWT's claims without checking its signature. Only for tokens received
+ * directly from an issuer's token endpoint over TLS.
+ */
+export function decodeJwtPayload<T = Record<string, unknown>>(token: string): T | null {
+	try {
+		return JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[1]))) as T;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Verify a JWT's signature and return its claims, or null. Claims are not checked.
+ *
+ * The algorithm is taken from the key rather than the token header so a token
+ * cannot downgrade verification (e.g. alg "none" or HS256 with a public key).
+ */
+export async function verifyJwtSignature<T = Record<string, unknown>>(
+	token: string,
+	key: { alg: JwtAlgorithm; publicKey: CryptoKey }
+): Promise<T | null> {
+	const parts = token.split('.');
+	if (parts.length !== 3) return null;
+
+	const header = decodeJwtHeader(token);
+	if (!header || header.alg !== key.alg) return null;
+
+	let valid: boolean;
+	try {
+		valid = await crypto.subtle.verify(
+			JWT_ALGORITHMS[key.alg].sign,
+			key.publicKey,
+			base64UrlDecode(parts[2]),
+			new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+		);
+	} catch {
+		return null;
+	}
+	if (!valid) return null;
+
+	try {
+		return JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1]))) as T;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Verify signature, expiry, issuer and audience; returns the claims or null
+ */
+export async function verifyJwt(
+	token: string,
+	key: { alg: JwtAlgorithm; publicKey: CryptoKey },
+	expected: { issuer: string; audience: string }
+): Promise<AccessTokenClaims | null> {
+	const claims = await verifyJwtSignature<AccessTokenClaims>(token, key);
+	if (!claims) return null;
+
+	const now = Math.floor(Date.now() / 1000);
+	if (typeof claims.exp !== 'number' || claims.exp <= now) return null;
+	if (claims.iss !== expected.issuer || claims.aud !== expected.audience) return null;
+
+	return claims;
+}
@@ -7,30 +7,47 @@
  * 1. Redirect to provider's authorization endpoint
  * 2. Handle the callback with authorization code
  * 3. Exchange code for access/refresh tokens
- * 4. Store tokens in D1 database
+ * 4. Store encrypted tokens in D1 database
  */
 
 import { createRepositories } from "../db/operations";
-import { Provider } from "../types";
 import type { MCPConfig } from "../config/mcp.defaults";
-import { extractUserContext, type UserContext } from "../middleware/user-context";
-import { getProviderConfig, buildAuthUrl, generateState, validateState } from "./provider-config";
+import {
+  getProviderConfig,
+  buildAuthUrl,
+  consumeConnectTicket,
+  createPkcePair,
+  generateState,
+  peekConnectTicket,
+  providerSupportsPkce,
+  validateState
+} from "./provider-config";
+import { EncryptedTokenStorage } from "./token-encryption";
 import type { OAuthTokenResponse } from "./types";
 
-/**
- * Set user session cookie in response
- */
-function setUserSessionCookie(response: Response, sessionId: string): Response {
-  const newResponse = new Response(response.body, response);
-  newResponse.headers.append("Set-Cookie", 
-    `user_session=${sessionId}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${24 * 60 * 60}`
-  );
-  return newResponse;
+const CONNECT_COOKIE = "__Host-mcp-connect";
+const CONNECT_COOKIE_MAX_AGE_SECONDS = 600; // 10 minutes, the ticket's lifetime
+
+function getConnectCookie(request: Request): string | null {
+  const cookies = request.headers.get("Cookie")?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const [name, value] = cookie.trim().split("=");
+    if (name === CONNECT_COOKIE && value) {
+      return value;
+    }
+  }
+  return null;
 }
 
 /**
  * Handle OAuth authorization request - redirect to provider
- * User ID should be passed as a query parameter from the MCP tool
+ * The connect ticket minted by the MCP tool identifies the user
+ *
+ * Opening the link (GET) only shows which MCP account the provider will be linked
+ * to and stores the ticket in a SameSite=Strict cookie. The confirmation form
+ * POSTs back here, and only then is the ticket redeemed from that cookie. A link
+ * forwarded to someone else therefore can't connect their account silently,
+ * and a cross-site form post never carries the cookie.
  */
 export async function handleOAuthAuthorize(
   provider: string,
@@ -39,67 +56,91 @@ export async function handleOAuthAuthorize(
   config: MCPConfig
 ): Promise<Response> {
   try {
-    // Extract user ID from query parameters (passed by MCP tool)
-    const url = new URL(request.url);
-    const userId = url.searchParams.get("user_id");
+    if (request.method !== "POST") {
+      return await showConnectConfirmation(provider, request, env);
+    }
+
+    const ticket = getConnectCookie(request);
+    const userId = ticket ? await consumeConnectTicket(env.OAUTH_KV, ticket, provider) : null;
     
     if (!userId) {
-      return new Response(JSON.stringify({
-        error: "missing_user_id",
-        error_description: "user_id parameter is required for OAuth authorization"
-      }), { 
-        status: 400,
-        headers: { 
-          "Content-Type": "application/json"
-        }
-      });
+      return errorPageResponse(
+        provider,
+        "This connection link is invalid or has expired. Run the tool again from your MCP client to get a new link."
+      );
     }
 
-    const state = generateState(userId, provider);
+    const pkce = providerSupportsPkce(provider) ? await createPkcePair() : undefined;
+    const state = await generateState(env.OAUTH_KV, userId, provider, pkce?.codeVerifier);
     
-    console.log(`🔍 OAuth authorize for ${provider}, user: ${userId} (from query param)`);
-    console.log(`🔍 State generated with userId:`, userId);
+    console.log(`🔍 OAuth authorize for ${provider}, user: ${userId} (from connect ticket)`);
 
-    const ip_address = (request.cf?.connecting_ip as string) || 'unknown';
+    const ip_address = request.headers.get("CF-Connecting-IP") || 'unknown';
     const user_agent = request.headers.get('User-Agent') || 'unknown';
 
-    // Store state in database for validation (skip audit for anonymous users)
     const repositories = createRepositories(env.MCP_DB);
-    if (userId !== "anonymous") {
-      try {
-        await repositories.auditLogs.create({
-          user_id: userId,
-          event_type: "auth_grant",
-          provider,
-          metadata: { 
-            state, 
-            step: "authorize_start",
-            user_source: "oauth_url_param"
-          },
-          ip_address,
-          user_agent
-        });
-        console.log(`✅ Audit log created for ${userId}:${provider}`);
-      } catch (auditError) {
-        console.error(`❌ Audit log creation failed for ${userId}:${provider}:`, auditError);
-        // Continue with OAuth flow even if audit logging fails
-      }
+    try {
+      await repositories.auditLogs.create({
+        user_id: userId,
+        event_type: "auth_grant",
+        provider,
+        metadata: { 
+          step: "authorize_start",
+          user_source: "connect_ticket"
+        },
+        ip_address,
+        user_agent
+      });
+    } catch (auditError) {
+      console.error(`❌ Audit log creation failed for ${userId}:${provider}:`, auditError);
+      // Continue with OAuth flow even if audit logging fails
     }
 
     const providerConfig = getProviderConfig(provider, config);
-    const authUrl = buildAuthUrl(provider, providerConfig, state, request.url);
+    const authUrl = buildAuthUrl(provider, providerConfig, state, request.url, pkce?.codeChallenge);
 
-    return Response.redirect(authUrl);
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: authUrl,
+        "Set-Cookie": `${CONNECT_COOKIE}=; HttpOnly; Secure; Path=/; SameSite=Strict; Max-Age=0`
+      }
+    });
     
   } catch (error) {
     console.error(`OAuth authorize error for ${provider}:`, error);
     const message = error instanceof Error ? error.message : String(error);
-    return new Response(`OAuth error: ${message}`, { status: 400 });
+    return errorPageResponse(provider, message);
   }
 }
 
 /**
- * Handle OAuth callback - exchange code for tokens
+ * Confirmation page for a connect link; the ticket is left unspent
+ */
+async function showConnectConfirmation(provider: string, request: Request, env: Env): Promise<Response> {
+  const ticket = new URL(request.url).searchParams.get("ticket");
+  const userId = ticket ? await peekConnectTicket(env.OAUTH_KV, ticket, provider) : null;
+
+  if (!ticket || !userId) {
+    return errorPageResponse(
+      provider,
+      "This connection link is invalid or has expired. Run the tool again from your MCP client to get a new link."
+    );
+  }
+
+  const session = await createRepositories(env.MCP_DB).userSessions.findByUserId(userId);
+
+  return new Response(createConfirmPage(provider, session?.email || userId), {
+    headers: {
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": `${CONNECT_COOKIE}=${ticket}; HttpOnly; Secure; Path=/; SameSite=Strict; Max-Age=${CONNECT_COOKIE_MAX_AGE_SECONDS}`
+    }
+  });
+}
+
+/**
+ * Handle OAuth callback - exchange code for tokens and store them encrypted
  */
 export async function handleOAuthCallback(
   provider: string,
@@ -122,87 +163,75 @@ export async function handleOAuthCallback(
     const error = url.searchParams.get("error");
 
     if (error) {
-      return new Response(`OAuth error: ${error}`, { status: 400 });
+      const description = url.searchParams.get("error_description");
+      return errorPageResponse(provider, `The provider returned an error: ${description || error}`);
     }
 
     if (!code || !state) {
-      return new Response("Missing code or state parameter", { status: 400 });
+      return errorPageResponse(provider, "Missing code or state parameter");
     }
 
-    // Validate state and extract user ID
-    const { userId, isValid } = validateState(state, provider);
+    // Validate and consume state, recovering the user ID and PKCE verifier
+    const { userId, codeVerifier, isValid } = await validateState(env.OAUTH_KV, state, provider);
     
     console.log(`🔍 OAuth callback for ${provider}, extracted userId from state: ${userId}, isValid: ${isValid}`);
     
     if (!isValid) {
-      return new Response("Invalid state parameter", { status: 400 });
+      return errorPageResponse(provider, "Invalid or expired state parameter. Please start the connection again.");
     }
 
+    // Fail before the code is spent if we couldn't store the result
+    const tokenStorage = new EncryptedTokenStorage(env.COOKIE_ENCRYPTION_KEY);
+
     // Exchange authorization code for tokens
     const providerConfig = getProviderConfig(provider, config);
     const tokens = await exchangeCodeForTokens(
       provider,
       code,
       providerConfig,
-      request.url
+      request.url,
+      codeVerifier
     );
 
-    // Store tokens in database (only for real users, not anonymous)
-    console.log(`Storing tokens for user ${userId}, provider ${provider}`);
-    const repositories = createRepositories(env.MCP_DB);
-    if (userId !== "anonymous") {
-      try {
-        await repositories.toolCredentials.create({
-          user_id: userId,
-          provider,
-          access_token: tokens.access_token,
-          refresh_token: tokens.refresh_token,
-          expires_at: tokens.expires_in 
-            ? Math.floor(Date.now() / 1000) + tokens.expires_in
-            : undefined,
-          scopes: tokens.scope ? tokens.scope.split(' ') : undefined,
-        });
-        console.log(`✅ Tokens stored successfully for ${userId}:${provider}`);
-      } catch (dbError) {
-        console.error(`❌ Failed to store tokens for ${userId}:${provider}:`, dbError);
-        throw dbError;
-      }
-    } else {
-      console.log(`⚠️ Skipping token storage for anonymous user`);
-    }
+    await tokenStorage.store(
+      env.MCP_DB,
+      userId,
+      provider,
+      tokens.access_token,
+      tokens.refresh_token,
+      tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : undefined,
+      tokens.scope ? tokens.scope.split(/[ ,]+/).filter(Boolean) : providerConfig.scopes
+    );
+    console.log(`✅ Tokens stored successfully for ${userId}:${provider}`);
 
-    const ip_address = (request.cf?.connecting_ip as string) || 'unknown';
+    const ip_address = request.headers.get("CF-Connecting-IP") || 'unknown';
     const user_agent = request.headers.get('User-Agent') || 'unknown';
 
-    // Log successful authentication (skip audit for anonymous users)
-    if (userId !== "anonymous") {
-      await repositories.auditLogs.create({
-        user_id: userId,
-        event_type: "auth_grant",
-        provider,
-        metadata: { 
-          scope: tokens.scope,
-          expires_in: tokens.expires_in,
-          step: "callback_success"
-        },
-        ip_address,
-        user_agent
-      });
-    }
+    const repositories = createRepositories(env.MCP_DB);
+    await repositories.auditLogs.create({
+      user_id: userId,
+      event_type: "auth_grant",
+      provider,
+      metadata: { 
+        scope: tokens.scope,
+        expires_in: tokens.expires_in,
+        step: "callback_success"
+      },
+      ip_address,
+      user_agent
+    });
 
-    // Return success page with redirect to status endpoint
-    const successHtml = createSuccessPage(provider, userId);
-    return new Response(successHtml, {
+    return new Response(createSuccessPage(provider), {
       headers: { 
         "Content-Type": "text/html",
-        "Cache-Control": "no-cache"
+        "Cache-Control": "no-store"
       }
     });
 
   } catch (error) {
     console.error(`OAuth callback error for ${provider}:`, error);
     const message = error instanceof Error ? error.message : String(error);
-    return new Response(`OAuth error: ${message}`, { status: 400 });
+    return errorPageResponse(provider, message);
   }
 }
 
@@ -213,7 +242,8 @@ async function exchangeCodeForTokens(
   provider: string,
   code: string,
   config: any,
-  requestUrl: string
+  requestUrl: string,
+  codeVerifier?: string
 ): Promise<OAuthTokenResponse> {
   const redirectUri = new URL(requestUrl).origin + `/auth/${provider}/callback`;
   
@@ -225,6 +255,10 @@ async function exchangeCodeForTokens(
     redirect_uri: redirectUri,
   });
 
+  if (codeVerifier) {
+    requestBody.set("code_verifier", codeVerifier);
+  }
+
   // Debug logging
   console.log(`Token exchange for ${provider}:`, {
     tokenUrl: config.tokenUrl,
@@ -272,15 +306,29 @@ async function exchangeCodeForTokens(
 
 
 /**
- * Create success page HTML
+ * Display name for a provider on the connect pages
  */
-function createSuccessPage(provider: string, userId: string): string {
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <title>OAuth Authentication Successful</title>
-  <style>
+function providerDisplayName(provider: string): string {
+  const names: Record<string, string> = {
+    hubspot: "HubSpot",
+    pandadoc: "PandaDoc",
+    xero: "Xero",
+    netsuite: "NetSuite",
+    autotask: "Autotask"
+  };
+  return names[provider] || escapeHtml(provider);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PAGE_STYLES = `
     body { 
       font-family: system-ui, -apple-system, sans-serif; 
       max-width: 600px; 
@@ -290,8 +338,8 @@ function createSuccessPage(provider: string, userId: string): string {
       line-height: 1.6;
     }
     .success { color: #059669; margin-bottom: 20px; }
-    .provider { text-transform: capitalize; font-weight: bold; color: #2563eb; }
-    .user-id { font-family: monospace; background: #f3f4f6; padding: 2px 6px; border-radius: 4px; }
+    .failure { color: #dc2626; margin-bottom: 20px; }
+    .provider { font-weight: bold; color: #2563eb; }
     .instructions { 
       background: #f0f9ff; 
       border: 1px solid #bae6fd; 
@@ -299,20 +347,57 @@ function createSuccessPage(provider: string, userId: string): string {
       padding: 20px; 
       margin: 20px 0;
       text-align: left;
-    }
-    .code { font-family: monospace; background: #1f2937; color: #f9fafb; padding: 10px; border-radius: 4px; }
+    }`;
+
+/**
+ * Create connect confirmation page HTML
+ */
+function createConfirmPage(provider: string, account: string): string {
+  const name = providerDisplayName(provider);
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>Connect ${name}</title>
+  <style>${PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <h1>Connect ${name}</h1>
+  <p>Your <span class="provider">${name}</span> account will be connected to the MCP account <strong>${escapeHtml(account)}</strong>.</p>
+  <p>Only continue if you just ran a ${name} tool from your own MCP client. If someone sent you this link, close this window.</p>
+
+  <form method="POST" action="/auth/${provider}">
+    <button type="submit">Continue to ${name}</button>
+  </form>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Create success page HTML
+ */
+function createSuccessPage(provider: string): string {
+  const name = providerDisplayName(provider);
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>${name} Connected</title>
+  <style>${PAGE_STYLES}
   </style>
 </head>
 <body>
-  <h1 class="success">✅ OAuth Authentication Successful</h1>
-  <p>Successfully connected <span class="provider">${provider}</span> for user <span class="user-id">${userId}</span></p>
+  <h1 class="success">✅ ${name} Connected</h1>
+  <p>Your <span class="provider">${name}</span> account is now connected.</p>
   
   <div class="instructions">
     <h3>Next Steps:</h3>
     <ol>
       <li><strong>Close this browser window</strong></li>
       <li><strong>Return to your MCP client</strong> (Claude Desktop, MCP Inspector, etc.)</li>
-      <li><strong>Retry your ${provider} tool request</strong> - it should now work with your authenticated account</li>
+      <li><strong>Retry your ${name} tool request</strong> - it will now run with your connected account</li>
     </ol>
   </div>
 
@@ -331,4 +416,33 @@ function createSuccessPage(provider: string, userId: string): string {
 </body>
 </html>
   `.trim();
-} 
\ No newline at end of file
+}
+
+/**
+ * Create error page HTML
+ */
+function createErrorPage(provider: string, message: string): string {
+  const name = providerDisplayName(provider);
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>${name} Connection Failed</title>
+  <style>${PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <h1 class="failure">❌ ${name} Connection Failed</h1>
+  <p>${escapeHtml(message)}</p>
+  <p><small>Return to your MCP client and run the tool again to get a new connection link.</small></p>
+</body>
+</html>
+  `.trim();
+}
+
+function errorPageResponse(provider: string, message: string): Response {
+  return new Response(createErrorPage(provider, message), {
+    status: 400,
+    headers: { "Content-Type": "text/html", "Cache-Control": "no-store" }
+  });
+}
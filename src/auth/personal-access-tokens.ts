@@ -0,0 +1,176 @@
+/**
+ * Personal access tokens for programmatic MCP access
+ *
+ * Users create named, scoped, expiring tokens after signing in with Microsoft.
+ * The token is shown once; only its SHA-256 hash is stored in D1, and every
+ * request presenting one is checked against that record.
+ */
+
+import { createRepositories } from "../db/operations";
+import type { PersonalAccessToken } from "../db/types";
+import { ALL_TOOLS_SCOPE, getAllToolScopes, hasToolScope } from "./tool-scopes";
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "mcp_pat_";
+export const DEFAULT_TOKEN_LIFETIME_DAYS = 90;
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+const MAX_TOKEN_NAME_LENGTH = 100;
+
+export interface PersonalAccessTokenRequest {
+  name: string;
+  scopes: string[];
+  expiresInDays: number;
+}
+
+export interface PersonalAccessTokenIdentity {
+  tokenId: string;
+  userId: string;
+  email: string;
+  name: string;
+  tenantId?: string;
+  groups: string[];
+  roles: string[];
+  scopes: string[];
+}
+
+/**
+ * Token as listed to its owner - never includes the hash
+ */
+export interface PersonalAccessTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expires_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  created_at: number;
+}
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+export async function hashPersonalAccessToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Validate the body of a token creation request. A token can only carry scopes
+ * the caller's own access token grants: `mcp:tools` only when it has `mcp:tools`,
+ * a tool scope when it has that scope or `mcp:tools`.
+ */
+export function parseTokenRequest(
+  body: unknown,
+  grantedScopes: string[]
+): { valid: true; request: PersonalAccessTokenRequest } | { valid: false; error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+    return { valid: false, error: `name is required and must be at most ${MAX_TOKEN_NAME_LENGTH} characters` };
+  }
+
+  const allowedScopes = [ALL_TOOLS_SCOPE, ...getAllToolScopes()];
+  const scopes = input.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((s) => typeof s === "string")) {
+    return { valid: false, error: "scopes must be a non-empty array of scope names" };
+  }
+  const unsupported = scopes.filter((s) => !allowedScopes.includes(s));
+  if (unsupported.length > 0) {
+    return { valid: false, error: `Unsupported scopes: ${unsupported.join(", ")}` };
+  }
+  const ungranted = scopes.filter((s) =>
+    s === ALL_TOOLS_SCOPE ? !grantedScopes.includes(ALL_TOOLS_SCOPE) : !hasToolScope(grantedScopes, s)
+  );
+  if (ungranted.length > 0) {
+    return { valid: false, error: `Scopes not granted to this access token: ${ungranted.join(", ")}` };
+  }
+
+  const expiresInDays = input.expires_in_days ?? DEFAULT_TOKEN_LIFETIME_DAYS;
+  if (
+    typeof expiresInDays !== "number" ||
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > MAX_TOKEN_LIFETIME_DAYS
+  ) {
+    return { valid: false, error: `expires_in_days must be an integer between 1 and ${MAX_TOKEN_LIFETIME_DAYS}` };
+  }
+
+  return { valid: true, request: { name, scopes: Array.from(new Set(scopes)), expiresInDays } };
+}
+
+/**
+ * Create a token for the user. The plaintext token is returned only here.
+ */
+export async function createPersonalAccessToken(
+  db: D1Database,
+  userId: string,
+  request: PersonalAccessTokenRequest
+): Promise<{ token: string; record: PersonalAccessToken }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${secret}`;
+
+  const record = await createRepositories(db).personalAccessTokens.create({
+    user_id: userId,
+    name: request.name,
+    token_hash: await hashPersonalAccessToken(token),
+    token_prefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+    scopes: request.scopes,
+    expires_at: Math.floor(Date.now() / 1000) + request.expiresInDays * 86400
+  });
+
+  return { token, record };
+}
+
+/**
+ * Resolve a presented token to its owner, or null if unknown, revoked or expired
+ */
+export async function verifyPersonalAccessToken(
+  db: D1Database,
+  token: string
+): Promise<PersonalAccessTokenIdentity | null> {
+  if (!isPersonalAccessToken(token)) return null;
+
+  const repository = createRepositories(db).personalAccessTokens;
+  const found = await repository.findActiveByHash(await hashPersonalAccessToken(token));
+  if (!found) return null;
+
+  try {
+    await repository.touch(found.token.id);
+  } catch (error) {
+    console.error("Failed to record personal access token use:", error);
+  }
+
+  return {
+    tokenId: found.token.id,
+    userId: found.user.user_id,
+    email: found.user.email,
+    name: found.user.name,
+    tenantId: found.user.tenant_id ?? undefined,
+    // A token acts with the groups and roles from its owner's latest sign-in
+    groups: found.user.groups ? JSON.parse(found.user.groups) : [],
+    roles: found.user.roles ? JSON.parse(found.user.roles) : [],
+    scopes: JSON.parse(found.token.scopes)
+  };
+}
+
+export function toTokenSummary(record: PersonalAccessToken): PersonalAccessTokenSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.token_prefix,
+    scopes: JSON.parse(record.scopes),
+    expires_at: record.expires_at,
+    last_used_at: record.last_used_at,
+    revoked_at: record.revoked_at,
+    created_at: record.created_at
+  };
+}
@@ -7,6 +7,7 @@
 
 import { Provider } from "../types";
 import type { MCPConfig } from "../config/mcp.defaults";
+import { base64UrlEncode } from "./jwt";
 
 export interface ProviderConfig {
   clientId: string;
@@ -103,7 +104,8 @@ export function buildAuthUrl(
   provider: Provider | string,
   config: ProviderConfig,
   state: string,
-  baseUrl: string
+  baseUrl: string,
+  codeChallenge?: string
 ): string {
   const redirectUri = new URL(`/auth/${provider}/callback`, baseUrl).toString();
   
@@ -123,9 +125,22 @@ export function buildAuthUrl(
     redirect_uri: redirectUri,
   });
 
-  // Provider-specific parameters
+  if (codeChallenge) {
+    params.set("code_challenge", codeChallenge);
+    params.set("code_challenge_method", "S256");
+  }
+
+  // Provider-specific parameters. The schema scopes let the property tools read
+  // property definitions; connections made before they were requested need reconnecting.
   if (provider === Provider.HUBSPOT) {
-    params.set("optional_scope", "crm.objects.deals.write,crm.objects.companies.read");
+    params.set("optional_scope", [
+      "crm.objects.deals.write",
+      "crm.objects.companies.read",
+      "crm.objects.companies.write",
+      "crm.schemas.contacts.read",
+      "crm.schemas.companies.read",
+      "crm.schemas.deals.read"
+    ].join(","));
   }
 
   const finalUrl = `${config.authUrl}?${params.toString()}`;
@@ -134,56 +149,147 @@ export function buildAuthUrl(
   return finalUrl;
 }
 
+const CONNECT_TICKET_TTL_SECONDS = 600; // 10 minutes
+
 /**
- * Generate a simple auth URL that routes through our OAuth endpoint
- * This preserves user context through the OAuth flow
+ * Generate a connect URL for a provider, bound to the authenticated MCP user
+ *
+ * The link is opened in a browser that carries no MCP credentials, so it holds a
+ * short-lived single-use ticket instead of the user ID. Only a tool call made with
+ * a valid MCP session can mint one. Opening the link only shows a confirmation
+ * page; the ticket is redeemed when that page is submitted (see oauth-handlers).
  */
-export function getAuthUrl(provider: Provider | string, baseUrl: string, userId: string): string {
-  return `${baseUrl}/auth/${provider}?user_id=${encodeURIComponent(userId)}`;
+export async function createConnectUrl(
+  kv: KVNamespace,
+  provider: Provider | string,
+  baseUrl: string,
+  userId: string
+): Promise<string> {
+  const ticket = crypto.randomUUID();
+
+  await kv.put(
+    `connect_ticket:${ticket}`,
+    JSON.stringify({ userId, provider }),
+    { expirationTtl: CONNECT_TICKET_TTL_SECONDS }
+  );
+
+  return `${baseUrl}/auth/${provider}?ticket=${ticket}`;
 }
 
 /**
- * Generate cryptographically secure state parameter
+ * Look up the user a connect ticket was minted for, without redeeming it
  */
-export function generateState(userId: string, provider: string): string {
-  const payload = JSON.stringify({
-    userId,
-    provider,
-    timestamp: Date.now(),
-    nonce: crypto.randomUUID()
+export async function peekConnectTicket(
+  kv: KVNamespace,
+  ticket: string,
+  provider: Provider | string
+): Promise<string | null> {
+  const data = await kv.get(`connect_ticket:${ticket}`);
+  if (!data) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(data) as { userId: string; provider: string };
+    return payload.provider === provider ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Redeem a connect ticket, returning the user it was minted for
+ */
+export async function consumeConnectTicket(
+  kv: KVNamespace,
+  ticket: string,
+  provider: Provider | string
+): Promise<string | null> {
+  const userId = await peekConnectTicket(kv, ticket, provider);
+  await kv.delete(`connect_ticket:${ticket}`);
+  return userId;
+}
+
+const STATE_TTL_SECONDS = 600; // 10 minutes
+
+interface StoredProviderState {
+  userId: string;
+  provider: string;
+  codeVerifier?: string;
+  createdAt: number;
+}
+
+/**
+ * Whether a provider accepts PKCE on its authorization code flow
+ */
+export function providerSupportsPkce(provider: Provider | string): boolean {
+  switch (provider) {
+    case Provider.XERO:
+    case Provider.NETSUITE:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Generate a PKCE verifier and its S256 challenge
+ */
+export async function createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Generate an opaque state parameter backed by a server-side record
+ *
+ * The state itself carries no data, so it cannot be forged to point at another
+ * user; the record holds the user, provider and PKCE verifier until the callback.
+ */
+export async function generateState(
+  kv: KVNamespace,
+  userId: string,
+  provider: string,
+  codeVerifier?: string
+): Promise<string> {
+  const state = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const record: StoredProviderState = { userId, provider, codeVerifier, createdAt: Date.now() };
+
+  await kv.put(`provider_state:${state}`, JSON.stringify(record), {
+    expirationTtl: STATE_TTL_SECONDS
   });
-  
-  return btoa(payload).replace(/[+/=]/g, (match) => 
-    ({ "+": "-", "/": "_", "=": "" }[match] || match)
-  );
+
+  return state;
 }
 
 /**
- * Validate state parameter and extract user ID
+ * Validate and consume a state parameter, returning the user and PKCE verifier
+ * A state is deleted on first use, so a replayed callback is always rejected
  */
-export function validateState(state: string, provider: string): { userId: string; isValid: boolean } {
+export async function validateState(
+  kv: KVNamespace,
+  state: string,
+  provider: string
+): Promise<{ userId: string; codeVerifier?: string; isValid: boolean }> {
+  const key = `provider_state:${state}`;
+  const data = await kv.get(key);
+  if (!data) {
+    return { userId: "", isValid: false };
+  }
+
+  await kv.delete(key);
+
   try {
-    // Restore base64 padding
-    const paddedState = state + "===".slice((state.length + 3) % 4);
-    const restored = paddedState.replace(/[-_]/g, (match) => 
-      ({ "-": "+", "_": "/" }[match] || match)
-    );
-    
-    const payload = JSON.parse(atob(restored));
-    
-    // Validate provider matches
-    if (payload.provider !== provider) {
-      return { userId: "", isValid: false };
-    }
-    
-    // Validate timestamp (allow 10 minutes)
-    const maxAge = 10 * 60 * 1000; // 10 minutes
-    if (Date.now() - payload.timestamp > maxAge) {
+    const record = JSON.parse(data) as StoredProviderState;
+
+    // KV expiry is eventually consistent, so enforce the lifetime here too
+    if (record.provider !== provider || Date.now() - record.createdAt > STATE_TTL_SECONDS * 1000) {
       return { userId: "", isValid: false };
     }
 
-    return { userId: payload.userId, isValid: true };
+    return { userId: record.userId, codeVerifier: record.codeVerifier, isValid: true };
   } catch {
     return { userId: "", isValid: false };
   }
-} 
\ No newline at end of file
+}
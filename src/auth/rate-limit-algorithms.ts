@@ -0,0 +1,166 @@
+/**
+ * Rate limiting algorithms
+ *
+ * Pure state transitions used by RateLimitObject. Each rule keeps its own
+ * state, and a request is only counted when every rule allows it.
+ */
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+	// Requests allowed per window (bucket capacity for token buckets)
+	limit: number;
+	windowSeconds: number;
+	algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimitDecision {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	// Epoch milliseconds when the limiting rule has capacity again
+	resetAt: number;
+	// Seconds to wait before retrying; 0 when allowed
+	retryAfter: number;
+}
+
+interface SlidingWindowState {
+	windowStart: number;
+	current: number;
+	previous: number;
+}
+
+interface TokenBucketState {
+	tokens: number;
+	updatedAt: number;
+}
+
+export type RuleState = SlidingWindowState | TokenBucketState;
+
+interface RuleResult {
+	decision: RateLimitDecision;
+	// State after counting the request, and after only advancing time
+	consumed: RuleState;
+	unchanged: RuleState;
+}
+
+export function ruleKey(rule: RateLimitRule): string {
+	return `${rule.algorithm ?? 'sliding-window'}:${rule.limit}:${rule.windowSeconds}`;
+}
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by how
+ * much of it still overlaps the sliding window
+ */
+export function slidingWindow(
+	state: SlidingWindowState | undefined,
+	rule: RateLimitRule,
+	now: number,
+	cost: number
+): RuleResult {
+	const windowMs = rule.windowSeconds * 1000;
+	const windowStart = Math.floor(now / windowMs) * windowMs;
+	let current = 0;
+	let previous = 0;
+	if (state?.windowStart === windowStart) {
+		current = state.current;
+		previous = state.previous;
+	} else if (state?.windowStart === windowStart - windowMs) {
+		previous = state.current;
+	}
+
+	const count = previous * (1 - (now - windowStart) / windowMs) + current;
+	const allowed = count + cost <= rule.limit;
+	const unchanged = { windowStart, current, previous };
+
+	let retryAt = now;
+	if (!allowed) {
+		if (current + cost <= rule.limit) {
+			// Wait for enough of the previous window to slide out
+			retryAt = windowStart + windowMs * (1 - (rule.limit - current - cost) / previous);
+		} else {
+			// Wait for the next window, where this one becomes the weighted previous
+			retryAt = windowStart + windowMs * (2 - Math.max(0, rule.limit - cost) / Math.max(current, 1));
+		}
+	}
+
+	return {
+		decision: {
+			allowed,
+			limit: rule.limit,
+			remaining: Math.max(0, Math.floor(rule.limit - count - (allowed ? cost : 0))),
+			resetAt: allowed ? windowStart + windowMs : Math.ceil(retryAt),
+			retryAfter: allowed ? 0 : Math.max(1, Math.ceil((retryAt - now) / 1000))
+		},
+		consumed: allowed ? { windowStart, current: current + cost, previous } : unchanged,
+		unchanged
+	};
+}
+
+/**
+ * Token bucket: holds up to `limit` tokens, refilled evenly over the window, so
+ * bursts up to the capacity are allowed
+ */
+export function tokenBucket(
+	state: TokenBucketState | undefined,
+	rule: RateLimitRule,
+	now: number,
+	cost: number
+): RuleResult {
+	const refillPerMs = rule.limit / (rule.windowSeconds * 1000);
+	const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+	const tokens = state ? Math.min(rule.limit, state.tokens + elapsed * refillPerMs) : rule.limit;
+	const allowed = tokens >= cost;
+	const left = allowed ? tokens - cost : tokens;
+
+	return {
+		decision: {
+			allowed,
+			limit: rule.limit,
+			remaining: Math.floor(left),
+			resetAt: Math.ceil(now + (allowed ? rule.limit - left : cost - tokens) / refillPerMs),
+			retryAfter: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / refillPerMs / 1000))
+		},
+		consumed: { tokens: left, updatedAt: now },
+		unchanged: { tokens, updatedAt: now }
+	};
+}
+
+/**
+ * Evaluate every rule and count the request against all of them, or none.
+ * The decision reports the most constrained rule.
+ */
+export function applyRules(
+	states: Record<string, RuleState>,
+	rules: RateLimitRule[],
+	now: number,
+	cost = 1
+): { decision: RateLimitDecision; states: Record<string, RuleState> } {
+	const results = rules.map((rule) => {
+		const key = ruleKey(rule);
+		const result = rule.algorithm === 'token-bucket'
+			? tokenBucket(states[key] as TokenBucketState | undefined, rule, now, cost)
+			: slidingWindow(states[key] as SlidingWindowState | undefined, rule, now, cost);
+		return { key, ...result };
+	});
+
+	const allowed = results.every((r) => r.decision.allowed);
+	const next = { ...states };
+	for (const result of results) {
+		next[result.key] = allowed ? result.consumed : result.unchanged;
+	}
+
+	const limiting = allowed
+		? results.reduce<RuleResult | undefined>(
+			(tightest, r) => (!tightest || r.decision.remaining < tightest.decision.remaining ? r : tightest),
+			undefined
+		)
+		: results
+			.filter((r) => !r.decision.allowed)
+			.reduce((longest, r) => (r.decision.retryAfter > longest.decision.retryAfter ? r : longest));
+
+	return {
+		decision: limiting?.decision ?? { allowed: true, limit: 0, remaining: 0, resetAt: now, retryAfter: 0 },
+		states: next
+	};
+}
@@ -0,0 +1,102 @@
+/**
+ * Rate limit Durable Object
+ *
+ * One instance per limited key (`ip:…`, `user:…`, `client:…`, `provider:…`),
+ * addressed with `idFromName(key)`, so every isolate and colo counts against
+ * the same state. A single instance handles one request at a time, which makes
+ * each check-and-count atomic without locking.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { applyRules, type RateLimitDecision, type RateLimitRule, type RuleState } from './rate-limit-algorithms';
+import type { CircuitBreakerState } from '../middleware/provider-rate-limit';
+
+const LIMITS_KEY = 'limits';
+const CIRCUIT_KEY = 'circuit';
+
+export class RateLimitObject extends DurableObject<Env> {
+	/**
+	 * Count a request against every rule, or none if any rule denies it
+	 */
+	async consume(rules: RateLimitRule[], cost = 1): Promise<RateLimitDecision> {
+		const states = (await this.ctx.storage.get<Record<string, RuleState>>(LIMITS_KEY)) ?? {};
+		const now = Date.now();
+		const result = applyRules(states, rules, now, cost);
+
+		await this.ctx.storage.put(LIMITS_KEY, result.states);
+		// Drop the state once every window has fully elapsed
+		const longestWindow = Math.max(...rules.map((rule) => rule.windowSeconds));
+		await this.ctx.storage.setAlarm(now + longestWindow * 2000);
+
+		return result.decision;
+	}
+
+	/**
+	 * Current standing without counting a request; with a cost, whether a request
+	 * of that cost would be allowed
+	 */
+	async peek(rules: RateLimitRule[], cost = 0): Promise<RateLimitDecision> {
+		const states = (await this.ctx.storage.get<Record<string, RuleState>>(LIMITS_KEY)) ?? {};
+		return applyRules(states, rules, Date.now(), cost).decision;
+	}
+
+	/**
+	 * Circuit breaker state, moving an open circuit to half-open once its timeout passed
+	 */
+	async circuit(): Promise<CircuitBreakerState | null> {
+		const state = await this.ctx.storage.get<CircuitBreakerState>(CIRCUIT_KEY);
+		if (state?.state === 'open' && Date.now() >= state.nextRetryTime) {
+			state.state = 'half-open';
+			await this.ctx.storage.put(CIRCUIT_KEY, state);
+		}
+		return state ?? null;
+	}
+
+	async recordSuccess(): Promise<CircuitBreakerState | null> {
+		const state = await this.ctx.storage.get<CircuitBreakerState>(CIRCUIT_KEY);
+		if (!state) {
+			return null;
+		}
+
+		if (state.state === 'half-open') {
+			// Service is back, close the circuit
+			state.state = 'closed';
+			state.failures = 0;
+		} else if (state.state === 'closed') {
+			state.failures = Math.max(0, state.failures - 1);
+		}
+		await this.ctx.storage.put(CIRCUIT_KEY, state);
+		return state;
+	}
+
+	/**
+	 * Count a failure, opening the circuit for `timeoutSeconds` at `threshold` failures
+	 */
+	async recordFailure(threshold: number, timeoutSeconds: number): Promise<CircuitBreakerState> {
+		const now = Date.now();
+		const state = (await this.ctx.storage.get<CircuitBreakerState>(CIRCUIT_KEY)) ?? {
+			state: 'closed',
+			failures: 0,
+			lastFailureTime: 0,
+			nextRetryTime: 0
+		};
+
+		state.failures++;
+		state.lastFailureTime = now;
+		if (state.failures >= threshold) {
+			state.state = 'open';
+			state.nextRetryTime = now + timeoutSeconds * 1000;
+		}
+		await this.ctx.storage.put(CIRCUIT_KEY, state);
+		return state;
+	}
+
+	async alarm(): Promise<void> {
+		const circuit = await this.ctx.storage.get<CircuitBreakerState>(CIRCUIT_KEY);
+		if (circuit?.state === 'open' && circuit.nextRetryTime > Date.now()) {
+			await this.ctx.storage.delete(LIMITS_KEY);
+			return;
+		}
+		await this.ctx.storage.deleteAll();
+	}
+}
@@ -1,14 +1,20 @@
 /**
- * Rate limiter for OAuth endpoints
- * 
- * Implements per-user and per-IP rate limiting using KV storage
+ * Rate limiter for incoming requests
+ *
+ * Implements per-IP, per-user and per-client sliding-window limits, counted
+ * globally by RateLimitObject
  */
 
+import type { RateLimitDecision, RateLimitRule } from './rate-limit-algorithms';
+
 export interface RateLimitConfig {
 	maxRequests: number;
 	windowSeconds: number;
 }
 
+const IP_LIMIT: RateLimitConfig = { maxRequests: 1000, windowSeconds: 60 }; // Higher limit for IPs
+const CLIENT_LIMIT: RateLimitConfig = { maxRequests: 3000, windowSeconds: 60 }; // Shared by all users of a client
+
 export class RateLimiter {
 	private config: RateLimitConfig;
 
@@ -19,100 +25,112 @@ export class RateLimiter {
 		};
 	}
 
+	private rules(config: RateLimitConfig): RateLimitRule[] {
+		return [{ limit: config.maxRequests, windowSeconds: config.windowSeconds, algorithm: 'sliding-window' }];
+	}
+
+	private stub(env: Env, identifier: string) {
+		return env.RATE_LIMIT_OBJECT.get(env.RATE_LIMIT_OBJECT.idFromName(identifier));
+	}
+
 	/**
-	 * Check if a request should be rate limited
+	 * Check if a request should be rate limited, counting it when allowed
 	 */
 	async checkLimit(
 		env: Env,
 		identifier: string,
 		customConfig?: RateLimitConfig
-	): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
-		const config = customConfig || this.config;
-		const now = Date.now();
-		const window = Math.floor(now / (config.windowSeconds * 1000));
-		const key = `ratelimit:${identifier}:${window}`;
-		
-		// Get current count
-		const currentCount = parseInt(await env.OAUTH_KV.get(key) || '0');
-		
-		if (currentCount >= config.maxRequests) {
+	): Promise<RateLimitDecision> {
+		return this.decide(env, identifier, customConfig || this.config, true);
+	}
+
+	/**
+	 * Check if a request would be allowed, without counting it
+	 */
+	async wouldAllow(
+		env: Env,
+		identifier: string,
+		customConfig?: RateLimitConfig
+	): Promise<RateLimitDecision> {
+		return this.decide(env, identifier, customConfig || this.config, false);
+	}
+
+	private async decide(env: Env, identifier: string, config: RateLimitConfig, consume: boolean): Promise<RateLimitDecision> {
+		try {
+			const stub = this.stub(env, identifier);
+			return await (consume ? stub.consume(this.rules(config)) : stub.peek(this.rules(config), 1));
+		} catch (error) {
+			// Limits are for fairness; don't turn a storage hiccup into an outage
+			console.error('Rate limit check failed:', error);
 			return {
-				allowed: false,
-				remaining: 0,
-				resetAt: (window + 1) * config.windowSeconds * 1000
+				allowed: true,
+				limit: config.maxRequests,
+				remaining: config.maxRequests,
+				resetAt: Date.now() + config.windowSeconds * 1000,
+				retryAfter: 0
 			};
 		}
-		
-		// Increment count
-		await env.OAUTH_KV.put(
-			key,
-			String(currentCount + 1),
-			{ expirationTtl: config.windowSeconds + 60 } // Add buffer for clock skew
-		);
-		
-		return {
-			allowed: true,
-			remaining: config.maxRequests - currentCount - 1,
-			resetAt: (window + 1) * config.windowSeconds * 1000
-		};
 	}
 
 	/**
 	 * Check rate limit for a user
 	 */
-	async checkUserLimit(env: Env, userId: string): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+	async checkUserLimit(env: Env, userId: string): Promise<RateLimitDecision> {
 		return this.checkLimit(env, `user:${userId}`);
 	}
 
 	/**
 	 * Check rate limit for an IP address
 	 */
-	async checkIPLimit(env: Env, request: Request): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+	async checkIPLimit(env: Env, request: Request): Promise<RateLimitDecision> {
 		const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
-		return this.checkLimit(env, `ip:${ip}`, {
-			maxRequests: 1000, // Higher limit for IPs
-			windowSeconds: 60
-		});
+		return this.checkLimit(env, `ip:${ip}`, IP_LIMIT);
+	}
+
+	/**
+	 * Check rate limit for an OAuth client
+	 */
+	async checkClientLimit(env: Env, clientId: string): Promise<RateLimitDecision> {
+		return this.checkLimit(env, `client:${clientId}`, CLIENT_LIMIT);
 	}
 
 	/**
 	 * Apply rate limiting to a request
+	 *
+	 * Every key is peeked first and the request is only counted when all of them
+	 * allow it, so a client flooding from one IP doesn't use up its user's or
+	 * client's allowance with requests that were refused anyway.
 	 */
 	async limitRequest(
 		env: Env,
 		request: Request,
-		userId?: string
+		userId?: string,
+		clientId?: string
 	): Promise<Response | null> {
-		// Check IP-based rate limit first
-		const ipLimit = await this.checkIPLimit(env, request);
-		if (!ipLimit.allowed) {
+		const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+		const keys: [string, RateLimitConfig][] = [[`ip:${ip}`, IP_LIMIT]];
+		if (userId) keys.push([`user:${userId}`, this.config]);
+		if (clientId) keys.push([`client:${clientId}`, CLIENT_LIMIT]);
+
+		const peeked = await Promise.all(keys.map(([identifier, config]) => this.wouldAllow(env, identifier, config)));
+		// Another request may have taken the last slot since the peek
+		const decisions = peeked.every((decision) => decision.allowed)
+			? await Promise.all(keys.map(([identifier, config]) => this.checkLimit(env, identifier, config)))
+			: peeked;
+
+		const denied = decisions.find((decision) => !decision.allowed);
+		if (denied) {
 			return new Response('Rate limit exceeded', {
 				status: 429,
 				headers: {
-					'X-RateLimit-Limit': String(1000),
-					'X-RateLimit-Remaining': String(ipLimit.remaining),
-					'X-RateLimit-Reset': String(ipLimit.resetAt),
-					'Retry-After': String(Math.ceil((ipLimit.resetAt - Date.now()) / 1000))
+					'X-RateLimit-Limit': String(denied.limit),
+					'X-RateLimit-Remaining': String(denied.remaining),
+					'X-RateLimit-Reset': String(denied.resetAt),
+					'Retry-After': String(denied.retryAfter)
 				}
 			});
 		}
 
-		// Check user-based rate limit if userId is provided
-		if (userId) {
-			const userLimit = await this.checkUserLimit(env, userId);
-			if (!userLimit.allowed) {
-				return new Response('Rate limit exceeded', {
-					status: 429,
-					headers: {
-						'X-RateLimit-Limit': String(this.config.maxRequests),
-						'X-RateLimit-Remaining': String(userLimit.remaining),
-						'X-RateLimit-Reset': String(userLimit.resetAt),
-						'Retry-After': String(Math.ceil((userLimit.resetAt - Date.now()) / 1000))
-					}
-				});
-			}
-		}
-
 		// Request is allowed
 		return null;
 	}
@@ -124,15 +142,12 @@ export class RateLimiter {
 		env: Env,
 		identifier: string
 	): Promise<Record<string, string>> {
-		const now = Date.now();
-		const window = Math.floor(now / (this.config.windowSeconds * 1000));
-		const key = `ratelimit:${identifier}:${window}`;
-		const currentCount = parseInt(await env.OAUTH_KV.get(key) || '0');
-		
+		const decision = await this.stub(env, identifier).peek(this.rules(this.config));
+
 		return {
-			'X-RateLimit-Limit': String(this.config.maxRequests),
-			'X-RateLimit-Remaining': String(Math.max(0, this.config.maxRequests - currentCount)),
-			'X-RateLimit-Reset': String((window + 1) * this.config.windowSeconds * 1000)
+			'X-RateLimit-Limit': String(decision.limit),
+			'X-RateLimit-Remaining': String(decision.remaining),
+			'X-RateLimit-Reset': String(decision.resetAt)
 		};
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,254 @@
+/**
+ * Refresh token storage with rotation and reuse detection
+ *
+ * Refresh tokens are only ever stored as SHA-256 hashes. Every token belongs to a
+ * family that starts with the authorization_code grant; each refresh rotates the
+ * token within that family. Presenting a token that has already been rotated is
+ * treated as theft (RFC 6819 §5.2.2.3) and revokes the whole family.
+ *
+ * Groups and roles are copied from the sign-in, so a family carrying them ends
+ * after DIRECTORY_GRANT_MAX_AGE_SECONDS; the next sign-in picks up membership
+ * changes made in the identity provider.
+ */
+
+export const REFRESH_TOKEN_TTL_SECONDS = 2592000; // 30 days
+export const DIRECTORY_GRANT_MAX_AGE_SECONDS = 86400; // 24 hours
+
+/**
+ * The grant carried by a refresh token and copied into each access token it mints
+ */
+export interface TokenGrant {
+	userId: string;
+	clientId: string;
+	scope: string;
+	email?: string;
+	name?: string;
+	tenantId?: string;
+	groups?: string[];
+	roles?: string[];
+}
+
+interface RefreshTokenRecord extends TokenGrant {
+	familyId: string;
+	issuedAt: number;
+	rotatedAt?: number;
+}
+
+interface RefreshTokenFamily {
+	userId: string;
+	clientId: string;
+	currentTokenHash: string;
+	accessTokens: string[];
+	createdAt: number;
+}
+
+export type RotationResult =
+	| { ok: true; grant: TokenGrant; familyId: string; refreshToken: string }
+	| { ok: false; error: 'invalid_grant' | 'invalid_scope'; description: string; reuseDetected?: boolean; grant?: TokenGrant };
+
+// Only the most recent access tokens are tracked per family; older ones have expired anyway
+const MAX_TRACKED_ACCESS_TOKENS = 10;
+
+/**
+ * How long a family may keep refreshing, counted from its first token
+ */
+export function grantLifetimeSeconds(grant: TokenGrant): number {
+	const carriesDirectoryClaims = !!grant.groups?.length || !!grant.roles?.length;
+	return carriesDirectoryClaims ? DIRECTORY_GRANT_MAX_AGE_SECONDS : REFRESH_TOKEN_TTL_SECONDS;
+}
+
+/**
+ * Hash a token for storage so a KV dump never exposes usable credentials
+ */
+export async function hashToken(token: string): Promise<string> {
+	const data = new TextEncoder().encode(token);
+	const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map(b => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+export class RefreshTokenStore {
+	constructor(private kv: KVNamespace) {}
+
+	/**
+	 * Issue a refresh token, starting a new family unless one is given
+	 */
+	async issue(grant: TokenGrant, familyId: string = crypto.randomUUID()): Promise<{ refreshToken: string; familyId: string }> {
+		const refreshToken = crypto.randomUUID() + crypto.randomUUID();
+		const tokenHash = await hashToken(refreshToken);
+
+		const record: RefreshTokenRecord = {
+			userId: grant.userId,
+			clientId: grant.clientId,
+			scope: grant.scope,
+			email: grant.email,
+			name: grant.name,
+			tenantId: grant.tenantId,
+			groups: grant.groups,
+			roles: grant.roles,
+			familyId,
+			issuedAt: Date.now()
+		};
+
+		await this.kv.put(`refresh_token:${tokenHash}`, JSON.stringify(record), {
+			expirationTtl: grantLifetimeSeconds(grant)
+		});
+
+		const existingFamily = await this.getFamily(familyId);
+		const family: RefreshTokenFamily = {
+			userId: grant.userId,
+			clientId: grant.clientId,
+			currentTokenHash: tokenHash,
+			accessTokens: existingFamily?.accessTokens || [],
+			createdAt: existingFamily?.createdAt || Date.now()
+		};
+
+		await this.kv.put(`refresh_family:${familyId}`, JSON.stringify(family), {
+			expirationTtl: grantLifetimeSeconds(grant)
+		});
+
+		return { refreshToken, familyId };
+	}
+
+	/**
+	 * Exchange a refresh token for a new one in the same family
+	 *
+	 * The presented token is marked as rotated rather than deleted so a later replay
+	 * can be recognised and the family revoked. A requested scope must not exceed
+	 * the original grant (RFC 6749 §6); it is checked before anything is rotated.
+	 */
+	async rotate(refreshToken: string, clientId: string, requestedScope?: string): Promise<RotationResult> {
+		const tokenHash = await hashToken(refreshToken);
+		const record = await this.getRecord(tokenHash);
+
+		if (!record) {
+			return { ok: false, error: 'invalid_grant', description: 'Invalid or expired refresh token' };
+		}
+
+		if (record.clientId !== clientId) {
+			return { ok: false, error: 'invalid_grant', description: 'Refresh token was not issued to this client' };
+		}
+
+		const family = await this.getFamily(record.familyId);
+		if (record.rotatedAt || !family || family.currentTokenHash !== tokenHash) {
+			await this.revokeFamily(record.familyId);
+			return {
+				ok: false,
+				error: 'invalid_grant',
+				description: 'Refresh token has already been used',
+				reuseDetected: true,
+				grant: toGrant(record)
+			};
+		}
+
+		if (Date.now() >= familyExpiresAt(family, record)) {
+			await this.revokeFamily(record.familyId);
+			return { ok: false, error: 'invalid_grant', description: 'Refresh token has expired; sign in again' };
+		}
+
+		if (requestedScope) {
+			const grantedScopes = record.scope.split(' ').filter(s => s);
+			const excessScopes = requestedScope.split(' ').filter(s => s && !grantedScopes.includes(s));
+			if (excessScopes.length > 0) {
+				return { ok: false, error: 'invalid_scope', description: `Scope exceeds original grant: ${excessScopes.join(', ')}` };
+			}
+		}
+
+		// Keep the old record until its natural expiry so replays are detectable
+		await this.kv.put(
+			`refresh_token:${tokenHash}`,
+			JSON.stringify({ ...record, rotatedAt: Date.now() }),
+			{ expirationTtl: REFRESH_TOKEN_TTL_SECONDS }
+		);
+
+		const grant = toGrant(record);
+		const issued = await this.issue(grant, record.familyId);
+
+		return { ok: true, grant, familyId: issued.familyId, refreshToken: issued.refreshToken };
+	}
+
+	/**
+	 * Look up the grant behind a refresh token without rotating it
+	 */
+	async lookup(refreshToken: string): Promise<{ grant: TokenGrant; familyId: string; rotated: boolean; issuedAt: number; expiresAt: number } | null> {
+		const record = await this.getRecord(await hashToken(refreshToken));
+		if (!record) return null;
+
+		const family = await this.getFamily(record.familyId);
+		const expiresAt = Math.min(
+			record.issuedAt + REFRESH_TOKEN_TTL_SECONDS * 1000,
+			family ? familyExpiresAt(family, record) : Infinity
+		);
+
+		return { grant: toGrant(record), familyId: record.familyId, rotated: !!record.rotatedAt, issuedAt: record.issuedAt, expiresAt };
+	}
+
+	/**
+	 * Remember an access token minted from this family so it can be revoked with it
+	 */
+	async trackAccessToken(familyId: string, accessToken: string): Promise<void> {
+		const family = await this.getFamily(familyId);
+		if (!family) return;
+
+		family.accessTokens = [...family.accessTokens, accessToken].slice(-MAX_TRACKED_ACCESS_TOKENS);
+		await this.kv.put(`refresh_family:${familyId}`, JSON.stringify(family), {
+			expirationTtl: REFRESH_TOKEN_TTL_SECONDS
+		});
+	}
+
+	/**
+	 * Revoke every refresh and access token descended from the same grant
+	 */
+	async revokeFamily(familyId: string): Promise<void> {
+		const family = await this.getFamily(familyId);
+		if (!family) return;
+
+		await Promise.all([
+			this.kv.delete(`refresh_token:${family.currentTokenHash}`),
+			...family.accessTokens.map(token => this.kv.delete(`access_token:${token}`))
+		]);
+		await this.kv.delete(`refresh_family:${familyId}`);
+	}
+
+	private async getRecord(tokenHash: string): Promise<RefreshTokenRecord | null> {
+		const data = await this.kv.get(`refresh_token:${tokenHash}`);
+		if (!data) return null;
+
+		try {
+			return JSON.parse(data) as RefreshTokenRecord;
+		} catch (e) {
+			console.error('Failed to parse refresh token record:', e);
+			return null;
+		}
+	}
+
+	private async getFamily(familyId: string): Promise<RefreshTokenFamily | null> {
+		const data = await this.kv.get(`refresh_family:${familyId}`);
+		if (!data) return null;
+
+		try {
+			return JSON.parse(data) as RefreshTokenFamily;
+		} catch (e) {
+			console.error('Failed to parse refresh token family:', e);
+			return null;
+		}
+	}
+}
+
+function familyExpiresAt(family: RefreshTokenFamily, grant: TokenGrant): number {
+	return family.createdAt + grantLifetimeSeconds(grant) * 1000;
+}
+
+function toGrant(record: RefreshTokenRecord): TokenGrant {
+	return {
+		userId: record.userId,
+		clientId: record.clientId,
+		scope: record.scope,
+		email: record.email,
+		name: record.name,
+		tenantId: record.tenantId,
+		groups: record.groups,
+		roles: record.roles
+	};
+}
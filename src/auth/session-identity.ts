@@ -0,0 +1,90 @@
+/**
+ * Verified user identity for MCP sessions
+ *
+ * The worker authenticates each /mcp and /sse request and hands the user to the
+ * McpAgent Durable Object as props. Props are fixed when a session starts, so
+ * sessions are also bound to their user: a later request naming the session
+ * must come from the same user, whichever transport it uses.
+ */
+
+import type { ModularMCPProps } from "../types";
+
+export type McpTransport = "sse" | "streamable-http";
+
+/**
+ * Identity recovered from an OAuth access token or personal access token
+ */
+export interface VerifiedIdentity {
+  userId: string;
+  clientId: string;
+  scopes: string[];
+  email?: string;
+  name?: string;
+  tenantId?: string;
+  groups?: string[];
+  roles?: string[];
+  source: ModularMCPProps["source"];
+}
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  tenantId?: string;
+}
+
+const SESSION_OWNER_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export function createSessionProps(identity: VerifiedIdentity): ModularMCPProps {
+  return {
+    user_id: identity.userId,
+    user_email: identity.email ?? "",
+    user_name: identity.name ?? "",
+    tenant_id: identity.tenantId,
+    groups: identity.groups ?? [],
+    roles: identity.roles ?? [],
+    scopes: identity.scopes,
+    client_id: identity.clientId,
+    source: identity.source
+  };
+}
+
+/**
+ * The user behind a session's props, or null for a session started without one
+ */
+export function getSessionUser(props: Partial<ModularMCPProps> | undefined): SessionUser | null {
+  if (!props?.user_id) return null;
+
+  return {
+    id: props.user_id,
+    email: props.user_email ?? "",
+    name: props.user_name ?? "",
+    tenantId: props.tenant_id
+  };
+}
+
+/**
+ * Record the user a new session belongs to
+ */
+export async function bindSession(
+  kv: KVNamespace,
+  transport: McpTransport,
+  sessionId: string,
+  userId: string
+): Promise<void> {
+  await kv.put(`mcp_session:${transport}:${sessionId}`, userId, {
+    expirationTtl: SESSION_OWNER_TTL_SECONDS
+  });
+}
+
+/**
+ * Whether the session belongs to the user. Unknown sessions belong to no one.
+ */
+export async function isSessionOwner(
+  kv: KVNamespace,
+  transport: McpTransport,
+  sessionId: string,
+  userId: string
+): Promise<boolean> {
+  return (await kv.get(`mcp_session:${transport}:${sessionId}`)) === userId;
+}
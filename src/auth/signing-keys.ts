@@ -0,0 +1,204 @@
+/**
+ * Signing key management for JWT access tokens
+ *
+ * Each key is its own KV record, keyed by kid, with the private JWK encrypted
+ * under COOKIE_ENCRYPTION_KEY. New tokens are always signed with the newest
+ * key; when it is rotated the previous key stays published in the JWKS for a
+ * grace period so tokens it signed keep validating until they expire. Because
+ * rotation only adds records and retires old ones, concurrent rotations from
+ * separate isolates can't overwrite each other's keys. Keys are cached per
+ * isolate so verification does not need a KV read on every request.
+ */
+
+import {
+	JWT_ALGORITHMS,
+	decodeJwtHeader,
+	signJwt,
+	verifyJwt,
+	type AccessTokenClaims,
+	type JwtAlgorithm
+} from './jwt';
+import type { TokenEncryption } from './crypto';
+
+const SIGNING_KEY_KV_PREFIX = 'jwt_signing_key:';
+export const KEY_ROTATION_INTERVAL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// Longer than the access token lifetime so downstream JWKS caches can catch up
+export const RETIRED_KEY_GRACE_MS = 24 * 60 * 60 * 1000; // 24 hours
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+interface StoredSigningKey {
+	kid: string;
+	alg: JwtAlgorithm;
+	// AES-GCM ciphertext of the private JWK
+	encryptedPrivateJwk: string;
+	publicJwk: JsonWebKey;
+	createdAt: number;
+	retiredAt?: number;
+}
+
+interface CachedKeySet {
+	keys: StoredSigningKey[];
+	loadedAt: number;
+	imported: Map<string, CryptoKey>;
+}
+
+// Keyed by namespace so separate bindings (and tests) never share keys
+const keySetCache = new WeakMap<KVNamespace, CachedKeySet>();
+
+export class SigningKeyManager {
+	constructor(private kv: KVNamespace, private encryption: TokenEncryption, private alg: JwtAlgorithm = 'ES256') {}
+
+	/**
+	 * Sign access token claims with the active key, rotating it first if it is due
+	 */
+	async sign(claims: AccessTokenClaims): Promise<string> {
+		let keys = await this.loadKeys();
+		let active = findActiveKey(keys, this.alg);
+
+		if (!active || Date.now() - active.createdAt >= KEY_ROTATION_INTERVAL_MS) {
+			keys = await this.rotate();
+			active = findActiveKey(keys, this.alg)!;
+		}
+
+		const privateKey = await this.importKey(active, 'private');
+		return signJwt(claims, { kid: active.kid, alg: active.alg, privateKey });
+	}
+
+	/**
+	 * Verify a token against the published keys; returns its claims or null
+	 */
+	async verify(token: string, expected: { issuer: string; audience: string }): Promise<AccessTokenClaims | null> {
+		const header = decodeJwtHeader(token);
+		if (!header?.kid) return null;
+
+		let key = (await this.loadKeys()).find(k => k.kid === header.kid);
+		if (!key) {
+			// Another isolate may have rotated since we cached the set
+			key = await this.loadKey(header.kid) ?? undefined;
+		}
+		if (!key) return null;
+
+		const publicKey = await this.importKey(key, 'public');
+		return verifyJwt(token, { alg: key.alg, publicKey }, expected);
+	}
+
+	/**
+	 * Generate a new active key, retire the current one and drop keys past their grace period
+	 */
+	async rotate(): Promise<StoredSigningKey[]> {
+		const now = Date.now();
+		const existing = await this.loadKeys(true);
+
+		const keyPair = await crypto.subtle.generateKey(JWT_ALGORITHMS[this.alg].generate, true, ['sign', 'verify']) as CryptoKeyPair;
+		const privateJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey) as JsonWebKey;
+		const newKey: StoredSigningKey = {
+			kid: crypto.randomUUID(),
+			alg: this.alg,
+			encryptedPrivateJwk: await this.encryption.encrypt(JSON.stringify(privateJwk)),
+			publicJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey) as JsonWebKey,
+			createdAt: now
+		};
+		await this.kv.put(signingKeyName(newKey.kid), JSON.stringify(newKey));
+
+		// Retired keys expire from KV by themselves once their grace period is over
+		const retired = existing.filter(k => !k.retiredAt).map(k => ({ ...k, retiredAt: now }));
+		await Promise.all(retired.map(k =>
+			this.kv.put(signingKeyName(k.kid), JSON.stringify(k), { expirationTtl: RETIRED_KEY_GRACE_MS / 1000 })
+		));
+
+		const keys = [
+			...existing.filter(k => k.retiredAt && now - k.retiredAt < RETIRED_KEY_GRACE_MS),
+			...retired,
+			newKey
+		];
+		keySetCache.set(this.kv, { keys, loadedAt: now, imported: keySetCache.get(this.kv)?.imported || new Map() });
+
+		return keys;
+	}
+
+	/**
+	 * Public key set for the jwks_uri endpoint
+	 */
+	async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+		const now = Date.now();
+		const keys = (await this.loadKeys())
+			.filter(k => !k.retiredAt || now - k.retiredAt < RETIRED_KEY_GRACE_MS)
+			.map(k => ({
+				kty: k.publicJwk.kty,
+				crv: k.publicJwk.crv,
+				x: k.publicJwk.x,
+				y: k.publicJwk.y,
+				n: k.publicJwk.n,
+				e: k.publicJwk.e,
+				kid: k.kid,
+				alg: k.alg,
+				use: 'sig'
+			}) as JsonWebKey);
+
+		return { keys };
+	}
+
+	private async loadKeys(forceRefresh = false): Promise<StoredSigningKey[]> {
+		const cached = keySetCache.get(this.kv);
+		if (cached && !forceRefresh && Date.now() - cached.loadedAt < KEY_CACHE_TTL_MS) {
+			return cached.keys;
+		}
+
+		const { keys: names } = await this.kv.list({ prefix: SIGNING_KEY_KV_PREFIX });
+		const keys = (await Promise.all(names.map(({ name }) => this.readKey(name))))
+			.filter((k): k is StoredSigningKey => k !== null);
+
+		keySetCache.set(this.kv, { keys, loadedAt: Date.now(), imported: cached?.imported || new Map() });
+		return keys;
+	}
+
+	private async loadKey(kid: string): Promise<StoredSigningKey | null> {
+		const key = await this.readKey(signingKeyName(kid));
+		const cached = keySetCache.get(this.kv);
+		if (key && cached) {
+			cached.keys = [...cached.keys.filter(k => k.kid !== kid), key];
+		}
+		return key;
+	}
+
+	private async readKey(name: string): Promise<StoredSigningKey | null> {
+		const data = await this.kv.get(name);
+		if (!data) return null;
+
+		try {
+			return JSON.parse(data) as StoredSigningKey;
+		} catch (e) {
+			console.error('Failed to parse signing key:', e);
+			return null;
+		}
+	}
+
+	private async importKey(key: StoredSigningKey, type: 'private' | 'public'): Promise<CryptoKey> {
+		const cacheKey = `${key.kid}:${type}`;
+		const cached = keySetCache.get(this.kv);
+		const existing = cached?.imported.get(cacheKey);
+		if (existing) return existing;
+
+		const jwk = type === 'private'
+			? JSON.parse(await this.encryption.decrypt(key.encryptedPrivateJwk)) as JsonWebKey
+			: key.publicJwk;
+		const imported = await crypto.subtle.importKey(
+			'jwk',
+			jwk,
+			JWT_ALGORITHMS[key.alg].import,
+			false,
+			[type === 'private' ? 'sign' : 'verify']
+		);
+		cached?.imported.set(cacheKey, imported);
+
+		return imported;
+	}
+}
+
+function signingKeyName(kid: string): string {
+	return `${SIGNING_KEY_KV_PREFIX}${kid}`;
+}
+
+function findActiveKey(keys: StoredSigningKey[], alg: JwtAlgorithm): StoredSigningKey | undefined {
+	return keys.filter(k => !k.retiredAt && k.alg === alg).sort((a, b) => b.createdAt - a.createdAt)[0];
+}
@@ -5,7 +5,8 @@
  * attackers from using timing differences to guess secret values.
  */
 export function timingSafeEqual(a: string, b: string): boolean {
-	if (a.length !== b.length) {
+	const sameLength = a.length === b.length;
+	if (!sameLength) {
 		// Still need to do a comparison to maintain constant time
 		// Compare with a dummy string of the same length as 'a'
 		b = a;
@@ -18,5 +19,5 @@ export function timingSafeEqual(a: string, b: string): boolean {
 	
 	// Return true only if all characters matched (result === 0)
 	// and the lengths were originally equal
-	return result === 0 && a.length === b.length;
-}
\ No newline at end of file
+	return result === 0 && sameLength;
+}
@@ -3,6 +3,7 @@
  * Uses Web Crypto API for AES-GCM encryption
  */
 
+import { nanoid } from "nanoid";
 import { ToolError } from "@/types";
 
 /**
@@ -160,20 +161,39 @@ export class EncryptedTokenStorage {
     provider: string,
     accessToken: string,
     refreshToken?: string,
-    expiresAt?: Date
+    expiresAt?: Date,
+    scopes?: string[]
   ): Promise<void> {
     const encryptedAccess = await encryptToken(accessToken, this.encryptionKey);
     const encryptedRefresh = refreshToken
       ? await encryptToken(refreshToken, this.encryptionKey)
       : null;
+    const now = Math.floor(Date.now() / 1000);
 
+    // Upsert keeps the row id and scopes when a refresh doesn't report them
     await db
       .prepare(
-        `INSERT OR REPLACE INTO tool_credentials 
-         (user_id, provider, access_token, refresh_token, expires_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`
+        `INSERT INTO tool_credentials 
+         (id, user_id, provider, access_token, refresh_token, expires_at, scopes, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, provider) DO UPDATE SET
+           access_token = excluded.access_token,
+           refresh_token = excluded.refresh_token,
+           expires_at = excluded.expires_at,
+           scopes = COALESCE(excluded.scopes, tool_credentials.scopes),
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        nanoid(),
+        userId,
+        provider,
+        encryptedAccess,
+        encryptedRefresh,
+        expiresAt ? Math.floor(expiresAt.getTime() / 1000) : null,
+        scopes ? JSON.stringify(scopes) : null,
+        now,
+        now
       )
-      .bind(userId, provider, encryptedAccess, encryptedRefresh, expiresAt?.toISOString() || null)
       .run();
   }
 
@@ -214,7 +234,7 @@ export class EncryptedTokenStorage {
     return {
       accessToken,
       refreshToken,
-      expiresAt: result.expires_at ? new Date(result.expires_at as string) : undefined,
+      expiresAt: result.expires_at ? new Date((result.expires_at as number) * 1000) : undefined,
     };
   }
 
@@ -0,0 +1,578 @@
+/**
+ * OAuth token, revocation and introspection endpoints
+ *
+ * Access tokens are opaque KV record ids, or JWTs carrying the record id as jti
+ * when ACCESS_TOKEN_FORMAT=jwt. Refresh tokens rotate within a family (see
+ * ./refresh-tokens) and every access token is tracked against its family so
+ * revoking one revokes the other.
+ */
+
+import { ClientRegistry } from './client-registry';
+import { RefreshTokenStore, type TokenGrant } from './refresh-tokens';
+import { SigningKeyManager } from './signing-keys';
+import { TokenEncryption } from './crypto';
+import { isJwtAlgorithm, looksLikeJwt, type AccessTokenClaims } from './jwt';
+import { timingSafeEqual } from './timing-safe';
+import { createRepositories } from '../db/operations';
+import { logAuditEvent } from '../observability/audit-event';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 3600; // 1 hour
+
+// S256 code challenge for a verifier (base64url of its SHA-256 hash)
+export async function computePKCEChallenge(verifier: string): Promise<string> {
+	const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+	const hashArray = new Uint8Array(hashBuffer);
+	return btoa(String.fromCharCode(...hashArray))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=/g, '');
+}
+
+// OAuth error response for the token endpoint (RFC 6749 §5.2)
+export function oauthErrorResponse(error: string, description: string, status = 400, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify({
+		error,
+		error_description: description
+	}), {
+		status,
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'no-store',
+			'Pragma': 'no-cache',
+			'Access-Control-Allow-Origin': '*',
+			...headers
+		}
+	});
+}
+
+// Resolve the calling client from client_secret_basic credentials or the client_id form field.
+// A client with a registered secret must present it, either in the Basic header or as the
+// client_secret form field (client_secret_post). With requireSecret, public clients are refused.
+async function authenticateClient(
+	request: Request,
+	params: URLSearchParams,
+	env: Env,
+	options: { requireSecret?: boolean } = {}
+): Promise<{ clientId: string } | { error: Response }> {
+	const invalidClient = (description: string) => ({
+		error: oauthErrorResponse('invalid_client', description, 401, {
+			'WWW-Authenticate': 'Basic realm="oauth"'
+		})
+	});
+	
+	let clientId: string | null;
+	let clientSecret: string | null;
+	
+	const authHeader = request.headers.get('authorization');
+	if (authHeader?.startsWith('Basic ')) {
+		try {
+			const credentials = atob(authHeader.slice(6));
+			const separator = credentials.indexOf(':');
+			clientId = decodeURIComponent(separator === -1 ? credentials : credentials.slice(0, separator));
+			clientSecret = separator === -1 ? '' : decodeURIComponent(credentials.slice(separator + 1));
+		} catch {
+			return invalidClient('Malformed client credentials');
+		}
+	} else {
+		clientId = params.get('client_id');
+		clientSecret = params.get('client_secret');
+	}
+	
+	if (!clientId) {
+		return invalidClient('Client authentication required');
+	}
+	
+	// Confidential (dynamically registered) clients always authenticate with their secret
+	const storedSecret = await env.OAUTH_KV.get(`client_secret:${clientId}`);
+	if (storedSecret) {
+		if (clientSecret === null) {
+			return invalidClient('Client authentication required');
+		}
+		if (!timingSafeEqual(storedSecret, clientSecret)) {
+			return invalidClient('Invalid client credentials');
+		}
+	} else if (options.requireSecret) {
+		return invalidClient(clientSecret === null ? 'Client authentication required' : 'Invalid client credentials');
+	}
+	
+	return { clientId };
+}
+
+// Access tokens are opaque unless ACCESS_TOKEN_FORMAT=jwt
+export function useJwtAccessTokens(env: Env): boolean {
+	return env.ACCESS_TOKEN_FORMAT === 'jwt';
+}
+
+export function getSigningKeyManager(env: Env): SigningKeyManager {
+	return new SigningKeyManager(
+		env.OAUTH_KV,
+		new TokenEncryption(env.COOKIE_ENCRYPTION_KEY),
+		isJwtAlgorithm(env.JWT_SIGNING_ALG) ? env.JWT_SIGNING_ALG : 'ES256'
+	);
+}
+
+// Stored for both formats so introspection, revocation and family tracking work the same way
+export interface AccessTokenRecord {
+	userId: string;
+	clientId: string;
+	scope: string;
+	email?: string;
+	name?: string;
+	tenantId?: string;
+	groups?: string[];
+	roles?: string[];
+	familyId?: string;
+	issuedAt?: number;
+	expiresAt?: number;
+}
+
+// Mint an access token for a grant and tie it to its refresh token family.
+// JWTs carry their record id as jti; opaque tokens are the record id.
+async function issueAccessToken(env: Env, grant: TokenGrant, familyId: string, issuer: string): Promise<string> {
+	const tokenId = crypto.randomUUID();
+	const issuedAt = Math.floor(Date.now() / 1000);
+	
+	await env.OAUTH_KV.put(
+		`access_token:${tokenId}`,
+		JSON.stringify({
+			userId: grant.userId,
+			clientId: grant.clientId,
+			scope: grant.scope,
+			email: grant.email,
+			name: grant.name,
+			tenantId: grant.tenantId,
+			groups: grant.groups,
+			roles: grant.roles,
+			familyId,
+			issuedAt,
+			expiresAt: issuedAt + ACCESS_TOKEN_TTL_SECONDS
+		}),
+		{ expirationTtl: ACCESS_TOKEN_TTL_SECONDS }
+	);
+	
+	await new RefreshTokenStore(env.OAUTH_KV).trackAccessToken(familyId, tokenId);
+	
+	if (!useJwtAccessTokens(env)) {
+		return tokenId;
+	}
+	
+	const claims: AccessTokenClaims = {
+		iss: issuer,
+		sub: grant.userId,
+		aud: issuer + "/mcp",
+		client_id: grant.clientId,
+		scope: grant.scope,
+		iat: issuedAt,
+		exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS,
+		jti: tokenId,
+		email: grant.email,
+		name: grant.name,
+		tid: grant.tenantId,
+		groups: grant.groups,
+		roles: grant.roles
+	};
+	
+	return getSigningKeyManager(env).sign(claims);
+}
+
+// Validate a bearer token at the resource. JWTs are checked against the signing keys
+// alone (no KV read), so a revoked JWT stays usable until it expires.
+export async function verifyAccessToken(env: Env, token: string, issuer: string): Promise<AccessTokenRecord | null> {
+	if (looksLikeJwt(token)) {
+		const claims = await getSigningKeyManager(env).verify(token, { issuer, audience: issuer + "/mcp" });
+		if (!claims) return null;
+		
+		return {
+			userId: claims.sub,
+			clientId: claims.client_id,
+			scope: claims.scope,
+			email: claims.email,
+			name: claims.name,
+			tenantId: claims.tid,
+			groups: claims.groups,
+			roles: claims.roles,
+			issuedAt: claims.iat,
+			expiresAt: claims.exp
+		};
+	}
+	
+	const tokenData = await env.OAUTH_KV.get(`access_token:${token}`);
+	return tokenData ? JSON.parse(tokenData) as AccessTokenRecord : null;
+}
+
+// Map a presented access token to the id of its KV record. A JWT must verify first
+// so a forged jti cannot be used to probe or revoke other records.
+async function getAccessTokenId(env: Env, token: string, issuer: string): Promise<string | null> {
+	if (!looksLikeJwt(token)) return token;
+	
+	const claims = await getSigningKeyManager(env).verify(token, { issuer, audience: issuer + "/mcp" });
+	return claims?.jti ?? null;
+}
+
+function tokenResponse(accessToken: string, refreshToken: string, scope: string): Response {
+	return new Response(JSON.stringify({
+		access_token: accessToken,
+		token_type: 'Bearer',
+		expires_in: ACCESS_TOKEN_TTL_SECONDS,
+		refresh_token: refreshToken,
+		scope
+	}), {
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'no-store',
+			'Pragma': 'no-cache',
+			'Access-Control-Allow-Origin': '*'
+		}
+	});
+}
+
+// Custom token handler that validates PKCE and rotates refresh tokens
+export async function handleOAuthToken(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	if (request.method !== 'POST') {
+		return oauthErrorResponse('invalid_request', 'Token requests must use POST', 405, { 'Allow': 'POST' });
+	}
+	
+	const contentType = request.headers.get('content-type');
+	if (!contentType?.includes('application/x-www-form-urlencoded')) {
+		return oauthErrorResponse('invalid_request', 'Content-Type must be application/x-www-form-urlencoded');
+	}
+	
+	const body = await request.text();
+	const params = new URLSearchParams(body);
+	const grantType = params.get('grant_type');
+	
+	if (!grantType) {
+		return oauthErrorResponse('invalid_request', 'Missing grant_type');
+	}
+	
+	if (grantType !== 'authorization_code' && grantType !== 'refresh_token') {
+		return oauthErrorResponse('unsupported_grant_type', `Unsupported grant_type: ${grantType}`);
+	}
+	
+	const client = await authenticateClient(request, params, env);
+	if ('error' in client) {
+		return client.error;
+	}
+	
+	// Clients disabled by an admin can neither redeem codes nor refresh
+	if (!await new ClientRegistry(env).isClientActive(client.clientId)) {
+		return oauthErrorResponse('invalid_client', 'Client is disabled', 401);
+	}
+	
+	if (grantType === 'refresh_token') {
+		return handleRefreshTokenGrant(request, params, client.clientId, env);
+	}
+	
+	return handleAuthorizationCodeGrant(request, params, client.clientId, env);
+}
+
+// authorization_code grant with mandatory PKCE
+async function handleAuthorizationCodeGrant(
+	request: Request,
+	params: URLSearchParams,
+	clientId: string,
+	env: Env
+): Promise<Response> {
+	const code = params.get('code');
+	const redirectUri = params.get('redirect_uri');
+	const codeVerifier = params.get('code_verifier');
+	
+	if (!code || !redirectUri || !codeVerifier) {
+		return oauthErrorResponse('invalid_request', 'code, redirect_uri and code_verifier are required');
+	}
+	
+	// Get auth code data
+	const authCodeData = await env.OAUTH_KV.get(`auth_code:${code}`);
+	if (!authCodeData) {
+		return oauthErrorResponse('invalid_grant', 'Invalid or expired authorization code');
+	}
+	
+	const authData = JSON.parse(authCodeData);
+	
+	// Validate client_id and redirect_uri
+	if (authData.clientId !== clientId || authData.redirectUri !== redirectUri) {
+		return oauthErrorResponse('invalid_grant', 'Authorization code was issued to another client or redirect URI');
+	}
+	
+	// Validate PKCE
+	if (await computePKCEChallenge(codeVerifier) !== authData.codeChallenge) {
+		return oauthErrorResponse('invalid_grant', 'Invalid code verifier');
+	}
+	
+	// Delete used auth code
+	await env.OAUTH_KV.delete(`auth_code:${code}`);
+	
+	// Get user data
+	const userData = await env.OAUTH_KV.get(`user:${authData.userId}`);
+	if (!userData) {
+		return oauthErrorResponse('invalid_grant', 'User session not found');
+	}
+	
+	const user = JSON.parse(userData);
+	const grant: TokenGrant = {
+		userId: authData.userId,
+		clientId: authData.clientId,
+		scope: authData.scope,
+		email: user.email,
+		name: user.name,
+		tenantId: user.tenantId,
+		groups: user.groups,
+		roles: user.roles
+	};
+	
+	// Start a new refresh token family for this authorization
+	const { refreshToken, familyId } = await new RefreshTokenStore(env.OAUTH_KV).issue(grant);
+	const accessToken = await issueAccessToken(env, grant, familyId, new URL(request.url).origin);
+	
+	// Log token issuance
+	await logAuditEvent(env, {
+		type: 'token_refresh',
+		userId: authData.userId,
+		clientId: authData.clientId,
+		scope: authData.scope,
+		grantType: 'authorization_code',
+		timestamp: new Date().toISOString()
+	}, request);
+	
+	return tokenResponse(accessToken, refreshToken, grant.scope);
+}
+
+// refresh_token grant with rotation and reuse detection
+async function handleRefreshTokenGrant(
+	request: Request,
+	params: URLSearchParams,
+	clientId: string,
+	env: Env
+): Promise<Response> {
+	const presentedToken = params.get('refresh_token');
+	if (!presentedToken) {
+		return oauthErrorResponse('invalid_request', 'Missing refresh_token');
+	}
+	
+	const requestedScope = params.get('scope') || undefined;
+	const rotation = await new RefreshTokenStore(env.OAUTH_KV).rotate(presentedToken, clientId, requestedScope);
+	
+	if (!rotation.ok) {
+		if (rotation.reuseDetected) {
+			await logAuditEvent(env, {
+				type: 'auth_revoke',
+				userId: rotation.grant?.userId,
+				clientId,
+				reason: 'refresh_token_reuse',
+				timestamp: new Date().toISOString()
+			}, request);
+		}
+		return oauthErrorResponse(rotation.error, rotation.description);
+	}
+	
+	// A narrowed scope applies to the new access token only; the refresh token keeps the original grant
+	const scope = requestedScope ? requestedScope.split(' ').filter(s => s).join(' ') : rotation.grant.scope;
+	const accessToken = await issueAccessToken(env, { ...rotation.grant, scope }, rotation.familyId, new URL(request.url).origin);
+	
+	await logAuditEvent(env, {
+		type: 'token_refresh',
+		userId: rotation.grant.userId,
+		clientId,
+		scope,
+		grantType: 'refresh_token',
+		timestamp: new Date().toISOString()
+	}, request);
+	
+	return tokenResponse(accessToken, rotation.refreshToken, scope);
+}
+
+// Token revocation endpoint (RFC 7009)
+export async function handleOAuthRevoke(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	if (request.method !== 'POST') {
+		return oauthErrorResponse('invalid_request', 'Revocation requests must use POST', 405, { 'Allow': 'POST' });
+	}
+	
+	const contentType = request.headers.get('content-type');
+	if (!contentType?.includes('application/x-www-form-urlencoded')) {
+		return oauthErrorResponse('invalid_request', 'Content-Type must be application/x-www-form-urlencoded');
+	}
+	
+	const params = new URLSearchParams(await request.text());
+	const token = params.get('token');
+	const tokenTypeHint = params.get('token_type_hint');
+	
+	const client = await authenticateClient(request, params, env);
+	if ('error' in client) {
+		return client.error;
+	}
+	
+	if (!token) {
+		return oauthErrorResponse('invalid_request', 'Missing token');
+	}
+	
+	// Check the hinted token type first, then fall back to the other (RFC 7009 §2.1)
+	const lookups = tokenTypeHint === 'refresh_token'
+		? [revokeRefreshToken, revokeAccessToken]
+		: [revokeAccessToken, revokeRefreshToken];
+	
+	for (const revoke of lookups) {
+		const result = await revoke(env, token, client.clientId, new URL(request.url).origin);
+		if (!result) continue;
+		
+		// Another client's token is left untouched, and the response doesn't reveal that it exists
+		if (result.clientMismatch) break;
+		
+		const repositories = createRepositories(env.MCP_DB);
+		ctx.waitUntil(
+			repositories.auditLogs.create({
+				user_id: result.userId,
+				event_type: 'auth_revoke',
+				metadata: {
+					client_id: client.clientId,
+					token_type: result.tokenType,
+					family_revoked: result.tokenType === 'refresh_token'
+				},
+				ip_address: request.headers.get('CF-Connecting-IP'),
+				user_agent: request.headers.get('User-Agent')
+			}).catch(error => console.error('Failed to log revocation:', error))
+		);
+		break;
+	}
+	
+	// Unknown or already revoked tokens still get 200 so clients can't probe for valid tokens
+	return new Response(null, {
+		status: 200,
+		headers: {
+			'Cache-Control': 'no-store',
+			'Access-Control-Allow-Origin': '*'
+		}
+	});
+}
+
+type RevocationResult = { userId: string; tokenType: 'access_token' | 'refresh_token'; clientMismatch?: boolean };
+
+async function revokeAccessToken(env: Env, token: string, clientId: string, issuer: string): Promise<RevocationResult | null> {
+	const tokenId = await getAccessTokenId(env, token, issuer);
+	if (!tokenId) return null;
+	
+	const tokenData = await env.OAUTH_KV.get(`access_token:${tokenId}`);
+	if (!tokenData) return null;
+	
+	const tokenInfo = JSON.parse(tokenData);
+	if (tokenInfo.clientId !== clientId) {
+		return { userId: tokenInfo.userId, tokenType: 'access_token', clientMismatch: true };
+	}
+	
+	await env.OAUTH_KV.delete(`access_token:${tokenId}`);
+	return { userId: tokenInfo.userId, tokenType: 'access_token' };
+}
+
+async function revokeRefreshToken(env: Env, token: string, clientId: string): Promise<RevocationResult | null> {
+	const store = new RefreshTokenStore(env.OAUTH_KV);
+	const found = await store.lookup(token);
+	if (!found) return null;
+	
+	if (found.grant.clientId !== clientId) {
+		return { userId: found.grant.userId, tokenType: 'refresh_token', clientMismatch: true };
+	}
+	
+	// Revoking a refresh token also invalidates every access token minted from its family
+	await store.revokeFamily(found.familyId);
+	return { userId: found.grant.userId, tokenType: 'refresh_token' };
+}
+
+// Token introspection endpoint (RFC 7662)
+export async function handleOAuthIntrospect(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') {
+		return oauthErrorResponse('invalid_request', 'Introspection requests must use POST', 405, { 'Allow': 'POST' });
+	}
+	
+	const contentType = request.headers.get('content-type');
+	if (!contentType?.includes('application/x-www-form-urlencoded')) {
+		return oauthErrorResponse('invalid_request', 'Content-Type must be application/x-www-form-urlencoded');
+	}
+	
+	const params = new URLSearchParams(await request.text());
+	
+	// Only registered confidential clients may introspect tokens
+	const client = await authenticateClient(request, params, env, { requireSecret: true });
+	if ('error' in client) {
+		return client.error;
+	}
+	
+	const registeredClient = await new ClientRegistry(env).getClient(client.clientId);
+	if (!registeredClient?.active) {
+		return oauthErrorResponse('invalid_client', 'Client is not registered or inactive', 401, {
+			'WWW-Authenticate': 'Basic realm="oauth"'
+		});
+	}
+	
+	const token = params.get('token');
+	if (!token) {
+		return oauthErrorResponse('invalid_request', 'Missing token');
+	}
+	
+	const issuer = new URL(request.url).origin;
+	const tokenTypeHint = params.get('token_type_hint');
+	const lookups = tokenTypeHint === 'refresh_token'
+		? [introspectRefreshToken, introspectAccessToken]
+		: [introspectAccessToken, introspectRefreshToken];
+	
+	let body: Record<string, unknown> = { active: false };
+	for (const introspect of lookups) {
+		const result = await introspect(env, token, issuer);
+		if (result) {
+			body = result;
+			break;
+		}
+	}
+	
+	return new Response(JSON.stringify(body), {
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'no-store',
+			'Pragma': 'no-cache',
+			'Access-Control-Allow-Origin': '*'
+		}
+	});
+}
+
+async function introspectAccessToken(env: Env, token: string, issuer: string): Promise<Record<string, unknown> | null> {
+	// Introspection always consults the record, so it reflects revocation of JWTs too
+	const tokenId = await getAccessTokenId(env, token, issuer);
+	if (!tokenId) return null;
+	
+	const tokenData = await env.OAUTH_KV.get(`access_token:${tokenId}`);
+	if (!tokenData) return null;
+	
+	const tokenInfo = JSON.parse(tokenData);
+	if (tokenInfo.expiresAt && tokenInfo.expiresAt <= Math.floor(Date.now() / 1000)) {
+		return null;
+	}
+	
+	return {
+		active: true,
+		token_type: 'Bearer',
+		scope: tokenInfo.scope,
+		client_id: tokenInfo.clientId,
+		sub: tokenInfo.userId,
+		username: tokenInfo.email,
+		name: tokenInfo.name,
+		iat: tokenInfo.issuedAt,
+		exp: tokenInfo.expiresAt,
+		iss: issuer,
+		aud: issuer + "/mcp"
+	};
+}
+
+async function introspectRefreshToken(env: Env, token: string, issuer: string): Promise<Record<string, unknown> | null> {
+	const found = await new RefreshTokenStore(env.OAUTH_KV).lookup(token);
+	if (!found || found.rotated || found.expiresAt <= Date.now()) return null;
+	
+	return {
+		active: true,
+		token_type: 'refresh_token',
+		scope: found.grant.scope,
+		client_id: found.grant.clientId,
+		sub: found.grant.userId,
+		username: found.grant.email,
+		iat: Math.floor(found.issuedAt / 1000),
+		exp: Math.floor(found.expiresAt / 1000),
+		iss: issuer
+	};
+}
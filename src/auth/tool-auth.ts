@@ -2,7 +2,7 @@ import { createRepositories } from "../db/operations";
 import type { AuthHelper } from "../types";
 import type { MCPConfig } from "../config/mcp.defaults";
 import { Provider, ToolError } from "../types";
-import { getProviderConfig, getAuthUrl } from "./provider-config";
+import { getProviderConfig, createConnectUrl } from "./provider-config";
 import type { OAuthTokenResponse } from "./types";
 import { EncryptedTokenStorage } from "./token-encryption";
 import { handleTokenRotation } from "./token-refresh";
@@ -16,6 +16,7 @@ export class ToolAuthHelper implements AuthHelper {
     private config: MCPConfig,
     private userId: string,
     private baseUrl: string,
+    private kv: KVNamespace,
     encryptionKey?: string
   ) {
     this.repositories = createRepositories(db);
@@ -96,7 +97,7 @@ export class ToolAuthHelper implements AuthHelper {
     }
 
     // Generate auth URL for this provider
-    const authUrl = this.getAuthUrlForProvider(provider);
+    const authUrl = await this.getAuthUrlForProvider(provider);
     return { authUrl };
   }
 
@@ -161,12 +162,10 @@ export class ToolAuthHelper implements AuthHelper {
 
   /**
    * Generate OAuth authorization URL for a provider
-   * Routes through our OAuth endpoint to preserve user context
+   * Routes through our OAuth endpoint with a connect ticket bound to this user
    */
-  private getAuthUrlForProvider(provider: Provider | string): string {
-    // Route through our OAuth endpoint with user_id parameter
-    // This ensures the user context is preserved through the OAuth flow
-    return getAuthUrl(provider, this.baseUrl, this.userId);
+  private getAuthUrlForProvider(provider: Provider | string): Promise<string> {
+    return createConnectUrl(this.kv, provider, this.baseUrl, this.userId);
   }
 
   /**
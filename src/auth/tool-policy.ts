@@ -0,0 +1,138 @@
+/**
+ * Role-based tool access policies
+ *
+ * Roles are held by users directly or through their Entra groups, and carry
+ * allow/deny rules per provider and operation (`*` matches any). Until the
+ * first rule is created policies are off and every enabled tool is available.
+ * Once rules exist, a tool is available only if one of the user's rules allows
+ * it and none denies it. The config's `enabled` switches still apply first.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../config/mcp.defaults";
+import { createRepositories } from "../db/operations";
+import type { CreatePolicyRuleInput, PolicyRule } from "../db/types";
+import { findToolOperation } from "./tool-scopes";
+
+type ToolsConfig = typeof defaults.tools;
+
+export const ANY = "*";
+
+export interface PolicySubject {
+  userId: string;
+  groups?: string[];
+}
+
+/**
+ * The rules that apply to one user
+ */
+export interface ToolPolicy {
+  // False while no rules exist anywhere, i.e. policies are not in use
+  enforced: boolean;
+  rules: Pick<PolicyRule, "effect" | "provider" | "operation">[];
+}
+
+export const UNRESTRICTED_POLICY: ToolPolicy = { enforced: false, rules: [] };
+
+/**
+ * Load the rules that apply to a user. If they can't be loaded, every provider
+ * tool is denied rather than risk granting too much.
+ */
+export async function loadToolPolicy(db: D1Database, subject: PolicySubject): Promise<ToolPolicy> {
+  try {
+    const policies = createRepositories(db).policies;
+    if (!(await policies.hasRules())) {
+      return UNRESTRICTED_POLICY;
+    }
+
+    return {
+      enforced: true,
+      rules: await policies.findRulesForSubject(subject.userId, subject.groups ?? [])
+    };
+  } catch (error) {
+    console.error("Failed to load tool policy:", error);
+    return { enforced: true, rules: [] };
+  }
+}
+
+function matches(rule: ToolPolicy["rules"][number], provider: string, operation: string): boolean {
+  return (rule.provider === ANY || rule.provider === provider) &&
+    (rule.operation === ANY || rule.operation === operation);
+}
+
+/**
+ * Whether the policy lets the user use a provider operation. Deny wins over allow.
+ */
+export function isOperationAllowed(policy: ToolPolicy, provider: string, operation: string): boolean {
+  if (!policy.enforced) return true;
+
+  const applicable = policy.rules.filter((rule) => matches(rule, provider, operation));
+  return applicable.some((rule) => rule.effect === "allow") &&
+    !applicable.some((rule) => rule.effect === "deny");
+}
+
+/**
+ * Whether the policy lets the user call a tool by name. Tools outside the
+ * provider config (health, userInfo) are always allowed.
+ */
+export function isToolAllowed(policy: ToolPolicy, tools: ToolsConfig, toolName: string): boolean {
+  const found = findToolOperation(tools, toolName);
+  return !found || isOperationAllowed(policy, found.provider, found.operation);
+}
+
+/**
+ * Wrap the server so tools the policy denies are never registered
+ */
+export function withPolicyFilter(server: McpServer, tools: ToolsConfig, policy: ToolPolicy): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool" && prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+
+      const register = Reflect.get(target, prop, receiver) as (name: string, ...rest: unknown[]) => unknown;
+      return (name: string, ...rest: unknown[]) => {
+        if (!isToolAllowed(policy, tools, name)) {
+          console.log(`🔒 Skipping ${name}: not allowed by access policy`);
+          return undefined;
+        }
+        return register.call(target, name, ...rest);
+      };
+    }
+  });
+}
+
+/**
+ * Validate a rule submitted to the admin API against the tools config
+ */
+export function parsePolicyRuleRequest(
+  body: unknown,
+  tools: ToolsConfig = defaults.tools
+): { valid: true; rule: CreatePolicyRuleInput } | { valid: false; error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  if (input.effect !== "allow" && input.effect !== "deny") {
+    return { valid: false, error: 'effect must be "allow" or "deny"' };
+  }
+
+  const provider = input.provider;
+  if (typeof provider !== "string" || (provider !== ANY && !(provider in tools))) {
+    return { valid: false, error: `provider must be "${ANY}" or one of: ${Object.keys(tools).join(", ")}` };
+  }
+
+  const operation = input.operation ?? ANY;
+  if (typeof operation !== "string") {
+    return { valid: false, error: "operation must be a string" };
+  }
+  if (operation !== ANY) {
+    if (provider === ANY) {
+      return { valid: false, error: `operation must be "${ANY}" when provider is "${ANY}"` };
+    }
+    const operations = Object.keys(tools[provider as keyof ToolsConfig].operations);
+    if (!operations.includes(operation)) {
+      return { valid: false, error: `Unknown ${provider} operation: ${operation}` };
+    }
+  }
+
+  return { valid: true, rule: { effect: input.effect, provider, operation } };
+}
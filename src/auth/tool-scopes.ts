@@ -0,0 +1,113 @@
+/**
+ * OAuth scopes for individual MCP tools
+ *
+ * Each operation in the tools config declares an access level, which together
+ * with its provider forms the scope a token needs to use it (`hubspot:read`,
+ * `hubspot:write`, `pandadoc:send`, ...). The broad `mcp:tools` scope still
+ * grants every tool so existing clients keep working.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../config/mcp.defaults";
+
+export const ALL_TOOLS_SCOPE = "mcp:tools";
+
+type ToolsConfig = typeof defaults.tools;
+
+/**
+ * Split a space-delimited scope string into its scopes
+ */
+export function parseScopes(scope: string | null | undefined): string[] {
+  return (scope || "").split(" ").filter((s) => s);
+}
+
+/**
+ * MCP tool name for a provider operation (`hubspot` + `searchContacts` -> `hubspot-search-contacts`)
+ */
+export function operationToolName(provider: string, operation: string): string {
+  return `${provider}-${operation.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/**
+ * Scope required to use a provider operation
+ */
+export function getOperationScope(tools: ToolsConfig, provider: string, operation: string): string {
+  const operations = tools[provider as keyof ToolsConfig]?.operations as
+    | Record<string, { access?: string }>
+    | undefined;
+
+  return `${provider}:${operations?.[operation]?.access ?? "read"}`;
+}
+
+/**
+ * Provider operation behind a tool name, or null for tools outside the config (health, userInfo)
+ */
+export function findToolOperation(
+  tools: ToolsConfig,
+  toolName: string
+): { provider: string; operation: string } | null {
+  for (const [provider, toolConfig] of Object.entries(tools)) {
+    for (const operation of Object.keys(toolConfig.operations)) {
+      if (operationToolName(provider, operation) === toolName) {
+        return { provider, operation };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scope required to call a tool by name, or null for tools that need none (health, userInfo)
+ */
+export function getToolScope(tools: ToolsConfig, toolName: string): string | null {
+  const found = findToolOperation(tools, toolName);
+  return found ? getOperationScope(tools, found.provider, found.operation) : null;
+}
+
+/**
+ * Every tool scope defined by the config, for discovery metadata and client validation
+ */
+export function getAllToolScopes(tools: ToolsConfig = defaults.tools): string[] {
+  const scopes = new Set<string>();
+
+  for (const [provider, toolConfig] of Object.entries(tools)) {
+    for (const operation of Object.keys(toolConfig.operations)) {
+      scopes.add(getOperationScope(tools, provider, operation));
+    }
+  }
+
+  return Array.from(scopes).sort();
+}
+
+/**
+ * Whether the granted scopes cover a required tool scope
+ */
+export function hasToolScope(grantedScopes: string[] | undefined, requiredScope: string): boolean {
+  if (!grantedScopes) return false;
+  return grantedScopes.includes(ALL_TOOLS_SCOPE) || grantedScopes.includes(requiredScope);
+}
+
+/**
+ * Wrap the server so tools outside the session's granted scopes are never registered,
+ * which keeps them out of tools/list (calls are also rejected at the worker edge)
+ */
+export function withScopeFilter(server: McpServer, tools: ToolsConfig, grantedScopes: string[] | undefined): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool" && prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+
+      const register = Reflect.get(target, prop, receiver) as (name: string, ...rest: unknown[]) => unknown;
+      return (name: string, ...rest: unknown[]) => {
+        const requiredScope = getToolScope(tools, name);
+        if (requiredScope && !hasToolScope(grantedScopes, requiredScope)) {
+          console.log(`🔒 Skipping ${name}: requires scope ${requiredScope}`);
+          return undefined;
+        }
+        return register.call(target, name, ...rest);
+      };
+    }
+  });
+}
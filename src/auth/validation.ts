@@ -2,6 +2,8 @@
  * Input validation utilities for OAuth endpoints
  */
 
+import { getAllToolScopes } from './tool-scopes';
+
 /**
  * Validate a URL string
  */
@@ -128,7 +130,7 @@ export function validateResponseTypes(types?: string[]): { valid: boolean; error
  * Validate scopes
  */
 export function validateScopes(scope?: string): { valid: boolean; error?: string } {
-	const allowedScopes = ['mcp:tools', 'profile', 'openid', 'offline_access'];
+	const allowedScopes = ['mcp:tools', ...getAllToolScopes(), 'profile', 'openid', 'offline_access'];
 	
 	if (!scope) {
 		// Optional
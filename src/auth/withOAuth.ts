@@ -6,12 +6,11 @@
  */
 
 import { ToolAuthHelper } from "./tool-auth";
-import { createRepositories } from "../db/operations";
 import { withSentryTracing } from "../sentry";
 import type { ToolContext } from "../types";
 import type { AgentContext } from "@/types/agent-context";
 import { hasUserProps } from "@/types/agent-context";
-import { getAuthUrl } from "./provider-config";
+import { createConnectUrl } from "./provider-config";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 export interface OAuthContext {
@@ -95,6 +94,7 @@ export function withOAuth<T>(
         agentContext.config,
         userId,
         baseUrl,
+        agentContext.env.OAUTH_KV,
         agentContext.env.COOKIE_ENCRYPTION_KEY // Pass encryption key if available
       );
       
@@ -106,8 +106,7 @@ export function withOAuth<T>(
       console.log(`🔍 [withOAuth] Token lookup result:`, {
         provider,
         userId,
-        hasToken: !!accessToken,
-        tokenLength: accessToken?.length
+        hasToken: !!accessToken
       });
       
       if (!accessToken) {
@@ -126,7 +125,7 @@ export function withOAuth<T>(
           _meta: {
             requiresAuth: true,
             provider,
-            authUrl: authResult?.authUrl || getAuthUrl(provider, baseUrl, userId)
+            authUrl: authResult?.authUrl || await createConnectUrl(agentContext.env.OAUTH_KV, provider, baseUrl, userId)
           }
         };
       }
@@ -141,21 +140,6 @@ export function withOAuth<T>(
         userId
       };
 
-      // Log tool usage for audit trail
-      const repositories = createRepositories(agentContext.env.MCP_DB);
-      await repositories.auditLogs.create({
-        user_id: userId,
-        event_type: "tool_call",
-        provider,
-        tool_name: handler.name || "unknown",
-        metadata: {
-          args: Object.keys(args as object || {}),
-          user_source: "mcp_agent",
-        },
-        ip_address: undefined,
-        user_agent: undefined
-      });
-
       // Execute the wrapped handler with OAuth context
       return await handler(oauthContext);
 
@@ -194,7 +178,7 @@ export function withOAuth<T>(
           _meta: {
             requiresAuth: true,
             provider,
-            authUrl: getAuthUrl(provider, agentContext.baseUrl, userId)
+            authUrl: await createConnectUrl(agentContext.env.OAUTH_KV, provider, agentContext.baseUrl, userId)
           }
         };
       }
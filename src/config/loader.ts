@@ -1,7 +1,8 @@
 import { defaults, type MCPConfig } from "./mcp.defaults";
 import { secretsSchema, type SecretsEnv } from "./mcp.secrets.schema";
+import { getDefaultProviderId } from "../auth/idp";
 
-export function loadConfig(env: SecretsEnv & { OAUTH_ENABLED?: string }): MCPConfig {
+export function loadConfig(env: SecretsEnv & { OAUTH_ENABLED?: string; OAUTH_PROVIDER?: string }): MCPConfig {
   // Validate secrets against schema
   const validatedSecrets = secretsSchema.parse(env);
 
@@ -9,11 +10,10 @@ export function loadConfig(env: SecretsEnv & { OAUTH_ENABLED?: string }): MCPCon
     ...defaults,
     oauth: {
       enabled: env.OAUTH_ENABLED !== undefined ? env.OAUTH_ENABLED.toLowerCase() === 'true' : defaults.oauth.enabled,
-      provider: defaults.oauth.provider,
+      provider: getDefaultProviderId(env),
       scopes: [...defaults.oauth.scopes],
       redirectUri: defaults.oauth.redirectUri,
       allowHeaderAuth: defaults.oauth.allowHeaderAuth,
-      headerSecret: validatedSecrets.AUTH_HEADER_SECRET || undefined,
       clientId: validatedSecrets.MICROSOFT_CLIENT_ID,
       clientSecret: validatedSecrets.MICROSOFT_CLIENT_SECRET,
       tenantId: validatedSecrets.MICROSOFT_TENANT_ID,
@@ -1,11 +1,11 @@
 export const defaults = {
   oauth: {
     enabled: true,                 // Enable/disable OAuth protection on the MCP entry point
-    provider: "microsoft",
+    provider: "microsoft",         // Default sign-in provider; see src/auth/idp (override with OAUTH_PROVIDER)
     scopes: ["openid", "profile", "offline_access"],
     redirectUri: "/.auth/callback",
-    // When OAuth is disabled, use Authorization header for per-tool auth
-    allowHeaderAuth: true           // Allow "Authorization: Bearer <user-id>" for per-tool OAuth
+    // Accept personal access tokens ("Authorization: Bearer mcp_pat_...") on /mcp
+    allowHeaderAuth: true           // Tokens are created via /api/tokens after signing in
   },
   /**
    * Per‑provider and per‑tool toggles
@@ -13,6 +13,10 @@ export const defaults = {
    * `enabled`      – master on/off switch for the whole SaaS integration.
    * `operations`   – fine‑grained flags for individual MCP tools that live inside that provider.
    *                  Omit the key to inherit the parent provider's `enabled` state.
+   *                  `access` names the OAuth scope a token needs to use the tool
+   *                  (`<provider>:<access>`, e.g. `hubspot:write`).
+   * `rateLimit`    – calls per user per period. A provider's limit is shared by its tools;
+   *                  an operation's own `rateLimit` applies to that tool instead.
    */
   tools: {
     pandadoc: {
@@ -20,10 +24,10 @@ export const defaults = {
       oauth: true,
       rateLimit: { max: 30, period: "1m" },
       operations: {
-        listDocuments: { enabled: true },   // MVP test tool
-        sendDocument:  { enabled: true,  rateLimit: { max: 20, period: "1m" } },
-        getStatus:     { enabled: true },
-        listTemplates: { enabled: false }  // disabled until legal sign‑off
+        listDocuments: { enabled: true, access: "read" },   // MVP test tool
+        sendDocument:  { enabled: true, access: "send", rateLimit: { max: 20, period: "1m" } },
+        getStatus:     { enabled: true, access: "read" },
+        listTemplates: { enabled: false, access: "read" }  // disabled until legal sign‑off
       }
     },
     hubspot: {
@@ -31,11 +35,32 @@ export const defaults = {
       oauth: true,
       rateLimit: { max: 100, period: "1m" },
       operations: {
-        searchContacts: { enabled: true },
-        createContact: { enabled: true },
-        getContact: { enabled: true },
-        updateContact: { enabled: true },
-        listDeals: { enabled: false }  // TODO: Not yet implemented
+        searchContacts: { enabled: true, access: "read" },
+        createContact: { enabled: true, access: "write" },
+        getContact: { enabled: true, access: "read" },
+        updateContact: { enabled: true, access: "write" },
+        searchDeals: { enabled: true, access: "read" },
+        getDeal: { enabled: true, access: "read" },
+        createDeal: { enabled: true, access: "write" },
+        updateDeal: { enabled: true, access: "write" },
+        moveDealStage: { enabled: true, access: "write" },
+        searchCompanies: { enabled: true, access: "read" },
+        getCompany: { enabled: true, access: "read" },
+        createCompany: { enabled: true, access: "write" },
+        updateCompany: { enabled: true, access: "write" },
+        listAssociations: { enabled: true, access: "read" },
+        createAssociation: { enabled: true, access: "write" },
+        removeAssociation: { enabled: true, access: "write" },
+        createNote: { enabled: true, access: "write" },
+        createTask: { enabled: true, access: "write" },
+        logCall: { enabled: true, access: "write" },
+        logEmail: { enabled: true, access: "write" },
+        createMeeting: { enabled: true, access: "write" },
+        getTimeline: { enabled: true, access: "read" },
+        searchCrm: { enabled: true, access: "read" },
+        listProperties: { enabled: true, access: "read" },
+        createRecord: { enabled: true, access: "write" },
+        updateRecord: { enabled: true, access: "write" }
       }
     },
     xero: {
@@ -43,8 +68,8 @@ export const defaults = {
       oauth: true,
       rateLimit: { max: 50, period: "1m" },
       operations: {
-        createInvoice: { enabled: true },
-        listContacts: { enabled: true }
+        createInvoice: { enabled: true, access: "write" },
+        listContacts: { enabled: true, access: "read" }
       }
     },
     netsuite: {
@@ -52,8 +77,8 @@ export const defaults = {
       oauth: true,
       rateLimit: { max: 30, period: "1m" },
       operations: {
-        createSalesOrder: { enabled: true },
-        searchCustomers: { enabled: true }
+        createSalesOrder: { enabled: true, access: "write" },
+        searchCustomers: { enabled: true, access: "read" }
       }
     },
     autotask: {
@@ -61,11 +86,28 @@ export const defaults = {
       oauth: true,
       rateLimit: { max: 40, period: "1m" },
       operations: {
-        createTicket: { enabled: true },
-        updateTicket: { enabled: true }
+        createTicket: { enabled: true, access: "write" },
+        updateTicket: { enabled: true, access: "write" }
       }
     }
   },
+  /**
+   * What is masked before tool arguments reach the audit log, Sentry or console output
+   * ------------------------------------------------------
+   * `fields`          – argument names masked for every tool, at any depth. Case, `_` and `-` are
+   *                     ignored and a field also matches names ending in it (`recipientEmail`).
+   * `tools`           – extra fields per MCP tool name, e.g. free-text queries that usually hold a name.
+   * `maxStringLength` – longer strings are truncated.
+   * Secrets (tokens, passwords, keys) and email addresses in free text are always scrubbed.
+   */
+  redaction: {
+    fields: ["email", "phone", "firstname", "lastname", "fullname", "recipients", "address"],
+    tools: {
+      "hubspot-search-contacts": ["query"],
+      "pandadoc-send-document": ["message", "subject"]
+    },
+    maxStringLength: 200
+  },
   worker: { 
     logLevel: "info" 
   }
@@ -79,7 +121,6 @@ export type MCPConfig = {
     scopes: string[];
     redirectUri: string;
     allowHeaderAuth: boolean;
-    headerSecret?: string;
     clientId: string;
     clientSecret: string;
     tenantId?: string;
@@ -90,6 +131,11 @@ export type MCPConfig = {
       clientSecret: string;
     };
   };
+  redaction: {
+    fields: readonly string[];
+    tools: Record<string, readonly string[]>;
+    maxStringLength: number;
+  };
   worker: {
     logLevel: string;
   };
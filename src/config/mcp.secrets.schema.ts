@@ -6,6 +6,14 @@ export const secretsSchema = z.object({
   MICROSOFT_CLIENT_SECRET: z.string().min(1, "Microsoft Client Secret is required"),
   MICROSOFT_TENANT_ID: z.string().optional(),
 
+  // Additional sign-in providers (optional; each is offered once its credentials are set)
+  GOOGLE_CLIENT_ID: z.string().optional(),
+  GOOGLE_CLIENT_SECRET: z.string().optional(),
+  OKTA_CLIENT_ID: z.string().optional(),
+  OKTA_CLIENT_SECRET: z.string().optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+
   // PandaDoc secrets
   PANDADOC_CLIENT_ID: z.string().min(1, "PandaDoc Client ID is required"),
   PANDADOC_CLIENT_SECRET: z.string().min(1, "PandaDoc Client Secret is required"),
@@ -32,9 +40,6 @@ export const secretsSchema = z.object({
   // Optional: Sentry DSN for error tracking
   SENTRY_DSN: z.string().optional(),
   SENTRY_SAMPLE_RATE: z.string().optional(),
-
-  // Authorization header secret for per-tool auth (when OAuth is disabled)
-  AUTH_HEADER_SECRET: z.string().min(8, "Auth header secret must be at least 8 characters").optional(),
 });
 
 export type SecretsEnv = z.infer<typeof secretsSchema>; 
\ No newline at end of file
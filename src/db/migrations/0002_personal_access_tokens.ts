@@ -0,0 +1,31 @@
+import type { Migration } from "../migrator";
+
+/**
+ * Named, scoped, expiring tokens users create for programmatic MCP access.
+ * Only the SHA-256 hash of a token is stored.
+ */
+export const migration: Migration = {
+  version: 2,
+  name: "personal_access_tokens",
+  detect: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'personal_access_tokens'",
+  up: `
+    CREATE TABLE IF NOT EXISTS personal_access_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL, -- first characters of the token, to help users recognise it
+        scopes TEXT NOT NULL, -- JSON array of granted scopes
+        expires_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (user_id) REFERENCES user_sessions(user_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS personal_access_tokens;
+  `
+};
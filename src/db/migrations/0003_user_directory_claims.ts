@@ -0,0 +1,20 @@
+import type { Migration } from "../migrator";
+
+/**
+ * Entra tenant, groups and app roles from each user's last sign-in
+ */
+export const migration: Migration = {
+  version: 3,
+  name: "user_directory_claims",
+  detect: "SELECT 1 FROM pragma_table_info('user_sessions') WHERE name = 'tenant_id'",
+  up: `
+    ALTER TABLE user_sessions ADD COLUMN tenant_id TEXT;
+    ALTER TABLE user_sessions ADD COLUMN groups TEXT; -- JSON array of directory group ids
+    ALTER TABLE user_sessions ADD COLUMN roles TEXT; -- JSON array of app roles
+  `,
+  down: `
+    ALTER TABLE user_sessions DROP COLUMN roles;
+    ALTER TABLE user_sessions DROP COLUMN groups;
+    ALTER TABLE user_sessions DROP COLUMN tenant_id;
+  `
+};
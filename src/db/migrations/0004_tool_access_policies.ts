@@ -0,0 +1,48 @@
+import type { Migration } from "../migrator";
+
+/**
+ * Roles held by users or Entra groups, and the allow/deny rules they carry.
+ * Deny wins over allow; once any rule exists, operations no rule allows are denied.
+ */
+export const migration: Migration = {
+  version: 4,
+  name: "tool_access_policies",
+  detect: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'policy_rules'",
+  up: `
+    CREATE TABLE IF NOT EXISTS roles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS role_assignments (
+        id TEXT PRIMARY KEY,
+        role_id TEXT NOT NULL,
+        subject_type TEXT NOT NULL CHECK (subject_type IN ('user', 'group')),
+        subject_id TEXT NOT NULL, -- user_id, or Entra group object id
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        UNIQUE(role_id, subject_type, subject_id),
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS policy_rules (
+        id TEXT PRIMARY KEY,
+        role_id TEXT NOT NULL,
+        effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),
+        provider TEXT NOT NULL, -- provider key from the tools config, or '*'
+        operation TEXT NOT NULL DEFAULT '*', -- operation name, or '*'
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_role_assignments_subject ON role_assignments(subject_type, subject_id);
+    CREATE INDEX IF NOT EXISTS idx_policy_rules_role_id ON policy_rules(role_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS policy_rules;
+    DROP TABLE IF EXISTS role_assignments;
+    DROP TABLE IF EXISTS roles;
+  `
+};
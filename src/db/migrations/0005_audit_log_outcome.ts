@@ -0,0 +1,28 @@
+import type { Migration } from "../migrator";
+
+/**
+ * Success/failure outcome on audit events, and indexes for filtering the log
+ */
+export const migration: Migration = {
+  version: 5,
+  name: "audit_log_outcome",
+  detect: "SELECT 1 FROM pragma_table_info('audit_logs') WHERE name = 'outcome'",
+  up: `
+    ALTER TABLE audit_logs ADD COLUMN outcome TEXT NOT NULL DEFAULT 'success'; -- 'success' or 'failure'
+    UPDATE audit_logs SET outcome = 'failure' WHERE json_extract(metadata, '$.error') IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_user_created ON audit_logs(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_provider_created ON audit_logs(provider, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_tool_created ON audit_logs(tool_name, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_event_created ON audit_logs(event_type, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_outcome_created ON audit_logs(outcome, created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_audit_logs_outcome_created;
+    DROP INDEX IF EXISTS idx_audit_logs_event_created;
+    DROP INDEX IF EXISTS idx_audit_logs_tool_created;
+    DROP INDEX IF EXISTS idx_audit_logs_provider_created;
+    DROP INDEX IF EXISTS idx_audit_logs_user_created;
+    ALTER TABLE audit_logs DROP COLUMN outcome;
+  `
+};
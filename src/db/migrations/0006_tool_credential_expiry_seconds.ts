@@ -0,0 +1,21 @@
+import type { Migration } from "../migrator";
+
+/**
+ * Provider token expiry as unix seconds. Credentials stored before provider
+ * connections moved to seconds hold ISO 8601 strings; one that can't be parsed
+ * becomes 0, so the token counts as expired and is refreshed.
+ */
+export const migration: Migration = {
+  version: 6,
+  name: "tool_credential_expiry_seconds",
+  up: `
+    UPDATE tool_credentials
+    SET expires_at = COALESCE(CAST(strftime('%s', expires_at) AS INTEGER), 0)
+    WHERE typeof(expires_at) = 'text';
+  `,
+  down: `
+    UPDATE tool_credentials
+    SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', expires_at, 'unixepoch')
+    WHERE typeof(expires_at) = 'integer';
+  `
+};
@@ -0,0 +1,21 @@
+/**
+ * Schema migrations, oldest first. Add new migrations as the next numbered
+ * file and append them here; never edit one that has been applied.
+ */
+
+import type { Migration } from "../migrator";
+import { migration as initialSchema } from "./0001_initial_schema";
+import { migration as personalAccessTokens } from "./0002_personal_access_tokens";
+import { migration as userDirectoryClaims } from "./0003_user_directory_claims";
+import { migration as toolAccessPolicies } from "./0004_tool_access_policies";
+import { migration as auditLogOutcome } from "./0005_audit_log_outcome";
+import { migration as toolCredentialExpirySeconds } from "./0006_tool_credential_expiry_seconds";
+
+export const migrations: Migration[] = [
+  initialSchema,
+  personalAccessTokens,
+  userDirectoryClaims,
+  toolAccessPolicies,
+  auditLogOutcome,
+  toolCredentialExpirySeconds
+];
@@ -0,0 +1,264 @@
+/**
+ * Versioned schema migrations
+ *
+ * Migrations live in ./migrations as numbered files, each with `up` and `down`
+ * SQL, and are listed in order in ./migrations/index.ts. Applied versions are
+ * tracked in `schema_migrations` along with a checksum of their `up` SQL, so a
+ * migration edited after it ran is reported as drift instead of silently
+ * diverging from the database.
+ *
+ * The same runner drives the Worker (`d1MigrationTarget`) and
+ * scripts/migrate.ts, which runs it through `wrangler d1 execute` against the
+ * local or remote database.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  // Query returning a row when this migration's changes already exist; used once
+  // to adopt databases set up before migrations were versioned
+  detect?: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: number;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: number | null;
+  // False when the migration changed after it was applied
+  checksum_matches: boolean | null;
+}
+
+/**
+ * Where migrations run: a D1 binding, or wrangler against a local or remote database
+ */
+export interface MigrationTarget {
+  query<T = Record<string, unknown>>(sql: string): Promise<T[]>;
+  // Run the statements as one batch
+  execute(statements: string[]): Promise<void>;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+const TRACKING_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+)`;
+
+export function d1MigrationTarget(db: D1Database): MigrationTarget {
+  return {
+    async query<T>(sql: string) {
+      const result = await db.prepare(sql).all<T>();
+      return result.results;
+    },
+    async execute(statements: string[]) {
+      await db.batch(statements.map((statement) => db.prepare(statement)));
+    }
+  };
+}
+
+/**
+ * Split a SQL script into statements, dropping `--` comments
+ *
+ * Quoted strings and identifiers ('...', "...", `...`, [...]) and block
+ * comments are copied through untouched, so a `;` or `--` inside them neither
+ * ends a statement nor starts a comment.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (char === "'" || char === '"' || char === "`" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === close) {
+          // A doubled quote is an escaped quote, not the end
+          if (close !== "]" && sql[end + 1] === close) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end;
+    } else if (char === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (char === ";") {
+      statements.push(current);
+      current = "";
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  statements.push(current);
+
+  return statements.map((statement) => statement.trim()).filter((statement) => statement);
+}
+
+/**
+ * SHA-256 of a migration's `up` statements, ignoring comments and whitespace
+ */
+export async function migrationChecksum(migration: Migration): Promise<string> {
+  const normalized = splitStatements(migration.up).map((s) => s.replace(/\s+/g, " ")).join(";");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function migrationLabel(migration: Pick<Migration, "version" | "name">): string {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function recordStatement(migration: Migration, checksum: string): string {
+  return `INSERT INTO schema_migrations (version, name, checksum) VALUES (${migration.version}, ${sqlString(migration.name)}, ${sqlString(checksum)})`;
+}
+
+/**
+ * Create the tracking table if needed. A database that already has tables but no
+ * tracking table predates versioned migrations: every leading migration whose
+ * changes are detected is recorded as applied without running it.
+ */
+async function loadApplied(target: MigrationTarget, migrations: Migration[]): Promise<AppliedMigration[]> {
+  const tracked = await target.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+
+  if (tracked.length === 0) {
+    const adopted: string[] = [];
+    for (const migration of migrations) {
+      if (!migration.detect || (await target.query(migration.detect)).length === 0) break;
+      adopted.push(recordStatement(migration, await migrationChecksum(migration)));
+    }
+    await target.execute([TRACKING_TABLE, ...adopted]);
+  }
+
+  return target.query<AppliedMigration>("SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version");
+}
+
+/**
+ * Refuse to run when applied migrations changed or are unknown to this code
+ */
+async function checkDrift(applied: AppliedMigration[], migrations: Migration[]): Promise<void> {
+  const problems: string[] = [];
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.version === row.version);
+    if (!migration) {
+      problems.push(`${migrationLabel(row)} is applied but missing from this codebase`);
+    } else if ((await migrationChecksum(migration)) !== row.checksum) {
+      problems.push(`${migrationLabel(migration)} changed after it was applied`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new MigrationError(`Schema drift detected: ${problems.join("; ")}`);
+  }
+}
+
+function checkOrder(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new MigrationError(`Migrations are out of order at ${migrationLabel(migration)}`);
+    }
+  });
+}
+
+export async function getMigrationStatus(target: MigrationTarget, migrations: Migration[]): Promise<MigrationStatus[]> {
+  const applied = await loadApplied(target, migrations);
+
+  return Promise.all(
+    migrations.map(async (migration) => {
+      const row = applied.find((a) => a.version === migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!row,
+        applied_at: row?.applied_at ?? null,
+        checksum_matches: row ? row.checksum === (await migrationChecksum(migration)) : null
+      };
+    })
+  );
+}
+
+/**
+ * Apply pending migrations in order, up to and including `to` (default: all).
+ * Each migration and its tracking row are written in one transaction.
+ */
+export async function migrateUp(
+  target: MigrationTarget,
+  migrations: Migration[],
+  options: { to?: number } = {}
+): Promise<Migration[]> {
+  checkOrder(migrations);
+  const applied = await loadApplied(target, migrations);
+  await checkDrift(applied, migrations);
+
+  const pending = migrations.filter(
+    (m) => !applied.some((a) => a.version === m.version) && (options.to === undefined || m.version <= options.to)
+  );
+
+  for (const migration of pending) {
+    console.log(`📝 Applying migration ${migrationLabel(migration)}`);
+    await target.execute([...splitStatements(migration.up), recordStatement(migration, await migrationChecksum(migration))]);
+  }
+
+  return pending;
+}
+
+/**
+ * Revert applied migrations newest first until only versions up to `to` remain
+ * (default: revert the latest one)
+ */
+export async function migrateDown(
+  target: MigrationTarget,
+  migrations: Migration[],
+  options: { to?: number } = {}
+): Promise<Migration[]> {
+  checkOrder(migrations);
+  const applied = await loadApplied(target, migrations);
+  await checkDrift(applied, migrations);
+
+  const to = options.to ?? applied[applied.length - 2]?.version ?? 0;
+  const reverting = migrations.filter((m) => m.version > to && applied.some((a) => a.version === m.version)).reverse();
+
+  for (const migration of reverting) {
+    console.log(`↩️ Reverting migration ${migrationLabel(migration)}`);
+    await target.execute([
+      ...splitStatements(migration.down),
+      `DELETE FROM schema_migrations WHERE version = ${migration.version}`
+    ]);
+  }
+
+  return reverting;
+}
@@ -1,11 +1,22 @@
 import { nanoid } from "nanoid";
+import { redactValue } from "../observability/redaction";
 import type {
   UserSession,
   ToolCredential,
   AuditLog,
+  AuditLogCursor,
+  AuditLogFilters,
+  PersonalAccessToken,
+  Role,
+  RoleAssignment,
+  PolicyRule,
   CreateUserSessionInput,
   CreateToolCredentialInput,
   CreateAuditLogInput,
+  CreatePersonalAccessTokenInput,
+  CreateRoleInput,
+  CreateRoleAssignmentInput,
+  CreatePolicyRuleInput,
   UpdateUserSessionInput,
   UpdateToolCredentialInput,
 } from "./types";
@@ -18,6 +29,8 @@ export class UserSessionsRepository {
     const session: UserSession = {
       id: nanoid(),
       ...input,
+      groups: input.groups ? JSON.stringify(input.groups) : null,
+      roles: input.roles ? JSON.stringify(input.roles) : null,
       created_at: Math.floor(Date.now() / 1000),
       updated_at: Math.floor(Date.now() / 1000),
     };
@@ -43,6 +56,44 @@ export class UserSessionsRepository {
     return session;
   }
 
+  /**
+   * Create the user's record on first login, or refresh its profile and tokens
+   */
+  async upsert(input: CreateUserSessionInput): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.db
+      .prepare(
+        `INSERT INTO user_sessions (id, user_id, email, name, tenant_id, groups, roles, access_token, refresh_token, expires_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id) DO UPDATE SET
+           email = excluded.email,
+           name = excluded.name,
+           tenant_id = excluded.tenant_id,
+           groups = excluded.groups,
+           roles = excluded.roles,
+           access_token = excluded.access_token,
+           refresh_token = excluded.refresh_token,
+           expires_at = excluded.expires_at,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        nanoid(),
+        input.user_id,
+        input.email,
+        input.name,
+        input.tenant_id ?? null,
+        input.groups ? JSON.stringify(input.groups) : null,
+        input.roles ? JSON.stringify(input.roles) : null,
+        input.access_token,
+        input.refresh_token ?? null,
+        input.expires_at,
+        now,
+        now
+      )
+      .run();
+  }
+
   async findByUserId(userId: string): Promise<UserSession | null> {
     const result = await this.db
       .prepare("SELECT * FROM user_sessions WHERE user_id = ?")
@@ -52,6 +103,26 @@ export class UserSessionsRepository {
     return result || null;
   }
 
+  /**
+   * Users by most recent sign-in, optionally matching an email or name fragment.
+   * The fragment is matched literally: `%` and `_` in it are not wildcards.
+   */
+  async list(limit = 50, offset = 0, search?: string): Promise<UserSession[]> {
+    const statement = search
+      ? this.db
+          .prepare(
+            `SELECT * FROM user_sessions WHERE email LIKE ?1 ESCAPE '\\' OR name LIKE ?1 ESCAPE '\\'
+             ORDER BY updated_at DESC LIMIT ?2 OFFSET ?3`
+          )
+          .bind(`%${search.replace(/[\\%_]/g, "\\$&")}%`, limit, offset)
+      : this.db
+          .prepare("SELECT * FROM user_sessions ORDER BY updated_at DESC LIMIT ? OFFSET ?")
+          .bind(limit, offset);
+
+    const results = await statement.all<UserSession>();
+    return results.results || [];
+  }
+
   async update(userId: string, input: UpdateUserSessionInput): Promise<void> {
     const updates: string[] = [];
     const bindings: any[] = [];
@@ -157,6 +228,21 @@ export class ToolCredentialsRepository {
     return results.results || [];
   }
 
+  /**
+   * Credentials of a page of users. The ids are bound as one JSON array, since a
+   * page can hold more users than D1 allows bound parameters in a query.
+   */
+  async findByUsers(userIds: string[]): Promise<ToolCredential[]> {
+    if (userIds.length === 0) return [];
+
+    const results = await this.db
+      .prepare("SELECT * FROM tool_credentials WHERE user_id IN (SELECT value FROM json_each(?)) ORDER BY provider")
+      .bind(JSON.stringify(userIds))
+      .all<ToolCredential>();
+
+    return results.results || [];
+  }
+
   async update(userId: string, provider: string, input: UpdateToolCredentialInput): Promise<void> {
     const updates: string[] = [];
     const bindings: any[] = [];
@@ -190,11 +276,287 @@ export class ToolCredentialsRepository {
     }
   }
 
-  async delete(userId: string, provider: string): Promise<void> {
-    await this.db
+  async delete(userId: string, provider: string): Promise<boolean> {
+    const result = await this.db
       .prepare("DELETE FROM tool_credentials WHERE user_id = ? AND provider = ?")
       .bind(userId, provider)
       .run();
+
+    return result.meta.changes > 0;
+  }
+}
+
+// Personal Access Tokens Operations
+export class PersonalAccessTokensRepository {
+  constructor(private db: D1Database) {}
+
+  async create(input: CreatePersonalAccessTokenInput): Promise<PersonalAccessToken> {
+    const token: PersonalAccessToken = {
+      id: nanoid(),
+      user_id: input.user_id,
+      name: input.name,
+      token_hash: input.token_hash,
+      token_prefix: input.token_prefix,
+      scopes: JSON.stringify(input.scopes),
+      expires_at: input.expires_at,
+      last_used_at: null,
+      revoked_at: null,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    await this.db
+      .prepare(
+        `INSERT INTO personal_access_tokens
+         (id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        token.id,
+        token.user_id,
+        token.name,
+        token.token_hash,
+        token.token_prefix,
+        token.scopes,
+        token.expires_at,
+        token.created_at
+      )
+      .run();
+
+    return token;
+  }
+
+  /**
+   * Find an active (unrevoked, unexpired) token by hash, along with the user it belongs to
+   */
+  async findActiveByHash(
+    tokenHash: string
+  ): Promise<{
+    token: PersonalAccessToken;
+    user: Pick<UserSession, "user_id" | "email" | "name" | "tenant_id" | "groups" | "roles">;
+  } | null> {
+    const result = await this.db
+      .prepare(
+        `SELECT t.*, u.email AS user_email, u.name AS user_name, u.tenant_id AS user_tenant_id,
+                u.groups AS user_groups, u.roles AS user_roles
+         FROM personal_access_tokens t
+         JOIN user_sessions u ON u.user_id = t.user_id
+         WHERE t.token_hash = ? AND t.revoked_at IS NULL AND t.expires_at > ?`
+      )
+      .bind(tokenHash, Math.floor(Date.now() / 1000))
+      .first<PersonalAccessToken & {
+        user_email: string;
+        user_name: string;
+        user_tenant_id: string | null;
+        user_groups: string | null;
+        user_roles: string | null;
+      }>();
+
+    if (!result) return null;
+
+    const { user_email, user_name, user_tenant_id, user_groups, user_roles, ...token } = result;
+    return {
+      token,
+      user: {
+        user_id: token.user_id,
+        email: user_email,
+        name: user_name,
+        tenant_id: user_tenant_id,
+        groups: user_groups,
+        roles: user_roles
+      }
+    };
+  }
+
+  async findByUser(userId: string): Promise<PersonalAccessToken[]> {
+    const results = await this.db
+      .prepare("SELECT * FROM personal_access_tokens WHERE user_id = ? ORDER BY created_at DESC")
+      .bind(userId)
+      .all<PersonalAccessToken>();
+
+    return results.results || [];
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.db
+      .prepare("UPDATE personal_access_tokens SET last_used_at = ? WHERE id = ?")
+      .bind(Math.floor(Date.now() / 1000), id)
+      .run();
+  }
+
+  /**
+   * Revoke one of the user's tokens. Returns false if the user has no such active token.
+   */
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        "UPDATE personal_access_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL"
+      )
+      .bind(Math.floor(Date.now() / 1000), id, userId)
+      .run();
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+}
+
+// Tool Access Policy Operations
+export class PoliciesRepository {
+  constructor(private db: D1Database) {}
+
+  async listRoles(): Promise<Role[]> {
+    const results = await this.db
+      .prepare("SELECT * FROM roles ORDER BY name")
+      .all<Role>();
+
+    return results.results || [];
+  }
+
+  async getRole(id: string): Promise<Role | null> {
+    return await this.db
+      .prepare("SELECT * FROM roles WHERE id = ?")
+      .bind(id)
+      .first<Role>();
+  }
+
+  async createRole(input: CreateRoleInput): Promise<Role> {
+    const now = Math.floor(Date.now() / 1000);
+    const role: Role = {
+      id: nanoid(),
+      name: input.name,
+      description: input.description ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.db
+      .prepare("INSERT INTO roles (id, name, description, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+      .bind(role.id, role.name, role.description, role.created_at, role.updated_at)
+      .run();
+
+    return role;
+  }
+
+  /**
+   * Delete a role with its assignments and rules. Returns false if there is no such role.
+   */
+  async deleteRole(id: string): Promise<boolean> {
+    const [, , result] = await this.db.batch([
+      this.db.prepare("DELETE FROM policy_rules WHERE role_id = ?").bind(id),
+      this.db.prepare("DELETE FROM role_assignments WHERE role_id = ?").bind(id),
+      this.db.prepare("DELETE FROM roles WHERE id = ?").bind(id),
+    ]);
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  async listAssignments(roleId: string): Promise<RoleAssignment[]> {
+    const results = await this.db
+      .prepare("SELECT * FROM role_assignments WHERE role_id = ? ORDER BY created_at")
+      .bind(roleId)
+      .all<RoleAssignment>();
+
+    return results.results || [];
+  }
+
+  async addAssignment(roleId: string, input: CreateRoleAssignmentInput): Promise<RoleAssignment> {
+    const assignment: RoleAssignment = {
+      id: nanoid(),
+      role_id: roleId,
+      subject_type: input.subject_type,
+      subject_id: input.subject_id,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    await this.db
+      .prepare(
+        `INSERT INTO role_assignments (id, role_id, subject_type, subject_id, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .bind(assignment.id, assignment.role_id, assignment.subject_type, assignment.subject_id, assignment.created_at)
+      .run();
+
+    return assignment;
+  }
+
+  async removeAssignment(roleId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare("DELETE FROM role_assignments WHERE id = ? AND role_id = ?")
+      .bind(id, roleId)
+      .run();
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  async listRules(roleId: string): Promise<PolicyRule[]> {
+    const results = await this.db
+      .prepare("SELECT * FROM policy_rules WHERE role_id = ? ORDER BY created_at")
+      .bind(roleId)
+      .all<PolicyRule>();
+
+    return results.results || [];
+  }
+
+  async addRule(roleId: string, input: CreatePolicyRuleInput): Promise<PolicyRule> {
+    const rule: PolicyRule = {
+      id: nanoid(),
+      role_id: roleId,
+      effect: input.effect,
+      provider: input.provider,
+      operation: input.operation,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    await this.db
+      .prepare(
+        `INSERT INTO policy_rules (id, role_id, effect, provider, operation, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(rule.id, rule.role_id, rule.effect, rule.provider, rule.operation, rule.created_at)
+      .run();
+
+    return rule;
+  }
+
+  async removeRule(roleId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare("DELETE FROM policy_rules WHERE id = ? AND role_id = ?")
+      .bind(id, roleId)
+      .run();
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  /**
+   * Whether any rule exists. Without rules, policies are not in use.
+   */
+  async hasRules(): Promise<boolean> {
+    const row = await this.db
+      .prepare("SELECT EXISTS(SELECT 1 FROM policy_rules) AS configured")
+      .first<{ configured: number }>();
+
+    return Boolean(row?.configured);
+  }
+
+  /**
+   * Rules of every role the user holds directly or through one of their groups.
+   * The groups are bound as one JSON array: users can be in hundreds of groups,
+   * more than D1 allows bound parameters in a query.
+   */
+  async findRulesForSubject(
+    userId: string,
+    groups: string[] = []
+  ): Promise<Pick<PolicyRule, "effect" | "provider" | "operation">[]> {
+    const results = await this.db
+      .prepare(
+        `SELECT DISTINCT r.effect, r.provider, r.operation
+         FROM policy_rules r
+         JOIN role_assignments a ON a.role_id = r.role_id
+         WHERE (a.subject_type = 'user' AND a.subject_id = ?)
+            OR (a.subject_type = 'group' AND a.subject_id IN (SELECT value FROM json_each(?)))`
+      )
+      .bind(userId, JSON.stringify(groups))
+      .all<Pick<PolicyRule, "effect" | "provider" | "operation">>();
+
+    return results.results || [];
   }
 }
 
@@ -209,7 +571,8 @@ export class AuditLogsRepository {
       event_type: input.event_type,
       provider: input.provider || null,
       tool_name: input.tool_name || null,
-      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      metadata: input.metadata ? JSON.stringify(redactValue(input.metadata)) : null,
+      outcome: input.outcome ?? (input.metadata?.error ? "failure" : "success"),
       ip_address: input.ip_address || null,
       user_agent: input.user_agent || null,
       created_at: Math.floor(Date.now() / 1000),
@@ -218,8 +581,8 @@ export class AuditLogsRepository {
     await this.db
       .prepare(
         `INSERT INTO audit_logs 
-         (id, user_id, event_type, provider, tool_name, metadata, ip_address, user_agent, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+         (id, user_id, event_type, provider, tool_name, metadata, outcome, ip_address, user_agent, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .bind(
         log.id,
@@ -228,6 +591,7 @@ export class AuditLogsRepository {
         log.provider,
         log.tool_name,
         log.metadata,
+        log.outcome,
         log.ip_address,
         log.user_agent,
         log.created_at
@@ -245,6 +609,43 @@ export class AuditLogsRepository {
     
     return results.results || [];
   }
+
+  /**
+   * Most recent events first, narrowed by any of the given filters. Pass the
+   * last row of a page as `after` to get the next one.
+   */
+  async list(filters: AuditLogFilters = {}, limit = 50, after?: AuditLogCursor): Promise<AuditLog[]> {
+    const conditions: string[] = [];
+    const bindings: unknown[] = [];
+
+    const equals: (keyof AuditLogFilters)[] = ["user_id", "event_type", "provider", "tool_name", "outcome"];
+    for (const column of equals) {
+      if (filters[column] !== undefined) {
+        conditions.push(`${column} = ?`);
+        bindings.push(filters[column]);
+      }
+    }
+    if (filters.from !== undefined) {
+      conditions.push("created_at >= ?");
+      bindings.push(filters.from);
+    }
+    if (filters.to !== undefined) {
+      conditions.push("created_at < ?");
+      bindings.push(filters.to);
+    }
+    if (after) {
+      conditions.push("(created_at < ? OR (created_at = ? AND id < ?))");
+      bindings.push(after.created_at, after.created_at, after.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const results = await this.db
+      .prepare(`SELECT * FROM audit_logs ${where} ORDER BY created_at DESC, id DESC LIMIT ?`)
+      .bind(...bindings, limit)
+      .all<AuditLog>();
+
+    return results.results || [];
+  }
 }
 
 // Convenience factory for creating repositories
@@ -253,5 +654,7 @@ export function createRepositories(db: D1Database) {
     userSessions: new UserSessionsRepository(db),
     toolCredentials: new ToolCredentialsRepository(db),
     auditLogs: new AuditLogsRepository(db),
+    personalAccessTokens: new PersonalAccessTokensRepository(db),
+    policies: new PoliciesRepository(db),
   };
 } 
\ No newline at end of file
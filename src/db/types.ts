@@ -1,10 +1,13 @@
-// Database types matching the schema.sql
+// Database types matching the schema built by ./migrations
 
 export interface UserSession {
   id: string;
   user_id: string;
   email: string;
   name: string;
+  tenant_id?: string | null;
+  groups?: string | null; // JSON array
+  roles?: string | null; // JSON array
   access_token: string;
   refresh_token?: string;
   expires_at: number;
@@ -24,23 +27,65 @@ export interface ToolCredential {
   updated_at: number;
 }
 
+export interface PersonalAccessToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string; // JSON array
+  expires_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  created_at: number;
+}
+
 export interface AuditLog {
   id: string;
   user_id: string;
-  event_type: 'auth_grant' | 'tool_call' | 'token_refresh' | 'auth_revoke';
+  event_type: 'auth_grant' | 'tool_call' | 'token_refresh' | 'auth_revoke' | 'token_create' | 'policy_change' | 'client_change';
   provider: string | null;
   tool_name: string | null;
   metadata: string | null; // JSON object
+  outcome: 'success' | 'failure';
   ip_address: string | null;
   user_agent: string | null;
   created_at: number;
 }
 
+export interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface RoleAssignment {
+  id: string;
+  role_id: string;
+  subject_type: 'user' | 'group';
+  subject_id: string; // user_id, or Entra group object id
+  created_at: number;
+}
+
+export interface PolicyRule {
+  id: string;
+  role_id: string;
+  effect: 'allow' | 'deny';
+  provider: string; // provider key, or '*'
+  operation: string; // operation name, or '*'
+  created_at: number;
+}
+
 // Input types for creating records
 export interface CreateUserSessionInput {
   user_id: string;
   email: string;
   name: string;
+  tenant_id?: string;
+  groups?: string[];
+  roles?: string[];
   access_token: string;
   refresh_token?: string;
   expires_at: number;
@@ -55,16 +100,60 @@ export interface CreateToolCredentialInput {
   scopes?: string[];
 }
 
+export interface CreatePersonalAccessTokenInput {
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: number;
+}
+
 export interface CreateAuditLogInput {
   user_id: string;
   event_type: AuditLog['event_type'];
   provider?: string | null;
   tool_name?: string | null;
   metadata?: Record<string, any> | null;
+  // Defaults to failure when the metadata carries an error, success otherwise
+  outcome?: AuditLog['outcome'];
   ip_address?: string | null;
   user_agent?: string | null;
 }
 
+export interface CreateRoleInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface CreateRoleAssignmentInput {
+  subject_type: RoleAssignment['subject_type'];
+  subject_id: string;
+}
+
+export interface CreatePolicyRuleInput {
+  effect: PolicyRule['effect'];
+  provider: string;
+  operation: string;
+}
+
+// Query types
+export interface AuditLogFilters {
+  user_id?: string;
+  event_type?: AuditLog['event_type'];
+  provider?: string;
+  tool_name?: string;
+  outcome?: AuditLog['outcome'];
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, exclusive
+}
+
+// Position after the last row of a page; rows are ordered newest first
+export interface AuditLogCursor {
+  created_at: number;
+  id: string;
+}
+
 // Update types
 export interface UpdateUserSessionInput {
   access_token?: string;
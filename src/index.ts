@@ -2,11 +2,61 @@
 
 import { McpAgent } from "agents/mcp";
 import { ModularMCPServer as ModularMCP } from "./mcpServer";
-import { ClientRegistry } from "./auth/client-registry";
+import { ClientRegistry, DYNAMIC_CLIENT_TTL_SECONDS } from "./auth/client-registry";
 import { TokenEncryption } from "./auth/crypto";
 import { RateLimiter } from "./auth/rate-limiter";
-import { timingSafeEqual } from "./auth/timing-safe";
+import {
+	computePKCEChallenge,
+	getSigningKeyManager,
+	handleOAuthIntrospect,
+	handleOAuthRevoke,
+	handleOAuthToken,
+	useJwtAccessTokens,
+	verifyAccessToken,
+	type AccessTokenRecord
+} from "./auth/token-endpoints";
+import {
+	IdentityProviderError,
+	getIdentityProvider,
+	getIdentityProviders,
+	selectIdentityProvider,
+	type IdentityProvider,
+	type UpstreamTokens
+} from "./auth/idp";
+import { handleOAuthAuthorize as handleProviderAuthorize, handleOAuthCallback as handleProviderCallback } from "./auth/oauth-handlers";
+import { createRepositories } from "./db/operations";
+import {
+	createPersonalAccessToken,
+	isPersonalAccessToken,
+	parseTokenRequest,
+	toTokenSummary,
+	verifyPersonalAccessToken
+} from "./auth/personal-access-tokens";
+import {
+	bindSession,
+	createSessionProps,
+	isSessionOwner,
+	type McpTransport,
+	type VerifiedIdentity
+} from "./auth/session-identity";
+import { ALL_TOOLS_SCOPE, getAllToolScopes, getToolScope, hasToolScope, parseScopes } from "./auth/tool-scopes";
+import { isToolAllowed, loadToolPolicy } from "./auth/tool-policy";
+import { ADMIN_SCOPE, getAdminRole, isAdmin } from "./admin/access";
+import { handleAdminApi } from "./admin/api";
+import { handleAdminConsole } from "./admin/console";
+import { ADMIN_CONSOLE_CLIENT_ID, createAdminSession, endAdminSession, getAdminSession } from "./admin/session";
+import { loadConfig, isToolEnabled } from "./config/loader";
+import type { MCPConfig } from "./config/mcp.defaults";
 import { ClientRegistrationRequest, ClientRegistrationResponse } from "./auth/oauth-types";
+import {
+	clientIdAlreadyApproved,
+	getApprovedClients,
+	parseRedirectApproval,
+	renderApprovalDialog,
+	renderConsentManagementPage,
+	renderIdentityProviderChooser,
+	revokeClientApproval
+} from "./workers-oauth-utils";
 import { 
 	validateClientName, 
 	validateRedirectUris, 
@@ -14,6 +64,11 @@ import {
 	validateResponseTypes, 
 	validateScopes 
 } from "./auth/validation";
+import { logAuditEvent } from "./observability/audit-event";
+import { installConsoleRedaction } from "./observability/redaction";
+
+// Keep personal data and tokens out of logs from every module
+installConsoleRedaction();
 
 // Create MCP route handlers using static methods
 const mcpSSEHandler = McpAgent.serveSSE("/sse", {
@@ -37,18 +92,7 @@ const mcpStreamableHandler = McpAgent.serve("/mcp", {
 // Helper to generate PKCE code verifier and challenge
 async function generatePKCE(): Promise<{ verifier: string; challenge: string }> {
 	const verifier = crypto.randomUUID() + crypto.randomUUID(); // 72 chars
-	const encoder = new TextEncoder();
-	const data = encoder.encode(verifier);
-	const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-	
-	// Convert to base64url
-	const hashArray = new Uint8Array(hashBuffer);
-	const challenge = btoa(String.fromCharCode(...hashArray))
-		.replace(/\+/g, '-')
-		.replace(/\//g, '_')
-		.replace(/=/g, '');
-	
-	return { verifier, challenge };
+	return { verifier, challenge: await computePKCEChallenge(verifier) };
 }
 
 // Helper function to hash user ID
@@ -60,108 +104,52 @@ async function hashUserId(email: string): Promise<string> {
 	return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-// Helper function to exchange code for tokens with PKCE
-async function exchangeCodeForTokens(code: string, verifier: string, env: Env, request: Request): Promise<Response> {
-	const tokenUrl = `https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/token`;
-	
-	const body = new URLSearchParams({
-		client_id: env.MICROSOFT_CLIENT_ID,
-		client_secret: env.MICROSOFT_CLIENT_SECRET,
-		code: code,
-		code_verifier: verifier,
-		grant_type: "authorization_code",
-		redirect_uri: new URL("/oauth/callback/microsoft", new URL(request.url).origin).toString(),
-		scope: "openid profile email User.Read offline_access"
-	});
-
-	return await fetch(tokenUrl, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/x-www-form-urlencoded",
-			"Accept": "application/json"
-		},
-		body: body.toString()
-	});
-}
-
-// Helper function to get user info from Microsoft Graph
-async function getUserInfo(accessToken: string): Promise<any> {
-	const response = await fetch("https://graph.microsoft.com/v1.0/me", {
-		headers: {
-			"Authorization": `Bearer ${accessToken}`,
-			"Accept": "application/json"
-		}
-	});
-
-	if (!response.ok) {
-		throw new Error("Failed to get user info");
-	}
-
-	return await response.json();
+// Encrypted upstream tokens kept in the user's KV record
+interface StoredIdentityProviderTokens {
+	accessToken: string;
+	refreshToken?: string;
+	expiresAt: number;
+	encrypted: true;
 }
 
-// Helper function to refresh Microsoft access token
-async function refreshMicrosoftToken(refreshToken: string, env: Env): Promise<{
-	access_token: string;
-	refresh_token: string;
-	expires_in: number;
-	token_type: string;
-}> {
-	const tokenUrl = `https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/token`;
-	
-	const body = new URLSearchParams({
-		client_id: env.MICROSOFT_CLIENT_ID,
-		client_secret: env.MICROSOFT_CLIENT_SECRET,
-		refresh_token: refreshToken,
-		grant_type: "refresh_token",
-		scope: "openid profile email User.Read offline_access"
-	});
-
-	const response = await fetch(tokenUrl, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/x-www-form-urlencoded",
-			"Accept": "application/json"
-		},
-		body: body.toString()
-	});
-
-	if (!response.ok) {
-		throw new Error("Failed to refresh token");
-	}
-
-	return await response.json();
+// Helper function to encrypt upstream tokens for storage. Refresh responses may
+// omit the refresh token, in which case the previous one stays valid.
+async function encryptIdentityProviderTokens(
+	tokens: UpstreamTokens,
+	tokenEncryption: TokenEncryption,
+	previousRefreshToken?: string
+): Promise<StoredIdentityProviderTokens> {
+	return {
+		accessToken: await tokenEncryption.encrypt(tokens.access_token),
+		refreshToken: tokens.refresh_token ? await tokenEncryption.encrypt(tokens.refresh_token) : previousRefreshToken,
+		expiresAt: Date.now() + ((tokens.expires_in ?? 3600) * 1000),
+		encrypted: true
+	};
 }
 
-// Helper function to get valid Microsoft token (refreshes if needed)
-async function getValidMicrosoftToken(userId: string, env: Env): Promise<string | null> {
+// Helper function to get a valid access token at the user's sign-in provider (refreshes if needed)
+async function getValidIdentityProviderToken(userId: string, env: Env): Promise<string | null> {
 	const userData = await env.OAUTH_KV.get(`user:${userId}`);
 	if (!userData) return null;
 	
 	const user = JSON.parse(userData);
-	const now = Date.now();
+	// Records written before other providers were supported hold Microsoft tokens
+	const storedTokens: StoredIdentityProviderTokens | undefined = user.idpTokens ?? user.microsoftTokens;
+	if (!storedTokens) return null;
+	
+	const tokenEncryption = new TokenEncryption(env.COOKIE_ENCRYPTION_KEY);
 	
 	// Check if token is expired or about to expire (5 min buffer)
-	if (user.microsoftTokens.expiresAt - now < 5 * 60 * 1000) {
+	if (storedTokens.expiresAt - Date.now() < 5 * 60 * 1000) {
+		const provider = getIdentityProvider(env, user.idp ?? 'microsoft');
+		if (!provider || !storedTokens.refreshToken) return null;
+		
 		try {
-			// Decrypt refresh token
-			const tokenEncryption = new TokenEncryption(env.COOKIE_ENCRYPTION_KEY);
-			const refreshToken = await tokenEncryption.decrypt(user.microsoftTokens.refreshToken);
+			const refreshToken = await tokenEncryption.decrypt(storedTokens.refreshToken);
+			const newTokens = await provider.refresh(refreshToken);
 			
-			// Refresh the token
-			const newTokens = await refreshMicrosoftToken(refreshToken, env);
-			
-			// Encrypt new tokens
-			const encryptedAccessToken = await tokenEncryption.encrypt(newTokens.access_token);
-			const encryptedRefreshToken = await tokenEncryption.encrypt(newTokens.refresh_token);
-			
-			// Update stored tokens
-			user.microsoftTokens = {
-				accessToken: encryptedAccessToken,
-				refreshToken: encryptedRefreshToken,
-				expiresAt: now + (newTokens.expires_in * 1000),
-				encrypted: true
-			};
+			user.idpTokens = await encryptIdentityProviderTokens(newTokens, tokenEncryption, storedTokens.refreshToken);
+			delete user.microsoftTokens;
 			
 			await env.OAUTH_KV.put(`user:${userId}`, JSON.stringify(user), {
 				expirationTtl: 86400 // 24 hours
@@ -169,55 +157,170 @@ async function getValidMicrosoftToken(userId: string, env: Env): Promise<string
 			
 			return newTokens.access_token;
 		} catch (error) {
-			console.error("Failed to refresh Microsoft token:", error);
+			console.error(`Failed to refresh ${provider.id} token:`, error);
 			return null;
 		}
 	}
 	
 	// Token is still valid, decrypt and return
-	const tokenEncryption = new TokenEncryption(env.COOKIE_ENCRYPTION_KEY);
-	return await tokenEncryption.decrypt(user.microsoftTokens.accessToken);
+	return await tokenEncryption.decrypt(storedTokens.accessToken);
 }
 
-// Audit logging helper
-async function logAuditEvent(env: Env, event: any, request?: Request): Promise<void> {
-	if (!env.MCP_DB) return;
+// API handler for authenticated MCP requests (/mcp streamable HTTP and /sse)
+const apiHandler = {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext, identity: VerifiedIdentity): Promise<Response> {
+		const url = new URL(request.url);
+		const transport: McpTransport = url.pathname.startsWith('/sse') ? 'sse' : 'streamable-http';
+		console.log(`Authenticated MCP request (${transport}) for ${identity.userId}`);
+		
+		const toolCalls = await getToolCalls(request);
+		if (toolCalls.length > 0) {
+			const config = loadConfig(env);
+			const rejection = checkToolCallScopes(toolCalls, config, identity.scopes) ??
+				await checkToolCallPolicy(toolCalls, config, env, identity);
+			if (rejection) {
+				return rejection;
+			}
+		}
+		
+		// A request naming an existing session must come from the user who started it
+		const sessionId = transport === 'sse' ? url.searchParams.get('sessionId') : request.headers.get('mcp-session-id');
+		if (sessionId && !await isSessionOwner(env.OAUTH_KV, transport, sessionId, identity.userId)) {
+			return new Response(JSON.stringify({
+				jsonrpc: '2.0',
+				error: { code: -32001, message: 'Session not found' },
+				id: null
+			}), { status: 404, headers: { 'Content-Type': 'application/json' } });
+		}
+		
+		// The agent reads props when a session starts: the verified user, and the granted
+		// scopes that decide which tools it registers
+		ctx.props = createSessionProps(identity);
+		
+		if (transport === 'sse') {
+			if (sessionId || request.method !== 'GET') {
+				return mcpSSEHandler.fetch(request, env, ctx);
+			}
+			
+			// New SSE stream: pick the session id here so it is bound before the client learns it
+			const newSessionId = env.MCP_OBJECT.newUniqueId().toString();
+			await bindSession(env.OAUTH_KV, 'sse', newSessionId, identity.userId);
+			url.searchParams.set('sessionId', newSessionId);
+			return mcpSSEHandler.fetch(new Request(url.toString(), request), env, ctx);
+		}
+		
+		const response = await mcpStreamableHandler.fetch(request, env, ctx);
+		const newSessionId = sessionId ? null : response.headers.get('mcp-session-id');
+		if (newSessionId) {
+			await bindSession(env.OAUTH_KV, 'streamable-http', newSessionId, identity.userId);
+		}
+		return response;
+	}
+};
+
+// Identity behind a verified OAuth access token
+function toVerifiedIdentity(tokenInfo: AccessTokenRecord): VerifiedIdentity {
+	return {
+		userId: tokenInfo.userId,
+		clientId: tokenInfo.clientId,
+		// Tokens issued before per-tool scopes existed carry no scope and keep full access
+		scopes: parseScopes(tokenInfo.scope || ALL_TOOLS_SCOPE),
+		email: tokenInfo.email,
+		name: tokenInfo.name,
+		tenantId: tokenInfo.tenantId,
+		groups: tokenInfo.groups,
+		roles: tokenInfo.roles,
+		source: 'oauth'
+	};
+}
+
+// tools/call messages in an MCP POST body (single message or batch)
+async function getToolCalls(request: Request): Promise<{ id: unknown; name: string }[]> {
+	if (request.method !== 'POST') return [];
 	
+	let body: unknown;
 	try {
-		const id = crypto.randomUUID();
-		const metadata = {
-			...event,
-			timestamp: event.timestamp || new Date().toISOString()
-		};
-		
-		await env.MCP_DB.prepare(`
-			INSERT INTO audit_logs (id, user_id, event_type, provider, tool_name, metadata, ip_address, user_agent)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-		`).bind(
-			id,
-			event.userId || 'system',
-			event.type,
-			event.provider || null,
-			event.toolName || null,
-			JSON.stringify(metadata),
-			request?.headers.get('CF-Connecting-IP') || null,
-			request?.headers.get('User-Agent') || null
-		).run();
-	} catch (error) {
-		console.error("Failed to log audit event:", error);
+		body = await request.clone().json();
+	} catch {
+		// Let the MCP transport report malformed bodies
+		return [];
 	}
+	
+	const messages = Array.isArray(body) ? body : [body];
+	return messages
+		.filter(message => message?.method === 'tools/call')
+		.map(message => ({ id: message.id ?? null, name: String(message.params?.name ?? '') }));
 }
 
-// API handler for authenticated MCP requests
-const apiHandler = {
-	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		// The OAuth provider will add user info to the request
-		console.log("Authenticated MCP request");
-		
-		// Forward to MCP handler with user context
-		return mcpStreamableHandler.fetch(request, env, ctx);
+// Reject tools/call requests for tools the token's scopes don't cover (RFC 6750 insufficient_scope).
+// The session only registers permitted tools, but its props are fixed when it starts, so a
+// later token with narrower scopes could otherwise still call them.
+function checkToolCallScopes(toolCalls: { name: string }[], config: MCPConfig, scopes: string[]): Response | null {
+	for (const { name } of toolCalls) {
+		const requiredScope = getToolScope(config.tools, name);
+		if (requiredScope && !hasToolScope(scopes, requiredScope)) {
+			return new Response(JSON.stringify({
+				error: 'insufficient_scope',
+				error_description: `The access token does not grant the ${requiredScope} scope`,
+				scope: requiredScope
+			}), {
+				status: 403,
+				headers: {
+					'Content-Type': 'application/json',
+					'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${requiredScope}"`
+				}
+			});
+		}
 	}
-};
+	
+	return null;
+}
+
+// Reject tools/call requests the user's access policy denies. Policies can change
+// while a session is open, so the rules are loaded again for every call.
+async function checkToolCallPolicy(
+	toolCalls: { id: unknown; name: string }[],
+	config: MCPConfig,
+	env: Env,
+	identity: VerifiedIdentity
+): Promise<Response | null> {
+	if (toolCalls.length === 0) return null;
+	
+	const policy = await loadToolPolicy(env.MCP_DB, { userId: identity.userId, groups: identity.groups });
+	const denied = toolCalls.find(({ name }) => !isToolAllowed(policy, config.tools, name));
+	if (!denied) return null;
+	
+	return new Response(JSON.stringify({
+		jsonrpc: '2.0',
+		error: { code: -32003, message: `Tool ${denied.name} is not allowed by your access policy` },
+		id: denied.id
+	}), { status: 403, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Connect a downstream provider (HubSpot, PandaDoc, ...) for the user behind a connect ticket
+async function handleProviderConnect(request: Request, env: Env, provider: string, isCallback: boolean): Promise<Response> {
+	const config = loadConfig(env);
+	if (!(provider in config.tools) || !isToolEnabled(config, provider as keyof MCPConfig['tools'])) {
+		return new Response("Not Found", { status: 404 });
+	}
+	
+	return isCallback
+		? handleProviderCallback(provider, request, env, config)
+		: handleProviderAuthorize(provider, request, env, config);
+}
+
+// Public signing keys for JWT access tokens (RFC 7517)
+async function handleJwks(env: Env): Promise<Response> {
+	const jwks = useJwtAccessTokens(env) ? await getSigningKeyManager(env).getJwks() : { keys: [] };
+	
+	return new Response(JSON.stringify(jwks), {
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'public, max-age=300',
+			'Access-Control-Allow-Origin': '*'
+		}
+	});
+}
 
 // Handle OAuth authorization server metadata (RFC 8414)
 async function handleAuthorizationServerMetadata(request: Request, env: Env): Promise<Response> {
@@ -228,15 +331,17 @@ async function handleAuthorizationServerMetadata(request: Request, env: Env): Pr
 		authorization_endpoint: url.origin + "/authorize",
 		token_endpoint: url.origin + "/token",
 		revocation_endpoint: url.origin + "/oauth/revoke",
+		revocation_endpoint_auth_methods_supported: ["none", "client_secret_basic", "client_secret_post"],
 		introspection_endpoint: url.origin + "/oauth/introspect",
+		introspection_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
 		registration_endpoint: url.origin + "/oauth/register",
 		jwks_uri: url.origin + "/oauth/jwks",
-		scopes_supported: ["mcp:tools", "profile", "openid", "offline_access"],
+		scopes_supported: ["mcp:tools", ...getAllToolScopes(), "profile", "openid", "offline_access"],
 		response_types_supported: ["code"],
 		response_modes_supported: ["query"],
 		grant_types_supported: ["authorization_code", "refresh_token"],
 		code_challenge_methods_supported: ["S256"],
-		token_endpoint_auth_methods_supported: ["none", "client_secret_basic"],
+		token_endpoint_auth_methods_supported: ["none", "client_secret_basic", "client_secret_post"],
 		service_documentation: url.origin + "/docs",
 		ui_locales_supported: ["en-US"],
 		op_policy_uri: url.origin + "/policy",
@@ -259,7 +364,7 @@ async function handleProtectedResourceMetadata(request: Request, env: Env): Prom
 	const metadata = {
 		resource: url.origin + "/mcp",
 		authorization_servers: [url.origin],
-		scopes_supported: ["mcp:tools", "profile", "openid"],
+		scopes_supported: ["mcp:tools", ...getAllToolScopes(), "profile", "openid"],
 		bearer_methods_supported: ["header"],
 		resource_documentation: url.origin + "/docs",
 		resource_policy_uri: url.origin + "/policy"
@@ -274,8 +379,8 @@ async function handleProtectedResourceMetadata(request: Request, env: Env): Prom
 	});
 }
 
-// Microsoft OAuth callback handler
-async function handleMicrosoftCallback(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+// Upstream sign-in callback handler (/oauth/callback/:idp)
+async function handleIdentityProviderCallback(request: Request, env: Env, ctx: ExecutionContext, idpId: string): Promise<Response> {
 	const url = new URL(request.url);
 	const code = url.searchParams.get("code");
 	const stateKey = url.searchParams.get("state");
@@ -289,77 +394,97 @@ async function handleMicrosoftCallback(request: Request, env: Env, ctx: Executio
 		return new Response("Authorization code or state missing", { status: 400 });
 	}
 
+	const provider = getIdentityProvider(env, idpId);
+	if (!provider) {
+		return new Response("Unknown sign-in provider", { status: 404 });
+	}
+
 	try {
-		// Retrieve and validate OAuth state
-		const oauthStateData = await env.OAUTH_KV.get(`oauth_state:${stateKey}`);
+		// Retrieve the OAuth state and PKCE verifier, and spend them straight away so a
+		// replayed or failed callback can never reuse them
+		const [oauthStateData, pkceData] = await Promise.all([
+			env.OAUTH_KV.get(`oauth_state:${stateKey}`),
+			env.OAUTH_KV.get(`pkce:${stateKey}`)
+		]);
+		await Promise.all([
+			env.OAUTH_KV.delete(`oauth_state:${stateKey}`),
+			env.OAUTH_KV.delete(`pkce:${stateKey}`)
+		]);
+		
 		if (!oauthStateData) {
 			return new Response("Invalid or expired state", { status: 400 });
 		}
 		const oauthState = JSON.parse(oauthStateData);
 		
-		// Retrieve PKCE verifier
-		const pkceData = await env.OAUTH_KV.get(`pkce:${stateKey}`);
+		// The state must have been issued for this provider
+		if ((oauthState.idp ?? 'microsoft') !== provider.id) {
+			return new Response("Invalid or expired state", { status: 400 });
+		}
+		
 		if (!pkceData) {
 			return new Response("PKCE data not found", { status: 400 });
 		}
 		const { verifier } = JSON.parse(pkceData);
 		
-		// Exchange code for tokens with Microsoft using PKCE
-		const tokenResponse = await exchangeCodeForTokens(code, verifier, env, request);
-		if (!tokenResponse.ok) {
-			const errorText = await tokenResponse.text();
-			console.error("Token exchange failed:", errorText);
-			throw new Error("Token exchange failed");
-		}
-
-		const tokens = await tokenResponse.json() as {
-			access_token: string;
-			refresh_token: string;
-			expires_in: number;
-			token_type: string;
-		};
-
-		// Get user info from Microsoft Graph
-		const userInfo = await getUserInfo(tokens.access_token);
+		// Exchange code for tokens using PKCE, then validate the sign-in and map the user
+		const redirectUri = new URL(`/oauth/callback/${provider.id}`, url.origin).toString();
+		const tokens = await provider.exchangeCode(code, verifier, redirectUri);
+		const upstreamUser = await provider.getUser(tokens, oauthState.nonce);
 		
-		// Create a unique user ID by hashing email
-		const userId = await hashUserId(userInfo.mail || userInfo.userPrincipalName);
+		// Microsoft users keep the email-based id they had before other providers;
+		// elsewhere the provider's subject is the stable identifier
+		const userId = provider.id === 'microsoft'
+			? await hashUserId(upstreamUser.email)
+			: await hashUserId(`${provider.id}:${upstreamUser.subject}`);
 		
-		// Encrypt Microsoft tokens before storage
+		// Encrypt upstream tokens before storage
 		const tokenEncryption = new TokenEncryption(env.COOKIE_ENCRYPTION_KEY);
-		const encryptedAccessToken = await tokenEncryption.encrypt(tokens.access_token);
-		const encryptedRefreshToken = await tokenEncryption.encrypt(tokens.refresh_token);
+		const idpTokens = await encryptIdentityProviderTokens(tokens, tokenEncryption);
 		
 		// Store user data with encrypted tokens
 		await env.OAUTH_KV.put(
 			`user:${userId}`,
 			JSON.stringify({
 				userId: userId,
-				email: userInfo.mail || userInfo.userPrincipalName,
-				name: userInfo.displayName,
-				microsoftTokens: {
-					accessToken: encryptedAccessToken,
-					refreshToken: encryptedRefreshToken,
-					expiresAt: Date.now() + (tokens.expires_in * 1000),
-					encrypted: true
-				}
+				email: upstreamUser.email,
+				name: upstreamUser.name,
+				tenantId: upstreamUser.tenantId,
+				groups: upstreamUser.groups,
+				roles: upstreamUser.roles,
+				idp: provider.id,
+				idpTokens
 			}),
 			{ expirationTtl: 86400 } // 24 hours
 		);
 		
+		// Keep the user's D1 record current; personal access tokens and provider
+		// credentials resolve to it
+		try {
+			await createRepositories(env.MCP_DB).userSessions.upsert({
+				user_id: userId,
+				email: upstreamUser.email,
+				name: upstreamUser.name,
+				tenant_id: upstreamUser.tenantId,
+				groups: upstreamUser.groups,
+				roles: upstreamUser.roles,
+				access_token: idpTokens.accessToken,
+				refresh_token: idpTokens.refreshToken,
+				expires_at: Math.floor(idpTokens.expiresAt / 1000)
+			});
+		} catch (error) {
+			console.error("Failed to store user record:", error);
+		}
+		
 		// Log successful authentication
 		await logAuditEvent(env, {
 			type: 'auth_grant',
 			userId: userId,
-			email: userInfo.mail || userInfo.userPrincipalName,
+			email: upstreamUser.email,
+			provider: provider.id,
 			clientId: oauthState.clientId,
 			timestamp: new Date().toISOString()
 		}, request);
 		
-		// Clean up temporary state
-		await env.OAUTH_KV.delete(`oauth_state:${stateKey}`);
-		await env.OAUTH_KV.delete(`pkce:${stateKey}`);
-		
 		// The OAuth provider library expects to handle the authorization code generation
 		// We need to complete the OAuth flow by calling the authorize endpoint with the user ID
 		const authorizeUrl = new URL('/oauth/authorize/complete', url.origin);
@@ -393,15 +518,20 @@ async function handleMicrosoftCallback(request: Request, env: Env, ctx: Executio
 		await logAuditEvent(env, {
 			type: 'auth_grant',
 			userId: 'unknown',
+			provider: provider.id,
 			error: error instanceof Error ? error.message : 'Unknown error',
 			stateKey: stateKey,
 			timestamp: new Date().toISOString()
 		}, request);
+		// Rejected sign-ins (bad ID token, wrong Workspace domain, ...) are the user's to fix
+		if (error instanceof IdentityProviderError) {
+			return new Response(`Sign-in rejected: ${error.message}`, { status: 403 });
+		}
 		return new Response("Authentication failed", { status: 500 });
 	}
 }
 
-// Complete authorization after Microsoft login
+// Complete authorization after the upstream sign-in
 async function handleOAuthAuthorizeComplete(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 	const url = new URL(request.url);
 	const completionKey = url.searchParams.get('completion_key');
@@ -445,12 +575,17 @@ async function handleOAuthAuthorizeComplete(request: Request, env: Env, ctx: Exe
 	return Response.redirect(redirectUrl.toString(), 302);
 }
 
-// Custom authorization handler that integrates with Microsoft
+// Custom authorization handler that signs users in with the upstream identity provider
 async function handleOAuthAuthorize(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	if (request.method === 'POST') {
+		return handleConsentApproval(request, env);
+	}
+	
 	const url = new URL(request.url);
 	const clientId = url.searchParams.get('client_id');
 	const redirectUri = url.searchParams.get('redirect_uri');
-	const scope = url.searchParams.get('scope') || '';
+	// Clients that don't ask for specific scopes get every tool, as before per-tool scopes
+	const scope = url.searchParams.get('scope') || ALL_TOOLS_SCOPE;
 	const state = url.searchParams.get('state');
 	const codeChallenge = url.searchParams.get('code_challenge');
 	const codeChallengeMethod = url.searchParams.get('code_challenge_method');
@@ -488,14 +623,163 @@ async function handleOAuthAuthorize(request: Request, env: Env, ctx: ExecutionCo
 		return new Response(scopeValidation.error || 'Invalid scope', { status: 400 });
 	}
 	
-	// Generate a secure state parameter that includes the original OAuth params
-	const oauthState = {
-		originalState: state,
+	const authRequest: AuthorizationRequestInfo = {
 		clientId,
 		redirectUri,
 		scope,
+		originalState: state,
 		codeChallenge,
 		codeChallengeMethod,
+		idp: url.searchParams.get('idp'),
+		loginHint: url.searchParams.get('login_hint')
+	};
+	
+	// Dynamically registered clients need the user's consent before we sign them in
+	if (!clientRegistry.isPreconfiguredClient(clientId) &&
+		!(await clientIdAlreadyApproved(request, clientId, env.COOKIE_ENCRYPTION_KEY))) {
+		// The form only carries an id; the request itself stays server-side so it can't be altered
+		const consentId = crypto.randomUUID();
+		await env.OAUTH_KV.put(
+			`consent_request:${consentId}`,
+			JSON.stringify(authRequest),
+			{ expirationTtl: CONSENT_REQUEST_TTL_SECONDS }
+		);
+		
+		const client = await clientRegistry.getClient(clientId);
+		return renderApprovalDialog(request, {
+			client: {
+				clientId,
+				clientName: client?.clientName,
+				redirectUris: [redirectUri],
+				tokenEndpointAuthMethod: 'client_secret_basic'
+			},
+			server: {
+				name: 'ASI MCP Server',
+				description: 'Sign in with your organization account to let this client use your MCP tools.'
+			},
+			scopes: requestedScopes,
+			state: { oauthReqInfo: { clientId }, consentId }
+		});
+	}
+	
+	return startUpstreamSignIn(request, env, authRequest);
+}
+
+// Authorization request parameters carried through consent and the upstream sign-in
+interface AuthorizationRequestInfo {
+	clientId: string;
+	redirectUri: string;
+	scope: string;
+	originalState: string | null;
+	codeChallenge: string;
+	codeChallengeMethod: string;
+	// Sign-in provider requested by the client (`idp`) and the user's email (`login_hint`)
+	idp?: string | null;
+	loginHint?: string | null;
+}
+
+const CONSENT_REQUEST_TTL_SECONDS = 600; // 10 minutes
+const SIGNIN_REQUEST_TTL_SECONDS = 600; // 10 minutes
+
+// Send the user to their identity provider, or to the provider chooser when
+// neither the request nor config decides which one
+async function startUpstreamSignIn(
+	request: Request,
+	env: Env,
+	authRequest: AuthorizationRequestInfo,
+	headers: Record<string, string> = {}
+): Promise<Response> {
+	const providers = getIdentityProviders(env);
+	if (providers.length === 0) {
+		console.error('No sign-in provider is configured');
+		return new Response('Sign-in is not configured', { status: 500 });
+	}
+	
+	const provider = selectIdentityProvider(env, { idp: authRequest.idp, email: authRequest.loginHint });
+	if (!provider && authRequest.idp) {
+		return new Response('Unknown sign-in provider', { status: 400 });
+	}
+	
+	if (!provider) {
+		// Like consent, the form only carries an id for the request kept server-side
+		const signinId = crypto.randomUUID();
+		await env.OAUTH_KV.put(
+			`signin_request:${signinId}`,
+			JSON.stringify(authRequest),
+			{ expirationTtl: SIGNIN_REQUEST_TTL_SECONDS }
+		);
+		
+		const page = renderIdentityProviderChooser({ signinId, action: '/oauth/signin', providers });
+		for (const [name, value] of Object.entries(headers)) {
+			page.headers.append(name, value);
+		}
+		return page;
+	}
+	
+	const location = await buildUpstreamAuthorizeUrl(new URL(request.url), env, provider, authRequest);
+	return new Response(null, {
+		status: 302,
+		headers: { 'Location': location, ...headers }
+	});
+}
+
+// Provider chooser submitted: the user entered their email or picked a provider
+async function handleSignInChoice(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') {
+		return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'POST' } });
+	}
+	
+	if (!isSameOriginPost(request)) {
+		return new Response('Invalid request origin', { status: 403 });
+	}
+	
+	const formData = await request.formData();
+	const field = (name: string) => {
+		const value = formData.get(name);
+		return typeof value === 'string' && value.trim() ? value.trim() : null;
+	};
+	const signinId = field('signin_id');
+	const idp = field('idp');
+	const email = field('email');
+	
+	const storedRequest = signinId ? await env.OAUTH_KV.get(`signin_request:${signinId}`) : null;
+	if (!signinId || !storedRequest) {
+		return new Response('Sign-in request expired. Please start the sign-in again from your MCP client.', { status: 400 });
+	}
+	const authRequest = JSON.parse(storedRequest) as AuthorizationRequestInfo;
+	
+	const provider = selectIdentityProvider(env, { idp, email });
+	if (!provider) {
+		return renderIdentityProviderChooser({
+			signinId,
+			action: '/oauth/signin',
+			providers: getIdentityProviders(env),
+			error: idp
+				? 'That sign-in provider is not available.'
+				: 'We could not match that email to a sign-in provider. Choose one below.'
+		});
+	}
+	await env.OAUTH_KV.delete(`signin_request:${signinId}`);
+	
+	const location = await buildUpstreamAuthorizeUrl(new URL(request.url), env, provider, {
+		...authRequest,
+		loginHint: email ?? authRequest.loginHint
+	});
+	return Response.redirect(location, 303);
+}
+
+// Store the pending authorization and build the provider's sign-in URL for it
+async function buildUpstreamAuthorizeUrl(
+	url: URL,
+	env: Env,
+	provider: IdentityProvider,
+	authRequest: AuthorizationRequestInfo
+): Promise<string> {
+	// Generate a secure state parameter that includes the original OAuth params.
+	// The nonce is checked against the provider's ID token on the way back.
+	const oauthState = {
+		...authRequest,
+		idp: provider.id,
 		timestamp: Date.now(),
 		nonce: crypto.randomUUID()
 	};
@@ -508,168 +792,366 @@ async function handleOAuthAuthorize(request: Request, env: Env, ctx: ExecutionCo
 		{ expirationTtl: 600 } // 10 minutes
 	);
 	
-	// Generate Microsoft OAuth URL with PKCE
-	const microsoftPKCE = await generatePKCE();
+	// PKCE between us and the provider
+	const upstreamPKCE = await generatePKCE();
 	await env.OAUTH_KV.put(
 		`pkce:${stateKey}`,
 		JSON.stringify({
-			verifier: microsoftPKCE.verifier,
-			challenge: microsoftPKCE.challenge
+			verifier: upstreamPKCE.verifier,
+			challenge: upstreamPKCE.challenge
 		}),
 		{ expirationTtl: 600 }
 	);
 	
-	const microsoftAuthUrl = new URL(`https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/authorize`);
-	microsoftAuthUrl.searchParams.set('client_id', env.MICROSOFT_CLIENT_ID);
-	microsoftAuthUrl.searchParams.set('response_type', 'code');
-	microsoftAuthUrl.searchParams.set('redirect_uri', url.origin + '/oauth/callback/microsoft');
-	microsoftAuthUrl.searchParams.set('scope', 'openid profile email User.Read offline_access');
-	microsoftAuthUrl.searchParams.set('state', stateKey);
-	microsoftAuthUrl.searchParams.set('code_challenge', microsoftPKCE.challenge);
-	microsoftAuthUrl.searchParams.set('code_challenge_method', 'S256');
-	microsoftAuthUrl.searchParams.set('prompt', 'select_account');
-	
-	// Redirect to Microsoft
-	return Response.redirect(microsoftAuthUrl.toString(), 302);
+	return provider.getAuthorizeUrl({
+		redirectUri: `${url.origin}/oauth/callback/${provider.id}`,
+		state: stateKey,
+		nonce: oauthState.nonce,
+		codeChallenge: upstreamPKCE.challenge,
+		loginHint: authRequest.loginHint ?? undefined
+	});
 }
 
-// Custom token handler that validates PKCE
-async function handleOAuthToken(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-	if (request.method !== 'POST') {
-		return new Response('Method not allowed', { status: 405 });
+// Browser form posts must come from our own pages (CSRF protection)
+function isSameOriginPost(request: Request): boolean {
+	return request.headers.get('Origin') === new URL(request.url).origin;
+}
+
+// Approval form submitted from the consent dialog
+async function handleConsentApproval(request: Request, env: Env): Promise<Response> {
+	if (!isSameOriginPost(request)) {
+		return new Response('Invalid request origin', { status: 403 });
 	}
 	
-	const contentType = request.headers.get('content-type');
-	if (!contentType?.includes('application/x-www-form-urlencoded')) {
-		return new Response('Invalid content type', { status: 400 });
+	let approval: Awaited<ReturnType<typeof parseRedirectApproval>>;
+	try {
+		approval = await parseRedirectApproval(request, env.COOKIE_ENCRYPTION_KEY);
+	} catch (error) {
+		console.error('Invalid consent submission:', error);
+		return new Response('Invalid consent submission', { status: 400 });
 	}
 	
-	const body = await request.text();
-	const params = new URLSearchParams(body);
+	const consentId = approval.state?.consentId;
+	const storedRequest = consentId ? await env.OAUTH_KV.get(`consent_request:${consentId}`) : null;
+	if (!storedRequest) {
+		return new Response('Consent request expired. Please start the sign-in again from your MCP client.', { status: 400 });
+	}
+	await env.OAUTH_KV.delete(`consent_request:${consentId}`);
 	
-	const grantType = params.get('grant_type');
-	const code = params.get('code');
-	const redirectUri = params.get('redirect_uri');
-	let clientId = params.get('client_id');
-	const codeVerifier = params.get('code_verifier');
+	const authRequest = JSON.parse(storedRequest) as AuthorizationRequestInfo;
+	if (authRequest.clientId !== approval.state.oauthReqInfo.clientId) {
+		return new Response('Invalid consent submission', { status: 400 });
+	}
 	
-	if (grantType !== 'authorization_code') {
-		return new Response('Unsupported grant type', { status: 400 });
+	// Re-check the client in case it was deactivated while the dialog was open
+	const clientValidation = await new ClientRegistry(env).validateClient(authRequest.clientId, authRequest.redirectUri);
+	if (!clientValidation.valid) {
+		return new Response(clientValidation.error || 'Invalid client', { status: 400 });
 	}
 	
-	// Check for client authentication via Authorization header (client_secret_basic)
-	const authHeader = request.headers.get('authorization');
-	if (authHeader?.startsWith('Basic ')) {
-		const credentials = atob(authHeader.slice(6));
-		const [basicClientId, clientSecret] = credentials.split(':');
-		
-		// If client_id is in the Authorization header, use it
-		if (basicClientId) {
-			clientId = basicClientId;
-			
-			// Validate client secret for dynamically registered clients
-			const storedSecret = await env.OAUTH_KV.get(`client_secret:${clientId}`);
-			if (storedSecret && !timingSafeEqual(storedSecret, clientSecret || '')) {
-				return new Response('Invalid client credentials', { status: 401 });
+	return startUpstreamSignIn(request, env, authRequest, approval.headers);
+}
+
+// List the clients approved in this browser
+async function handleConsentList(request: Request, env: Env): Promise<Response> {
+	const clientRegistry = new ClientRegistry(env);
+	const approvedClientIds = await getApprovedClients(request, env.COOKIE_ENCRYPTION_KEY);
+	
+	const clients = await Promise.all(approvedClientIds.map(async clientId => ({
+		clientId,
+		clientName: (await clientRegistry.getClient(clientId))?.clientName
+	})));
+	
+	return renderConsentManagementPage(clients, '/oauth/consent/forget');
+}
+
+// Forget this browser's approval of one client so the next authorization asks again.
+// Only the approval cookie changes; tokens already issued to the client stay valid.
+async function handleConsentForget(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') {
+		return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'POST' } });
+	}
+	
+	if (!isSameOriginPost(request)) {
+		return new Response('Invalid request origin', { status: 403 });
+	}
+	
+	const formData = await request.formData();
+	const clientId = formData.get('client_id');
+	if (typeof clientId !== 'string' || !clientId) {
+		return new Response('Missing client_id', { status: 400 });
+	}
+	
+	const headers = await revokeClientApproval(request, clientId, env.COOKIE_ENCRYPTION_KEY);
+	return new Response(null, {
+		status: 303,
+		headers: { 'Location': '/oauth/consent', ...headers }
+	});
+}
+
+// Personal access token management for the signed-in user. Requires an OAuth access
+// token from an active, operator-configured client; a personal access token cannot
+// mint further tokens, and a new token never carries more than the caller's scopes.
+async function handlePersonalAccessTokens(request: Request, env: Env, tokenId?: string): Promise<Response> {
+	const url = new URL(request.url);
+	const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+	});
+	
+	const token = request.headers.get('authorization')?.replace('Bearer ', '');
+	const tokenInfo = token && !isPersonalAccessToken(token) ? await verifyAccessToken(env, token, url.origin) : null;
+	const clients = new ClientRegistry(env);
+	if (!tokenInfo || !(await clients.isClientActive(tokenInfo.clientId))) {
+		return new Response(JSON.stringify({
+			error: 'invalid_token',
+			error_description: 'Sign in through OAuth and use the resulting access token to manage personal access tokens'
+		}), {
+			status: 401,
+			headers: {
+				'Content-Type': 'application/json',
+				'WWW-Authenticate': `Bearer realm="${url.origin}", error="invalid_token"`
 			}
-		}
+		});
 	}
 	
-	if (!code || !redirectUri || !clientId || !codeVerifier) {
-		return new Response('Missing required parameters', { status: 400 });
+	// Dynamically registered clients are third parties acting for the user
+	if (!clients.isPreconfiguredClient(tokenInfo.clientId)) {
+		return json({
+			error: 'forbidden',
+			error_description: 'Personal access tokens can only be managed from a first-party client'
+		}, 403);
 	}
 	
-	// Get auth code data
-	const authCodeData = await env.OAUTH_KV.get(`auth_code:${code}`);
-	if (!authCodeData) {
-		return new Response('Invalid authorization code', { status: 400 });
+	const repository = createRepositories(env.MCP_DB).personalAccessTokens;
+	
+	if (!tokenId && request.method === 'GET') {
+		const tokens = await repository.findByUser(tokenInfo.userId);
+		return json({ tokens: tokens.map(toTokenSummary) });
 	}
 	
-	const authData = JSON.parse(authCodeData);
+	if (!tokenId && request.method === 'POST') {
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch {
+			return json({ error: 'invalid_request', error_description: 'Request body must be JSON' }, 400);
+		}
+		
+		const parsed = parseTokenRequest(body, parseScopes(tokenInfo.scope));
+		if (!parsed.valid) {
+			return json({ error: 'invalid_request', error_description: parsed.error }, 400);
+		}
+		
+		const { token: created, record } = await createPersonalAccessToken(env.MCP_DB, tokenInfo.userId, parsed.request);
+		
+		await logAuditEvent(env, {
+			type: 'token_create',
+			userId: tokenInfo.userId,
+			tokenId: record.id,
+			name: record.name,
+			scopes: parsed.request.scopes
+		}, request);
+		
+		// The plaintext token is only ever returned here
+		return json({ ...toTokenSummary(record), token: created }, 201);
+	}
 	
-	// Validate client_id and redirect_uri
-	if (authData.clientId !== clientId || authData.redirectUri !== redirectUri) {
-		return new Response('Invalid client or redirect URI', { status: 400 });
+	if (tokenId && request.method === 'DELETE') {
+		if (!await repository.revoke(tokenInfo.userId, tokenId)) {
+			return json({ error: 'not_found', error_description: 'No active token with that id' }, 404);
+		}
+		
+		await logAuditEvent(env, {
+			type: 'auth_revoke',
+			userId: tokenInfo.userId,
+			tokenType: 'personal_access_token',
+			tokenId
+		}, request);
+		
+		return new Response(null, { status: 204 });
 	}
 	
-	// Validate PKCE
-	const encoder = new TextEncoder();
-	const data = encoder.encode(codeVerifier);
-	const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-	const hashArray = new Uint8Array(hashBuffer);
-	const computedChallenge = btoa(String.fromCharCode(...hashArray))
-		.replace(/\+/g, '-')
-		.replace(/\//g, '_')
-		.replace(/=/g, '');
-	
-	if (computedChallenge !== authData.codeChallenge) {
-		return new Response('Invalid code verifier', { status: 400 });
+	return new Response('Method Not Allowed', { status: 405 });
+}
+
+// Admin API requests need an OAuth access token granted the admin scope, from a user
+// holding the admin app role
+async function authenticateAdmin(request: Request, env: Env): Promise<VerifiedIdentity | Response> {
+	const url = new URL(request.url);
+	const token = request.headers.get('authorization')?.replace('Bearer ', '');
+	const tokenInfo = token && !isPersonalAccessToken(token) ? await verifyAccessToken(env, token, url.origin) : null;
+	// As on /mcp, access tokens stop working as soon as their client is disabled
+	if (!tokenInfo || !(await new ClientRegistry(env).isClientActive(tokenInfo.clientId))) {
+		return new Response(JSON.stringify({
+			error: 'invalid_token',
+			error_description: 'Sign in through OAuth and use the resulting access token'
+		}), {
+			status: 401,
+			headers: {
+				'Content-Type': 'application/json',
+				'WWW-Authenticate': `Bearer realm="${url.origin}", error="invalid_token"`
+			}
+		});
 	}
 	
-	// Delete used auth code
-	await env.OAUTH_KV.delete(`auth_code:${code}`);
+	if (!parseScopes(tokenInfo.scope).includes(ADMIN_SCOPE)) {
+		return new Response(JSON.stringify({
+			error: 'insufficient_scope',
+			error_description: `Requires an access token granted the ${ADMIN_SCOPE} scope`
+		}), {
+			status: 403,
+			headers: {
+				'Content-Type': 'application/json',
+				'WWW-Authenticate': `Bearer realm="${url.origin}", error="insufficient_scope", scope="${ADMIN_SCOPE}"`
+			}
+		});
+	}
 	
-	// Get user data
-	const userData = await env.OAUTH_KV.get(`user:${authData.userId}`);
-	if (!userData) {
-		return new Response('User data not found', { status: 400 });
+	const identity = toVerifiedIdentity(tokenInfo);
+	if (!isAdmin(identity, env)) {
+		return new Response(JSON.stringify({
+			error: 'forbidden',
+			error_description: `Requires the ${getAdminRole(env)} app role`
+		}), { status: 403, headers: { 'Content-Type': 'application/json' } });
 	}
 	
-	const user = JSON.parse(userData);
+	return identity;
+}
+
+// Admin console pages need a signed-in admin. Browsers without a session are sent to
+// sign in; form posts must come from our own pages.
+async function authenticateAdminConsole(request: Request, env: Env): Promise<VerifiedIdentity | Response> {
+	const admin = await getAdminSession(request, env.OAUTH_KV);
+	if (!admin) {
+		return request.method === 'GET'
+			? Response.redirect(new URL('/admin/login', request.url).toString(), 302)
+			: new Response('Sign-in required', { status: 401 });
+	}
 	
-	// Generate tokens
-	const accessToken = crypto.randomUUID();
-	const refreshToken = crypto.randomUUID();
+	if (!isAdmin(admin, env)) {
+		return new Response(`Requires the ${getAdminRole(env)} app role`, { status: 403 });
+	}
 	
-	// Store token data
-	await env.OAUTH_KV.put(
-		`access_token:${accessToken}`,
-		JSON.stringify({
-			userId: authData.userId,
-			clientId: authData.clientId,
-			scope: authData.scope,
-			email: user.email,
-			name: user.name
-		}),
-		{ expirationTtl: 3600 } // 1 hour
-	);
+	if (request.method !== 'GET' && !isSameOriginPost(request)) {
+		return new Response('Invalid request origin', { status: 403 });
+	}
 	
+	return admin;
+}
+
+// Admin console sign-in: the normal upstream sign-in as the built-in admin-console
+// client, which comes back to /admin/callback with an authorization code
+async function handleAdminLogin(request: Request, env: Env): Promise<Response> {
+	const url = new URL(request.url);
+	const pkce = await generatePKCE();
+	const state = crypto.randomUUID();
 	await env.OAUTH_KV.put(
-		`refresh_token:${refreshToken}`,
-		JSON.stringify({
-			userId: authData.userId,
-			clientId: authData.clientId,
-			scope: authData.scope
-		}),
-		{ expirationTtl: 2592000 } // 30 days
+		`admin_login:${state}`,
+		JSON.stringify({ verifier: pkce.verifier }),
+		{ expirationTtl: SIGNIN_REQUEST_TTL_SECONDS }
 	);
 	
-	// Log token issuance
-	await logAuditEvent(env, {
-		type: 'token_refresh',
+	return startUpstreamSignIn(request, env, {
+		clientId: ADMIN_CONSOLE_CLIENT_ID,
+		redirectUri: `${url.origin}/admin/callback`,
+		scope: 'openid profile',
+		originalState: state,
+		codeChallenge: pkce.challenge,
+		codeChallengeMethod: 'S256',
+		idp: url.searchParams.get('idp'),
+		loginHint: url.searchParams.get('login_hint')
+	});
+}
+
+// Redeem the admin console's authorization code and start a session for admins
+async function handleAdminCallback(request: Request, env: Env): Promise<Response> {
+	const url = new URL(request.url);
+	const code = url.searchParams.get('code');
+	const state = url.searchParams.get('state');
+	
+	const loginData = state ? await env.OAUTH_KV.get(`admin_login:${state}`) : null;
+	const authCodeData = code ? await env.OAUTH_KV.get(`auth_code:${code}`) : null;
+	if (!loginData || !authCodeData) {
+		return new Response('Sign-in expired. Please sign in to the admin console again.', { status: 400 });
+	}
+	await env.OAUTH_KV.delete(`admin_login:${state}`);
+	await env.OAUTH_KV.delete(`auth_code:${code}`);
+	
+	const { verifier } = JSON.parse(loginData);
+	const authData = JSON.parse(authCodeData);
+	if (authData.clientId !== ADMIN_CONSOLE_CLIENT_ID ||
+		authData.redirectUri !== `${url.origin}/admin/callback` ||
+		await computePKCEChallenge(verifier) !== authData.codeChallenge) {
+		return new Response('Invalid sign-in', { status: 400 });
+	}
+	
+	const userData = await env.OAUTH_KV.get(`user:${authData.userId}`);
+	if (!userData) {
+		return new Response('Sign-in expired. Please sign in to the admin console again.', { status: 400 });
+	}
+	
+	const user = JSON.parse(userData);
+	const identity: VerifiedIdentity = {
 		userId: authData.userId,
-		clientId: authData.clientId,
-		scope: authData.scope,
-		timestamp: new Date().toISOString()
-	}, request);
+		clientId: ADMIN_CONSOLE_CLIENT_ID,
+		scopes: [],
+		email: user.email,
+		name: user.name,
+		tenantId: user.tenantId,
+		groups: user.groups,
+		roles: user.roles,
+		source: 'oauth'
+	};
+	if (!isAdmin(identity, env)) {
+		return new Response(`Requires the ${getAdminRole(env)} app role`, { status: 403 });
+	}
 	
-	// Return tokens
-	return new Response(JSON.stringify({
-		access_token: accessToken,
-		token_type: 'Bearer',
-		expires_in: 3600,
-		refresh_token: refreshToken,
-		scope: authData.scope
-	}), {
+	return new Response(null, {
+		status: 302,
 		headers: {
-			'Content-Type': 'application/json',
-			'Cache-Control': 'no-store',
-			'Pragma': 'no-cache',
-			'Access-Control-Allow-Origin': '*'
+			'Location': '/admin',
+			'Set-Cookie': await createAdminSession(env.OAUTH_KV, identity)
 		}
 	});
 }
 
+async function handleAdminLogout(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') {
+		return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'POST' } });
+	}
+	
+	if (!isSameOriginPost(request)) {
+		return new Response('Invalid request origin', { status: 403 });
+	}
+	
+	return new Response('Signed out of the admin console.', {
+		headers: { 'Set-Cookie': await endAdminSession(request, env.OAUTH_KV) }
+	});
+}
+
+// Resolve a personal access token presented to /mcp or /sse to the user it belongs to
+async function verifyPersonalAccessTokenForMcp(env: Env, token: string): Promise<VerifiedIdentity | null> {
+	if (!loadConfig(env).oauth.allowHeaderAuth) return null;
+	
+	const identity = await verifyPersonalAccessToken(env.MCP_DB, token);
+	if (!identity) return null;
+	
+	return {
+		userId: identity.userId,
+		// Each token is its own client, so one busy script can't use up the client
+		// rate limit for every other personal access token
+		clientId: `pat:${identity.tokenId}`,
+		scopes: identity.scopes,
+		email: identity.email,
+		name: identity.name,
+		tenantId: identity.tenantId,
+		groups: identity.groups,
+		roles: identity.roles,
+		source: 'personal-access-token'
+	};
+}
+
 // Handler for OAuth Dynamic Client Registration (RFC 7591)
 async function handleOAuthRegister(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 	if (request.method !== 'POST') {
@@ -811,14 +1293,14 @@ async function handleOAuthRegister(request: Request, env: Env, ctx: ExecutionCon
 		await env.OAUTH_KV.put(
 			`oauth_client:${clientId}`,
 			JSON.stringify(newClient),
-			{ expirationTtl: 31536000 } // 1 year
+			{ expirationTtl: DYNAMIC_CLIENT_TTL_SECONDS }
 		);
 		
 		// Store client secret separately
 		await env.OAUTH_KV.put(
 			`client_secret:${clientId}`,
 			clientSecret,
-			{ expirationTtl: 31536000 } // 1 year
+			{ expirationTtl: DYNAMIC_CLIENT_TTL_SECONDS }
 		);
 		
 		// Return registration response per RFC 7591
@@ -875,11 +1357,6 @@ const defaultHandler = {
 			return new Response("OK", { status: 200 });
 		}
 
-		// Handle SSE MCP routes (unauthenticated for now)
-		if (url.pathname.startsWith("/sse")) {
-			return mcpSSEHandler.fetch(request, env, ctx);
-		}
-
 		// OAuth protected resource metadata endpoints (RFC 9728)
 		if (url.pathname === "/.well-known/oauth-protected-resource" || 
 		    url.pathname === "/.well-known/oauth-protected-resource/mcp") {
@@ -916,9 +1393,15 @@ const defaultHandler = {
 			return handleAuthorizationServerMetadata(request, env);
 		}
 
-		// Microsoft OAuth callback
-		if (url.pathname === "/oauth/callback/microsoft") {
-			return handleMicrosoftCallback(request, env, ctx);
+		// Upstream identity provider callback
+		const idpCallbackMatch = url.pathname.match(/^\/oauth\/callback\/([a-z0-9-]+)$/);
+		if (idpCallbackMatch) {
+			return handleIdentityProviderCallback(request, env, ctx, idpCallbackMatch[1]);
+		}
+
+		// Provider chooser form
+		if (url.pathname === "/oauth/signin") {
+			return handleSignInChoice(request, env);
 		}
 
 		// OAuth authorize completion
@@ -968,7 +1451,7 @@ const defaultHandler = {
 					headers: {
 						"Access-Control-Allow-Origin": "*",
 						"Access-Control-Allow-Methods": "POST, OPTIONS",
-						"Access-Control-Allow-Headers": "Content-Type",
+						"Access-Control-Allow-Headers": "Content-Type, Authorization",
 						"Access-Control-Max-Age": "86400"
 					}
 				});
@@ -976,6 +1459,45 @@ const defaultHandler = {
 			return handleOAuthToken(request, env, ctx);
 		}
 
+		// OAuth token revocation (RFC 7009)
+		if (url.pathname === "/oauth/revoke") {
+			// Handle CORS preflight
+			if (request.method === "OPTIONS") {
+				return new Response(null, {
+					status: 200,
+					headers: {
+						"Access-Control-Allow-Origin": "*",
+						"Access-Control-Allow-Methods": "POST, OPTIONS",
+						"Access-Control-Allow-Headers": "Content-Type, Authorization",
+						"Access-Control-Max-Age": "86400"
+					}
+				});
+			}
+			return handleOAuthRevoke(request, env, ctx);
+		}
+
+		// JWKS for JWT access token validation
+		if (url.pathname === "/oauth/jwks") {
+			return handleJwks(env);
+		}
+
+		// OAuth token introspection (RFC 7662)
+		if (url.pathname === "/oauth/introspect") {
+			// Handle CORS preflight
+			if (request.method === "OPTIONS") {
+				return new Response(null, {
+					status: 200,
+					headers: {
+						"Access-Control-Allow-Origin": "*",
+						"Access-Control-Allow-Methods": "POST, OPTIONS",
+						"Access-Control-Allow-Headers": "Content-Type, Authorization",
+						"Access-Control-Max-Age": "86400"
+					}
+				});
+			}
+			return handleOAuthIntrospect(request, env);
+		}
+
 		// OAuth Dynamic Client Registration handler
 		if (url.pathname === "/oauth/register") {
 			// Handle CORS preflight
@@ -993,8 +1515,61 @@ const defaultHandler = {
 			return handleOAuthRegister(request, env, ctx);
 		}
 
-		// Show OAuth login page for MCP route
-		if (url.pathname.startsWith("/mcp") && !request.headers.get('authorization')) {
+		// Manage consent given to dynamically registered clients
+		if (url.pathname === "/oauth/consent") {
+			return handleConsentList(request, env);
+		}
+
+		if (url.pathname === "/oauth/consent/forget") {
+			return handleConsentForget(request, env);
+		}
+
+		// Personal access tokens for the signed-in user
+		const tokensMatch = url.pathname.match(/^\/api\/tokens(?:\/([^/]+))?$/);
+		if (tokensMatch) {
+			return handlePersonalAccessTokens(request, env, tokensMatch[1]);
+		}
+
+		// Admin API: users, connections, clients, audit log and tool access policies
+		const adminApiMatch = url.pathname.match(/^\/api\/admin(\/.*)?$/);
+		if (adminApiMatch) {
+			const admin = await authenticateAdmin(request, env);
+			if (admin instanceof Response) {
+				return admin;
+			}
+			return handleAdminApi(request, env, admin, adminApiMatch[1] ?? '');
+		}
+		
+		// Admin console sign-in and pages
+		if (url.pathname === "/admin/login") {
+			return handleAdminLogin(request, env);
+		}
+		
+		if (url.pathname === "/admin/callback") {
+			return handleAdminCallback(request, env);
+		}
+		
+		if (url.pathname === "/admin/logout") {
+			return handleAdminLogout(request, env);
+		}
+		
+		const adminConsoleMatch = url.pathname.match(/^\/admin(\/.*)?$/);
+		if (adminConsoleMatch) {
+			const admin = await authenticateAdminConsole(request, env);
+			if (admin instanceof Response) {
+				return admin;
+			}
+			return handleAdminConsole(request, env, admin, adminConsoleMatch[1] ?? '');
+		}
+
+		// Per-provider connect flow linked from tools that need a provider account
+		const providerMatch = url.pathname.match(/^\/auth\/([a-z]+)(\/callback)?$/);
+		if (providerMatch) {
+			return handleProviderConnect(request, env, providerMatch[1], !!providerMatch[2]);
+		}
+
+		// MCP routes need a bearer token (authenticated requests never reach this handler)
+		if ((url.pathname.startsWith("/mcp") || url.pathname.startsWith("/sse")) && !request.headers.get('authorization')) {
 			return new Response("Authentication required", { 
 				status: 401,
 				headers: {
@@ -1008,8 +1583,9 @@ const defaultHandler = {
 	}
 };
 
-// Export the Durable Object class
+// Export the Durable Object classes
 export { ModularMCP };
+export { RateLimitObject } from './auth/rate-limit-object';
 
 // Export a simple worker that handles all OAuth flows manually
 export default {
@@ -1017,26 +1593,28 @@ export default {
 		const url = new URL(request.url);
 		const rateLimiter = new RateLimiter();
 		
-		// Check for authenticated MCP routes
-		if (url.pathname.startsWith("/mcp") && request.headers.get('authorization')) {
+		// Check for authenticated MCP routes (streamable HTTP and SSE)
+		const isMcpRoute = url.pathname.startsWith("/mcp") || url.pathname.startsWith("/sse");
+		if (isMcpRoute && request.headers.get('authorization')) {
 			// Validate the bearer token
 			const auth = request.headers.get('authorization');
 			const token = auth?.replace('Bearer ', '');
 			
 			if (token) {
-				const tokenData = await env.OAUTH_KV.get(`access_token:${token}`);
-				if (tokenData) {
-					// Parse token data to get user ID
-					const tokenInfo = JSON.parse(tokenData);
-					
+				const identity = isPersonalAccessToken(token)
+					? await verifyPersonalAccessTokenForMcp(env, token)
+					: await verifyAccessToken(env, token, url.origin).then(info => info && toVerifiedIdentity(info));
+				// Access tokens stop working as soon as their client is disabled
+				const clientActive = identity?.source !== 'oauth' || await new ClientRegistry(env).isClientActive(identity.clientId);
+				if (identity && clientActive) {
 					// Apply rate limiting
-					const rateLimitResponse = await rateLimiter.limitRequest(env, request, tokenInfo.userId);
+					const rateLimitResponse = await rateLimiter.limitRequest(env, request, identity.userId, identity.clientId);
 					if (rateLimitResponse) {
 						return rateLimitResponse;
 					}
 					
-					// Token is valid, forward to MCP handler
-					return apiHandler.fetch(request, env, ctx);
+					// Token is valid, forward to MCP handler as this user
+					return apiHandler.fetch(request, env, ctx, identity);
 				}
 			}
 			
@@ -9,77 +9,32 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { loadConfig } from "./config/loader.js";
 import { registerAllTools } from "./tools/index.js";
+import { registerBuiltInTools } from "./tools/built-in.js";
+import { loadToolPolicy } from "./auth/tool-policy.js";
+import { withToolAudit } from "./observability/tool-audit.js";
+import { RateLimiter, withToolRateLimit } from "./middleware/rate-limit.js";
+import { ProviderRateLimiter, withProviderLimits } from "./middleware/provider-rate-limit.js";
+import type { ModularMCPProps } from "./types/index.js";
 import { instrumentDurableObjectWithSentry } from "@sentry/cloudflare";
-
-// Define the Props interface as a Record<string, unknown> to satisfy the constraint
-interface Props extends Record<string, unknown> {
-  id: string;
-  name: string;
-  email: string;
-  source: string;
-}
-
+import { getSentryConfig } from "./sentry.js";
 
 /**
  * Cloudflare MCP Server implementation using McpAgent
  * This follows the standard Cloudflare MCP pattern with SSE and Streamable HTTP transport
  */
-export class ModularMCPServer extends McpAgent<Env, {}, Props> {
+export class ModularMCPServer extends McpAgent<Env, {}, ModularMCPProps> {
   server = new McpServer({
     name: "ASI MCP Gateway",
     version: "0.2.0",
   });
 
-  /**
-   * Override fetch to handle authentication, then delegate to McpAgent
-   */
-  async fetch(request: Request): Promise<Response> {
-    console.log(`🌐 ModularMCPServer.fetch: ${request.method} ${request.url}`);
-    
-    // Ensure props is initialized
-    if (!this.props) {
-      this.props = {
-        id: "anonymous",
-        name: "Anonymous User",
-        email: "anonymous@localhost",
-        source: "unknown"
-      };
-    }
-    
-    // Handle authentication if present
-    const authHeader = request.headers.get("authorization");
-    if (authHeader?.startsWith("Bearer ")) {
-      const token = authHeader.substring(7);
-      console.log("🔐 Request with auth token:", token);
-      
-      // Extract user info from token format: lloyd-mcp-dev-...
-      if (token.startsWith("lloyd-")) {
-        this.props.id = "lloyd";
-        this.props.name = "Lloyd Vickery";
-        this.props.email = "lloyd@asi.co.nz";
-        this.props.source = "header-auth";
-      }
-    }
-    
-    // Let McpAgent handle all transport protocols automatically
-    return super.fetch(request);
-  }
-
   /**
    * Initialize the MCP server with tools
    */
   async init() {
-    console.log("🚀 Initializing MCP Server");
-    
-    // Initialize props if not already set
-    if (!this.props) {
-      this.props = {
-        id: "anonymous",
-        name: "Anonymous User",
-        email: "anonymous@localhost",
-        source: "init"
-      };
-    }
+    // The worker only starts sessions for authenticated requests and passes the
+    // verified user in as props (see createSessionProps)
+    console.log(`🚀 Initializing MCP Server for ${this.props?.user_id ?? "unknown user"}`);
     
     // Load configuration
     const config = loadConfig(this.env);
@@ -89,15 +44,41 @@ export class ModularMCPServer extends McpAgent<Env, {}, Props> {
         .map(([name]) => name)
     });
 
+    // Every tool registered below records its calls in the audit log and is
+    // held to its configured per-user rate limit (rejected calls are audited too);
+    // the provider APIs it calls are held to the provider limits
+    const rateLimiter = RateLimiter.fromEnv(this.env);
+    const server = withProviderLimits(
+      withToolRateLimit(
+        withToolAudit(this.server, {
+          db: this.env.MCP_DB,
+          tools: config.tools,
+          getProps: () => this.props,
+          waitUntil: (promise) => this.ctx.waitUntil(promise)
+        }),
+        config.tools,
+        rateLimiter,
+        () => this.props?.user_id
+      ),
+      new ProviderRateLimiter(rateLimiter),
+      () => this.props?.user_id
+    );
+
     // Register built-in tools
-    this.registerBuiltInTools(config);
+    registerBuiltInTools(server, config, () => this.props);
+
+    // Access policy for this user; the worker re-checks it on every tool call
+    const policy = await loadToolPolicy(this.env.MCP_DB, {
+      userId: this.props.user_id,
+      groups: this.props.groups
+    });
 
     // Register all provider tools with agent context
-    await registerAllTools(this.server, config, {
+    await registerAllTools(server, config, {
       env: this.env,
       props: this.props,
       baseUrl: "https://cf-mcp.asi-cloud.workers.dev" // TODO: Get from request or config
-    });
+    }, policy);
 
     console.log("✅ MCP Server initialized successfully");
   }
@@ -116,67 +97,11 @@ export class ModularMCPServer extends McpAgent<Env, {}, Props> {
       console.error("Error during cleanup:", error);
     }
   }
-
-  /**
-   * Register built-in system tools
-   */
-  private registerBuiltInTools(config: any) {
-    // Health check tool
-    this.server.registerTool(
-      "health",
-      {
-        title: "Health Check",
-        description: "Check the health status of the MCP server",
-        inputSchema: {}
-      },
-      async () => {
-        const enabledTools = Object.entries(config.tools)
-          .filter(([, toolConfig]: [string, any]) => toolConfig.enabled)
-          .map(([name]) => name);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              status: "healthy",
-              version: "0.2.0",
-              enabledProviders: enabledTools,
-              user: this.props,
-              timestamp: new Date().toISOString(),
-            }, null, 2)
-          }]
-        };
-      }
-    );
-
-    // User info tool
-    this.server.registerTool(
-      "userInfo",
-      {
-        title: "User Information",
-        description: "Get information about the current authenticated user",
-        inputSchema: {}
-      },
-      async () => {
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              user: this.props,
-              timestamp: new Date().toISOString(),
-            }, null, 2)
-          }]
-        };
-      }
-    );
-  }
 }
 
 // Apply Sentry instrumentation to the Durable Object
 export const MCP = instrumentDurableObjectWithSentry(
-  (env: Env) => ({
-    dsn: env.SENTRY_DSN,
-    tracesSampleRate: 1.0,
-  }),
+  // Scrubs personal data and tokens before anything is sent
+  (env: Env) => getSentryConfig(env) ?? { dsn: env.SENTRY_DSN },
   ModularMCPServer as any  // Use type assertion to work around constructor visibility
 ); 
\ No newline at end of file
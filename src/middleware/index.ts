@@ -3,4 +3,3 @@
  */
 
 export * from "./rate-limit";
-export * from "./user-context"; 
\ No newline at end of file
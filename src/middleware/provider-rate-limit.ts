@@ -3,9 +3,15 @@
  * 
  * Helps prevent overloading destination APIs like HubSpot, PandaDoc, etc.
  * Works in conjunction with retry logic for graceful degradation.
+ *
+ * Tool handlers registered through withProviderLimits run with the limiter in
+ * context, and every BaseProviderClient request they make checks it first.
  */
 
-import { RateLimiter, type RateLimitResult, type RateLimitConfig } from "./rate-limit";
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RateLimiter } from "./rate-limit";
+import type { RateLimitRule } from "../auth/rate-limit-algorithms";
 import { withRetry, PROVIDER_RETRY_CONFIGS, type RetryConfig } from "./retry";
 import * as Sentry from "@sentry/cloudflare";
 
@@ -90,16 +96,44 @@ export interface CircuitBreakerState {
   nextRetryTime: number;
 }
 
+/**
+ * Rules enforced per provider. Provider quotas apply to our app as a whole,
+ * so they are counted across all users.
+ */
+function providerRules(config: ProviderRateLimitConfig): RateLimitRule[] {
+  const rules: RateLimitRule[] = [{ limit: config.requestsPerMinute, windowSeconds: 60 }];
+  if (config.requestsPerHour) {
+    rules.push({ limit: config.requestsPerHour, windowSeconds: 60 * 60 });
+  }
+  if (config.requestsPerDay) {
+    rules.push({ limit: config.requestsPerDay, windowSeconds: 60 * 60 * 24 });
+  }
+  if (config.burstLimit && config.burstWindow) {
+    rules.push({ limit: config.burstLimit, windowSeconds: config.burstWindow, algorithm: "token-bucket" });
+  }
+  return rules;
+}
+
+/**
+ * Rate limits and circuit breakers per provider, held in the provider's
+ * RateLimitObject (`provider:<name>`) so every isolate sees the same state.
+ * Circuit breaking needs the Durable Object binding; without it only the
+ * fallback rate limit applies.
+ */
 export class ProviderRateLimiter {
-  private circuitBreakers = new Map<string, CircuitBreakerState>();
   private rateLimiter: RateLimiter;
   
   constructor(rateLimiter: RateLimiter) {
     this.rateLimiter = rateLimiter;
   }
   
+  private key(provider: string): string {
+    return `provider:${provider}`;
+  }
+  
   /**
    * Check if we can make a request to the provider
+   * retryAfter is in milliseconds
    */
   async canMakeRequest(
     provider: string,
@@ -112,32 +146,26 @@ export class ProviderRateLimiter {
     }
     
     // Check circuit breaker first
-    const circuitCheck = this.checkCircuitBreaker(provider);
+    const circuitCheck = await this.checkCircuitBreaker(provider);
     if (!circuitCheck.allowed) {
       return circuitCheck;
     }
     
     // Check rate limits
-    const rateLimitKey = `provider:${provider}:user:${userId}`;
-    const rateLimitConfig: RateLimitConfig = {
-      max: config.requestsPerMinute,
-      period: "1m",
-    };
-    
-    const result = await this.rateLimiter.checkLimit(rateLimitKey, rateLimitConfig);
+    const result = await this.rateLimiter.checkRules(this.key(provider), providerRules(config));
     
     if (!result.success) {
       Sentry.addBreadcrumb({
         category: "rate_limit",
         message: `Rate limit exceeded for ${provider}`,
         level: "warning",
-        data: { provider, userId, operation, remaining: result.remaining }
+        data: { provider, userId, operation, remaining: result.remaining, retryAfter: result.retryAfter }
       });
       
       return { 
         allowed: false, 
         reason: "rate_limit_exceeded", 
-        retryAfter: result.retryAfter 
+        retryAfter: result.retryAfter !== undefined ? result.retryAfter * 1000 : undefined
       };
     }
     
@@ -147,108 +175,128 @@ export class ProviderRateLimiter {
   /**
    * Check circuit breaker state
    */
-  private checkCircuitBreaker(provider: string): { allowed: boolean; reason?: string; retryAfter?: number } {
-    const state = this.circuitBreakers.get(provider);
+  private async checkCircuitBreaker(provider: string): Promise<{ allowed: boolean; reason?: string; retryAfter?: number }> {
     const config = PROVIDER_RATE_LIMITS[provider];
-    
-    if (!state || !config?.circuitBreakerThreshold) {
+    const object = this.rateLimiter.object(this.key(provider));
+    if (!object || !config?.circuitBreakerThreshold) {
       return { allowed: true };
     }
     
-    const now = Date.now();
-    
-    switch (state.state) {
-      case "open":
-        if (now >= state.nextRetryTime) {
-          // Transition to half-open
-          state.state = "half-open";
-          this.circuitBreakers.set(provider, state);
-          return { allowed: true };
-        }
+    try {
+      // An open circuit past its timeout comes back half-open, letting requests test the service
+      const state = await object.circuit();
+      if (state?.state === "open") {
         return { 
           allowed: false, 
           reason: "circuit_breaker_open", 
-          retryAfter: state.nextRetryTime - now 
+          retryAfter: state.nextRetryTime - Date.now() 
         };
-        
-      case "half-open":
-        // Allow one request to test if service is back
-        return { allowed: true };
-        
-      case "closed":
-      default:
-        return { allowed: true };
+      }
+    } catch (error) {
+      console.error("Circuit breaker check failed:", error);
     }
+    
+    return { allowed: true };
   }
   
   /**
    * Record a successful request
    */
-  recordSuccess(provider: string): void {
-    const state = this.circuitBreakers.get(provider);
-    if (state) {
-      if (state.state === "half-open") {
-        // Service is back, close the circuit
-        state.state = "closed";
-        state.failures = 0;
-        this.circuitBreakers.set(provider, state);
-      } else if (state.state === "closed") {
-        // Reset failure count on success
-        state.failures = Math.max(0, state.failures - 1);
-        this.circuitBreakers.set(provider, state);
-      }
+  async recordSuccess(provider: string): Promise<void> {
+    try {
+      await this.rateLimiter.object(this.key(provider))?.recordSuccess();
+    } catch (error) {
+      console.error("Circuit breaker update failed:", error);
     }
   }
   
   /**
    * Record a failed request
    */
-  recordFailure(provider: string, error: Error): void {
+  async recordFailure(provider: string, error: Error): Promise<void> {
     const config = PROVIDER_RATE_LIMITS[provider];
-    if (!config?.circuitBreakerThreshold) {
+    const object = this.rateLimiter.object(this.key(provider));
+    if (!object || !config?.circuitBreakerThreshold) {
       return;
     }
     
-    const now = Date.now();
-    let state = this.circuitBreakers.get(provider) || {
-      state: "closed" as const,
-      failures: 0,
-      lastFailureTime: 0,
-      nextRetryTime: 0,
-    };
-    
-    state.failures++;
-    state.lastFailureTime = now;
-    
-    if (state.failures >= config.circuitBreakerThreshold) {
-      // Open the circuit breaker
-      state.state = "open";
-      state.nextRetryTime = now + (config.circuitBreakerTimeout * 1000);
+    try {
+      const state = await object.recordFailure(config.circuitBreakerThreshold, config.circuitBreakerTimeout ?? 60);
       
-      Sentry.captureException(error, {
-        tags: {
-          provider,
-          circuit_breaker: "opened",
-        },
-        extra: {
-          failures: state.failures,
-          threshold: config.circuitBreakerThreshold,
-          nextRetryTime: state.nextRetryTime,
-        }
-      });
+      if (state.state === "open" && state.failures === config.circuitBreakerThreshold) {
+        // Report once, when the circuit opens
+        Sentry.captureException(error, {
+          tags: {
+            provider,
+            circuit_breaker: "opened",
+          },
+          extra: {
+            failures: state.failures,
+            threshold: config.circuitBreakerThreshold,
+            nextRetryTime: state.nextRetryTime,
+          }
+        });
+      }
+    } catch (updateError) {
+      console.error("Circuit breaker update failed:", updateError);
     }
-    
-    this.circuitBreakers.set(provider, state);
   }
   
   /**
    * Get circuit breaker status for monitoring
    */
-  getCircuitBreakerStatus(provider: string): CircuitBreakerState | null {
-    return this.circuitBreakers.get(provider) || null;
+  async getCircuitBreakerStatus(provider: string): Promise<CircuitBreakerState | null> {
+    return (await this.rateLimiter.object(this.key(provider))?.circuit()) ?? null;
   }
 }
 
+export interface ProviderCallContext {
+  limiter: ProviderRateLimiter;
+  userId: string;
+}
+
+const providerCalls = new AsyncLocalStorage<ProviderCallContext>();
+
+/**
+ * Run a function with provider limits applied to the provider API calls it makes
+ */
+export function runWithProviderLimits<T>(context: ProviderCallContext, fn: () => T): T {
+  return providerCalls.run(context, fn);
+}
+
+/**
+ * Provider limits for the tool call in progress; undefined outside one
+ */
+export function currentProviderLimits(): ProviderCallContext | undefined {
+  return providerCalls.getStore();
+}
+
+/**
+ * Wrap the server so every tool registered through it calls provider APIs
+ * under PROVIDER_RATE_LIMITS and the provider circuit breakers
+ */
+export function withProviderLimits(
+  server: McpServer,
+  limiter: ProviderRateLimiter,
+  getUserId: () => string | undefined
+): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool" && prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+
+      const register = Reflect.get(target, prop, receiver) as (name: string, ...rest: unknown[]) => unknown;
+      return (name: string, ...rest: unknown[]) => {
+        const handler = rest.pop() as (...args: unknown[]) => unknown;
+        return register.call(target, name, ...rest, (...args: unknown[]) =>
+          runWithProviderLimits({ limiter, userId: getUserId() ?? "anonymous" }, () => handler(...args))
+        );
+      };
+    }
+  });
+}
+
 /**
  * Higher-order function to wrap API calls with provider-specific rate limiting and retries
  */
@@ -291,49 +339,42 @@ export async function fetchWithProviderLimits(
   const permission = await rateLimiter.canMakeRequest(provider, userId, "api_call");
   
   if (!permission.allowed) {
-    const error = new Error(`${provider} API: ${permission.reason}`);
-    rateLimiter.recordFailure(provider, error);
-    
+    // Refused by our own limiter: the provider hasn't failed, so the circuit breaker isn't fed
     if (permission.retryAfter) {
       // Wait and retry once if retry-after is provided
       await new Promise(resolve => setTimeout(resolve, permission.retryAfter!));
       return fetchWithProviderLimits(provider, url, options, userId, rateLimiter);
     }
     
-    throw error;
+    throw new Error(`${provider} API: ${permission.reason}`);
   }
   
-  try {
-    const retryConfig = PROVIDER_RETRY_CONFIGS[provider];
-    const response = await withRetry(
-      async () => {
-        const resp = await fetch(url, options);
-        
-        // Check for rate limit responses
-        if (resp.status === 429) {
-          const retryAfter = resp.headers.get("Retry-After");
-          const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 60000;
-          
-          throw new Error(`Rate limited by ${provider}, retry after ${retryAfterMs}ms (429)`);
-        }
+  const retryConfig = PROVIDER_RETRY_CONFIGS[provider];
+  const response = await withRetry(
+    async () => {
+      const resp = await fetch(url, options);
+      
+      // Check for rate limit responses
+      if (resp.status === 429) {
+        const retryAfter = resp.headers.get("Retry-After");
+        const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 60000;
         
-        return resp;
-      },
-      retryConfig,
-      `${provider}_fetch`
-    );
-    
-    if (response.success) {
-      rateLimiter.recordSuccess(provider);
-      return response.data!;
-    } else {
-      rateLimiter.recordFailure(provider, response.error!);
-      throw response.error;
-    }
-  } catch (error) {
-    rateLimiter.recordFailure(provider, error instanceof Error ? error : new Error(String(error)));
-    throw error;
+        throw new Error(`Rate limited by ${provider}, retry after ${retryAfterMs}ms (429)`);
+      }
+      
+      return resp;
+    },
+    retryConfig,
+    `${provider}_fetch`
+  );
+  
+  if (!response.success) {
+    await rateLimiter.recordFailure(provider, response.error!);
+    throw response.error;
   }
+  
+  await rateLimiter.recordSuccess(provider);
+  return response.data!;
 }
 
 /**
@@ -1,21 +1,35 @@
-import type { RateLimitConfig } from "../types";
-
-import type { Env } from "../../worker-configuration.d.ts";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, RateLimitConfig } from "../types";
+import type { defaults } from "../config/mcp.defaults";
+import type { RateLimitRule } from "../auth/rate-limit-algorithms";
+import type { RateLimitObject } from "../auth/rate-limit-object";
+import { findToolOperation } from "../auth/tool-scopes";
+import { createErrorResponse } from "../tools/mcp-response-helpers";
 
 /**
- * Rate limiting utility using Cloudflare's Workers Rate Limiting API
+ * Rate limiting utility backed by RateLimitObject, so limits hold across
+ * isolates and colos. Falls back to Cloudflare's Workers Rate Limiting API,
+ * which only enforces the limit configured on its binding.
  * This provides per-user, per-tool quotas for fairness, not security
  */
 
 export interface RateLimitResult {
   success: boolean;
+  limit?: number;
   remaining?: number;
-  resetTime?: number;
-  retryAfter?: number;
+  resetTime?: number; // epoch milliseconds
+  retryAfter?: number; // seconds
 }
 
 export class RateLimiter {
-  constructor(private rateLimit?: RateLimit) {}
+  constructor(
+    private rateLimit?: RateLimit,
+    private limits?: DurableObjectNamespace<RateLimitObject>
+  ) {}
+
+  static fromEnv(env: Env): RateLimiter {
+    return new RateLimiter(env.RATE_LIMITER, env.RATE_LIMIT_OBJECT);
+  }
 
   /**
    * Check rate limit for a given key
@@ -23,17 +37,37 @@ export class RateLimiter {
    * @param config - Rate limit configuration
    */
   async checkLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
-    if (!this.rateLimit) {
-      // Rate limiting not available, allow request
-      return { success: true };
-    }
+    return this.checkRules(key, [
+      { limit: config.max, windowSeconds: parsePeriodToSeconds(config.period), algorithm: "sliding-window" }
+    ]);
+  }
+
+  /**
+   * Count a request against several rules for one key; it is only counted if
+   * every rule allows it
+   */
+  async checkRules(key: string, rules: RateLimitRule[]): Promise<RateLimitResult> {
+    const object = this.object(key);
 
     try {
+      if (object) {
+        const decision = await object.consume(rules);
+        return {
+          success: decision.allowed,
+          limit: decision.limit,
+          remaining: decision.remaining,
+          resetTime: decision.resetAt,
+          retryAfter: decision.allowed ? undefined : decision.retryAfter
+        };
+      }
+
+      if (!this.rateLimit) {
+        // Rate limiting not available, allow request
+        return { success: true };
+      }
+
       const result = await this.rateLimit.limit({ key });
-      return {
-        success: result.success,
-        // Add additional metadata if available from the rate limit response
-      };
+      return { success: result.success };
     } catch (error) {
       console.error("Rate limit check failed:", error);
       // On error, allow the request to proceed
@@ -41,6 +75,13 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * The Durable Object holding state for a key, when the binding is available
+   */
+  object(key: string): DurableObjectStub<RateLimitObject> | undefined {
+    return this.limits?.get(this.limits.idFromName(key));
+  }
+
   /**
    * Generate a rate limit key for a user and tool
    */
@@ -58,23 +99,102 @@ export class RateLimiter {
 
 /**
  * Higher-order function to wrap tool handlers with rate limiting
- * This is optional for fairness/back-pressure, not security
+ * This is for fairness/back-pressure, not security. A call over the limit gets
+ * a RATE_LIMITED error result with `retryAfter` (seconds) in `_meta`; allowed
+ * calls report their remaining quota in `_meta.rateLimit`.
  */
-export function withRateLimit<T extends any[], R>(
-  maxRequests: number,
-  period: string,
-  handler: (...args: T) => Promise<R>
-) {
-  return async function rateLimitedHandler(...args: T): Promise<R> {
-    // For now, this is a placeholder - actual rate limiting would require
-    // access to the ToolContext to get user ID and rate limiter instance
-    // This will be implemented when we create the tool registration system
-    
-    console.log(`Rate limit check: ${maxRequests} requests per ${period}`);
-    return handler(...args);
+export function withRateLimit<T extends unknown[]>(
+  limiter: RateLimiter,
+  key: () => string,
+  config: RateLimitConfig,
+  handler: (...args: T) => Promise<CallToolResult> | CallToolResult
+): (...args: T) => Promise<CallToolResult> {
+  return async function rateLimitedHandler(...args: T): Promise<CallToolResult> {
+    const result = await limiter.checkLimit(key(), config);
+    const quota = result.remaining !== undefined
+      ? {
+          limit: result.limit ?? config.max,
+          remaining: result.remaining,
+          period: config.period,
+          resetAt: result.resetTime !== undefined ? new Date(result.resetTime).toISOString() : undefined
+        }
+      : undefined;
+
+    if (!result.success) {
+      const retryAfter = result.retryAfter ?? parsePeriodToSeconds(config.period);
+      return createErrorResponse(
+        `Rate limit exceeded: ${config.max} calls per ${config.period}. Retry after ${retryAfter} seconds.`,
+        "RATE_LIMITED",
+        { errorCode: "RATE_LIMITED", retryAfter, ...(quota && { rateLimit: quota }) }
+      );
+    }
+
+    const response = await handler(...args);
+    return quota ? { ...response, _meta: { ...response._meta, rateLimit: quota } } : response;
   };
 }
 
+type ToolsConfig = typeof defaults.tools;
+
+/**
+ * Configured limit for a tool, and the per-user key it counts against. An operation's
+ * own `rateLimit` applies to that tool alone; otherwise the provider's
+ * `rateLimit` is shared by all of the provider's tools.
+ */
+export function getToolRateLimit(
+  tools: ToolsConfig,
+  toolName: string
+): { config: RateLimitConfig; key: (userId: string) => string } | null {
+  const found = findToolOperation(tools, toolName);
+  if (!found) {
+    return null;
+  }
+
+  const providerConfig = tools[found.provider as keyof ToolsConfig] as {
+    rateLimit?: RateLimitConfig;
+    operations: Record<string, { rateLimit?: RateLimitConfig }>;
+  };
+  const operationLimit = providerConfig.operations[found.operation]?.rateLimit;
+  if (operationLimit) {
+    return { config: operationLimit, key: (userId) => RateLimiter.getUserToolKey(userId, toolName) };
+  }
+  if (providerConfig.rateLimit) {
+    return { config: providerConfig.rateLimit, key: (userId) => RateLimiter.getUserProviderKey(userId, found.provider) };
+  }
+  return null;
+}
+
+/**
+ * Wrap the server so every configured tool is rate limited per user. The
+ * handler is always the last registration argument.
+ */
+export function withToolRateLimit(
+  server: McpServer,
+  tools: ToolsConfig,
+  limiter: RateLimiter,
+  getUserId: () => string | undefined
+): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool" && prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+
+      const register = Reflect.get(target, prop, receiver) as (name: string, ...rest: unknown[]) => unknown;
+      return (name: string, ...rest: unknown[]) => {
+        const limit = getToolRateLimit(tools, name);
+        if (!limit) {
+          return register.call(target, name, ...rest);
+        }
+
+        const handler = rest.pop() as (...args: unknown[]) => Promise<CallToolResult>;
+        const key = () => limit.key(getUserId() ?? "anonymous");
+        return register.call(target, name, ...rest, withRateLimit(limiter, key, limit.config, handler));
+      };
+    }
+  });
+}
+
 /**
  * Parse period string to seconds
  * @param period - Period string like "1m", "1h", "1d"
@@ -119,7 +239,7 @@ export async function checkAuthRateLimit(env: Env, request: Request, provider?:
     key += `:${provider}`;
   }
   
-  const limiter = new RateLimiter(env.RATE_LIMITER);
+  const limiter = RateLimiter.fromEnv(env);
   const config: RateLimitConfig = { max: 50, period: '1m' }; // From spec section 9
   return limiter.checkLimit(key, config);
 } 
\ No newline at end of file
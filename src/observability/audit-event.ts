@@ -0,0 +1,39 @@
+/**
+ * Audit events for sign-in, token and admin actions
+ *
+ * Event fields are redacted before they are stored as metadata.
+ */
+
+import { redactValue } from './redaction';
+
+/**
+ * Record an auth or admin event in audit_logs; failures are logged, never thrown
+ */
+export async function logAuditEvent(env: Env, event: any, request?: Request): Promise<void> {
+	if (!env.MCP_DB) return;
+	
+	try {
+		const id = crypto.randomUUID();
+		const metadata = redactValue({
+			...event,
+			timestamp: event.timestamp || new Date().toISOString()
+		});
+		
+		await env.MCP_DB.prepare(`
+			INSERT INTO audit_logs (id, user_id, event_type, provider, tool_name, metadata, outcome, ip_address, user_agent)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`).bind(
+			id,
+			event.userId || 'system',
+			event.type,
+			event.provider || null,
+			event.toolName || null,
+			JSON.stringify(metadata),
+			event.error ? 'failure' : 'success',
+			request?.headers.get('CF-Connecting-IP') || null,
+			request?.headers.get('User-Agent') || null
+		).run();
+	} catch (error) {
+		console.error("Failed to log audit event:", error);
+	}
+}
@@ -0,0 +1,124 @@
+/**
+ * Redaction of personal data and secrets
+ *
+ * One set of rules (`redaction` in the config) applies to everything that
+ * leaves a request: audit log metadata, Sentry events, breadcrumbs and spans,
+ * and console output. Fields holding personal data or secrets are masked by
+ * name; strings anywhere are scrubbed of tokens and email addresses.
+ */
+
+import { defaults, type MCPConfig } from "../config/mcp.defaults";
+
+export const REDACTED = "[REDACTED]";
+
+type RedactionRules = MCPConfig["redaction"];
+
+export interface RedactionOptions {
+  // Field names masked in addition to the configured ones
+  fields?: readonly string[];
+  // Truncate longer strings (no limit by default)
+  maxStringLength?: number;
+}
+
+// Field names (normalized) whose string values are always secrets
+const SECRET_FIELD_SUFFIXES = ["token", "secret", "password", "apikey", "authorization", "cookie", "codeverifier"];
+
+const MAX_DEPTH = 8;
+
+const TEXT_PATTERNS: [RegExp, string][] = [
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, `Bearer ${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED],
+  [/\bmcp_pat_[A-Za-z0-9_-]+/g, REDACTED],
+  [/\b(access_token|refresh_token|id_token|client_secret|code_verifier|code)=[^&\s"']+/gi, `$1=${REDACTED}`],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, REDACTED]
+];
+
+function normalizeField(name: string): string {
+  return name.toLowerCase().replace(/[_-]/g, "");
+}
+
+function matchesField(name: string, fields: readonly string[]): boolean {
+  const normalized = normalizeField(name);
+  return fields.some((field) => normalized.endsWith(normalizeField(field)));
+}
+
+/**
+ * Replace bearer tokens, JWTs, personal access tokens, OAuth parameters and
+ * email addresses in free text
+ */
+export function scrubText(text: string): string {
+  return TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Copy of a value with personal-data fields and secrets masked and every
+ * string scrubbed. Errors become their scrubbed stack trace.
+ */
+export function redactValue(
+  value: unknown,
+  options: RedactionOptions = {},
+  rules: RedactionRules = defaults.redaction
+): unknown {
+  const fields = [...rules.fields, ...(options.fields ?? [])];
+  const seen = new WeakSet<object>();
+
+  const visit = (item: unknown, key: string | undefined, depth: number): unknown => {
+    if (key !== undefined && item !== null && item !== undefined) {
+      if (matchesField(key, fields)) return REDACTED;
+      if (typeof item === "string" && matchesField(key, SECRET_FIELD_SUFFIXES)) return REDACTED;
+    }
+
+    if (typeof item === "string") {
+      const scrubbed = scrubText(item);
+      return options.maxStringLength && scrubbed.length > options.maxStringLength
+        ? `${scrubbed.slice(0, options.maxStringLength)}…`
+        : scrubbed;
+    }
+    if (item instanceof Error) {
+      return scrubText(item.stack ?? `${item.name}: ${item.message}`);
+    }
+    if (!item || typeof item !== "object") {
+      return item;
+    }
+    if (seen.has(item) || depth >= MAX_DEPTH) {
+      return "[Truncated]";
+    }
+    seen.add(item);
+
+    if (Array.isArray(item)) {
+      return item.map((entry) => visit(entry, undefined, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(item).map(([name, entry]) => [name, visit(entry, name, depth + 1)])
+    );
+  };
+
+  return visit(value, undefined, 0);
+}
+
+/**
+ * Tool arguments as they may be stored or reported, with the tool's own field rules applied
+ */
+export function redactToolArguments(
+  toolName: string,
+  args: unknown,
+  rules: RedactionRules = defaults.redaction
+): unknown {
+  return redactValue(args, { fields: rules.tools[toolName] ?? [], maxStringLength: rules.maxStringLength }, rules);
+}
+
+const CONSOLE_METHODS = ["log", "info", "warn", "error", "debug"] as const;
+const installed = new WeakSet<Console>();
+
+/**
+ * Route console output through the redaction rules. Safe to call more than once.
+ */
+export function installConsoleRedaction(target: Console = console): void {
+  if (installed.has(target)) return;
+  installed.add(target);
+
+  for (const method of CONSOLE_METHODS) {
+    const original = target[method].bind(target);
+    target[method] = (...args: unknown[]) => original(...args.map((arg) => redactValue(arg)));
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Audit trail for MCP tool calls
+ *
+ * Every tool registered through the wrapped server records one `tool_call`
+ * event per invocation: the user and client, the provider and tool, arguments
+ * redacted per ./redaction, the outcome with its error code, the last upstream
+ * HTTP status and the duration. Rows are written after the response via
+ * `waitUntil`.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { defaults } from "../config/mcp.defaults";
+import { createRepositories } from "../db/operations";
+import { findToolOperation } from "../auth/tool-scopes";
+import { redactToolArguments } from "./redaction";
+import type { ModularMCPProps } from "../types";
+
+type ToolsConfig = typeof defaults.tools;
+
+export interface ToolAuditOptions {
+  db: D1Database;
+  tools: ToolsConfig;
+  getProps: () => ModularMCPProps | undefined;
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+interface ToolCallState {
+  upstreamStatus?: number;
+}
+
+const toolCalls = new AsyncLocalStorage<ToolCallState>();
+
+/**
+ * Note the HTTP status of a provider API response for the tool call in progress.
+ * Outside a tool call this does nothing.
+ */
+export function recordUpstreamStatus(status: number): void {
+  const state = toolCalls.getStore();
+  if (state) {
+    state.upstreamStatus = status;
+  }
+}
+
+/**
+ * Error code for a tool result flagged as an error
+ */
+function resultErrorCode(result: CallToolResult): string {
+  const meta = result._meta as Record<string, unknown> | undefined;
+  if (meta?.requiresAuth) return "AUTH_REQUIRED";
+  return typeof meta?.errorCode === "string" ? meta.errorCode : "TOOL_ERROR";
+}
+
+/**
+ * Wrap a tool handler so each call is timed and audited
+ */
+export function auditToolHandler<Args extends unknown[]>(
+  name: string,
+  handler: (...args: Args) => Promise<CallToolResult> | CallToolResult,
+  options: ToolAuditOptions
+): (...args: Args) => Promise<CallToolResult> {
+  return async (...args: Args) => {
+    const state: ToolCallState = {};
+    const startedAt = Date.now();
+    // Tools without an input schema receive only the request extra
+    const toolArgs = args.length > 1 ? args[0] : undefined;
+    let errorCode: string | undefined;
+
+    try {
+      const result = await toolCalls.run(state, () => handler(...args));
+      if (result.isError) {
+        errorCode = resultErrorCode(result);
+      }
+      return result;
+    } catch (error) {
+      errorCode = (error as { code?: unknown })?.code !== undefined
+        ? String((error as { code: unknown }).code)
+        : "UNHANDLED_ERROR";
+      const statusCode = (error as { statusCode?: unknown })?.statusCode;
+      if (typeof statusCode === "number") {
+        state.upstreamStatus = statusCode;
+      }
+      throw error;
+    } finally {
+      const props = options.getProps();
+      const provider = findToolOperation(options.tools, name)?.provider ?? null;
+
+      options.waitUntil(
+        createRepositories(options.db).auditLogs
+          .create({
+            user_id: props?.user_id ?? "anonymous",
+            event_type: "tool_call",
+            provider,
+            tool_name: name,
+            outcome: errorCode ? "failure" : "success",
+            metadata: {
+              clientId: props?.client_id ?? null,
+              source: props?.source ?? null,
+              args: redactToolArguments(name, toolArgs ?? {}),
+              errorCode: errorCode ?? null,
+              upstreamStatus: state.upstreamStatus ?? null,
+              durationMs: Date.now() - startedAt
+            }
+          })
+          .catch((error) => console.error("Failed to log tool call:", error))
+      );
+    }
+  };
+}
+
+/**
+ * Wrap the server so every tool registered through it is audited. The handler
+ * is always the last registration argument, for both `tool` and `registerTool`.
+ */
+export function withToolAudit(server: McpServer, options: ToolAuditOptions): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool" && prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+
+      const register = Reflect.get(target, prop, receiver) as (name: string, ...rest: unknown[]) => unknown;
+      return (name: string, ...rest: unknown[]) => {
+        const handler = rest.pop() as (...args: unknown[]) => Promise<CallToolResult>;
+        return register.call(target, name, ...rest, auditToolHandler(name, handler, options));
+      };
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import * as Sentry from "@sentry/cloudflare";
 import { z } from "zod";
 import type { McpRequest, McpResponse } from "../types";
+import { redactToolArguments } from "./redaction";
 
 /**
  * Wraps a tool handler with Sentry tracing
@@ -18,7 +19,7 @@ export function wrapTool<T extends z.ZodTypeAny>(
           op: "tool.execute",
           attributes: {
             "tool.name": name,
-            "tool.args": JSON.stringify(args),
+            "tool.args": JSON.stringify(redactToolArguments(name, args)),
             "user.id": ctx.user?.id,
           },
         },
@@ -35,7 +36,7 @@ export function wrapTool<T extends z.ZodTypeAny>(
                 userId: ctx.user?.id,
               },
               extra: {
-                args,
+                args: redactToolArguments(name, args),
                 toolName: name,
               },
             });
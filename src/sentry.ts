@@ -2,6 +2,7 @@
  * Sentry configuration and utilities for MCP server monitoring
  */
 import * as Sentry from "@sentry/cloudflare";
+import { redactToolArguments, redactValue, scrubText } from "./observability/redaction";
 
 /**
  * Get Sentry configuration from environment
@@ -20,12 +21,6 @@ export function getSentryConfig(env: Env): Sentry.CloudflareOptions | null {
     tracesSampleRate: sampleRate,
     environment: env.BASE_URL?.includes('localhost') ? 'development' : 'production',
     beforeSend(event: Sentry.ErrorEvent) {
-      // Filter out sensitive data from error reports
-      if (event.request?.headers) {
-        delete event.request.headers.Authorization;
-        delete event.request.headers.Cookie;
-      }
-      
       // Remove secrets from environment context
       if (event.contexts?.runtime?.env) {
         const env = event.contexts.runtime.env as any;
@@ -36,14 +31,55 @@ export function getSentryConfig(env: Env): Sentry.CloudflareOptions | null {
         });
       }
       
-      return event;
+      return scrubSentryEvent(event);
     },
+    beforeSendTransaction: (event) => scrubSentryEvent(event),
+    beforeSendSpan: (span) => ({ ...span, data: redactValue(span.data) as typeof span.data }),
+    beforeBreadcrumb: (breadcrumb) => scrubBreadcrumb(breadcrumb),
     integrations: [
       // Add any additional integrations here
     ]
   };
 }
 
+/**
+ * Redact personal data and tokens from a Sentry breadcrumb
+ */
+export function scrubBreadcrumb(breadcrumb: Sentry.Breadcrumb): Sentry.Breadcrumb {
+  return {
+    ...breadcrumb,
+    message: breadcrumb.message && scrubText(breadcrumb.message),
+    data: breadcrumb.data && (redactValue(breadcrumb.data) as Sentry.Breadcrumb["data"])
+  };
+}
+
+/**
+ * Redact personal data and tokens from everything a Sentry event carries:
+ * request, user, extra data, contexts, breadcrumbs, messages and spans
+ */
+export function scrubSentryEvent<T extends Sentry.Event>(event: T): T {
+  const redact = <V>(value: V): V => redactValue(value) as V;
+
+  return {
+    ...event,
+    message: event.message && scrubText(event.message),
+    request: event.request && redact(event.request),
+    user: event.user && redact(event.user),
+    extra: event.extra && redact(event.extra),
+    contexts: event.contexts && redact(event.contexts),
+    tags: event.tags && redact(event.tags),
+    breadcrumbs: event.breadcrumbs?.map(scrubBreadcrumb),
+    spans: event.spans?.map((span) => ({ ...span, data: redact(span.data) })),
+    exception: event.exception && {
+      ...event.exception,
+      values: event.exception.values?.map((exception) => ({
+        ...exception,
+        value: exception.value && scrubText(exception.value)
+      }))
+    }
+  };
+}
+
 /**
  * Helper function to handle errors with Sentry
  */
@@ -78,15 +114,15 @@ export function setSentryUser(user: { id: string; email: string; login: string;
 }
 
 /**
- * Helper function to extract MCP parameters for tracing
+ * Helper function to extract MCP parameters for tracing, redacted per the tool's rules
  */
-export function extractMcpParameters(args: any): Record<string, any> {
+export function extractMcpParameters(args: any, toolName = ""): Record<string, any> {
   const params: Record<string, any> = {};
+  const redacted = redactToolArguments(toolName, args);
   
-  if (args && typeof args === 'object') {
+  if (redacted && typeof redacted === 'object') {
     // Extract non-sensitive parameters for tracing
-    Object.keys(args).forEach(key => {
-      const value = args[key];
+    Object.entries(redacted).forEach(([key, value]) => {
       if (typeof value === 'string' && value.length < 100) {
         // Only include short strings to avoid sensitive data
         params[key] = value;
@@ -114,7 +150,7 @@ export function withSentryTracing<T extends any[], R>(
           attributes: {
             "tool.name": toolName,
             "tool.provider": toolName.split('-')[0],
-            ...extractMcpParameters(args[0])
+            ...extractMcpParameters(args[0], toolName)
           }
         },
         async (span) => {
@@ -4,6 +4,8 @@
  */
 
 import { ToolError } from "@/types";
+import { recordUpstreamStatus } from "@/observability/tool-audit";
+import { currentProviderLimits } from "@/middleware/provider-rate-limit";
 
 export interface BaseClientConfig {
   /**
@@ -61,6 +63,9 @@ export abstract class BaseProviderClient {
 
   /**
    * Make an authenticated API request
+   *
+   * Inside a tool call the provider's shared rate limit is checked first, and
+   * the outcome feeds its circuit breaker (see withProviderLimits).
    */
   protected async request<T>(
     endpoint: string,
@@ -68,6 +73,21 @@ export abstract class BaseProviderClient {
   ): Promise<T> {
     const url = this.buildUrl(endpoint, options.params);
     const timeout = options.timeout || this.config.timeout || 30000;
+    const { provider } = this.config;
+    const limits = currentProviderLimits();
+
+    if (limits) {
+      const permission = await limits.limiter.canMakeRequest(provider, limits.userId, `${options.method ?? "GET"} ${endpoint}`);
+      if (!permission.allowed) {
+        const wait = permission.retryAfter ? ` Try again in ${Math.ceil(permission.retryAfter / 1000)}s.` : "";
+        throw new ToolError(
+          `${provider} API limit reached (${permission.reason}).${wait}`,
+          "RATE_LIMITED",
+          429,
+          provider
+        );
+      }
+    }
 
     // Create abort controller for timeout
     const controller = new AbortController();
@@ -86,11 +106,24 @@ export abstract class BaseProviderClient {
       });
 
       clearTimeout(timeoutId);
+      recordUpstreamStatus(response.status);
+
+      // Throttling and server errors count towards opening the provider's circuit
+      if (response.status === 429 || response.status >= 500) {
+        await limits?.limiter.recordFailure(provider, new Error(`${provider} API responded ${response.status}`));
+      } else {
+        await limits?.limiter.recordSuccess(provider);
+      }
 
       if (!response.ok) {
         await this.handleErrorResponse(response);
       }
 
+      // DELETE and some PUT endpoints answer 204 with no body
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
       return await response.json() as T;
     } catch (error) {
       clearTimeout(timeoutId);
@@ -99,6 +132,8 @@ export abstract class BaseProviderClient {
         throw error;
       }
       
+      await limits?.limiter.recordFailure(provider, error instanceof Error ? error : new Error(String(error)));
+      
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           throw new ToolError(
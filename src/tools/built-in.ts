@@ -0,0 +1,74 @@
+/**
+ * Built-in system tools available in every session, whatever providers are enabled
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MCPConfig } from "../config/mcp.defaults";
+import type { ModularMCPProps } from "../types";
+import { getSessionUser } from "../auth/session-identity";
+
+/**
+ * Register the health and userInfo tools. Props are read at call time so the
+ * tools always report the session's current user.
+ */
+export function registerBuiltInTools(
+  server: McpServer,
+  config: MCPConfig,
+  getProps: () => ModularMCPProps | undefined
+) {
+  // Health check tool
+  server.registerTool(
+    "health",
+    {
+      title: "Health Check",
+      description: "Check the health status of the MCP server",
+      inputSchema: {}
+    },
+    async () => {
+      const enabledTools = Object.entries(config.tools)
+        .filter(([, toolConfig]) => toolConfig.enabled)
+        .map(([name]) => name);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            status: "healthy",
+            version: "0.2.0",
+            enabledProviders: enabledTools,
+            user: getSessionUser(getProps()),
+            timestamp: new Date().toISOString(),
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // User info tool
+  server.registerTool(
+    "userInfo",
+    {
+      title: "User Information",
+      description: "Get information about the current authenticated user",
+      inputSchema: {}
+    },
+    async () => {
+      const props = getProps();
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            user: getSessionUser(props),
+            roles: props?.roles ?? [],
+            groups: props?.groups ?? [],
+            scopes: props?.scopes ?? [],
+            clientId: props?.client_id ?? null,
+            source: props?.source ?? null,
+            timestamp: new Date().toISOString(),
+          }, null, 2)
+        }]
+      };
+    }
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * HubSpot v4 associations: object types, labels and formatting
+ *
+ * Records are linked with HubSpot's default association unless a label is
+ * given, in which case the label is looked up for that pair of object types.
+ */
+
+import { z } from "zod";
+import { ToolError } from "../../types";
+import type { HubSpotAssociation, HubSpotAssociationLabel, HubSpotClient } from "./client";
+
+export const CRM_OBJECT_TYPES = ["contacts", "companies", "deals"] as const;
+
+export type CrmObjectType = typeof CRM_OBJECT_TYPES[number];
+
+export const crmObjectTypeSchema = z.enum(CRM_OBJECT_TYPES);
+
+// Properties that identify a record in association listings
+export const RECORD_NAME_PROPERTIES: Record<CrmObjectType, string[]> = {
+  contacts: ["firstname", "lastname", "email", "jobtitle"],
+  companies: ["name", "domain"],
+  deals: ["dealname", "amount"],
+};
+
+/**
+ * Short description of a record, e.g. "Jane Doe (jane@example.com), CFO"
+ */
+export function describeRecord(objectType: CrmObjectType, properties: Record<string, string | null | undefined>): string {
+  switch (objectType) {
+    case "contacts": {
+      const name = [properties.firstname, properties.lastname].filter(Boolean).join(" ") || "Unnamed contact";
+      return `${name}${properties.email ? ` (${properties.email})` : ""}${properties.jobtitle ? `, ${properties.jobtitle}` : ""}`;
+    }
+    case "companies":
+      return `${properties.name || "Unnamed company"}${properties.domain ? ` (${properties.domain})` : ""}`;
+    case "deals":
+      return `${properties.dealname || "Untitled deal"}${properties.amount ? ` (${properties.amount})` : ""}`;
+  }
+}
+
+/**
+ * Find the association type for a label between two object types
+ */
+export function findAssociationLabel(
+  labels: HubSpotAssociationLabel[],
+  label: string,
+  fromType: CrmObjectType,
+  toType: CrmObjectType
+): HubSpotAssociationLabel {
+  const wanted = label.trim().toLowerCase();
+  const found = labels.find((l) => l.label?.toLowerCase() === wanted);
+  if (!found) {
+    const available = labels.map((l) => l.label).filter((l): l is string => !!l);
+    throw new ToolError(
+      `Unknown association label "${label}" from ${fromType} to ${toType}. ${
+        available.length > 0 ? `Available labels: ${available.join(", ")}` : "No labels are defined for these objects."
+      }`,
+      "INVALID_ASSOCIATION_LABEL",
+      400,
+      "hubspot"
+    );
+  }
+  return found;
+}
+
+/**
+ * Labels of an association, e.g. "Primary, Decision maker"; unlabeled associations have none
+ */
+export function associationLabels(association: HubSpotAssociation): string[] {
+  return [...new Set(association.associationTypes.map((t) => t.label).filter((l): l is string => !!l))];
+}
+
+/**
+ * One line per associated record, with its labels and an optional description
+ */
+export function formatAssociations(
+  associations: HubSpotAssociation[],
+  describe: (id: string) => string | undefined = () => undefined
+): string {
+  if (associations.length === 0) {
+    return "None";
+  }
+
+  return associations
+    .map((association) => {
+      const id = String(association.toObjectId);
+      const labels = associationLabels(association);
+      const description = describe(id);
+      return `• ${id}${description ? ` – ${description}` : ""}${labels.length > 0 ? ` [${labels.join(", ")}]` : ""}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Associated records of one type, listed by name with their labels. Names are
+ * looked up for the first 100; any others show their ID only.
+ */
+export async function listAssociatedRecords(
+  client: Pick<HubSpotClient, "listAssociations" | "batchRead">,
+  fromType: CrmObjectType,
+  fromId: string,
+  toType: CrmObjectType,
+  after?: string
+): Promise<{ associations: HubSpotAssociation[]; text: string; after?: string }> {
+  const response = await client.listAssociations(fromType, fromId, toType, after);
+  const records = await client.batchRead(
+    toType,
+    response.results.map((a) => String(a.toObjectId)),
+    RECORD_NAME_PROPERTIES[toType]
+  );
+  const names = new Map(records.map((record) => [record.id, describeRecord(toType, record.properties)]));
+
+  return {
+    associations: response.results,
+    text: formatAssociations(response.results, (id) => names.get(id)),
+    after: response.paging?.next?.after,
+  };
+}
@@ -6,6 +6,10 @@
 
 import { BaseProviderClient, type RequestOptions } from "@/tools/base-client";
 import { ToolError } from "@/types";
+import { buildDealSearchRequest, findDealStage, type DealSearchFilters, type DealStageMatch } from "./deal-pipelines";
+import { findAssociationLabel, type CrmObjectType } from "./associations";
+import type { EngagementType } from "./engagements";
+import type { SearchOperator } from "./crm-search";
 
 export interface HubSpotContact {
   id: string;
@@ -46,6 +50,212 @@ export interface HubSpotContactCreateRequest {
   };
 }
 
+export interface HubSpotCompany {
+  id: string;
+  properties: {
+    name?: string;
+    domain?: string;
+    industry?: string;
+    phone?: string;
+    city?: string;
+    country?: string;
+    numberofemployees?: string;
+    createdate?: string;
+    hs_lastmodifieddate?: string;
+    [key: string]: string | number | boolean | null | undefined;
+  };
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface HubSpotCompanySearchResponse {
+  results: HubSpotCompany[];
+  total: number;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+export interface HubSpotAssociationLabel {
+  category: "HUBSPOT_DEFINED" | "USER_DEFINED" | "INTEGRATOR_DEFINED";
+  typeId: number;
+  label: string | null;
+}
+
+export interface HubSpotAssociation {
+  toObjectId: number | string;
+  associationTypes: HubSpotAssociationLabel[];
+}
+
+export interface HubSpotAssociationsResponse {
+  results: HubSpotAssociation[];
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+export interface HubSpotEngagement {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface HubSpotEngagementCreateRequest {
+  properties: Record<string, string | number | boolean>;
+  associations?: Array<{
+    to: { id: string };
+    types: Array<{ associationCategory: "HUBSPOT_DEFINED"; associationTypeId: number }>;
+  }>;
+}
+
+const COMPANY_PROPERTIES = [
+  "name",
+  "domain",
+  "industry",
+  "phone",
+  "city",
+  "country",
+  "numberofemployees",
+  "createdate",
+  "hs_lastmodifieddate",
+];
+
+export interface HubSpotDeal {
+  id: string;
+  properties: {
+    dealname?: string;
+    amount?: string;
+    dealstage?: string;
+    pipeline?: string;
+    closedate?: string;
+    hubspot_owner_id?: string;
+    createdate?: string;
+    hs_lastmodifieddate?: string;
+    [key: string]: string | number | boolean | null | undefined;
+  };
+  associations?: Record<string, { results: Array<{ id: string; type: string }> }>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface HubSpotDealSearchResponse {
+  results: HubSpotDeal[];
+  total: number;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+export interface HubSpotDealSearchRequest {
+  query?: string;
+  filterGroups: Array<{
+    filters: Array<{ propertyName: string; operator: "EQ" | "GTE" | "LTE"; value: string }>;
+  }>;
+  sorts: Array<{ propertyName: string; direction: "ASCENDING" | "DESCENDING" }>;
+  properties: string[];
+  limit: number;
+  after?: string;
+}
+
+export interface HubSpotSearchFilter {
+  propertyName: string;
+  operator: SearchOperator;
+  value?: string;
+  highValue?: string;
+  values?: string[];
+}
+
+export interface HubSpotSearchRequest {
+  query?: string;
+  filterGroups: Array<{ filters: HubSpotSearchFilter[] }>;
+  sorts: Array<{ propertyName: string; direction: "ASCENDING" | "DESCENDING" }>;
+  properties?: string[];
+  limit: number;
+  after?: string;
+}
+
+export interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface HubSpotSearchResponse {
+  results: HubSpotObject[];
+  total: number;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+export interface HubSpotProperty {
+  name: string;
+  label: string;
+  type: "string" | "number" | "bool" | "enumeration" | "date" | "datetime" | "phone_number" | string;
+  fieldType: string;
+  description?: string;
+  groupName?: string;
+  options: Array<{ label: string; value: string; hidden?: boolean }>;
+  calculated?: boolean;
+  hidden?: boolean;
+  hasUniqueValue?: boolean;
+  modificationMetadata?: { readOnlyValue: boolean; readOnlyDefinition?: boolean; archivable?: boolean };
+}
+
+export interface HubSpotDealCreateRequest {
+  properties: {
+    dealname: string;
+    pipeline: string;
+    dealstage: string;
+    [key: string]: string | number | boolean | undefined;
+  };
+  associations?: Array<{
+    to: { id: string };
+    types: Array<{ associationCategory: "HUBSPOT_DEFINED"; associationTypeId: number }>;
+  }>;
+}
+
+export interface HubSpotPipelineStage {
+  id: string;
+  label: string;
+  displayOrder: number;
+  metadata?: { probability?: string; isClosed?: string };
+}
+
+export interface HubSpotPipeline {
+  id: string;
+  label: string;
+  displayOrder: number;
+  stages: HubSpotPipelineStage[];
+}
+
+// HubSpot-defined association types from deals
+export const DEAL_ASSOCIATION_TYPES = {
+  contacts: 3,
+  companies: 5,
+} as const;
+
+const DEAL_PROPERTIES = [
+  "dealname",
+  "amount",
+  "dealstage",
+  "pipeline",
+  "closedate",
+  "hubspot_owner_id",
+  "createdate",
+  "hs_lastmodifieddate",
+];
+
 export interface HubSpotError {
   status: string;
   message: string;
@@ -59,6 +269,8 @@ export interface HubSpotError {
 }
 
 export class HubSpotClient extends BaseProviderClient {
+  private dealPipelines?: Promise<HubSpotPipeline[]>;
+
   constructor(accessToken: string) {
     super(accessToken, {
       baseUrl: "https://api.hubapi.com",
@@ -108,11 +320,13 @@ export class HubSpotClient extends BaseProviderClient {
    */
   async searchContacts(
     query: string,
-    limit: number = 10
+    limit: number = 10,
+    after?: string
   ): Promise<HubSpotContactSearchResponse> {
     const searchBody = {
       query,
       limit,
+      ...(after && { after }),
       properties: [
         "email",
         "firstname",
@@ -131,6 +345,13 @@ export class HubSpotClient extends BaseProviderClient {
     );
   }
 
+  /**
+   * Search any CRM object type with filter groups, sorts and a property selection
+   */
+  async searchObjects(objectType: string, request: HubSpotSearchRequest): Promise<HubSpotSearchResponse> {
+    return this.post<HubSpotSearchResponse>(`/crm/v3/objects/${objectType}/search`, request);
+  }
+
   /**
    * Get a contact by ID
    */
@@ -235,4 +456,246 @@ export class HubSpotClient extends BaseProviderClient {
       { params }
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Search deals by owner, pipeline, stage, amount range and close date
+   */
+  async searchDeals(
+    filters: DealSearchFilters,
+    limit: number = 10,
+    after?: string
+  ): Promise<HubSpotDealSearchResponse> {
+    return this.post<HubSpotDealSearchResponse>(
+      "/crm/v3/objects/deals/search",
+      buildDealSearchRequest(filters, DEAL_PROPERTIES, limit, after)
+    );
+  }
+
+  /**
+   * Get a deal by ID with the IDs of its associated records
+   */
+  async getDeal(
+    dealId: string,
+    associations: string[] = Object.keys(DEAL_ASSOCIATION_TYPES)
+  ): Promise<HubSpotDeal> {
+    return this.get<HubSpotDeal>(`/crm/v3/objects/deals/${dealId}`, {
+      params: {
+        properties: DEAL_PROPERTIES.join(","),
+        ...(associations.length > 0 && { associations: associations.join(",") }),
+      },
+    });
+  }
+
+  /**
+   * Create a new deal
+   */
+  async createDeal(dealData: HubSpotDealCreateRequest): Promise<HubSpotDeal> {
+    return this.post<HubSpotDeal>("/crm/v3/objects/deals", dealData);
+  }
+
+  /**
+   * Update an existing deal's properties
+   */
+  async updateDeal(
+    dealId: string,
+    updates: { properties: Record<string, string | number | boolean> }
+  ): Promise<HubSpotDeal> {
+    return this.patch<HubSpotDeal>(`/crm/v3/objects/deals/${dealId}`, updates);
+  }
+
+  /**
+   * Deal pipelines with their stages, fetched once per client
+   */
+  async getDealPipelines(): Promise<HubSpotPipeline[]> {
+    this.dealPipelines ??= this.get<{ results: HubSpotPipeline[] }>("/crm/v3/pipelines/deals")
+      .then((response) => response.results)
+      .catch((error) => {
+        this.dealPipelines = undefined;
+        throw error;
+      });
+    return this.dealPipelines;
+  }
+
+  /**
+   * Resolve a stage name (and optional pipeline name) to HubSpot's IDs
+   */
+  async resolveDealStage(stage: string, pipeline?: string): Promise<DealStageMatch> {
+    return findDealStage(await this.getDealPipelines(), stage, pipeline);
+  }
+
+  /**
+   * Get several records of one type by ID in one request (up to 100)
+   */
+  async batchRead(
+    objectType: CrmObjectType | EngagementType,
+    ids: string[],
+    properties: string[]
+  ): Promise<Array<{ id: string; properties: Record<string, string | null> }>> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const response = await this.post<{ results: Array<{ id: string; properties: Record<string, string | null> }> }>(
+      `/crm/v3/objects/${objectType}/batch/read`,
+      {
+        inputs: ids.slice(0, 100).map((id) => ({ id })),
+        properties,
+      }
+    );
+    return response.results;
+  }
+
+  /**
+   * Search for companies by name or domain
+   */
+  async searchCompanies(
+    query: string,
+    limit: number = 10,
+    after?: string
+  ): Promise<HubSpotCompanySearchResponse> {
+    return this.post<HubSpotCompanySearchResponse>("/crm/v3/objects/companies/search", {
+      query,
+      limit,
+      properties: COMPANY_PROPERTIES,
+      ...(after && { after }),
+    });
+  }
+
+  /**
+   * Get a company by ID
+   */
+  async getCompany(companyId: string): Promise<HubSpotCompany> {
+    return this.get<HubSpotCompany>(`/crm/v3/objects/companies/${companyId}`, {
+      params: {
+        properties: COMPANY_PROPERTIES.join(","),
+      },
+    });
+  }
+
+  /**
+   * Create a new company
+   */
+  async createCompany(
+    companyData: { properties: Record<string, string | number | boolean> }
+  ): Promise<HubSpotCompany> {
+    return this.post<HubSpotCompany>("/crm/v3/objects/companies", companyData);
+  }
+
+  /**
+   * Update an existing company's properties
+   */
+  async updateCompany(
+    companyId: string,
+    updates: { properties: Record<string, string | number | boolean> }
+  ): Promise<HubSpotCompany> {
+    return this.patch<HubSpotCompany>(`/crm/v3/objects/companies/${companyId}`, updates);
+  }
+
+  /**
+   * Records of one type associated with a record, with their association labels
+   */
+  async listAssociations(
+    fromType: CrmObjectType,
+    fromId: string,
+    toType: CrmObjectType | EngagementType,
+    after?: string
+  ): Promise<HubSpotAssociationsResponse> {
+    const params: Record<string, string | number | boolean> = { limit: 500 };
+    if (after) {
+      params.after = after;
+    }
+
+    return this.get<HubSpotAssociationsResponse>(
+      `/crm/v4/objects/${fromType}/${fromId}/associations/${toType}`,
+      { params }
+    );
+  }
+
+  /**
+   * Association labels defined between two object types
+   */
+  async getAssociationLabels(fromType: CrmObjectType, toType: CrmObjectType): Promise<HubSpotAssociationLabel[]> {
+    const response = await this.get<{ results: HubSpotAssociationLabel[] }>(
+      `/crm/v4/associations/${fromType}/${toType}/labels`
+    );
+    return response.results;
+  }
+
+  /**
+   * Link two records, with HubSpot's default association or a named label
+   */
+  async associate(
+    fromType: CrmObjectType,
+    fromId: string,
+    toType: CrmObjectType,
+    toId: string,
+    label?: string
+  ): Promise<void> {
+    if (!label) {
+      await this.put<unknown>(`/crm/v4/objects/${fromType}/${fromId}/associations/default/${toType}/${toId}`);
+      return;
+    }
+
+    const type = findAssociationLabel(await this.getAssociationLabels(fromType, toType), label, fromType, toType);
+    await this.put<unknown>(`/crm/v4/objects/${fromType}/${fromId}/associations/${toType}/${toId}`, [
+      { associationCategory: type.category, associationTypeId: type.typeId },
+    ]);
+  }
+
+  /**
+   * Unlink two records entirely, or remove just one label from their association
+   */
+  async removeAssociation(
+    fromType: CrmObjectType,
+    fromId: string,
+    toType: CrmObjectType,
+    toId: string,
+    label?: string
+  ): Promise<void> {
+    if (!label) {
+      await this.delete<void>(`/crm/v4/objects/${fromType}/${fromId}/associations/${toType}/${toId}`);
+      return;
+    }
+
+    const type = findAssociationLabel(await this.getAssociationLabels(fromType, toType), label, fromType, toType);
+    await this.post<unknown>(`/crm/v4/associations/${fromType}/${toType}/batch/labels/archive`, {
+      inputs: [{
+        from: { id: fromId },
+        to: { id: toId },
+        types: [{ associationCategory: type.category, associationTypeId: type.typeId }],
+      }],
+    });
+  }
+
+  /**
+   * Log a note, task, call, email or meeting against contacts, companies or deals
+   */
+  async createEngagement(
+    type: EngagementType,
+    engagement: HubSpotEngagementCreateRequest
+  ): Promise<HubSpotEngagement> {
+    return this.post<HubSpotEngagement>(`/crm/v3/objects/${type}`, engagement);
+  }
+
+  /**
+   * Property definitions for an object type, including custom properties
+   */
+  async getProperties(objectType: string): Promise<HubSpotProperty[]> {
+    const response = await this.get<{ results: HubSpotProperty[] }>(`/crm/v3/properties/${objectType}`);
+    return response.results;
+  }
+
+  /**
+   * Create a record of any object type
+   */
+  async createObject(objectType: string, properties: Record<string, string>): Promise<HubSpotObject> {
+    return this.post<HubSpotObject>(`/crm/v3/objects/${objectType}`, { properties });
+  }
+
+  /**
+   * Update a record of any object type
+   */
+  async updateObject(objectType: string, objectId: string, properties: Record<string, string>): Promise<HubSpotObject> {
+    return this.patch<HubSpotObject>(`/crm/v3/objects/${objectType}/${objectId}`, { properties });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * HubSpot Create Association Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { associationLabels, crmObjectTypeSchema } from "./associations";
+import type { CallToolResult } from "../../types";
+
+export const createAssociationSchema = z.object({
+  fromObjectType: crmObjectTypeSchema.describe("Type of the first record"),
+  fromObjectId: z.string().min(1).describe("ID of the first record"),
+  toObjectType: crmObjectTypeSchema.describe("Type of the record to link to"),
+  toObjectId: z.string().min(1).describe("ID of the record to link to"),
+  label: z.string().min(1).optional().describe("Association label, e.g. \"Decision maker\" (default association when omitted)"),
+});
+
+export type CreateAssociationInput = z.infer<typeof createAssociationSchema>;
+
+export const createAssociationTool = async ({ args, accessToken }: { args: CreateAssociationInput; accessToken: string }): Promise<CallToolResult> => {
+    const { fromObjectType, fromObjectId, toObjectType, toObjectId, label } = args;
+
+    const client = new HubSpotClient(accessToken);
+    await client.associate(fromObjectType, fromObjectId, toObjectType, toObjectId, label);
+
+    // Read back the association so the output shows every label it now carries
+    const associations = await client.listAssociations(fromObjectType, fromObjectId, toObjectType);
+    const association = associations.results.find((a) => String(a.toObjectId) === toObjectId);
+    const labels = association ? associationLabels(association) : [];
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Linked ${fromObjectType} ${fromObjectId} to ${toObjectType} ${toObjectId}
+Labels: ${labels.length > 0 ? labels.join(", ") : "None (default association)"}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,76 @@
+/**
+ * HubSpot Create Company Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { formatCompany } from "./search-companies";
+import type { CallToolResult } from "../../types";
+
+export const companyFieldsSchema = {
+  domain: z.string().min(1).optional().describe("Company website domain, e.g. example.com"),
+  industry: z.string().optional().describe("Industry (HubSpot industry value, e.g. COMPUTER_SOFTWARE)"),
+  phone: z.string().optional().describe("Company phone number"),
+  city: z.string().optional().describe("City"),
+  country: z.string().optional().describe("Country"),
+  properties: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe("Other company properties to set, by internal property name"),
+};
+
+export const createCompanySchema = z.object({
+  name: z.string().min(1).describe("Company name (required)"),
+  ...companyFieldsSchema,
+});
+
+export type CreateCompanyInput = z.infer<typeof createCompanySchema>;
+
+export const createCompanyTool = async ({ args, accessToken }: { args: CreateCompanyInput; accessToken: string }): Promise<CallToolResult> => {
+    const { name, domain, industry, phone, city, country, properties = {} } = args;
+
+    const client = new HubSpotClient(accessToken);
+
+    // Check if a company with this domain already exists
+    if (domain) {
+      const existing = await client.searchCompanies(domain, 10);
+      const match = existing.results.find((c) => c.properties.domain?.toLowerCase() === domain.toLowerCase());
+      if (match) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Company with domain ${domain} already exists:
+
+${formatCompany(match)}
+
+Use the update-company tool to modify existing companies.`,
+            },
+          ],
+        };
+      }
+    }
+
+    const newCompany = await client.createCompany({
+      properties: {
+        ...properties,
+        name,
+        ...(domain && { domain }),
+        ...(industry && { industry }),
+        ...(phone && { phone }),
+        ...(city && { city }),
+        ...(country && { country }),
+      },
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Successfully created company:
+
+${formatCompany(newCompany)}`,
+        },
+      ],
+    };
+};
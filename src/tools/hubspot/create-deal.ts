@@ -0,0 +1,66 @@
+/**
+ * HubSpot Create Deal Tool
+ */
+
+import { z } from "zod";
+import { DEAL_ASSOCIATION_TYPES, HubSpotClient, type HubSpotDealCreateRequest } from "./client";
+import { defaultDealStage, findDealStage, formatDeal, toHubSpotDate } from "./deal-pipelines";
+import type { CallToolResult } from "../../types";
+
+export const createDealSchema = z.object({
+  dealName: z.string().min(1).describe("Deal name (required)"),
+  amount: z.number().nonnegative().optional().describe("Deal amount"),
+  pipeline: z.string().min(1).optional().describe("Pipeline name or ID (defaults to the first pipeline)"),
+  stage: z.string().min(1).optional().describe("Deal stage name or ID (defaults to the pipeline's first stage)"),
+  closeDate: z.string().optional().describe("Expected close date (YYYY-MM-DD)"),
+  ownerId: z.string().min(1).optional().describe("HubSpot owner ID"),
+  contactIds: z.array(z.string().min(1)).optional().describe("IDs of contacts to associate with the deal"),
+  companyIds: z.array(z.string().min(1)).optional().describe("IDs of companies to associate with the deal"),
+});
+
+export type CreateDealInput = z.infer<typeof createDealSchema>;
+
+export const createDealTool = async ({ args, accessToken }: { args: CreateDealInput; accessToken: string }): Promise<CallToolResult> => {
+    const { dealName, amount, pipeline, stage, closeDate, ownerId, contactIds = [], companyIds = [] } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const pipelines = await client.getDealPipelines();
+
+    const target = stage ? findDealStage(pipelines, stage, pipeline) : defaultDealStage(pipelines, pipeline);
+
+    const associate = (ids: string[], typeId: number) =>
+      ids.map((id) => ({
+        to: { id },
+        types: [{ associationCategory: "HUBSPOT_DEFINED" as const, associationTypeId: typeId }],
+      }));
+
+    const dealData: HubSpotDealCreateRequest = {
+      properties: {
+        dealname: dealName,
+        pipeline: target.pipeline.id,
+        dealstage: target.stage.id,
+        ...(amount !== undefined && { amount }),
+        ...(closeDate && { closedate: toHubSpotDate(closeDate, "closeDate") }),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: [
+        ...associate(contactIds, DEAL_ASSOCIATION_TYPES.contacts),
+        ...associate(companyIds, DEAL_ASSOCIATION_TYPES.companies),
+      ],
+    };
+
+    const newDeal = await client.createDeal(dealData);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Successfully created deal:
+
+${formatDeal(newDeal, pipelines)}
+
+Associated: ${contactIds.length} contact(s), ${companyIds.length} company(ies)`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,60 @@
+/**
+ * HubSpot Create Meeting Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { toHubSpotDate } from "./deal-pipelines";
+import { describeTargets, engagementAssociations, engagementTargetsSchema, formatEngagement } from "./engagements";
+import { ToolError, type CallToolResult } from "../../types";
+
+export const createMeetingSchema = z.object({
+  title: z.string().min(1).describe("Meeting title"),
+  body: z.string().optional().describe("Agenda or meeting notes"),
+  startTime: z.string().describe("Start time (ISO 8601)"),
+  endTime: z.string().optional().describe("End time (ISO 8601)"),
+  location: z.string().optional().describe("Meeting location or link"),
+  outcome: z
+    .enum(["SCHEDULED", "COMPLETED", "RESCHEDULED", "NO_SHOW", "CANCELED"])
+    .optional()
+    .describe("Meeting outcome"),
+  ...engagementTargetsSchema,
+});
+
+export type CreateMeetingInput = z.infer<typeof createMeetingSchema>;
+
+export const createMeetingTool = async ({ args, accessToken }: { args: CreateMeetingInput; accessToken: string }): Promise<CallToolResult> => {
+    const { title, body, startTime, endTime, location, outcome, ownerId, ...targets } = args;
+
+    const start = toHubSpotDate(startTime, "startTime");
+    const end = endTime ? toHubSpotDate(endTime, "endTime") : undefined;
+    if (end && Number(end) < Number(start)) {
+      throw new ToolError("endTime must be after startTime", "INVALID_DATE", 400, "hubspot");
+    }
+
+    const client = new HubSpotClient(accessToken);
+    const meeting = await client.createEngagement("meetings", {
+      properties: {
+        hs_meeting_title: title,
+        hs_meeting_start_time: start,
+        hs_timestamp: start,
+        ...(end && { hs_meeting_end_time: end }),
+        ...(body && { hs_meeting_body: body }),
+        ...(location && { hs_meeting_location: location }),
+        ...(outcome && { hs_meeting_outcome: outcome }),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: engagementAssociations("meetings", targets),
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Logged meeting with ${describeTargets(targets)}:
+
+${formatEngagement("meetings", meeting)}`,
+        },
+      ],
+    };
+};
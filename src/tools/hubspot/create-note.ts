@@ -0,0 +1,42 @@
+/**
+ * HubSpot Create Note Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { toHubSpotDate } from "./deal-pipelines";
+import { describeTargets, engagementAssociations, engagementTargetsSchema, formatEngagement } from "./engagements";
+import type { CallToolResult } from "../../types";
+
+export const createNoteSchema = z.object({
+  body: z.string().min(1).describe("Note text"),
+  timestamp: z.string().optional().describe("When the note applies (ISO 8601, defaults to now)"),
+  ...engagementTargetsSchema,
+});
+
+export type CreateNoteInput = z.infer<typeof createNoteSchema>;
+
+export const createNoteTool = async ({ args, accessToken }: { args: CreateNoteInput; accessToken: string }): Promise<CallToolResult> => {
+    const { body, timestamp, ownerId, ...targets } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const note = await client.createEngagement("notes", {
+      properties: {
+        hs_note_body: body,
+        hs_timestamp: timestamp ? toHubSpotDate(timestamp, "timestamp") : String(Date.now()),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: engagementAssociations("notes", targets),
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Added note to ${describeTargets(targets)}:
+
+${formatEngagement("notes", note)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,39 @@
+/**
+ * HubSpot Create Record Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { formatSearchResult, objectTypeSchema } from "./crm-search";
+import { getPropertySchema, validateProperties } from "./property-schema";
+import type { CallToolResult } from "../../types";
+
+export const recordPropertiesSchema = z
+  .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+  .describe("Property values by internal name, including custom properties (see hubspot-list-properties)");
+
+export const createRecordSchema = z.object({
+  objectType: objectTypeSchema.describe("Object type: contacts, companies, deals, notes, tasks, calls, emails or meetings"),
+  properties: recordPropertiesSchema,
+});
+
+export type CreateRecordInput = z.infer<typeof createRecordSchema>;
+
+export const createRecordTool = async ({ args, accessToken }: { args: CreateRecordInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, properties } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const schema = await getPropertySchema(client, accessToken, objectType);
+    const record = await client.createObject(objectType, validateProperties(schema, properties, objectType));
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Successfully created ${objectType} record:
+
+${formatSearchResult(record)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,50 @@
+/**
+ * HubSpot Create Task Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { toHubSpotDate } from "./deal-pipelines";
+import { describeTargets, engagementAssociations, engagementTargetsSchema, formatEngagement } from "./engagements";
+import type { CallToolResult } from "../../types";
+
+export const createTaskSchema = z.object({
+  subject: z.string().min(1).describe("Task title"),
+  body: z.string().optional().describe("Task notes"),
+  dueDate: z.string().optional().describe("Due date (ISO 8601, defaults to now)"),
+  priority: z.enum(["LOW", "MEDIUM", "HIGH"]).optional().describe("Task priority"),
+  taskType: z.enum(["TODO", "CALL", "EMAIL"]).default("TODO").describe("Kind of follow-up"),
+  ...engagementTargetsSchema,
+});
+
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+
+export const createTaskTool = async ({ args, accessToken }: { args: CreateTaskInput; accessToken: string }): Promise<CallToolResult> => {
+    const { subject, body, dueDate, priority, taskType = "TODO", ownerId, ...targets } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const task = await client.createEngagement("tasks", {
+      properties: {
+        hs_task_subject: subject,
+        hs_task_status: "NOT_STARTED",
+        hs_task_type: taskType,
+        // A task's timestamp is its due date
+        hs_timestamp: dueDate ? toHubSpotDate(dueDate, "dueDate") : String(Date.now()),
+        ...(body && { hs_task_body: body }),
+        ...(priority && { hs_task_priority: priority }),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: engagementAssociations("tasks", targets),
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Created task for ${describeTargets(targets)}:
+
+${formatEngagement("tasks", task)}`,
+        },
+      ],
+    };
+};
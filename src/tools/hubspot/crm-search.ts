@@ -0,0 +1,133 @@
+/**
+ * HubSpot CRM search: filter groups, sorts and property selection
+ *
+ * Filters within a group are ANDed and groups are ORed. HubSpot allows up to
+ * 5 groups, 6 filters per group and 18 filters in total.
+ */
+
+import { z } from "zod";
+import { ToolError } from "../../types";
+import { CRM_OBJECT_TYPES } from "./associations";
+import type { HubSpotSearchFilter, HubSpotSearchRequest } from "./client";
+import { ENGAGEMENT_TYPES } from "./engagements";
+
+export const SEARCH_OPERATORS = [
+  "EQ",
+  "NEQ",
+  "LT",
+  "LTE",
+  "GT",
+  "GTE",
+  "BETWEEN",
+  "IN",
+  "NOT_IN",
+  "HAS_PROPERTY",
+  "NOT_HAS_PROPERTY",
+  "CONTAINS_TOKEN",
+  "NOT_CONTAINS_TOKEN",
+] as const;
+
+export type SearchOperator = typeof SEARCH_OPERATORS[number];
+
+const MAX_FILTERS = 18;
+
+// Object types the scopes requested on connect can read (see getProviderScopes);
+// tickets, products, line items and custom objects need scopes we don't ask for
+export const objectTypeSchema = z.enum([...CRM_OBJECT_TYPES, ...ENGAGEMENT_TYPES]);
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const searchFilterSchema = z.object({
+  propertyName: z.string().min(1).describe("Internal property name, e.g. lifecyclestage"),
+  operator: z.enum(SEARCH_OPERATORS).describe("Comparison operator"),
+  value: filterValueSchema.optional().describe("Value to compare with; the lower bound for BETWEEN"),
+  highValue: filterValueSchema.optional().describe("Upper bound for BETWEEN"),
+  values: z.array(filterValueSchema).optional().describe("Values for IN and NOT_IN"),
+});
+
+export const searchFilterGroupSchema = z.object({
+  filters: z.array(searchFilterSchema).min(1).max(6).describe("Filters that must all match"),
+});
+
+export const searchSortSchema = z.object({
+  propertyName: z.string().min(1).describe("Property to sort by"),
+  direction: z.enum(["ASCENDING", "DESCENDING"]).default("DESCENDING"),
+});
+
+export type SearchFilterInput = z.infer<typeof searchFilterSchema>;
+
+export interface CrmSearchInput {
+  query?: string;
+  filterGroups?: Array<{ filters: SearchFilterInput[] }>;
+  sorts?: Array<{ propertyName: string; direction?: "ASCENDING" | "DESCENDING" }>;
+  properties?: string[];
+  limit: number;
+  after?: string;
+}
+
+function invalidFilter(filter: SearchFilterInput, message: string): ToolError {
+  return new ToolError(`Filter on ${filter.propertyName} (${filter.operator}) ${message}`, "INVALID_FILTER", 400, "hubspot");
+}
+
+/**
+ * Check a filter has the values its operator needs; HubSpot expects them as strings
+ */
+export function toSearchFilter(filter: SearchFilterInput): HubSpotSearchFilter {
+  const { propertyName, operator, value, highValue, values } = filter;
+
+  switch (operator) {
+    case "HAS_PROPERTY":
+    case "NOT_HAS_PROPERTY":
+      if (value !== undefined || highValue !== undefined || values !== undefined) {
+        throw invalidFilter(filter, "takes no value");
+      }
+      return { propertyName, operator };
+    case "BETWEEN":
+      if (value === undefined || highValue === undefined) {
+        throw invalidFilter(filter, "needs value and highValue");
+      }
+      return { propertyName, operator, value: String(value), highValue: String(highValue) };
+    case "IN":
+    case "NOT_IN":
+      if (!values || values.length === 0) {
+        throw invalidFilter(filter, "needs a values list");
+      }
+      return { propertyName, operator, values: values.map(String) };
+    default:
+      if (value === undefined) {
+        throw invalidFilter(filter, "needs a value");
+      }
+      return { propertyName, operator, value: String(value) };
+  }
+}
+
+/**
+ * Body for POST /crm/v3/objects/{objectType}/search
+ */
+export function buildCrmSearchRequest(input: CrmSearchInput): HubSpotSearchRequest {
+  const filterGroups = (input.filterGroups || []).map((group) => ({ filters: group.filters.map(toSearchFilter) }));
+
+  const total = filterGroups.reduce((count, group) => count + group.filters.length, 0);
+  if (total > MAX_FILTERS) {
+    throw new ToolError(`HubSpot allows at most ${MAX_FILTERS} filters per search, got ${total}`, "INVALID_FILTER", 400, "hubspot");
+  }
+
+  return {
+    ...(input.query && { query: input.query }),
+    filterGroups,
+    sorts: (input.sorts || []).map((sort) => ({ propertyName: sort.propertyName, direction: sort.direction || "DESCENDING" })),
+    ...(input.properties && input.properties.length > 0 && { properties: input.properties }),
+    limit: input.limit,
+    ...(input.after && { after: input.after }),
+  };
+}
+
+/**
+ * A search result with its non-empty properties, one per line
+ */
+export function formatSearchResult(record: { id: string; properties: Record<string, string | null> }): string {
+  const properties = Object.entries(record.properties)
+    .filter(([, value]) => value !== null && value !== "")
+    .map(([key, value]) => `  ${key}: ${value}`);
+  return [`• ID: ${record.id}`, ...properties].join("\n");
+}
@@ -0,0 +1,162 @@
+/**
+ * HubSpot deal pipelines, search filters and formatting
+ *
+ * Deal stages are addressed by name in tools ("Closed Won") and resolved to
+ * HubSpot's stage IDs against the pipelines API.
+ */
+
+import { ToolError } from "../../types";
+import type { HubSpotDeal, HubSpotDealSearchRequest, HubSpotPipeline, HubSpotPipelineStage } from "./client";
+
+export interface DealStageMatch {
+  pipeline: HubSpotPipeline;
+  stage: HubSpotPipelineStage;
+}
+
+export interface DealSearchFilters {
+  query?: string;
+  ownerId?: string;
+  pipelineId?: string;
+  stageId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  closeDateFrom?: string;
+  closeDateTo?: string;
+}
+
+function matches(nameOrId: string, item: { id: string; label: string }): boolean {
+  return item.id === nameOrId || item.label.toLowerCase() === nameOrId.trim().toLowerCase();
+}
+
+/**
+ * Find a pipeline by label or ID
+ */
+export function findDealPipeline(pipelines: HubSpotPipeline[], nameOrId: string): HubSpotPipeline {
+  const pipeline = pipelines.find((p) => matches(nameOrId, p));
+  if (!pipeline) {
+    throw new ToolError(
+      `Unknown deal pipeline "${nameOrId}". Available pipelines: ${pipelines.map((p) => p.label).join(", ")}`,
+      "INVALID_PIPELINE",
+      400,
+      "hubspot"
+    );
+  }
+  return pipeline;
+}
+
+/**
+ * Find a stage by label or ID, within one pipeline or across all of them
+ */
+export function findDealStage(
+  pipelines: HubSpotPipeline[],
+  stageNameOrId: string,
+  pipelineNameOrId?: string
+): DealStageMatch {
+  const candidates = pipelineNameOrId ? [findDealPipeline(pipelines, pipelineNameOrId)] : pipelines;
+  const found = candidates.flatMap((pipeline) =>
+    pipeline.stages.filter((stage) => matches(stageNameOrId, stage)).map((stage) => ({ pipeline, stage }))
+  );
+
+  if (found.length === 0) {
+    const available = candidates
+      .map((p) => `${p.label}: ${sortedStages(p).map((s) => s.label).join(", ")}`)
+      .join("; ");
+    throw new ToolError(`Unknown deal stage "${stageNameOrId}". Available stages: ${available}`, "INVALID_STAGE", 400, "hubspot");
+  }
+  if (found.length > 1) {
+    throw new ToolError(
+      `Deal stage "${stageNameOrId}" exists in several pipelines (${found.map((m) => m.pipeline.label).join(", ")}). Specify the pipeline.`,
+      "AMBIGUOUS_STAGE",
+      400,
+      "hubspot"
+    );
+  }
+  return found[0];
+}
+
+/**
+ * Stage for new deals when none is given: the first stage of the named pipeline,
+ * or of the first pipeline
+ */
+export function defaultDealStage(pipelines: HubSpotPipeline[], pipelineNameOrId?: string): DealStageMatch {
+  const pipeline = pipelineNameOrId
+    ? findDealPipeline(pipelines, pipelineNameOrId)
+    : [...pipelines].sort((a, b) => a.displayOrder - b.displayOrder)[0];
+  if (!pipeline || pipeline.stages.length === 0) {
+    throw new ToolError("No deal pipeline with stages is set up in HubSpot", "INVALID_PIPELINE", 400, "hubspot");
+  }
+  return { pipeline, stage: sortedStages(pipeline)[0] };
+}
+
+/**
+ * Stages in the order HubSpot shows them
+ */
+export function sortedStages(pipeline: HubSpotPipeline): HubSpotPipelineStage[] {
+  return [...pipeline.stages].sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+/**
+ * Human-readable pipeline and stage of a deal, falling back to the raw IDs
+ */
+export function describeDealStage(pipelines: HubSpotPipeline[], pipelineId?: string, stageId?: string): string {
+  const pipeline = pipelines.find((p) => p.id === pipelineId);
+  const stage = pipeline?.stages.find((s) => s.id === stageId);
+  return `${stage?.label ?? stageId ?? "N/A"} (${pipeline?.label ?? pipelineId ?? "N/A"} pipeline)`;
+}
+
+/**
+ * Summary lines for a deal, with its stage and pipeline by name
+ */
+export function formatDeal(deal: HubSpotDeal, pipelines: HubSpotPipeline[]): string {
+  const { dealname, amount, pipeline, dealstage, closedate, hubspot_owner_id } = deal.properties;
+  return `• ${dealname || "Untitled deal"} (ID: ${deal.id})
+  Amount: ${amount || "N/A"}
+  Stage: ${describeDealStage(pipelines, pipeline, dealstage)}
+  Close Date: ${closedate ? new Date(closedate).toISOString().slice(0, 10) : "N/A"}
+  Owner ID: ${hubspot_owner_id || "N/A"}`;
+}
+
+/**
+ * Convert a date (YYYY-MM-DD or ISO 8601) to the epoch milliseconds HubSpot filters on.
+ * With `endOfDay`, a plain date means the last millisecond of that day (UTC).
+ */
+export function toHubSpotDate(value: string, field: string, endOfDay = false): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ToolError(`${field} must be a date such as 2024-06-30`, "INVALID_DATE", 400, "hubspot");
+  }
+  return String(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time);
+}
+
+/**
+ * Body for POST /crm/v3/objects/deals/search, newest changes first
+ */
+export function buildDealSearchRequest(
+  filters: DealSearchFilters,
+  properties: string[],
+  limit: number,
+  after?: string
+): HubSpotDealSearchRequest {
+  const conditions: HubSpotDealSearchRequest["filterGroups"][number]["filters"] = [];
+
+  if (filters.ownerId) conditions.push({ propertyName: "hubspot_owner_id", operator: "EQ", value: filters.ownerId });
+  if (filters.pipelineId) conditions.push({ propertyName: "pipeline", operator: "EQ", value: filters.pipelineId });
+  if (filters.stageId) conditions.push({ propertyName: "dealstage", operator: "EQ", value: filters.stageId });
+  if (filters.minAmount !== undefined) conditions.push({ propertyName: "amount", operator: "GTE", value: String(filters.minAmount) });
+  if (filters.maxAmount !== undefined) conditions.push({ propertyName: "amount", operator: "LTE", value: String(filters.maxAmount) });
+  if (filters.closeDateFrom) {
+    conditions.push({ propertyName: "closedate", operator: "GTE", value: toHubSpotDate(filters.closeDateFrom, "closeDateFrom") });
+  }
+  if (filters.closeDateTo) {
+    conditions.push({ propertyName: "closedate", operator: "LTE", value: toHubSpotDate(filters.closeDateTo, "closeDateTo", true) });
+  }
+
+  return {
+    ...(filters.query && { query: filters.query }),
+    filterGroups: conditions.length > 0 ? [{ filters: conditions }] : [],
+    sorts: [{ propertyName: "hs_lastmodifieddate", direction: "DESCENDING" }],
+    properties,
+    limit,
+    ...(after && { after })
+  };
+}
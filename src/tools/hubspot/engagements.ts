@@ -0,0 +1,163 @@
+/**
+ * HubSpot engagements: notes, tasks, calls, emails and meetings
+ *
+ * Engagements are CRM objects of their own, logged against contacts,
+ * companies and deals through HubSpot-defined association types.
+ */
+
+import { z } from "zod";
+import { ToolError } from "../../types";
+import type { CrmObjectType } from "./associations";
+import type { HubSpotClient, HubSpotEngagement, HubSpotEngagementCreateRequest } from "./client";
+
+export const ENGAGEMENT_TYPES = ["notes", "tasks", "calls", "emails", "meetings"] as const;
+
+export type EngagementType = typeof ENGAGEMENT_TYPES[number];
+
+export const engagementTypeSchema = z.enum(ENGAGEMENT_TYPES);
+
+// HubSpot-defined association types from each engagement to the records it is logged against
+export const ENGAGEMENT_ASSOCIATION_TYPES: Record<EngagementType, Record<CrmObjectType, number>> = {
+  notes: { contacts: 202, companies: 190, deals: 214 },
+  tasks: { contacts: 204, companies: 192, deals: 216 },
+  calls: { contacts: 194, companies: 182, deals: 206 },
+  emails: { contacts: 198, companies: 186, deals: 210 },
+  meetings: { contacts: 200, companies: 188, deals: 212 },
+};
+
+export const ENGAGEMENT_PROPERTIES: Record<EngagementType, string[]> = {
+  notes: ["hs_timestamp", "hs_note_body", "hubspot_owner_id"],
+  tasks: ["hs_timestamp", "hs_task_subject", "hs_task_body", "hs_task_status", "hs_task_priority", "hubspot_owner_id"],
+  calls: ["hs_timestamp", "hs_call_title", "hs_call_body", "hs_call_direction", "hs_call_duration", "hs_call_status", "hubspot_owner_id"],
+  emails: ["hs_timestamp", "hs_email_subject", "hs_email_text", "hs_email_direction", "hubspot_owner_id"],
+  meetings: ["hs_timestamp", "hs_meeting_title", "hs_meeting_body", "hs_meeting_start_time", "hs_meeting_end_time", "hs_meeting_outcome", "hubspot_owner_id"],
+};
+
+// Input fields shared by every engagement tool
+export const engagementTargetsSchema = {
+  contactIds: z.array(z.string().min(1)).optional().describe("IDs of contacts to log this against"),
+  companyIds: z.array(z.string().min(1)).optional().describe("IDs of companies to log this against"),
+  dealIds: z.array(z.string().min(1)).optional().describe("IDs of deals to log this against"),
+  ownerId: z.string().min(1).optional().describe("HubSpot owner ID"),
+};
+
+export interface EngagementTargets {
+  contactIds?: string[];
+  companyIds?: string[];
+  dealIds?: string[];
+}
+
+/**
+ * Associations for a new engagement; at least one record is required
+ */
+export function engagementAssociations(
+  type: EngagementType,
+  targets: EngagementTargets
+): NonNullable<HubSpotEngagementCreateRequest["associations"]> {
+  const associate = (ids: string[] = [], objectType: CrmObjectType) =>
+    ids.map((id) => ({
+      to: { id },
+      types: [{ associationCategory: "HUBSPOT_DEFINED" as const, associationTypeId: ENGAGEMENT_ASSOCIATION_TYPES[type][objectType] }],
+    }));
+
+  const associations = [
+    ...associate(targets.contactIds, "contacts"),
+    ...associate(targets.companyIds, "companies"),
+    ...associate(targets.dealIds, "deals"),
+  ];
+
+  if (associations.length === 0) {
+    throw new ToolError(
+      "Provide at least one of contactIds, companyIds or dealIds to log this against",
+      "MISSING_ASSOCIATION",
+      400,
+      "hubspot"
+    );
+  }
+  return associations;
+}
+
+/**
+ * Summary of what an engagement was logged against, e.g. "1 contact(s), 1 deal(s)"
+ */
+export function describeTargets(targets: EngagementTargets): string {
+  return [
+    targets.contactIds?.length && `${targets.contactIds.length} contact(s)`,
+    targets.companyIds?.length && `${targets.companyIds.length} company(ies)`,
+    targets.dealIds?.length && `${targets.dealIds.length} deal(s)`,
+  ].filter(Boolean).join(", ");
+}
+
+/**
+ * Epoch ms of an engagement; HubSpot returns ISO dates but accepts epoch ms
+ */
+export function engagementTime(engagement: HubSpotEngagement): number {
+  const value = engagement.properties.hs_timestamp;
+  if (!value) return 0;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+// Note and meeting bodies are HTML; the timeline shows a short plain-text excerpt
+function excerpt(value: string | null | undefined, length = 200): string {
+  const text = (value || "").replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function summarize(type: EngagementType, p: Record<string, string | null | undefined>): string {
+  switch (type) {
+    case "notes":
+      return `📝 Note: ${excerpt(p.hs_note_body) || "(empty)"}`;
+    case "tasks": {
+      const status = [p.hs_task_status, p.hs_task_priority].filter(Boolean).join(", ");
+      return `✅ Task: ${p.hs_task_subject || "Untitled task"}${status ? ` [${status}]` : ""}${p.hs_task_body ? ` – ${excerpt(p.hs_task_body)}` : ""}`;
+    }
+    case "calls": {
+      const minutes = p.hs_call_duration ? Math.round(Number(p.hs_call_duration) / 60000) : undefined;
+      const details = [p.hs_call_direction?.toLowerCase(), minutes !== undefined && `${minutes} min`].filter(Boolean).join(", ");
+      return `📞 Call${details ? ` (${details})` : ""}: ${p.hs_call_title || "Untitled call"}${p.hs_call_body ? ` – ${excerpt(p.hs_call_body)}` : ""}`;
+    }
+    case "emails":
+      return `✉️ Email${p.hs_email_direction ? ` (${p.hs_email_direction.toLowerCase().replace(/_/g, " ")})` : ""}: ${p.hs_email_subject || "(no subject)"}${p.hs_email_text ? ` – ${excerpt(p.hs_email_text)}` : ""}`;
+    case "meetings":
+      return `📅 Meeting: ${p.hs_meeting_title || "Untitled meeting"}${p.hs_meeting_outcome ? ` [${p.hs_meeting_outcome}]` : ""}${p.hs_meeting_body ? ` – ${excerpt(p.hs_meeting_body)}` : ""}`;
+  }
+}
+
+/**
+ * One line per engagement: date, summary and ID
+ */
+export function formatEngagement(type: EngagementType, engagement: HubSpotEngagement): string {
+  const time = engagementTime(engagement);
+  const date = time ? new Date(time).toISOString().replace("T", " ").slice(0, 16) : "No date";
+  return `• ${date} ${summarize(type, engagement.properties)} (ID: ${engagement.id})`;
+}
+
+/**
+ * Most recent engagements logged against a record, newest first. Engagement IDs
+ * grow over time, so the newest 100 of each type are read.
+ */
+export async function listEngagements(
+  client: Pick<HubSpotClient, "listAssociations" | "batchRead">,
+  objectType: CrmObjectType,
+  objectId: string,
+  types: readonly EngagementType[],
+  limit: number
+): Promise<Array<{ type: EngagementType; engagement: HubSpotEngagement }>> {
+  const perType = await Promise.all(
+    types.map(async (type) => {
+      const associations = await client.listAssociations(objectType, objectId, type);
+      const ids = associations.results
+        .map((a) => String(a.toObjectId))
+        .sort((a, b) => Number(b) - Number(a))
+        .slice(0, 100);
+      const records = await client.batchRead(type, ids, ENGAGEMENT_PROPERTIES[type]);
+      return records.map((engagement) => ({ type, engagement }));
+    })
+  );
+
+  return perType
+    .flat()
+    .sort((a, b) => engagementTime(b.engagement) - engagementTime(a.engagement))
+    .slice(0, limit);
+}
@@ -0,0 +1,61 @@
+/**
+ * HubSpot Get Company Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { listAssociatedRecords } from "./associations";
+import { formatCompany } from "./search-companies";
+import { ToolError, type CallToolResult } from "../../types";
+
+export const getCompanySchema = z.object({
+  companyId: z.string().min(1).describe("HubSpot company ID"),
+});
+
+export type GetCompanyInput = z.infer<typeof getCompanySchema>;
+
+export const getCompanyTool = async ({ args, accessToken }: { args: GetCompanyInput; accessToken: string }): Promise<CallToolResult> => {
+    const { companyId } = args;
+
+    const client = new HubSpotClient(accessToken);
+
+    try {
+      const [company, contacts, deals] = await Promise.all([
+        client.getCompany(companyId),
+        listAssociatedRecords(client, "companies", companyId, "contacts"),
+        listAssociatedRecords(client, "companies", companyId, "deals"),
+      ]);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `🏢 Company Details:
+
+${formatCompany(company)}
+
+Contacts (${contacts.associations.length}${contacts.after ? "+" : ""}):
+${contacts.text}
+
+Deals (${deals.associations.length}${deals.after ? "+" : ""}):
+${deals.text}
+
+Created: ${company.properties.createdate ? new Date(company.properties.createdate).toLocaleString() : "N/A"}
+Last Modified: ${company.properties.hs_lastmodifieddate ? new Date(company.properties.hs_lastmodifieddate).toLocaleString() : "N/A"}`,
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof ToolError && error.statusCode === 404) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Company with ID ${companyId} not found.`,
+            },
+          ],
+        };
+      }
+      throw error;
+    }
+};
@@ -0,0 +1,57 @@
+/**
+ * HubSpot Get Deal Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { formatDeal } from "./deal-pipelines";
+import { ToolError, type CallToolResult } from "../../types";
+
+export const getDealSchema = z.object({
+  dealId: z.string().min(1).describe("HubSpot deal ID"),
+});
+
+export type GetDealInput = z.infer<typeof getDealSchema>;
+
+export const getDealTool = async ({ args, accessToken }: { args: GetDealInput; accessToken: string }): Promise<CallToolResult> => {
+    const { dealId } = args;
+
+    const client = new HubSpotClient(accessToken);
+
+    try {
+      const [deal, pipelines] = await Promise.all([client.getDeal(dealId), client.getDealPipelines()]);
+
+      const associations = Object.entries(deal.associations ?? {})
+        .map(([type, { results }]) => `• ${type}: ${[...new Set(results.map((r) => r.id))].join(", ")}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `💼 Deal Details:
+
+${formatDeal(deal, pipelines)}
+
+Associated Records:
+${associations || "None"}
+
+Created: ${deal.properties.createdate ? new Date(deal.properties.createdate).toLocaleString() : "N/A"}
+Last Modified: ${deal.properties.hs_lastmodifieddate ? new Date(deal.properties.hs_lastmodifieddate).toLocaleString() : "N/A"}`,
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof ToolError && error.statusCode === 404) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Deal with ID ${dealId} not found.`,
+            },
+          ],
+        };
+      }
+      throw error;
+    }
+};
@@ -0,0 +1,38 @@
+/**
+ * HubSpot Get Timeline Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { crmObjectTypeSchema } from "./associations";
+import { ENGAGEMENT_TYPES, engagementTypeSchema, formatEngagement, listEngagements } from "./engagements";
+import type { CallToolResult } from "../../types";
+
+export const getTimelineSchema = z.object({
+  objectType: crmObjectTypeSchema.describe("Type of the record"),
+  objectId: z.string().min(1).describe("ID of the record"),
+  types: z.array(engagementTypeSchema).min(1).optional().describe("Engagement types to include (defaults to all)"),
+  limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of engagements to return"),
+});
+
+export type GetTimelineInput = z.infer<typeof getTimelineSchema>;
+
+export const getTimelineTool = async ({ args, accessToken }: { args: GetTimelineInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, objectId, types = ENGAGEMENT_TYPES, limit = 20 } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const engagements = await listEngagements(client, objectType, objectId, types, limit);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: engagements.length === 0
+            ? `No ${types.join(", ")} found for ${objectType} ${objectId}.`
+            : `🕒 ${engagements.length} most recent engagements for ${objectType} ${objectId}:
+
+${engagements.map(({ type, engagement }) => formatEngagement(type, engagement)).join("\n")}`,
+        },
+      ],
+    };
+};
@@ -15,6 +15,28 @@ import { searchContactsTool, searchContactsSchema } from "./search-contacts";
 import { createContactTool, createContactSchema } from "./create-contact";
 import { getContactTool, getContactSchema } from "./get-contact";
 import { updateContactTool, updateContactSchema } from "./update-contact";
+import { searchDealsTool, searchDealsSchema } from "./search-deals";
+import { getDealTool, getDealSchema } from "./get-deal";
+import { createDealTool, createDealSchema } from "./create-deal";
+import { updateDealTool, updateDealSchema } from "./update-deal";
+import { moveDealStageTool, moveDealStageSchema } from "./move-deal-stage";
+import { searchCompaniesTool, searchCompaniesSchema } from "./search-companies";
+import { getCompanyTool, getCompanySchema } from "./get-company";
+import { createCompanyTool, createCompanySchema } from "./create-company";
+import { updateCompanyTool, updateCompanySchema } from "./update-company";
+import { listAssociationsTool, listAssociationsSchema } from "./list-associations";
+import { createAssociationTool, createAssociationSchema } from "./create-association";
+import { removeAssociationTool, removeAssociationSchema } from "./remove-association";
+import { createNoteTool, createNoteSchema } from "./create-note";
+import { createTaskTool, createTaskSchema } from "./create-task";
+import { logCallTool, logCallSchema } from "./log-call";
+import { logEmailTool, logEmailSchema } from "./log-email";
+import { createMeetingTool, createMeetingSchema } from "./create-meeting";
+import { getTimelineTool, getTimelineSchema } from "./get-timeline";
+import { searchCrmTool, searchCrmSchema } from "./search-crm";
+import { listPropertiesTool, listPropertiesSchema } from "./list-properties";
+import { createRecordTool, createRecordSchema } from "./create-record";
+import { updateRecordTool, updateRecordSchema } from "./update-record";
 
 /**
  * Register all HubSpot tools with the MCP server
@@ -123,10 +145,362 @@ ${results.paging?.next ? `\n⚠️  More results available. Use pagination to ge
     );
     console.log("🏢 HubSpot updateContact tool registered");
   }
+
+  if (isOperationEnabled(config, "hubspot", "searchDeals")) {
+    server.registerTool(
+      "hubspot-search-deals",
+      {
+        title: "Search HubSpot Deals",
+        description: "Search deals in HubSpot CRM by owner, pipeline, stage name, amount range or close date. Without filters, lists the most recently changed deals.",
+        inputSchema: searchDealsSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await searchDealsTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot searchDeals tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "getDeal")) {
+    server.registerTool(
+      "hubspot-get-deal",
+      {
+        title: "Get HubSpot Deal",
+        description: "Retrieve a deal from HubSpot CRM by ID, with its stage and associated contacts and companies",
+        inputSchema: getDealSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await getDealTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot getDeal tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createDeal")) {
+    server.registerTool(
+      "hubspot-create-deal",
+      {
+        title: "Create HubSpot Deal",
+        description: "Create a new deal in HubSpot CRM, optionally in a named pipeline stage and associated with contacts and companies",
+        inputSchema: createDealSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createDealTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createDeal tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "updateDeal")) {
+    server.registerTool(
+      "hubspot-update-deal",
+      {
+        title: "Update HubSpot Deal",
+        description: "Update an existing deal's name, amount, close date, owner or other properties in HubSpot CRM",
+        inputSchema: updateDealSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await updateDealTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot updateDeal tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "moveDealStage")) {
+    server.registerTool(
+      "hubspot-move-deal-stage",
+      {
+        title: "Move HubSpot Deal Stage",
+        description: "Move a deal to a pipeline stage by name (e.g. \"Closed Won\") in HubSpot CRM",
+        inputSchema: moveDealStageSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await moveDealStageTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot moveDealStage tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "searchCompanies")) {
+    server.registerTool(
+      "hubspot-search-companies",
+      {
+        title: "Search HubSpot Companies",
+        description: "Search for companies in HubSpot CRM by name or domain",
+        inputSchema: searchCompaniesSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await searchCompaniesTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot searchCompanies tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "getCompany")) {
+    server.registerTool(
+      "hubspot-get-company",
+      {
+        title: "Get HubSpot Company",
+        description: "Get a company by ID from HubSpot CRM, with its associated contacts and deals",
+        inputSchema: getCompanySchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await getCompanyTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot getCompany tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createCompany")) {
+    server.registerTool(
+      "hubspot-create-company",
+      {
+        title: "Create HubSpot Company",
+        description: "Create a new company in HubSpot CRM",
+        inputSchema: createCompanySchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createCompanyTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createCompany tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "updateCompany")) {
+    server.registerTool(
+      "hubspot-update-company",
+      {
+        title: "Update HubSpot Company",
+        description: "Update an existing company's properties in HubSpot CRM",
+        inputSchema: updateCompanySchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await updateCompanyTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot updateCompany tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "listAssociations")) {
+    server.registerTool(
+      "hubspot-list-associations",
+      {
+        title: "List HubSpot Associations",
+        description: "List the contacts, companies or deals linked to a record in HubSpot CRM, with association labels",
+        inputSchema: listAssociationsSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await listAssociationsTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot listAssociations tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createAssociation")) {
+    server.registerTool(
+      "hubspot-create-association",
+      {
+        title: "Create HubSpot Association",
+        description: "Link two contacts, companies or deals in HubSpot CRM, optionally with an association label",
+        inputSchema: createAssociationSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createAssociationTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createAssociation tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "removeAssociation")) {
+    server.registerTool(
+      "hubspot-remove-association",
+      {
+        title: "Remove HubSpot Association",
+        description: "Unlink two records in HubSpot CRM, or remove a single association label",
+        inputSchema: removeAssociationSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await removeAssociationTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot removeAssociation tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createNote")) {
+    server.registerTool(
+      "hubspot-create-note",
+      {
+        title: "Create HubSpot Note",
+        description: "Add a note to contacts, companies or deals in HubSpot CRM",
+        inputSchema: createNoteSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createNoteTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createNote tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createTask")) {
+    server.registerTool(
+      "hubspot-create-task",
+      {
+        title: "Create HubSpot Task",
+        description: "Create a follow-up task for contacts, companies or deals in HubSpot CRM",
+        inputSchema: createTaskSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createTaskTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createTask tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "logCall")) {
+    server.registerTool(
+      "hubspot-log-call",
+      {
+        title: "Log HubSpot Call",
+        description: "Log a call against contacts, companies or deals in HubSpot CRM",
+        inputSchema: logCallSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await logCallTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot logCall tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "logEmail")) {
+    server.registerTool(
+      "hubspot-log-email",
+      {
+        title: "Log HubSpot Email",
+        description: "Log an email against contacts, companies or deals in HubSpot CRM",
+        inputSchema: logEmailSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await logEmailTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot logEmail tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createMeeting")) {
+    server.registerTool(
+      "hubspot-create-meeting",
+      {
+        title: "Create HubSpot Meeting",
+        description: "Log a meeting with contacts, companies or deals in HubSpot CRM",
+        inputSchema: createMeetingSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createMeetingTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createMeeting tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "getTimeline")) {
+    server.registerTool(
+      "hubspot-get-timeline",
+      {
+        title: "Get HubSpot Timeline",
+        description: "List recent notes, tasks, calls, emails and meetings for a contact, company or deal in HubSpot CRM",
+        inputSchema: getTimelineSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await getTimelineTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot getTimeline tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "searchCrm")) {
+    server.registerTool(
+      "hubspot-search-crm",
+      {
+        title: "Search HubSpot CRM",
+        description: "Search HubSpot contacts, companies, deals and engagements with filter groups (EQ, GT, BETWEEN, IN, HAS_PROPERTY, ...), sorting and cursor pagination",
+        inputSchema: searchCrmSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await searchCrmTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot searchCrm tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "listProperties")) {
+    server.registerTool(
+      "hubspot-list-properties",
+      {
+        title: "List HubSpot Properties",
+        description: "List property definitions (name, label, type and options) for a HubSpot CRM object type, including custom properties",
+        inputSchema: listPropertiesSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await listPropertiesTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot listProperties tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "createRecord")) {
+    server.registerTool(
+      "hubspot-create-record",
+      {
+        title: "Create HubSpot Record",
+        description: "Create a HubSpot CRM record with any properties, including custom ones, validated against the property schema",
+        inputSchema: createRecordSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await createRecordTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot createRecord tool registered");
+  }
+
+  if (isOperationEnabled(config, "hubspot", "updateRecord")) {
+    server.registerTool(
+      "hubspot-update-record",
+      {
+        title: "Update HubSpot Record",
+        description: "Update any properties of a HubSpot CRM record, including custom ones, validated against the property schema",
+        inputSchema: updateRecordSchema.shape,
+      },
+      withOAuth("hubspot", async ({ args, accessToken }) => {
+        return await updateRecordTool({ args, accessToken });
+      }, agentContext)
+    );
+    console.log("🏢 HubSpot updateRecord tool registered");
+  }
 }
 
 // Export tool implementations
 export { searchContactsTool } from "./search-contacts";
 export { createContactTool } from "./create-contact";
 export { getContactTool } from "./get-contact";
-export { updateContactTool } from "./update-contact"; 
\ No newline at end of file
+export { updateContactTool } from "./update-contact";
+export { searchDealsTool } from "./search-deals";
+export { getDealTool } from "./get-deal";
+export { createDealTool } from "./create-deal";
+export { updateDealTool } from "./update-deal";
+export { moveDealStageTool } from "./move-deal-stage";
+export { searchCompaniesTool } from "./search-companies";
+export { getCompanyTool } from "./get-company";
+export { createCompanyTool } from "./create-company";
+export { updateCompanyTool } from "./update-company";
+export { listAssociationsTool } from "./list-associations";
+export { createAssociationTool } from "./create-association";
+export { removeAssociationTool } from "./remove-association";
+export { createNoteTool } from "./create-note";
+export { createTaskTool } from "./create-task";
+export { logCallTool } from "./log-call";
+export { logEmailTool } from "./log-email";
+export { createMeetingTool } from "./create-meeting";
+export { getTimelineTool } from "./get-timeline";
+export { searchCrmTool } from "./search-crm";
+export { listPropertiesTool } from "./list-properties";
+export { createRecordTool } from "./create-record";
+export { updateRecordTool } from "./update-record";
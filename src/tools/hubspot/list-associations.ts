@@ -0,0 +1,37 @@
+/**
+ * HubSpot List Associations Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { crmObjectTypeSchema, listAssociatedRecords } from "./associations";
+import type { CallToolResult } from "../../types";
+
+export const listAssociationsSchema = z.object({
+  objectType: crmObjectTypeSchema.describe("Type of the record to list associations for"),
+  objectId: z.string().min(1).describe("ID of the record"),
+  toObjectType: crmObjectTypeSchema.describe("Type of associated records to list"),
+  after: z.string().optional().describe("Cursor from a previous call to get the next page"),
+});
+
+export type ListAssociationsInput = z.infer<typeof listAssociationsSchema>;
+
+export const listAssociationsTool = async ({ args, accessToken }: { args: ListAssociationsInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, objectId, toObjectType, after } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const result = await listAssociatedRecords(client, objectType, objectId, toObjectType, after);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🔗 ${result.associations.length} ${toObjectType} associated with ${objectType} ${objectId}:
+
+${result.text}
+${result.after ? `\n⚠️  More associations available. Call again with after: "${result.after}" for the next page.` : ""}`
+        },
+      ],
+      ...(result.after && { _meta: { after: result.after } }),
+    };
+};
@@ -0,0 +1,41 @@
+/**
+ * HubSpot List Properties Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { objectTypeSchema } from "./crm-search";
+import { formatProperty, getPropertySchema, isReadOnly } from "./property-schema";
+import type { CallToolResult } from "../../types";
+
+export const listPropertiesSchema = z.object({
+  objectType: objectTypeSchema.describe("Object type: contacts, companies, deals, notes, tasks, calls, emails or meetings"),
+  search: z.string().min(1).optional().describe("Only properties whose name, label or group contains this text"),
+  includeReadOnly: z.boolean().default(false).describe("Include read-only and calculated properties"),
+});
+
+export type ListPropertiesInput = z.infer<typeof listPropertiesSchema>;
+
+export const listPropertiesTool = async ({ args, accessToken }: { args: ListPropertiesInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, search, includeReadOnly = false } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const schema = await getPropertySchema(client, accessToken, objectType);
+
+    const term = search?.toLowerCase();
+    const properties = schema
+      .filter((p) => !p.hidden && (includeReadOnly || !isReadOnly(p)))
+      .filter((p) => !term || [p.name, p.label, p.groupName || ""].some((v) => v.toLowerCase().includes(term)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📋 ${properties.length} ${includeReadOnly ? "" : "writable "}${objectType} properties${search ? ` matching "${search}"` : ""}:
+
+${properties.map(formatProperty).join("\n")}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,49 @@
+/**
+ * HubSpot Log Call Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { toHubSpotDate } from "./deal-pipelines";
+import { describeTargets, engagementAssociations, engagementTargetsSchema, formatEngagement } from "./engagements";
+import type { CallToolResult } from "../../types";
+
+export const logCallSchema = z.object({
+  title: z.string().min(1).optional().describe("Call title"),
+  body: z.string().min(1).describe("Call notes"),
+  direction: z.enum(["INBOUND", "OUTBOUND"]).optional().describe("Who placed the call"),
+  durationMinutes: z.number().nonnegative().optional().describe("Call length in minutes"),
+  timestamp: z.string().optional().describe("When the call took place (ISO 8601, defaults to now)"),
+  ...engagementTargetsSchema,
+});
+
+export type LogCallInput = z.infer<typeof logCallSchema>;
+
+export const logCallTool = async ({ args, accessToken }: { args: LogCallInput; accessToken: string }): Promise<CallToolResult> => {
+    const { title, body, direction, durationMinutes, timestamp, ownerId, ...targets } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const call = await client.createEngagement("calls", {
+      properties: {
+        hs_call_body: body,
+        hs_call_status: "COMPLETED",
+        hs_timestamp: timestamp ? toHubSpotDate(timestamp, "timestamp") : String(Date.now()),
+        ...(title && { hs_call_title: title }),
+        ...(direction && { hs_call_direction: direction }),
+        ...(durationMinutes !== undefined && { hs_call_duration: Math.round(durationMinutes * 60000) }),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: engagementAssociations("calls", targets),
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Logged call against ${describeTargets(targets)}:
+
+${formatEngagement("calls", call)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,50 @@
+/**
+ * HubSpot Log Email Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { toHubSpotDate } from "./deal-pipelines";
+import { describeTargets, engagementAssociations, engagementTargetsSchema, formatEngagement } from "./engagements";
+import type { CallToolResult } from "../../types";
+
+export const logEmailSchema = z.object({
+  subject: z.string().min(1).describe("Email subject"),
+  text: z.string().min(1).describe("Email body"),
+  direction: z
+    .enum(["EMAIL", "INCOMING_EMAIL", "FORWARDED_EMAIL"])
+    .default("EMAIL")
+    .describe("EMAIL for a sent email, INCOMING_EMAIL for a reply received"),
+  timestamp: z.string().optional().describe("When the email was sent (ISO 8601, defaults to now)"),
+  ...engagementTargetsSchema,
+});
+
+export type LogEmailInput = z.infer<typeof logEmailSchema>;
+
+export const logEmailTool = async ({ args, accessToken }: { args: LogEmailInput; accessToken: string }): Promise<CallToolResult> => {
+    const { subject, text, direction = "EMAIL", timestamp, ownerId, ...targets } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const email = await client.createEngagement("emails", {
+      properties: {
+        hs_email_subject: subject,
+        hs_email_text: text,
+        hs_email_direction: direction,
+        hs_email_status: "SENT",
+        hs_timestamp: timestamp ? toHubSpotDate(timestamp, "timestamp") : String(Date.now()),
+        ...(ownerId && { hubspot_owner_id: ownerId }),
+      },
+      associations: engagementAssociations("emails", targets),
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Logged email against ${describeTargets(targets)}:
+
+${formatEngagement("emails", email)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,42 @@
+/**
+ * HubSpot Move Deal Stage Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { describeDealStage, findDealStage, formatDeal } from "./deal-pipelines";
+import type { CallToolResult } from "../../types";
+
+export const moveDealStageSchema = z.object({
+  dealId: z.string().min(1).describe("HubSpot deal ID"),
+  stage: z.string().min(1).describe("Target stage name (e.g. \"Contract Sent\") or ID"),
+  pipeline: z.string().min(1).optional().describe("Pipeline name or ID, to move the deal to another pipeline (defaults to its current one)"),
+});
+
+export type MoveDealStageInput = z.infer<typeof moveDealStageSchema>;
+
+export const moveDealStageTool = async ({ args, accessToken }: { args: MoveDealStageInput; accessToken: string }): Promise<CallToolResult> => {
+    const { dealId, stage, pipeline } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const [deal, pipelines] = await Promise.all([client.getDeal(dealId, []), client.getDealPipelines()]);
+
+    // Stage names repeat across pipelines, so look in the deal's own pipeline unless told otherwise
+    const target = findDealStage(pipelines, stage, pipeline ?? deal.properties.pipeline);
+    const previous = describeDealStage(pipelines, deal.properties.pipeline, deal.properties.dealstage);
+
+    const updatedDeal = await client.updateDeal(dealId, {
+      properties: { pipeline: target.pipeline.id, dealstage: target.stage.id },
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Moved deal ${dealId} from ${previous} to ${target.stage.label} (${target.pipeline.label} pipeline):
+
+${formatDeal(updatedDeal, pipelines)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,171 @@
+/**
+ * HubSpot property definitions: discovery, caching and value validation
+ *
+ * Values are checked against the portal's property schema before they are
+ * sent, so unknown, read-only or mistyped properties come back as one
+ * readable error instead of a HubSpot 400.
+ */
+
+import { ToolError } from "../../types";
+import { toHubSpotDate } from "./deal-pipelines";
+import type { HubSpotClient, HubSpotProperty } from "./client";
+
+export type PropertyValue = string | number | boolean;
+
+const SCHEMA_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CACHED_SCHEMAS = 100;
+
+/**
+ * Property schemas per portal and object type, shared across requests in an isolate
+ */
+export class PropertySchemaCache {
+  private entries = new Map<string, { expiresAt: number; schema: Promise<HubSpotProperty[]> }>();
+
+  constructor(private ttlMs = SCHEMA_TTL_MS, private maxEntries = MAX_CACHED_SCHEMAS) {}
+
+  get(key: string, load: () => Promise<HubSpotProperty[]>, now = Date.now()): Promise<HubSpotProperty[]> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.schema;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+
+    const schema = load().catch((error) => {
+      this.entries.delete(key);
+      throw error;
+    });
+    this.entries.set(key, { expiresAt: now + this.ttlMs, schema });
+    return schema;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const propertySchemaCache = new PropertySchemaCache();
+
+/**
+ * Cache key for an access token's schema of one object type; the token itself is never stored
+ */
+export async function schemaCacheKey(accessToken: string, objectType: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(accessToken));
+  const hash = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hash}:${objectType}`;
+}
+
+/**
+ * Property definitions for an object type, from the cache when fresh
+ */
+export async function getPropertySchema(
+  client: Pick<HubSpotClient, "getProperties">,
+  accessToken: string,
+  objectType: string,
+  cache: PropertySchemaCache = propertySchemaCache
+): Promise<HubSpotProperty[]> {
+  return cache.get(await schemaCacheKey(accessToken, objectType), () => client.getProperties(objectType));
+}
+
+export function isReadOnly(property: HubSpotProperty): boolean {
+  return !!(property.modificationMetadata?.readOnlyValue || property.calculated);
+}
+
+/**
+ * One line per property: name, label, type, and its options if it has any
+ */
+export function formatProperty(property: HubSpotProperty): string {
+  const options = property.options.filter((o) => !o.hidden);
+  return `• ${property.name} (${property.label}) – ${property.type}/${property.fieldType}${isReadOnly(property) ? " [read-only]" : ""}${
+    options.length > 0 ? `\n  Options: ${options.map((o) => (o.label === o.value ? o.value : `${o.value} (${o.label})`)).join(", ")}` : ""
+  }`;
+}
+
+// Enumeration values may be given by option value or label; multi-select values are ;-separated
+function toEnumerationValue(property: HubSpotProperty, value: PropertyValue): string {
+  const multiple = property.fieldType === "checkbox";
+  const wanted = multiple ? String(value).split(";").map((v) => v.trim()).filter(Boolean) : [String(value).trim()];
+
+  const resolved = wanted.map((v) => {
+    const option = property.options.find((o) => o.value === v)
+      || property.options.find((o) => o.value.toLowerCase() === v.toLowerCase() || o.label.toLowerCase() === v.toLowerCase());
+    if (!option) {
+      throw new Error(`"${v}" is not an option of ${property.name}. Options: ${property.options.map((o) => o.value).join(", ")}`);
+    }
+    return option.value;
+  });
+  return resolved.join(";");
+}
+
+function toPropertyValue(property: HubSpotProperty, value: PropertyValue): string {
+  switch (property.type) {
+    case "number": {
+      const number = typeof value === "number" ? value : Number(String(value).trim());
+      if (typeof value === "boolean" || String(value).trim() === "" || !Number.isFinite(number)) {
+        throw new Error(`${property.name} must be a number`);
+      }
+      return String(number);
+    }
+    case "bool": {
+      const text = String(value).toLowerCase();
+      if (text !== "true" && text !== "false") {
+        throw new Error(`${property.name} must be true or false`);
+      }
+      return text;
+    }
+    case "enumeration":
+      return toEnumerationValue(property, value);
+    case "date":
+      // Date properties hold midnight UTC
+      return new Date(Number(toHubSpotDate(String(value), property.name))).toISOString().slice(0, 10);
+    case "datetime":
+      return toHubSpotDate(String(value), property.name);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Check values against the schema and convert them to HubSpot's formats.
+ * Every problem is reported at once, with suggestions for unknown names.
+ */
+export function validateProperties(
+  schema: HubSpotProperty[],
+  values: Record<string, PropertyValue>,
+  objectType: string
+): Record<string, string> {
+  const byName = new Map(schema.map((p) => [p.name, p]));
+  const problems: string[] = [];
+  const properties: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const property = byName.get(name);
+    if (!property) {
+      const suggestion = schema.find((p) => p.label.toLowerCase() === name.toLowerCase() || p.name === name.toLowerCase());
+      problems.push(`Unknown property "${name}"${suggestion ? ` (did you mean ${suggestion.name}?)` : ""}`);
+      continue;
+    }
+    if (isReadOnly(property)) {
+      problems.push(`${name} is read-only`);
+      continue;
+    }
+    try {
+      properties[name] = toPropertyValue(property, value);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ToolError(
+      `Invalid ${objectType} properties:\n${problems.map((p) => `• ${p}`).join("\n")}\nUse hubspot-list-properties to see the available properties.`,
+      "INVALID_PROPERTY",
+      400,
+      "hubspot"
+    );
+  }
+  return properties;
+}
@@ -0,0 +1,36 @@
+/**
+ * HubSpot Remove Association Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { crmObjectTypeSchema } from "./associations";
+import type { CallToolResult } from "../../types";
+
+export const removeAssociationSchema = z.object({
+  fromObjectType: crmObjectTypeSchema.describe("Type of the first record"),
+  fromObjectId: z.string().min(1).describe("ID of the first record"),
+  toObjectType: crmObjectTypeSchema.describe("Type of the linked record"),
+  toObjectId: z.string().min(1).describe("ID of the linked record"),
+  label: z.string().min(1).optional().describe("Remove only this label and keep the records linked (unlinks entirely when omitted)"),
+});
+
+export type RemoveAssociationInput = z.infer<typeof removeAssociationSchema>;
+
+export const removeAssociationTool = async ({ args, accessToken }: { args: RemoveAssociationInput; accessToken: string }): Promise<CallToolResult> => {
+    const { fromObjectType, fromObjectId, toObjectType, toObjectId, label } = args;
+
+    const client = new HubSpotClient(accessToken);
+    await client.removeAssociation(fromObjectType, fromObjectId, toObjectType, toObjectId, label);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: label
+            ? `✅ Removed label "${label}" from the association between ${fromObjectType} ${fromObjectId} and ${toObjectType} ${toObjectId}`
+            : `✅ Unlinked ${fromObjectType} ${fromObjectId} from ${toObjectType} ${toObjectId}`,
+        },
+      ],
+    };
+};
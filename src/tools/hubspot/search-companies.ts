@@ -0,0 +1,49 @@
+/**
+ * HubSpot Search Companies Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient, type HubSpotCompany } from "./client";
+import type { CallToolResult } from "../../types";
+
+export const searchCompaniesSchema = z.object({
+  query: z.string().min(1).describe("Search query (company name or domain)"),
+  limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of results to return"),
+  after: z.string().optional().describe("Cursor from a previous search to get the next page"),
+});
+
+export type SearchCompaniesInput = z.infer<typeof searchCompaniesSchema>;
+
+/**
+ * Summary lines for a company
+ */
+export function formatCompany(company: HubSpotCompany): string {
+  const { name, domain, industry, phone, city, country, numberofemployees } = company.properties;
+  return `• ${name || "Unnamed company"} (ID: ${company.id})
+  Domain: ${domain || "N/A"}
+  Industry: ${industry || "N/A"}
+  Location: ${[city, country].filter(Boolean).join(", ") || "N/A"}
+  Employees: ${numberofemployees || "N/A"}
+  Phone: ${phone || "N/A"}`;
+}
+
+export const searchCompaniesTool = async ({ args, accessToken }: { args: SearchCompaniesInput; accessToken: string }): Promise<CallToolResult> => {
+    const { query, limit = 10, after } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const results = await client.searchCompanies(query, limit, after);
+    const next = results.paging?.next?.after;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${results.total} companies matching "${query}":
+
+${results.results.map(formatCompany).join("\n\n")}
+${next ? `\n⚠️  More results available. Search again with after: "${next}" for the next page.` : ""}`
+        },
+      ],
+      ...(next && { _meta: { after: next } }),
+    };
+};
@@ -4,20 +4,22 @@
 
 import { z } from "zod";
 import { HubSpotClient } from "./client";
-import type { ToolResponse } from "../../types";
+import type { CallToolResult } from "../../types";
 
 export const searchContactsSchema = z.object({
   query: z.string().min(1).describe("Search query (email, name, or company)"),
   limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of results to return"),
+  after: z.string().optional().describe("Cursor from a previous search to get the next page"),
 });
 
 export type SearchContactsInput = z.infer<typeof searchContactsSchema>;
 
-export const searchContactsTool = async ({ args, accessToken }: { args: SearchContactsInput; accessToken: string }): Promise<ToolResponse> => {
-    const { query, limit } = args;
+export const searchContactsTool = async ({ args, accessToken }: { args: SearchContactsInput; accessToken: string }): Promise<CallToolResult> => {
+    const { query, limit, after } = args;
     
     const client = new HubSpotClient(accessToken);
-    const results = await client.searchContacts(query, limit);
+    const results = await client.searchContacts(query, limit, after);
+    const next = results.paging?.next?.after;
     
     const contacts = results.results.map((contact) => ({
       id: contact.id,
@@ -48,8 +50,9 @@ ${contacts
   )
   .join("\n\n")}
 
-${results.paging?.next ? `\n⚠️  More results available. Use pagination to get additional contacts.` : ""}`
+${next ? `\n⚠️  More results available. Search again with after: "${next}" for the next page.` : ""}`
         },
       ],
+      ...(next && { _meta: { after: next } }),
     };
 };
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * HubSpot CRM Search Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { buildCrmSearchRequest, formatSearchResult, objectTypeSchema, searchFilterGroupSchema, searchSortSchema } from "./crm-search";
+import type { CallToolResult } from "../../types";
+
+export const searchCrmSchema = z.object({
+  objectType: objectTypeSchema.describe("Object type to search: contacts, companies, deals, notes, tasks, calls, emails or meetings"),
+  query: z.string().min(1).optional().describe("Free-text query across the object's default searchable properties"),
+  filterGroups: z
+    .array(searchFilterGroupSchema)
+    .max(5)
+    .optional()
+    .describe("Filter groups; a record matches if all filters in any one group match"),
+  sorts: z.array(searchSortSchema).max(1).optional().describe("Sort order (HubSpot supports one sort)"),
+  properties: z.array(z.string().min(1)).optional().describe("Properties to return (defaults to the object's standard properties)"),
+  limit: z.number().int().min(1).max(200).default(10).describe("Maximum number of results to return"),
+  after: z.string().optional().describe("Cursor from a previous search's _meta.after to get the next page"),
+});
+
+export type SearchCrmInput = z.infer<typeof searchCrmSchema>;
+
+export const searchCrmTool = async ({ args, accessToken }: { args: SearchCrmInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, limit = 10, ...search } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const results = await client.searchObjects(objectType, buildCrmSearchRequest({ ...search, limit }));
+    const next = results.paging?.next?.after;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${results.total} ${objectType} (showing ${results.results.length}):
+
+${results.results.map(formatSearchResult).join("\n\n")}
+${next ? `\n⚠️  More results available. Search again with after: "${next}" for the next page.` : ""}`
+        },
+      ],
+      ...(next && { _meta: { after: next } }),
+    };
+};
@@ -0,0 +1,54 @@
+/**
+ * HubSpot Search Deals Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { findDealPipeline, findDealStage, formatDeal } from "./deal-pipelines";
+import type { CallToolResult } from "../../types";
+
+export const searchDealsSchema = z.object({
+  query: z.string().min(1).optional().describe("Free-text search across deal names and other default properties"),
+  ownerId: z.string().min(1).optional().describe("HubSpot owner ID of the deal"),
+  pipeline: z.string().min(1).optional().describe("Pipeline name or ID"),
+  stage: z.string().min(1).optional().describe("Deal stage name (e.g. \"Closed Won\") or ID"),
+  minAmount: z.number().optional().describe("Minimum deal amount"),
+  maxAmount: z.number().optional().describe("Maximum deal amount"),
+  closeDateFrom: z.string().optional().describe("Earliest close date (YYYY-MM-DD)"),
+  closeDateTo: z.string().optional().describe("Latest close date (YYYY-MM-DD), inclusive"),
+  limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of results to return"),
+  after: z.string().optional().describe("Cursor from a previous search to get the next page"),
+});
+
+export type SearchDealsInput = z.infer<typeof searchDealsSchema>;
+
+export const searchDealsTool = async ({ args, accessToken }: { args: SearchDealsInput; accessToken: string }): Promise<CallToolResult> => {
+    const { query, ownerId, pipeline, stage, minAmount, maxAmount, closeDateFrom, closeDateTo, limit = 10, after } = args;
+
+    const client = new HubSpotClient(accessToken);
+    const pipelines = await client.getDealPipelines();
+
+    // Stage and pipeline names are resolved to IDs before searching
+    const pipelineId = pipeline ? findDealPipeline(pipelines, pipeline).id : undefined;
+    const stageId = stage ? findDealStage(pipelines, stage, pipeline).stage.id : undefined;
+
+    const results = await client.searchDeals(
+      { query, ownerId, pipelineId, stageId, minAmount, maxAmount, closeDateFrom, closeDateTo },
+      limit,
+      after
+    );
+    const next = results.paging?.next?.after;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${results.total} deals${results.results.length < results.total ? ` (showing ${results.results.length})` : ""}:
+
+${results.results.map((deal) => formatDeal(deal, pipelines)).join("\n\n")}
+${next ? `\n⚠️  More results available. Search again with after: "${next}" for the next page.` : ""}`
+        },
+      ],
+      ...(next && { _meta: { after: next } }),
+    };
+};
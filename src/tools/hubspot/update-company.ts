@@ -0,0 +1,59 @@
+/**
+ * HubSpot Update Company Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { companyFieldsSchema } from "./create-company";
+import { formatCompany } from "./search-companies";
+import type { CallToolResult } from "../../types";
+
+export const updateCompanySchema = z.object({
+  companyId: z.string().min(1).describe("HubSpot company ID"),
+  name: z.string().min(1).optional().describe("New company name"),
+  ...companyFieldsSchema,
+});
+
+export type UpdateCompanyInput = z.infer<typeof updateCompanySchema>;
+
+export const updateCompanyTool = async ({ args, accessToken }: { args: UpdateCompanyInput; accessToken: string }): Promise<CallToolResult> => {
+    const { companyId, name, domain, industry, phone, city, country, properties = {} } = args;
+
+    const updates: Record<string, string | number | boolean> = {
+      ...properties,
+      ...(name !== undefined && { name }),
+      ...(domain !== undefined && { domain }),
+      ...(industry !== undefined && { industry }),
+      ...(phone !== undefined && { phone }),
+      ...(city !== undefined && { city }),
+      ...(country !== undefined && { country }),
+    };
+
+    if (Object.keys(updates).length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ No fields provided to update. Please specify at least one field to update.`,
+          },
+        ],
+      };
+    }
+
+    const client = new HubSpotClient(accessToken);
+    const updatedCompany = await client.updateCompany(companyId, { properties: updates });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Successfully updated company ${companyId}:
+
+${Object.entries(updates).map(([key, value]) => `• ${key}: ${value}`).join("\n")}
+
+Current Company Details:
+${formatCompany(updatedCompany)}`,
+        },
+      ],
+    };
+};
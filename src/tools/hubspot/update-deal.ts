@@ -0,0 +1,77 @@
+/**
+ * HubSpot Update Deal Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { formatDeal, toHubSpotDate } from "./deal-pipelines";
+import type { CallToolResult } from "../../types";
+
+export const updateDealSchema = z.object({
+  dealId: z.string().min(1).describe("HubSpot deal ID"),
+  dealName: z.string().min(1).optional().describe("New deal name"),
+  amount: z.number().nonnegative().optional().describe("New deal amount"),
+  closeDate: z.string().optional().describe("New expected close date (YYYY-MM-DD)"),
+  ownerId: z.string().min(1).optional().describe("New HubSpot owner ID"),
+  properties: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe("Other deal properties to set, by internal property name"),
+});
+
+export type UpdateDealInput = z.infer<typeof updateDealSchema>;
+
+export const updateDealTool = async ({ args, accessToken }: { args: UpdateDealInput; accessToken: string }): Promise<CallToolResult> => {
+    const { dealId, dealName, amount, closeDate, ownerId, properties = {} } = args;
+
+    // Stages are moved with hubspot-move-deal-stage, which resolves stage names
+    if ("dealstage" in properties || "pipeline" in properties) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Use the move-deal-stage tool to change a deal's stage or pipeline.`,
+          },
+        ],
+      };
+    }
+
+    const updates: Record<string, string | number | boolean> = {
+      ...properties,
+      ...(dealName !== undefined && { dealname: dealName }),
+      ...(amount !== undefined && { amount }),
+      ...(closeDate !== undefined && { closedate: toHubSpotDate(closeDate, "closeDate") }),
+      ...(ownerId !== undefined && { hubspot_owner_id: ownerId }),
+    };
+
+    if (Object.keys(updates).length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ No fields provided to update. Please specify at least one field to update.`,
+          },
+        ],
+      };
+    }
+
+    const client = new HubSpotClient(accessToken);
+    const [updatedDeal, pipelines] = await Promise.all([
+      client.updateDeal(dealId, { properties: updates }),
+      client.getDealPipelines(),
+    ]);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Successfully updated deal ${dealId}:
+
+${Object.entries(updates).map(([key, value]) => `• ${key}: ${value}`).join("\n")}
+
+Current Deal Details:
+${formatDeal(updatedDeal, pipelines)}`,
+        },
+      ],
+    };
+};
@@ -0,0 +1,67 @@
+/**
+ * HubSpot Update Record Tool
+ */
+
+import { z } from "zod";
+import { HubSpotClient } from "./client";
+import { recordPropertiesSchema } from "./create-record";
+import { formatSearchResult, objectTypeSchema } from "./crm-search";
+import { getPropertySchema, validateProperties } from "./property-schema";
+import { ToolError, type CallToolResult } from "../../types";
+
+export const updateRecordSchema = z.object({
+  objectType: objectTypeSchema.describe("Object type: contacts, companies, deals, notes, tasks, calls, emails or meetings"),
+  objectId: z.string().min(1).describe("ID of the record to update"),
+  properties: recordPropertiesSchema,
+});
+
+export type UpdateRecordInput = z.infer<typeof updateRecordSchema>;
+
+export const updateRecordTool = async ({ args, accessToken }: { args: UpdateRecordInput; accessToken: string }): Promise<CallToolResult> => {
+    const { objectType, objectId, properties } = args;
+
+    if (Object.keys(properties).length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ No fields provided to update. Please specify at least one property to update.`,
+          },
+        ],
+      };
+    }
+
+    const client = new HubSpotClient(accessToken);
+    const schema = await getPropertySchema(client, accessToken, objectType);
+    const updates = validateProperties(schema, properties, objectType);
+
+    try {
+      const record = await client.updateObject(objectType, objectId, updates);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `✅ Successfully updated ${objectType} ${objectId}:
+
+${Object.entries(updates).map(([key, value]) => `• ${key}: ${value}`).join("\n")}
+
+Current Record:
+${formatSearchResult(record)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof ToolError && error.statusCode === 404) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ ${objectType} record with ID ${objectId} not found.`,
+            },
+          ],
+        };
+      }
+      throw error;
+    }
+};
@@ -7,6 +7,8 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MCPConfig } from "../config/mcp.defaults";
 import type { AgentContext } from "@/types/agent-context";
 import { isToolEnabled, isOperationEnabled } from "../config/loader";
+import { withScopeFilter } from "../auth/tool-scopes";
+import { withPolicyFilter, type ToolPolicy } from "../auth/tool-policy";
 
 // Import all provider tool modules
 import * as pandadoc from "./pandadoc";
@@ -19,11 +21,23 @@ import * as autotask from "./autotask";
 export type { AgentContext } from "@/types/agent-context";
 
 /**
- * Register all enabled tools with the MCP server
+ * Register all enabled tools with the MCP server, leaving out tools the
+ * session's scopes or the user's access policy don't permit
  */
-export function registerAllTools(server: McpServer, config: MCPConfig, agentContext: AgentContext) {
+export function registerAllTools(
+  mcpServer: McpServer,
+  config: MCPConfig,
+  agentContext: AgentContext,
+  policy: ToolPolicy
+) {
   console.log("Registering MCP tools...");
 
+  const server = withPolicyFilter(
+    withScopeFilter(mcpServer, config.tools, agentContext.props?.scopes),
+    config.tools,
+    policy
+  );
+
   // PandaDoc tools
   if (isToolEnabled(config, "pandadoc")) {
     console.log("Registering PandaDoc tools");
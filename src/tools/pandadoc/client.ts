@@ -7,6 +7,7 @@
 
 import { BaseProviderClient, type RequestOptions } from "@/tools/base-client";
 import { ToolError } from "@/types";
+import { recordUpstreamStatus } from "@/observability/tool-audit";
 
 export interface PandaDocTemplate {
   id: string;
@@ -194,6 +195,7 @@ export class PandaDocClient extends BaseProviderClient {
       });
 
       clearTimeout(timeoutId);
+      recordUpstreamStatus(response.status);
 
       // Handle 204 No Content
       if (response.status === 204) {
@@ -19,6 +19,21 @@ export enum EventType {
   AUTH_REVOKE = "auth_revoke",
 }
 
+// Verified user identity the worker passes into each MCP session (McpAgent props).
+// Set once when the session starts, from the OAuth access token or personal access token.
+export interface ModularMCPProps extends Record<string, unknown> {
+  user_id: string;
+  user_email: string;
+  user_name: string;
+  tenant_id?: string;
+  // Directory group ids and app roles from the sign-in (Entra ID), for access rules
+  groups?: string[];
+  roles?: string[];
+  scopes: string[];
+  client_id: string;
+  source: "oauth" | "personal-access-token";
+}
+
 // Tool execution context passed to all MCP tools
 export interface ToolContext {
   env: Env;
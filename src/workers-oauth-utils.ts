@@ -194,6 +194,10 @@ export interface ApprovalDialogOptions {
 		logo?: string;
 		description?: string;
 	};
+	/**
+	 * Scopes the client is requesting, listed so the user knows what they grant
+	 */
+	scopes?: string[];
 	/**
 	 * Arbitrary state data to pass through the approval flow
 	 * Will be encoded in the form and returned when approval is complete
@@ -259,6 +263,8 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 			? sanitizeHtml(client.contacts.join(", "))
 			: "";
 
+	const scopes = options.scopes?.map((scope) => sanitizeHtml(scope)) ?? [];
+
 	// Get redirect URIs
 	const redirectUris =
 		client?.redirectUris && client.redirectUris.length > 0
@@ -528,6 +534,19 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 						: ""
 				}
               
+              ${
+					scopes.length > 0
+						? `
+                <div class="client-detail">
+                  <div class="detail-label">Scopes:</div>
+                  <div class="detail-value small">
+                    ${scopes.map((scope) => `<div>${scope}</div>`).join("")}
+                  </div>
+                </div>
+              `
+						: ""
+				}
+              
               ${
 					contacts
 						? `
@@ -559,6 +578,10 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 	return new Response(htmlContent, {
 		headers: {
 			"Content-Type": "text/html; charset=utf-8",
+			// The dialog grants access, so it must never be framed (clickjacking)
+			"Content-Security-Policy": "frame-ancestors 'none'",
+			"X-Frame-Options": "DENY",
+			"Cache-Control": "no-store",
 		},
 	});
 }
@@ -623,26 +646,246 @@ export async function parseRedirectApproval(
 	// Add the newly approved client ID (avoid duplicates)
 	const updatedApprovedClients = Array.from(new Set([...existingApprovedClients, clientId]));
 
-	// Sign the updated list
-	const payload = JSON.stringify(updatedApprovedClients);
-	const key = await importKey(cookieSecret);
-	const signature = await signData(key, payload);
-	const newCookieValue = `${signature}.${btoa(payload)}`; // signature.base64(payload)
-
-	// Generate Set-Cookie header
 	const headers: Record<string, string> = {
-		"Set-Cookie": `${COOKIE_NAME}=${newCookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${ONE_YEAR_IN_SECONDS}`,
+		"Set-Cookie": await buildApprovalCookie(updatedApprovedClients, cookieSecret),
 	};
 
 	return { headers, state };
 }
 
+/**
+ * Lists the client IDs approved in the signed cookie.
+ *
+ * @param request - The incoming Request object to read cookies from.
+ * @param cookieSecret - The secret key used to sign/verify the approval cookie.
+ * @returns A promise resolving to the approved client IDs, or an empty list if the cookie is missing or invalid.
+ */
+export async function getApprovedClients(request: Request, cookieSecret: string): Promise<string[]> {
+	return (await getApprovedClientsFromCookie(request.headers.get("Cookie"), cookieSecret)) || [];
+}
+
+/**
+ * Removes a client from the approved list so the next authorization asks again.
+ *
+ * @param request - The incoming Request object to read cookies from.
+ * @param clientId - The OAuth client ID whose approval is being withdrawn.
+ * @param cookieSecret - The secret key used to sign the approval cookie.
+ * @returns A promise resolving to headers containing the updated Set-Cookie header.
+ */
+export async function revokeClientApproval(
+	request: Request,
+	clientId: string,
+	cookieSecret: string,
+): Promise<Record<string, string>> {
+	const approvedClients = await getApprovedClients(request, cookieSecret);
+	const remainingClients = approvedClients.filter((id) => id !== clientId);
+
+	return {
+		"Set-Cookie": await buildApprovalCookie(remainingClients, cookieSecret),
+	};
+}
+
+/**
+ * Signs the approved client list into a Set-Cookie header value.
+ * @param approvedClients - The client IDs to store.
+ * @param cookieSecret - The secret key used to sign the cookie.
+ * @returns A promise resolving to the Set-Cookie header value.
+ */
+async function buildApprovalCookie(approvedClients: string[], cookieSecret: string): Promise<string> {
+	const payload = JSON.stringify(approvedClients);
+	const key = await importKey(cookieSecret);
+	const signature = await signData(key, payload);
+	const cookieValue = `${signature}.${btoa(payload)}`; // signature.base64(payload)
+
+	return `${COOKIE_NAME}=${cookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${ONE_YEAR_IN_SECONDS}`;
+}
+
+/**
+ * Renders the page listing clients approved in this browser, each with a form
+ * to forget that approval. Forgetting only affects this browser's approval
+ * cookie; tokens the client already holds are not revoked.
+ *
+ * @param clients - The approved clients to list
+ * @param forgetPath - The path the forget forms post to
+ * @returns A Response containing the HTML page
+ */
+export function renderConsentManagementPage(
+	clients: Array<{ clientId: string; clientName?: string }>,
+	forgetPath: string,
+): Response {
+	const rows = clients
+		.map(
+			(client) => `
+          <li class="client">
+            <div>
+              <div class="client-name">${sanitizeHtml(client.clientName || "Unknown MCP Client")}</div>
+              <div class="client-id">${sanitizeHtml(client.clientId)}</div>
+            </div>
+            <form method="post" action="${sanitizeHtml(forgetPath)}">
+              <input type="hidden" name="client_id" value="${sanitizeHtml(client.clientId)}">
+              <button type="submit">Forget</button>
+            </form>
+          </li>`,
+		)
+		.join("");
+
+	const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Approved MCP Clients</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background-color: #f9fafb;
+            max-width: 600px;
+            margin: 2rem auto;
+            padding: 1rem;
+          }
+          ul { list-style: none; padding: 0; }
+          .client {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            background: #fff;
+            border: 1px solid #e5e7eb;
+            border-radius: 6px;
+            padding: 1rem;
+            margin-bottom: 0.75rem;
+          }
+          .client-name { font-weight: 600; }
+          .client-id { font-family: monospace; font-size: 0.8em; color: #555; }
+          button {
+            padding: 0.5rem 1rem;
+            border-radius: 6px;
+            border: 1px solid #f44336;
+            background: transparent;
+            color: #f44336;
+            cursor: pointer;
+          }
+        </style>
+      </head>
+      <body>
+        <h1>Approved MCP Clients</h1>
+        ${
+			clients.length > 0
+				? `<p>These clients can sign you in without asking again. Forgetting one means you will be asked to approve it next time; it does not sign the client out.</p>
+        <ul>${rows}</ul>`
+				: "<p>You have not approved any MCP clients in this browser.</p>"
+		}
+      </body>
+    </html>
+  `;
+
+	return new Response(htmlContent, {
+		headers: {
+			"Content-Type": "text/html; charset=utf-8",
+			"Content-Security-Policy": "frame-ancestors 'none'",
+			"X-Frame-Options": "DENY",
+			"Cache-Control": "no-store",
+		},
+	});
+}
+
+/**
+ * Renders the sign-in provider chooser shown when the provider for an
+ * authorization can't be decided from config alone. The user either enters
+ * their work email (matched to a provider by domain) or picks a provider.
+ *
+ * @param options.signinId - Id of the pending sign-in, posted back with the form
+ * @param options.action - The path the form posts to
+ * @param options.providers - The configured providers to offer
+ * @param options.error - Message shown above the form, e.g. for an unknown domain
+ * @returns A Response containing the HTML page
+ */
+export function renderIdentityProviderChooser(options: {
+	signinId: string;
+	action: string;
+	providers: Array<{ id: string; displayName: string }>;
+	error?: string;
+}): Response {
+	const signinId = sanitizeHtml(options.signinId);
+	const buttons = options.providers
+		.map(
+			(provider) => `
+            <button type="submit" name="idp" value="${sanitizeHtml(provider.id)}">Continue with ${sanitizeHtml(provider.displayName)}</button>`,
+		)
+		.join("");
+
+	const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Sign in</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background-color: #f9fafb;
+            max-width: 420px;
+            margin: 2rem auto;
+            padding: 1rem;
+          }
+          form { display: flex; flex-direction: column; gap: 0.75rem; }
+          input {
+            padding: 0.6rem;
+            border: 1px solid #d1d5db;
+            border-radius: 6px;
+            font-size: 1rem;
+          }
+          button {
+            padding: 0.6rem 1rem;
+            border-radius: 6px;
+            border: 1px solid #0070f3;
+            background: #fff;
+            color: #0070f3;
+            font-size: 1rem;
+            cursor: pointer;
+          }
+          button.primary { background: #0070f3; color: #fff; }
+          .divider { text-align: center; color: #6b7280; font-size: 0.9em; }
+          .error { color: #b91c1c; }
+        </style>
+      </head>
+      <body>
+        <h1>Sign in</h1>
+        ${options.error ? `<p class="error">${sanitizeHtml(options.error)}</p>` : ""}
+        <form method="post" action="${sanitizeHtml(options.action)}">
+          <input type="hidden" name="signin_id" value="${signinId}">
+          <input type="email" name="email" placeholder="you@company.com" autocomplete="email">
+          <button type="submit" class="primary">Continue</button>
+        </form>
+        <p class="divider">or</p>
+        <form method="post" action="${sanitizeHtml(options.action)}">
+          <input type="hidden" name="signin_id" value="${signinId}">${buttons}
+        </form>
+      </body>
+    </html>
+  `;
+
+	return new Response(htmlContent, {
+		headers: {
+			"Content-Type": "text/html; charset=utf-8",
+			"Content-Security-Policy": "frame-ancestors 'none'",
+			"X-Frame-Options": "DENY",
+			"Cache-Control": "no-store",
+		},
+	});
+}
+
 /**
  * Sanitizes HTML content to prevent XSS attacks
  * @param unsafe - The unsafe string that might contain HTML
  * @returns A safe string with HTML special characters escaped
  */
-function sanitizeHtml(unsafe: string): string {
+export function sanitizeHtml(unsafe: string): string {
 	return unsafe
 		.replace(/&/g, "&amp;")
 		.replace(/</g, "&lt;")
@@ -0,0 +1,52 @@
+/**
+ * Scripted D1 database for unit tests
+ *
+ * Records every bound statement and answers first()/all() through callbacks,
+ * so each test decides what a query returns without a real SQLite database.
+ */
+
+export interface MockD1Call {
+  sql: string;
+  params: unknown[];
+}
+
+export interface MockD1Answers {
+  // Row returned by first(); null when omitted
+  first?: (sql: string, params: unknown[]) => unknown;
+  // Rows returned by all(); empty when omitted
+  all?: (sql: string, params: unknown[]) => unknown[];
+  // meta.changes reported by run()
+  changes?: number;
+}
+
+export function createMockD1(answers: MockD1Answers = {}): { db: D1Database; calls: MockD1Call[] } {
+  const calls: MockD1Call[] = [];
+  const db = {
+    prepare(sql: string) {
+      let params: unknown[] = [];
+      const statement = {
+        bind(...values: unknown[]) {
+          params = values;
+          calls.push({ sql, params });
+          return statement;
+        },
+        first: async () => answers.first?.(sql, params) ?? null,
+        run: async () => ({ success: true, meta: { changes: answers.changes ?? 1 } }),
+        all: async () => ({ results: answers.all?.(sql, params) ?? [] })
+      };
+      return statement;
+    },
+    batch: async (statements: { run: () => Promise<unknown> }[]) => Promise.all(statements.map((s) => s.run()))
+  };
+  return { db: db as unknown as D1Database, calls };
+}
+
+/**
+ * Answer queries with the rows of the table named in their FROM clause
+ */
+export function rowsByTable(tables: Record<string, Record<string, unknown>[]>) {
+  return (sql: string): Record<string, unknown>[] => {
+    const table = Object.keys(tables).find((name) => sql.includes(`FROM ${name}`));
+    return table ? tables[table] : [];
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * In-memory KV namespace for unit tests
+ *
+ * Implements the subset of KVNamespace used by the worker (get/put/delete/list)
+ * and honours expirationTtl so expiry paths can be exercised.
+ */
+
+interface Entry {
+  value: string;
+  expiresAt?: number;
+}
+
+export class MockKV {
+  private entries = new Map<string, Entry>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options?: { prefix?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean }> {
+    const keys = Array.from(this.entries.keys())
+      .filter((name) => !options?.prefix || name.startsWith(options.prefix))
+      .map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+
+  /**
+   * Keys currently stored, for assertions
+   */
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+export function createMockKV(): MockKV & KVNamespace {
+  return new MockKV() as unknown as MockKV & KVNamespace;
+}
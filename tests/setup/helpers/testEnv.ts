@@ -0,0 +1,30 @@
+/**
+ * Worker environment and configuration for unit tests
+ */
+
+import { loadConfig } from "../../../src/config/loader";
+import { createMockKV } from "./mockKV";
+
+// Fake provider credentials that satisfy the config schema
+export const testSecrets = {
+  MICROSOFT_CLIENT_ID: "test-client-id",
+  MICROSOFT_CLIENT_SECRET: "test-client-secret",
+  MICROSOFT_TENANT_ID: "test-tenant-id",
+  PANDADOC_CLIENT_ID: "pandadoc-client-id",
+  PANDADOC_CLIENT_SECRET: "pandadoc-client-secret",
+  HUBSPOT_CLIENT_ID: "hubspot-client-id",
+  HUBSPOT_CLIENT_SECRET: "hubspot-client-secret",
+  // Hex, like the keys generateEncryptionKey() produces, so TokenEncryption can use it
+  COOKIE_ENCRYPTION_KEY: "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f"
+};
+
+export function createTestConfig() {
+  return loadConfig(testSecrets);
+}
+
+/**
+ * An Env with test secrets and an in-memory OAUTH_KV; bindings a test needs are passed in
+ */
+export function createTestEnv(overrides: Partial<Env> = {}): Env {
+  return { ...testSecrets, OAUTH_KV: createMockKV(), ...overrides } as unknown as Env;
+}
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the admin API and admin console sessions
+ */
+
+import { describe, it, expect } from "vitest";
+import { handleAdminApi } from "../../src/admin/api";
+import { createAdminSession, endAdminSession, getAdminSession } from "../../src/admin/session";
+import { ClientRegistry } from "../../src/auth/client-registry";
+import type { VerifiedIdentity } from "../../src/auth/session-identity";
+import { createMockKV } from "../setup/helpers/mockKV";
+import { createMockD1, rowsByTable } from "../setup/helpers/mockD1";
+import { createTestEnv } from "../setup/helpers/testEnv";
+
+const admin: VerifiedIdentity = {
+  userId: "admin-1",
+  clientId: "admin-console",
+  scopes: [],
+  email: "admin@example.com",
+  roles: ["MCP.Admin"],
+  source: "oauth"
+};
+
+// Answers queries by table and records every bound statement
+function createFakeD1(tables: Record<string, Record<string, unknown>[]>, changes = 1) {
+  const rows = rowsByTable(tables);
+  return createMockD1({ first: (sql) => rows(sql)[0], all: rows, changes });
+}
+
+function createEnv(db: D1Database, kv = createMockKV()): Env {
+  return createTestEnv({ MCP_DB: db, OAUTH_KV: kv });
+}
+
+describe("Admin API", () => {
+  it("should list users with their connections but no tokens", async () => {
+    const { db } = createFakeD1({
+      user_sessions: [{
+        user_id: "user-1", email: "a@example.com", name: "A", roles: '["Sales"]', groups: null,
+        access_token: "secret-idp-token", expires_at: 0, created_at: 1, updated_at: 2
+      }],
+      tool_credentials: [{
+        user_id: "user-1", provider: "hubspot", access_token: "secret-hubspot-token",
+        scopes: '["crm.objects.contacts.read"]', created_at: 1, updated_at: 1
+      }]
+    });
+
+    const response = await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users"), createEnv(db), admin, "/users"
+    );
+    const body = await response.json() as { users: Array<Record<string, unknown>> };
+
+    expect(response.status).toBe(200);
+    expect(body.users[0]).toMatchObject({ user_id: "user-1", roles: ["Sales"], connections: [{ provider: "hubspot" }] });
+    expect(JSON.stringify(body)).not.toContain("secret");
+  });
+
+  it("should match the user search literally", async () => {
+    const { db, calls } = createFakeD1({ user_sessions: [] });
+
+    await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users?search=50%25_off%5C"), createEnv(db), admin, "/users"
+    );
+
+    expect(calls[0].sql).toContain("ESCAPE '\\'");
+    expect(calls[0].params[0]).toBe("%50\\%\\_off\\\\%");
+  });
+
+  it("should look up a page of users' connections with one bound parameter", async () => {
+    const users = Array.from({ length: 150 }, (_, i) => ({
+      user_id: `user-${i}`, email: `u${i}@example.com`, name: "U", roles: null, groups: null,
+      access_token: "t", expires_at: 0, created_at: 1, updated_at: 2
+    }));
+    const { db, calls } = createFakeD1({ user_sessions: users, tool_credentials: [] });
+
+    const response = await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users?limit=150"), createEnv(db), admin, "/users"
+    );
+
+    // D1 allows at most 100 bound parameters per query
+    expect(response.status).toBe(200);
+    const lookup = calls.find((call) => call.sql.includes("FROM tool_credentials"))!;
+    expect(lookup.params).toEqual([JSON.stringify(users.map((user) => user.user_id))]);
+  });
+
+  it("should force disconnect a provider and record it", async () => {
+    const { db, calls } = createFakeD1({});
+
+    const response = await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users/user-1/connections/hubspot", { method: "DELETE" }),
+      createEnv(db), admin, "/users/user-1/connections/hubspot"
+    );
+
+    expect(response.status).toBe(204);
+    expect(calls[0]).toMatchObject({ params: ["user-1", "hubspot"] });
+    expect(calls[1].sql).toContain("INSERT INTO audit_logs");
+    expect(calls[1].params).toContain("auth_revoke");
+
+    const { db: empty } = createFakeD1({}, 0);
+    const missing = await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users/user-1/connections/xero", { method: "DELETE" }),
+      createEnv(empty), admin, "/users/user-1/connections/xero"
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("should answer 400 for a path with malformed percent-encoding", async () => {
+    const { db } = createFakeD1({});
+
+    const response = await handleAdminApi(
+      new Request("https://mcp.example.com/api/admin/users/%E0%A4%A"), createEnv(db), admin, "/users/%E0%A4%A"
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "invalid_request" });
+  });
+
+  it("should disable only dynamically registered clients", async () => {
+    const kv = createMockKV();
+    await kv.put("oauth_client:dyn-1", JSON.stringify({
+      clientId: "dyn-1", clientName: "Claude Desktop", redirectUris: [], allowedScopes: [], requirePkce: true, active: true
+    }));
+    const { db } = createFakeD1({});
+    const env = createEnv(db, kv);
+    const patch = (clientId: string) => handleAdminApi(
+      new Request(`https://mcp.example.com/api/admin/clients/${clientId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ active: false })
+      }),
+      env, admin, `/clients/${clientId}`
+    );
+
+    expect((await patch("dyn-1")).status).toBe(200);
+    expect(await new ClientRegistry(env).isClientActive("dyn-1")).toBe(false);
+    expect((await patch("mcp-inspector")).status).toBe(404);
+    expect(await new ClientRegistry(env).isClientActive("mcp-inspector")).toBe(true);
+  });
+
+  it("should keep admin console sessions server-side", async () => {
+    const kv = createMockKV();
+    const cookie = await createAdminSession(kv, admin);
+    const sessionCookie = cookie.split(";")[0];
+    const request = new Request("https://mcp.example.com/admin", { headers: { Cookie: `other=1; ${sessionCookie}` } });
+
+    expect(cookie).toContain("HttpOnly");
+    expect(await getAdminSession(request, kv)).toEqual(admin);
+
+    expect(await endAdminSession(request, kv)).toContain("Max-Age=0");
+    expect(await getAdminSession(request, kv)).toBeNull();
+  });
+});
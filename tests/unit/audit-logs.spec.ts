@@ -0,0 +1,105 @@
+/**
+ * Unit tests for audit log queries and exports
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  decodeAuditCursor,
+  encodeAuditCursor,
+  exportAuditLogs,
+  parseAuditLogQuery,
+  queryAuditLogs,
+  toCsvRow
+} from "../../src/admin/audit-logs";
+import type { AuditLog } from "../../src/db/types";
+import { createMockD1 } from "../setup/helpers/mockD1";
+
+function auditLog(overrides: Partial<AuditLog> = {}): AuditLog {
+  return {
+    id: "log-1",
+    user_id: "user-1",
+    event_type: "tool_call",
+    provider: "hubspot",
+    tool_name: "hubspot-search-contacts",
+    metadata: null,
+    outcome: "success",
+    ip_address: null,
+    user_agent: null,
+    created_at: 1700000000,
+    ...overrides
+  };
+}
+
+// Serves queued pages of rows to successive list queries and records them
+function createFakeD1(pages: AuditLog[][]) {
+  return createMockD1({ all: () => pages.shift() ?? [] });
+}
+
+describe("Audit log queries", () => {
+  it("should parse filters and reject invalid values", () => {
+    const parsed = parseAuditLogQuery(new URLSearchParams(
+      "user_id=user-1&tool_name=hubspot-search-contacts&event_type=tool_call&outcome=failure&from=2024-01-01T00:00:00Z&to=1706745600&limit=10"
+    ));
+
+    expect(parsed).toEqual({
+      valid: true,
+      query: {
+        filters: {
+          user_id: "user-1",
+          provider: undefined,
+          tool_name: "hubspot-search-contacts",
+          event_type: "tool_call",
+          outcome: "failure",
+          from: 1704067200,
+          to: 1706745600
+        },
+        limit: 10,
+        cursor: undefined
+      }
+    });
+    expect(parseAuditLogQuery(new URLSearchParams("event_type=login")).valid).toBe(false);
+    expect(parseAuditLogQuery(new URLSearchParams("outcome=maybe")).valid).toBe(false);
+    expect(parseAuditLogQuery(new URLSearchParams("from=yesterday")).valid).toBe(false);
+    expect(parseAuditLogQuery(new URLSearchParams("cursor=not-a-cursor")).valid).toBe(false);
+  });
+
+  it("should page with a cursor after the last row", async () => {
+    const { db, calls } = createFakeD1([[auditLog({ id: "b" }), auditLog({ id: "a" })]]);
+
+    const page = await queryAuditLogs(db, { filters: { provider: "hubspot" }, limit: 1 });
+
+    expect(page.logs.map((log) => log.id)).toEqual(["b"]);
+    expect(decodeAuditCursor(page.nextCursor!)).toEqual({ created_at: 1700000000, id: "b" });
+    expect(calls[0].params).toEqual(["hubspot", 2]);
+
+    const cursor = decodeAuditCursor(encodeAuditCursor({ created_at: 1700000000, id: "b" }))!;
+    const next = createFakeD1([[auditLog({ id: "a" })]]);
+    const last = await queryAuditLogs(next.db, { filters: {}, limit: 1, cursor });
+
+    expect(last.nextCursor).toBeNull();
+    expect(next.calls[0].sql).toContain("(created_at < ? OR (created_at = ? AND id < ?))");
+    expect(next.calls[0].params).toEqual([1700000000, 1700000000, "b", 2]);
+  });
+
+  it("should escape CSV fields and guard against formulas", () => {
+    const row = toCsvRow(auditLog({ tool_name: "=HYPERLINK(\"x\")", metadata: '{"a":1,"b":"c"}', id: "-abc" }));
+
+    expect(row).toBe(
+      '-abc,2023-11-14T22:13:20.000Z,user-1,tool_call,success,hubspot,"\'=HYPERLINK(""x"")",,,"{""a"":1,""b"":""c""}"\r\n'
+    );
+  });
+
+  it("should stream every page of an export", async () => {
+    const firstPage = Array.from({ length: 200 }, (_, i) => auditLog({ id: `log-${String(999 - i).padStart(3, "0")}` }));
+    const { db, calls } = createFakeD1([firstPage, [auditLog({ id: "log-000" })]]);
+
+    const response = exportAuditLogs(db, { user_id: "user-1" }, "jsonl");
+    const lines = (await response.text()).trim().split("\n");
+
+    expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(lines).toHaveLength(201);
+    expect(JSON.parse(lines[200]).id).toBe("log-000");
+    expect(calls).toHaveLength(2);
+    expect(calls[1].params).toEqual(["user-1", 1700000000, 1700000000, "log-800", 200]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for client consent approval and revocation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  clientIdAlreadyApproved,
+  getApprovedClients,
+  parseRedirectApproval,
+  renderApprovalDialog,
+  revokeClientApproval
+} from "../../src/workers-oauth-utils";
+
+const secret = "test-cookie-secret-that-is-long-enough";
+const origin = "https://mcp.example.com";
+
+function cookieFrom(headers: Record<string, string>): string {
+  return headers["Set-Cookie"].split(";")[0];
+}
+
+async function approve(clientId: string, cookie?: string): Promise<string> {
+  const body = new URLSearchParams({ state: btoa(JSON.stringify({ oauthReqInfo: { clientId } })) });
+  const request = new Request(`${origin}/oauth/authorize`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...(cookie ? { Cookie: cookie } : {}) },
+    body
+  });
+  const { headers } = await parseRedirectApproval(request, secret);
+  return cookieFrom(headers);
+}
+
+function withCookie(cookie: string): Request {
+  return new Request(`${origin}/oauth/authorize`, { headers: { Cookie: cookie } });
+}
+
+describe("Client consent", () => {
+  it("should remember approved clients in the signed cookie", async () => {
+    const cookie = await approve("client-a");
+
+    expect(await clientIdAlreadyApproved(withCookie(cookie), "client-a", secret)).toBe(true);
+    expect(await clientIdAlreadyApproved(withCookie(cookie), "client-b", secret)).toBe(false);
+  });
+
+  it("should ignore a cookie signed with another secret", async () => {
+    const cookie = await approve("client-a");
+
+    expect(await clientIdAlreadyApproved(withCookie(cookie), "client-a", "another-secret-value")).toBe(false);
+  });
+
+  it("should revoke consent for one client only", async () => {
+    const cookie = await approve("client-b", await approve("client-a"));
+
+    const headers = await revokeClientApproval(withCookie(cookie), "client-a", secret);
+    const updated = withCookie(cookieFrom(headers));
+
+    expect(await getApprovedClients(updated, secret)).toEqual(["client-b"]);
+    expect(await clientIdAlreadyApproved(updated, "client-a", secret)).toBe(false);
+  });
+
+  it("should show requested scopes and escape client details", async () => {
+    const response = renderApprovalDialog(new Request(`${origin}/oauth/authorize`), {
+      client: {
+        clientId: "client-a",
+        clientName: "<script>alert(1)</script>",
+        redirectUris: ["https://client.example.com/callback"],
+        tokenEndpointAuthMethod: "client_secret_basic"
+      },
+      server: { name: "Test Server" },
+      scopes: ["mcp:tools", "profile"],
+      state: { oauthReqInfo: { clientId: "client-a" } }
+    });
+    const html = await response.text();
+
+    expect(html).toContain("mcp:tools");
+    expect(html).toContain("https://client.example.com/callback");
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(response.headers.get("X-Frame-Options")).toBe("DENY");
+  });
+});
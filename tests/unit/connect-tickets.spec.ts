@@ -0,0 +1,48 @@
+/**
+ * Unit tests for provider connect links bound to the MCP user
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createConnectUrl, consumeConnectTicket, peekConnectTicket } from "../../src/auth/provider-config";
+import { createMockKV } from "../setup/helpers/mockKV";
+
+describe("Provider connect tickets", () => {
+  const baseUrl = "https://mcp.example.com";
+  let kv: ReturnType<typeof createMockKV>;
+
+  beforeEach(() => {
+    kv = createMockKV();
+  });
+
+  it("should build a connect URL without the user id", async () => {
+    const connectUrl = new URL(await createConnectUrl(kv, "hubspot", baseUrl, "user-123"));
+
+    expect(connectUrl.pathname).toBe("/auth/hubspot");
+    expect(connectUrl.searchParams.has("user_id")).toBe(false);
+    expect(connectUrl.toString()).not.toContain("user-123");
+  });
+
+  it("should resolve the ticket to its user only once", async () => {
+    const ticket = new URL(await createConnectUrl(kv, "hubspot", baseUrl, "user-123")).searchParams.get("ticket")!;
+
+    expect(await consumeConnectTicket(kv, ticket, "hubspot")).toBe("user-123");
+    expect(await consumeConnectTicket(kv, ticket, "hubspot")).toBeNull();
+  });
+
+  it("should reject a ticket minted for another provider", async () => {
+    const ticket = new URL(await createConnectUrl(kv, "pandadoc", baseUrl, "user-123")).searchParams.get("ticket")!;
+
+    expect(await consumeConnectTicket(kv, ticket, "hubspot")).toBeNull();
+  });
+
+  it("should reject unknown tickets", async () => {
+    expect(await consumeConnectTicket(kv, "forged-ticket", "hubspot")).toBeNull();
+  });
+
+  it("should peek at a ticket without redeeming it", async () => {
+    const ticket = new URL(await createConnectUrl(kv, "hubspot", baseUrl, "user-123")).searchParams.get("ticket")!;
+
+    expect(await peekConnectTicket(kv, ticket, "hubspot")).toBe("user-123");
+    expect(await consumeConnectTicket(kv, ticket, "hubspot")).toBe("user-123");
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for HubSpot association labels and listings
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  describeRecord,
+  findAssociationLabel,
+  formatAssociations,
+  listAssociatedRecords
+} from "../../src/tools/hubspot/associations";
+import type { HubSpotAssociation, HubSpotAssociationLabel } from "../../src/tools/hubspot/client";
+
+const labels: HubSpotAssociationLabel[] = [
+  { category: "HUBSPOT_DEFINED", typeId: 279, label: null },
+  { category: "HUBSPOT_DEFINED", typeId: 1, label: "Primary" },
+  { category: "USER_DEFINED", typeId: 7, label: "Decision maker" }
+];
+
+const associations: HubSpotAssociation[] = [
+  {
+    toObjectId: 101,
+    associationTypes: [
+      { category: "HUBSPOT_DEFINED", typeId: 279, label: null },
+      { category: "USER_DEFINED", typeId: 7, label: "Decision maker" }
+    ]
+  },
+  { toObjectId: 102, associationTypes: [{ category: "HUBSPOT_DEFINED", typeId: 279, label: null }] }
+];
+
+describe("HubSpot associations", () => {
+  it("should resolve labels case-insensitively and list the options", () => {
+    expect(findAssociationLabel(labels, " decision MAKER ", "contacts", "companies")).toEqual(labels[2]);
+    expect(() => findAssociationLabel(labels, "Champion", "contacts", "companies")).toThrow(
+      'Unknown association label "Champion" from contacts to companies. Available labels: Primary, Decision maker'
+    );
+    expect(() => findAssociationLabel([], "Champion", "deals", "contacts")).toThrow(
+      "No labels are defined for these objects."
+    );
+  });
+
+  it("should format associated records with their labels", () => {
+    expect(formatAssociations(associations, (id) => (id === "101" ? "Jane Doe" : undefined))).toBe(
+      "• 101 – Jane Doe [Decision maker]\n• 102"
+    );
+    expect(formatAssociations([])).toBe("None");
+    expect(describeRecord("contacts", { firstname: "Jane", lastname: "Doe", email: "jane@example.com", jobtitle: "CFO" }))
+      .toBe("Jane Doe (jane@example.com), CFO");
+    expect(describeRecord("companies", { name: "Acme" })).toBe("Acme");
+  });
+
+  it("should list associated records by name with the next cursor", async () => {
+    const reads: string[][] = [];
+    const client = {
+      listAssociations: async () => ({ results: associations, paging: { next: { after: "page-2" } } }),
+      batchRead: async (_type: string, ids: string[]) => {
+        reads.push(ids);
+        return [{ id: "102", properties: { name: "Acme", domain: "acme.com" } }];
+      }
+    };
+
+    const result = await listAssociatedRecords(client, "contacts", "1", "companies");
+
+    expect(reads).toEqual([["101", "102"]]);
+    expect(result.text).toBe("• 101 [Decision maker]\n• 102 – Acme (acme.com)");
+    expect(result.after).toBe("page-2");
+  });
+});
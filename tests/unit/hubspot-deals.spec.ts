@@ -0,0 +1,92 @@
+/**
+ * Unit tests for HubSpot deal stage resolution and search filters
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildDealSearchRequest,
+  defaultDealStage,
+  describeDealStage,
+  findDealStage
+} from "../../src/tools/hubspot/deal-pipelines";
+import type { HubSpotPipeline } from "../../src/tools/hubspot/client";
+import { ToolError } from "../../src/types";
+
+const pipelines: HubSpotPipeline[] = [
+  {
+    id: "renewals",
+    label: "Renewals",
+    displayOrder: 1,
+    stages: [
+      { id: "r-won", label: "Closed Won", displayOrder: 1 },
+      { id: "r-open", label: "Renewal Due", displayOrder: 0 }
+    ]
+  },
+  {
+    id: "default",
+    label: "Sales Pipeline",
+    displayOrder: 0,
+    stages: [
+      { id: "closedwon", label: "Closed Won", displayOrder: 2 },
+      { id: "appointmentscheduled", label: "Appointment Scheduled", displayOrder: 0 },
+      { id: "contractsent", label: "Contract Sent", displayOrder: 1 }
+    ]
+  }
+];
+
+describe("HubSpot deals", () => {
+  it("should resolve stage names within a pipeline", () => {
+    expect(findDealStage(pipelines, "contract sent").stage.id).toBe("contractsent");
+    expect(findDealStage(pipelines, "Closed Won", "Sales Pipeline")).toMatchObject({
+      pipeline: { id: "default" },
+      stage: { id: "closedwon" }
+    });
+    expect(findDealStage(pipelines, "r-won").pipeline.id).toBe("renewals");
+    expect(defaultDealStage(pipelines).stage.id).toBe("appointmentscheduled");
+    expect(defaultDealStage(pipelines, "renewals").stage.id).toBe("r-open");
+    expect(describeDealStage(pipelines, "default", "closedwon")).toBe("Closed Won (Sales Pipeline pipeline)");
+  });
+
+  it("should reject unknown and ambiguous stages with the options", () => {
+    expect(() => findDealStage(pipelines, "Closed Won")).toThrow(
+      'Deal stage "Closed Won" exists in several pipelines (Renewals, Sales Pipeline). Specify the pipeline.'
+    );
+    expect(() => findDealStage(pipelines, "Negotiation", "default")).toThrow(
+      'Unknown deal stage "Negotiation". Available stages: Sales Pipeline: Appointment Scheduled, Contract Sent, Closed Won'
+    );
+    expect(() => findDealStage(pipelines, "Closed Won", "Partners")).toThrow(ToolError);
+  });
+
+  it("should build search filters for owner, stage, amount and close date", () => {
+    const request = buildDealSearchRequest(
+      {
+        ownerId: "42",
+        stageId: "contractsent",
+        minAmount: 1000,
+        closeDateFrom: "2024-06-01",
+        closeDateTo: "2024-06-30"
+      },
+      ["dealname"],
+      25,
+      "cursor-1"
+    );
+
+    expect(request).toEqual({
+      filterGroups: [{
+        filters: [
+          { propertyName: "hubspot_owner_id", operator: "EQ", value: "42" },
+          { propertyName: "dealstage", operator: "EQ", value: "contractsent" },
+          { propertyName: "amount", operator: "GTE", value: "1000" },
+          { propertyName: "closedate", operator: "GTE", value: String(Date.UTC(2024, 5, 1)) },
+          { propertyName: "closedate", operator: "LTE", value: String(Date.UTC(2024, 6, 1) - 1) }
+        ]
+      }],
+      sorts: [{ propertyName: "hs_lastmodifieddate", direction: "DESCENDING" }],
+      properties: ["dealname"],
+      limit: 25,
+      after: "cursor-1"
+    });
+    expect(buildDealSearchRequest({}, [], 10).filterGroups).toEqual([]);
+    expect(() => buildDealSearchRequest({ closeDateTo: "end of June" }, [], 10)).toThrow("closeDateTo must be a date");
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for HubSpot engagement associations and the timeline
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  engagementAssociations,
+  formatEngagement,
+  listEngagements
+} from "../../src/tools/hubspot/engagements";
+import { ToolError } from "../../src/types";
+
+describe("HubSpot engagements", () => {
+  it("should associate engagements with HubSpot-defined types", () => {
+    expect(engagementAssociations("calls", { contactIds: ["1"], dealIds: ["9"] })).toEqual([
+      { to: { id: "1" }, types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: 194 }] },
+      { to: { id: "9" }, types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: 206 }] }
+    ]);
+    expect(engagementAssociations("notes", { companyIds: ["5"] })[0].types[0].associationTypeId).toBe(190);
+    expect(() => engagementAssociations("tasks", { contactIds: [] })).toThrow(ToolError);
+  });
+
+  it("should format engagements as plain text lines", () => {
+    expect(formatEngagement("notes", {
+      id: "11",
+      properties: { hs_timestamp: "2024-06-01T09:30:00.000Z", hs_note_body: "<p>Asked for&nbsp;pricing</p>" }
+    })).toBe("• 2024-06-01 09:30 📝 Note: Asked for pricing (ID: 11)");
+    expect(formatEngagement("calls", {
+      id: "12",
+      properties: { hs_timestamp: "1717234200000", hs_call_title: "Intro", hs_call_direction: "OUTBOUND", hs_call_duration: "300000" }
+    })).toBe("• 2024-06-01 09:30 📞 Call (outbound, 5 min): Intro (ID: 12)");
+  });
+
+  it("should list the newest engagements across types", async () => {
+    const ids: Record<string, string[]> = { notes: ["1", "3"], calls: ["2"] };
+    const times: Record<string, string> = {
+      "1": "2024-06-01T00:00:00Z",
+      "2": "2024-06-03T00:00:00Z",
+      "3": "2024-06-02T00:00:00Z"
+    };
+    const client = {
+      listAssociations: async (_from: string, _id: string, to: string) => ({
+        results: (ids[to] || []).map((id) => ({ toObjectId: id, associationTypes: [] }))
+      }),
+      batchRead: async (_type: string, read: string[]) =>
+        read.map((id) => ({ id, properties: { hs_timestamp: times[id] } }))
+    };
+
+    const timeline = await listEngagements(client, "contacts", "42", ["notes", "calls", "tasks"], 2);
+
+    expect(timeline.map(({ type, engagement }) => `${type}:${engagement.id}`)).toEqual(["calls:2", "notes:3"]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for HubSpot property schema validation and caching
+ */
+
+import { describe, it, expect } from "vitest";
+import { getPropertySchema, PropertySchemaCache, validateProperties } from "../../src/tools/hubspot/property-schema";
+import type { HubSpotProperty } from "../../src/tools/hubspot/client";
+
+const property = (name: string, label: string, type: string, fieldType: string, extra: Partial<HubSpotProperty> = {}): HubSpotProperty => ({
+  name,
+  label,
+  type,
+  fieldType,
+  options: [],
+  ...extra
+});
+
+const schema: HubSpotProperty[] = [
+  property("firstname", "First Name", "string", "text"),
+  property("seat_count", "Seat Count", "number", "number"),
+  property("is_partner", "Is Partner", "bool", "booleancheckbox"),
+  property("renewal_date", "Renewal Date", "date", "date"),
+  property("lead_source", "Lead Source", "enumeration", "select", {
+    options: [{ label: "Trade Show", value: "trade_show" }, { label: "Referral", value: "referral" }]
+  }),
+  property("products", "Products", "enumeration", "checkbox", {
+    options: [{ label: "Core", value: "core" }, { label: "Add-on", value: "addon" }]
+  }),
+  property("hs_object_id", "Record ID", "number", "number", { modificationMetadata: { readOnlyValue: true } })
+];
+
+describe("HubSpot property schema", () => {
+  it("should convert values to HubSpot formats", () => {
+    expect(validateProperties(schema, {
+      firstname: "Jane",
+      seat_count: "25",
+      is_partner: true,
+      renewal_date: "2025-03-31",
+      lead_source: "Trade Show",
+      products: "core; Add-on"
+    }, "contacts")).toEqual({
+      firstname: "Jane",
+      seat_count: "25",
+      is_partner: "true",
+      renewal_date: "2025-03-31",
+      lead_source: "trade_show",
+      products: "core;addon"
+    });
+  });
+
+  it("should report every invalid property at once", () => {
+    expect(() => validateProperties(schema, {
+      "Lead Source": "referral",
+      seat_count: "lots",
+      hs_object_id: 1,
+      lead_source: "Cold call"
+    }, "contacts")).toThrow(
+      "Invalid contacts properties:\n" +
+      "• Unknown property \"Lead Source\" (did you mean lead_source?)\n" +
+      "• seat_count must be a number\n" +
+      "• hs_object_id is read-only\n" +
+      "• \"Cold call\" is not an option of lead_source. Options: trade_show, referral\n" +
+      "Use hubspot-list-properties to see the available properties."
+    );
+  });
+
+  it("should cache schemas per token and object type until they expire", async () => {
+    let loads = 0;
+    const client = { getProperties: async () => { loads++; return schema; } };
+    const cache = new PropertySchemaCache(1000);
+
+    await getPropertySchema(client, "token-a", "contacts", cache);
+    await getPropertySchema(client, "token-a", "contacts", cache);
+    await getPropertySchema(client, "token-b", "contacts", cache);
+    expect(loads).toBe(2);
+
+    const failing = new PropertySchemaCache(1000);
+    await expect(failing.get("k", async () => { throw new Error("HubSpot down"); })).rejects.toThrow("HubSpot down");
+    expect(await failing.get("k", async () => schema)).toBe(schema);
+    expect(await failing.get("k", async () => [], Date.now() + 2000)).toEqual([]);
+  });
+});
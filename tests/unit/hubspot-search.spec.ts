@@ -0,0 +1,71 @@
+/**
+ * Unit tests for HubSpot CRM search requests
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildCrmSearchRequest, formatSearchResult, toSearchFilter } from "../../src/tools/hubspot/crm-search";
+import { searchCrmSchema } from "../../src/tools/hubspot/search-crm";
+import { ToolError } from "../../src/types";
+
+describe("HubSpot CRM search", () => {
+  it("should only accept object types the connected scopes can read", () => {
+    expect(searchCrmSchema.safeParse({ objectType: "deals" }).success).toBe(true);
+    expect(searchCrmSchema.safeParse({ objectType: "tickets" }).success).toBe(false);
+    expect(searchCrmSchema.safeParse({ objectType: "2-123456" }).success).toBe(false);
+  });
+
+  it("should build filter groups, sorts and the cursor", () => {
+    const request = buildCrmSearchRequest({
+      filterGroups: [
+        {
+          filters: [
+            { propertyName: "amount", operator: "BETWEEN", value: 1000, highValue: 5000 },
+            { propertyName: "dealstage", operator: "IN", values: ["contractsent", "closedwon"] }
+          ]
+        },
+        { filters: [{ propertyName: "hs_priority", operator: "HAS_PROPERTY" }] }
+      ],
+      sorts: [{ propertyName: "createdate" }],
+      properties: ["dealname", "amount"],
+      limit: 50,
+      after: "cursor-2"
+    });
+
+    expect(request).toEqual({
+      filterGroups: [
+        {
+          filters: [
+            { propertyName: "amount", operator: "BETWEEN", value: "1000", highValue: "5000" },
+            { propertyName: "dealstage", operator: "IN", values: ["contractsent", "closedwon"] }
+          ]
+        },
+        { filters: [{ propertyName: "hs_priority", operator: "HAS_PROPERTY" }] }
+      ],
+      sorts: [{ propertyName: "createdate", direction: "DESCENDING" }],
+      properties: ["dealname", "amount"],
+      limit: 50,
+      after: "cursor-2"
+    });
+    expect(buildCrmSearchRequest({ query: "acme", limit: 10 })).toEqual({ query: "acme", filterGroups: [], sorts: [], limit: 10 });
+  });
+
+  it("should reject filters missing the values their operator needs", () => {
+    expect(() => toSearchFilter({ propertyName: "amount", operator: "BETWEEN", value: 1 })).toThrow(
+      "Filter on amount (BETWEEN) needs value and highValue"
+    );
+    expect(() => toSearchFilter({ propertyName: "email", operator: "EQ" })).toThrow("needs a value");
+    expect(() => toSearchFilter({ propertyName: "email", operator: "NOT_HAS_PROPERTY", value: "x" })).toThrow("takes no value");
+    expect(() => toSearchFilter({ propertyName: "dealstage", operator: "NOT_IN", values: [] })).toThrow(ToolError);
+
+    const filters = Array.from({ length: 6 }, () => ({ propertyName: "email", operator: "HAS_PROPERTY" as const }));
+    expect(() => buildCrmSearchRequest({ filterGroups: [0, 1, 2, 3].map(() => ({ filters })), limit: 10 })).toThrow(
+      "HubSpot allows at most 18 filters per search, got 24"
+    );
+  });
+
+  it("should format results with their non-empty properties", () => {
+    expect(formatSearchResult({ id: "7", properties: { email: "a@example.com", phone: null, company: "" } })).toBe(
+      "• ID: 7\n  email: a@example.com"
+    );
+  });
+});
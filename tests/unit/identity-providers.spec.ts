@@ -0,0 +1,248 @@
+/**
+ * Unit tests for upstream identity providers: OIDC ID token validation and provider selection
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { signJwt } from "../../src/auth/jwt";
+import {
+  IdentityProviderError,
+  getIdentityProvider,
+  getIdentityProviders,
+  selectIdentityProvider,
+  type IdentityProviderEnv
+} from "../../src/auth/idp";
+import { GOOGLE_ISSUER, createGoogleProvider } from "../../src/auth/idp/google";
+import { MicrosoftProvider } from "../../src/auth/idp/microsoft";
+
+const issuer = "https://sso.example.com";
+const clientId = "mcp-client";
+const microsoftLogin = "https://login.microsoftonline.com";
+
+const oidcEnv: IdentityProviderEnv = {
+  OIDC_ISSUER: issuer,
+  OIDC_CLIENT_ID: clientId,
+  OIDC_CLIENT_SECRET: "oidc-secret",
+  OIDC_TENANT_CLAIM: "org"
+};
+
+interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JsonWebKey;
+}
+
+async function createSigningKey(kid: string): Promise<SigningKey> {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"]
+  ) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey("jwk", publicKey) as JsonWebKey;
+  return { kid, privateKey, jwk: { ...jwk, kid, alg: "ES256", use: "sig" } as JsonWebKey };
+}
+
+function idToken(key: SigningKey, overrides: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({
+    iss: issuer,
+    sub: "subject-1",
+    aud: clientId,
+    iat: now,
+    exp: now + 300,
+    nonce: "nonce-1",
+    email: "jo@partner.com",
+    email_verified: true,
+    name: "Jo Bloggs",
+    org: "partner",
+    ...overrides
+  }, { kid: key.kid, alg: "ES256", privateKey: key.privateKey }, "JWT");
+}
+
+describe("Identity providers", () => {
+  let currentKey: SigningKey;
+  let publishedKeys: JsonWebKey[];
+
+  beforeAll(async () => {
+    currentKey = await createSigningKey("key-1");
+  });
+
+  beforeEach(() => {
+    publishedKeys = [currentKey.jwk];
+    vi.stubGlobal("fetch", vi.fn(async (input: string | URL) => {
+      const url = input.toString();
+      for (const iss of [issuer, GOOGLE_ISSUER]) {
+        if (url === `${iss}/.well-known/openid-configuration`) {
+          return Response.json({
+            issuer: iss,
+            authorization_endpoint: `${iss}/authorize`,
+            token_endpoint: `${iss}/token`,
+            jwks_uri: `${iss}/jwks`
+          });
+        }
+        if (url === `${iss}/jwks`) {
+          return Response.json({ keys: publishedKeys });
+        }
+      }
+      if (url === `${microsoftLogin}/organizations/v2.0/.well-known/openid-configuration`) {
+        return Response.json({
+          issuer: `${microsoftLogin}/{tenantid}/v2.0`,
+          authorization_endpoint: `${microsoftLogin}/organizations/oauth2/v2.0/authorize`,
+          token_endpoint: `${microsoftLogin}/organizations/oauth2/v2.0/token`,
+          jwks_uri: `${microsoftLogin}/organizations/discovery/v2.0/keys`
+        });
+      }
+      if (url === `${microsoftLogin}/organizations/discovery/v2.0/keys`) {
+        return Response.json({ keys: publishedKeys });
+      }
+      if (url === "https://graph.microsoft.com/v1.0/me") {
+        return Response.json({ id: "object-1", mail: "jo@contoso.com", userPrincipalName: "jo@contoso.com", displayName: "Jo Bloggs" });
+      }
+      if (url === "https://graph.microsoft.com/v1.0/me/getMemberGroups") {
+        return Response.json({ value: ["group-1", "group-2"] });
+      }
+      return new Response("Not found", { status: 404 });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("OIDC", () => {
+    it("should map the claims of a valid id token", async () => {
+      const provider = getIdentityProvider(oidcEnv, "oidc")!;
+      const user = await provider.getUser({ access_token: "at", id_token: await idToken(currentKey) }, "nonce-1");
+
+      expect(user).toEqual({ subject: "subject-1", email: "jo@partner.com", name: "Jo Bloggs", tenantId: "partner" });
+    });
+
+    it("should reject id tokens with the wrong nonce, audience, issuer or expiry", async () => {
+      const provider = getIdentityProvider(oidcEnv, "oidc")!;
+      const signIn = async (overrides: Record<string, unknown>) =>
+        provider.getUser({ access_token: "at", id_token: await idToken(currentKey, overrides) }, "nonce-1");
+
+      await expect(signIn({ nonce: "replayed" })).rejects.toThrow(/nonce mismatch/);
+      await expect(signIn({ aud: "another-client" })).rejects.toThrow(/audience mismatch/);
+      await expect(signIn({ iss: "https://evil.example.com" })).rejects.toThrow(/issuer mismatch/);
+      await expect(signIn({ exp: Math.floor(Date.now() / 1000) - 3600 })).rejects.toThrow(/expired/);
+      await expect(signIn({ email_verified: false })).rejects.toBeInstanceOf(IdentityProviderError);
+    });
+
+    it("should reject tokens signed with an unpublished key", async () => {
+      const provider = getIdentityProvider(oidcEnv, "oidc")!;
+      const stranger = await createSigningKey("key-1");
+
+      await expect(
+        provider.getUser({ access_token: "at", id_token: await idToken(stranger) }, "nonce-1")
+      ).rejects.toThrow(/signature verification failed/);
+    });
+
+    it("should pick up rotated signing keys", async () => {
+      const provider = getIdentityProvider(oidcEnv, "oidc")!;
+      await provider.getUser({ access_token: "at", id_token: await idToken(currentKey) }, "nonce-1");
+
+      const rotated = await createSigningKey("key-2");
+      publishedKeys = [currentKey.jwk, rotated.jwk];
+
+      const user = await provider.getUser({ access_token: "at", id_token: await idToken(rotated) }, "nonce-1");
+      expect(user.subject).toBe("subject-1");
+    });
+  });
+
+  it("should limit Google sign-in to the workspace domain", async () => {
+    const google = createGoogleProvider({ clientId, clientSecret: "secret", workspaceDomain: "partner.com" });
+    const signIn = async (hd?: string) => google.getUser({
+      access_token: "at",
+      id_token: await idToken(currentKey, { iss: GOOGLE_ISSUER, hd })
+    }, "nonce-1");
+
+    await expect(signIn("elsewhere.com")).rejects.toThrow(/partner\.com Google Workspace account/);
+    await expect(signIn()).rejects.toThrow(/partner\.com Google Workspace account/);
+    expect((await signIn("partner.com")).tenantId).toBe("partner.com");
+  });
+
+  it("should refuse every Google account without a workspace domain", async () => {
+    const google = createGoogleProvider({ clientId, clientSecret: "secret" });
+    const signIn = async (hd?: string) => google.getUser({
+      access_token: "at",
+      id_token: await idToken(currentKey, { iss: GOOGLE_ISSUER, hd })
+    }, "nonce-1");
+
+    await expect(signIn()).rejects.toThrow(/set GOOGLE_WORKSPACE_DOMAIN/);
+    await expect(signIn("partner.com")).rejects.toThrow(/set GOOGLE_WORKSPACE_DOMAIN/);
+  });
+
+  describe("Microsoft", () => {
+    const microsoft = new MicrosoftProvider({
+      tenantId: "organizations",
+      clientId,
+      clientSecret: "secret",
+      allowedTenants: ["tenant-a"]
+    });
+    const signIn = async (tid: string, overrides: Record<string, unknown> = {}) => microsoft.getUser({
+      access_token: "graph-token",
+      id_token: await idToken(currentKey, { iss: `${microsoftLogin}/${tid}/v2.0`, tid, oid: "object-1", ...overrides })
+    }, "nonce-1");
+
+    it("should map a verified id token with its groups and app roles", async () => {
+      const user = await signIn("tenant-a", { groups: ["group-1"], roles: ["Tools.Admin"] });
+
+      expect(user).toEqual({
+        subject: "object-1",
+        email: "jo@contoso.com",
+        name: "Jo Bloggs",
+        tenantId: "tenant-a",
+        groups: ["group-1"],
+        roles: ["Tools.Admin"]
+      });
+    });
+
+    it("should read groups from Graph on group overage", async () => {
+      const user = await signIn("tenant-a", { _claim_names: { groups: "src1" } });
+      expect(user.groups).toEqual(["group-1", "group-2"]);
+    });
+
+    it("should reject tenants outside the allowlist and tokens for another tenant", async () => {
+      await expect(signIn("tenant-b")).rejects.toThrow(/Tenant tenant-b is not allowed/);
+      await expect(signIn("tenant-a", { iss: `${microsoftLogin}/tenant-b/v2.0` })).rejects.toThrow(/issuer mismatch/);
+      await expect(signIn("tenant-a", { nonce: "replayed" })).rejects.toThrow(/nonce mismatch/);
+    });
+
+    it("should require an allowlist for multi-tenant sign-in", async () => {
+      const open = new MicrosoftProvider({ tenantId: "organizations", clientId, clientSecret: "secret" });
+      const token = await idToken(currentKey, { iss: `${microsoftLogin}/tenant-a/v2.0`, tid: "tenant-a", oid: "object-1" });
+
+      await expect(open.getUser({ access_token: "graph-token", id_token: token }, "nonce-1"))
+        .rejects.toThrow(/MICROSOFT_ALLOWED_TENANTS/);
+    });
+  });
+
+  describe("selection", () => {
+    const env: IdentityProviderEnv = {
+      MICROSOFT_CLIENT_ID: "ms-client",
+      MICROSOFT_CLIENT_SECRET: "ms-secret",
+      MICROSOFT_TENANT_ID: "tenant-1",
+      GOOGLE_CLIENT_ID: "google-client",
+      GOOGLE_CLIENT_SECRET: "google-secret",
+      ...oidcEnv,
+      IDP_EMAIL_DOMAINS: JSON.stringify({ "Partner.com": "google" })
+    };
+
+    it("should offer every configured provider", () => {
+      expect(getIdentityProviders(env).map(provider => provider.id)).toEqual(["microsoft", "google", "oidc"]);
+    });
+
+    it("should use the requested provider then the email domain", () => {
+      expect(selectIdentityProvider(env, { idp: "oidc", email: "jo@partner.com" })?.id).toBe("oidc");
+      expect(selectIdentityProvider(env, { email: "jo@PARTNER.com" })?.id).toBe("google");
+      expect(selectIdentityProvider(env, { idp: "okta" })).toBeNull();
+    });
+
+    it("should ask the user unless config decides", () => {
+      expect(selectIdentityProvider(env, { email: "jo@elsewhere.com" })).toBeNull();
+      expect(selectIdentityProvider({ ...env, OAUTH_PROVIDER: "microsoft" }, {})?.id).toBe("microsoft");
+      expect(selectIdentityProvider({ MICROSOFT_CLIENT_ID: "ms-client", MICROSOFT_CLIENT_SECRET: "ms-secret" })?.id)
+        .toBe("microsoft");
+    });
+  });
+});
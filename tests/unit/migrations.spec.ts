@@ -0,0 +1,165 @@
+/**
+ * Unit tests for versioned D1 migrations, run against a local D1 database
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getPlatformProxy } from "wrangler";
+import {
+  d1MigrationTarget,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  MigrationError,
+  splitStatements
+} from "../../src/db/migrator";
+import { migrations } from "../../src/db/migrations";
+
+let db: D1Database;
+let dispose: () => Promise<void>;
+let configDir: string;
+
+async function tableNames(): Promise<string[]> {
+  const { results } = await db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE '\\_cf\\_%' ESCAPE '\\' ORDER BY name")
+    .all<{ name: string }>();
+  return results.map((row) => row.name);
+}
+
+async function columnNames(table: string): Promise<string[]> {
+  const { results } = await db.prepare(`SELECT name FROM pragma_table_info('${table}')`).all<{ name: string }>();
+  return results.map((row) => row.name);
+}
+
+describe("D1 migrations", () => {
+  beforeEach(async () => {
+    // A throwaway in-memory D1 database per test
+    configDir = mkdtempSync(join(tmpdir(), "mcp-migrations-"));
+    const configPath = join(configDir, "wrangler.json");
+    writeFileSync(configPath, JSON.stringify({
+      name: "migrations-test",
+      compatibility_date: "2025-06-01",
+      d1_databases: [{ binding: "MCP_DB", database_name: "test", database_id: "test" }]
+    }));
+    const proxy = await getPlatformProxy<{ MCP_DB: D1Database }>({ configPath, persist: false });
+    db = proxy.env.MCP_DB;
+    dispose = proxy.dispose;
+  });
+
+  afterEach(async () => {
+    await dispose();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("should apply every migration once and record it", async () => {
+    const target = d1MigrationTarget(db);
+
+    const applied = await migrateUp(target, migrations);
+
+    expect(applied.map((m) => m.version)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(await tableNames()).toEqual([
+      "audit_logs",
+      "personal_access_tokens",
+      "policy_rules",
+      "role_assignments",
+      "roles",
+      "schema_migrations",
+      "tool_credentials",
+      "user_sessions"
+    ]);
+    expect(await columnNames("audit_logs")).toContain("outcome");
+    expect(await migrateUp(target, migrations)).toEqual([]);
+    expect((await getMigrationStatus(target, migrations)).every((s) => s.applied && s.checksum_matches)).toBe(true);
+  });
+
+  it("should revert to a version and reapply", async () => {
+    const target = d1MigrationTarget(db);
+    await migrateUp(target, migrations);
+
+    expect((await migrateDown(target, migrations, { to: 4 })).map((m) => m.version)).toEqual([6, 5]);
+    expect(await columnNames("audit_logs")).not.toContain("outcome");
+
+    expect((await migrateDown(target, migrations, { to: 2 })).map((m) => m.version)).toEqual([4, 3]);
+    expect(await tableNames()).not.toContain("policy_rules");
+    expect(await columnNames("user_sessions")).not.toContain("tenant_id");
+
+    expect((await migrateUp(target, migrations, { to: 3 })).map((m) => m.version)).toEqual([3]);
+    expect((await getMigrationStatus(target, migrations)).map((s) => s.applied)).toEqual([true, true, true, false, false, false]);
+  });
+
+  it("should refuse to run when an applied migration changed", async () => {
+    const target = d1MigrationTarget(db);
+    await migrateUp(target, migrations, { to: 2 });
+
+    const edited = migrations.map((m) => (m.version === 2 ? { ...m, up: m.up.replace("revoked_at INTEGER,", "") } : m));
+    // Comments and whitespace don't count as changes
+    const reformatted = migrations.map((m) => (m.version === 1 ? { ...m, up: `-- reformatted\n${m.up.replace(/\n\s+/g, "\n")}` } : m));
+
+    await expect(migrateUp(target, edited)).rejects.toThrow(MigrationError);
+    await expect(migrateUp(target, edited)).rejects.toThrow("0002_personal_access_tokens changed after it was applied");
+    await expect(migrateUp(target, migrations.slice(0, 1))).rejects.toThrow("is applied but missing");
+    expect((await migrateUp(target, reformatted)).map((m) => m.version)).toEqual([3, 4, 5, 6]);
+  });
+
+  it("should adopt a database created before migrations were versioned", async () => {
+    // Tables as the old single-shot setup left them, before access policies existed
+    for (const migration of migrations.slice(0, 3)) {
+      await db.batch(splitStatements(migration.up).map((statement) => db.prepare(statement)));
+    }
+    await db.prepare("INSERT INTO user_sessions (id, user_id, email, name, access_token, expires_at) VALUES ('s', 'u', 'e', 'n', 't', 0)").run();
+    await db.prepare("INSERT INTO audit_logs (id, user_id, event_type, metadata) VALUES ('a', 'u', 'auth_grant', '{\"error\":\"denied\"}')").run();
+
+    const applied = await migrateUp(d1MigrationTarget(db), migrations);
+
+    expect(applied.map((m) => m.version)).toEqual([4, 5, 6]);
+    const { results } = await db.prepare("SELECT version FROM schema_migrations ORDER BY version").all<{ version: number }>();
+    expect(results.map((row) => row.version)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(await db.prepare("SELECT outcome FROM audit_logs WHERE id = 'a'").first("outcome")).toBe("failure");
+  });
+
+  it("should convert provider token expiry stored as ISO strings to unix seconds", async () => {
+    const target = d1MigrationTarget(db);
+    await migrateUp(target, migrations, { to: 5 });
+    await db.prepare("INSERT INTO user_sessions (id, user_id, email, name, access_token, expires_at) VALUES ('s', 'u', 'e', 'n', 't', 0)").run();
+    const insert = db.prepare("INSERT INTO tool_credentials (id, user_id, provider, access_token, expires_at) VALUES (?, 'u', ?, 't', ?)");
+    await db.batch([
+      insert.bind("c1", "hubspot", "2024-05-01T12:00:00.000Z"),
+      insert.bind("c2", "pandadoc", 1714564800),
+      insert.bind("c3", "xero", "not a date")
+    ]);
+
+    await migrateUp(target, migrations);
+
+    const { results } = await db.prepare("SELECT id, expires_at FROM tool_credentials ORDER BY id").all();
+    expect(results).toEqual([
+      { id: "c1", expires_at: 1714564800 },
+      { id: "c2", expires_at: 1714564800 },
+      { id: "c3", expires_at: 0 }
+    ]);
+  });
+});
+
+describe("splitStatements", () => {
+  it("should split on semicolons and drop line comments", () => {
+    expect(splitStatements("CREATE TABLE a (id TEXT); -- first\n-- whole line\nCREATE TABLE b (id TEXT);")).toEqual([
+      "CREATE TABLE a (id TEXT)",
+      "CREATE TABLE b (id TEXT)"
+    ]);
+  });
+
+  it("should keep semicolons and dashes inside strings and identifiers", () => {
+    const sql = `INSERT INTO notes (body) VALUES ('a; b -- c', 'it''s; fine');\nCREATE TABLE "odd;name" ([x--y] TEXT);`;
+
+    expect(splitStatements(sql)).toEqual([
+      "INSERT INTO notes (body) VALUES ('a; b -- c', 'it''s; fine')",
+      `CREATE TABLE "odd;name" ([x--y] TEXT)`
+    ]);
+  });
+
+  it("should keep block comments intact", () => {
+    expect(splitStatements("SELECT 1 /* not; a split */; SELECT 2")).toEqual(["SELECT 1 /* not; a split */", "SELECT 2"]);
+  });
+});
+
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for personal access tokens
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createPersonalAccessToken,
+  hashPersonalAccessToken,
+  parseTokenRequest,
+  verifyPersonalAccessToken
+} from "../../src/auth/personal-access-tokens";
+import { createMockD1 } from "../setup/helpers/mockD1";
+
+// Records every bound statement and answers lookups with a fixed row
+function createFakeD1(row: Record<string, unknown> | null = null) {
+  return createMockD1({ first: () => row });
+}
+
+describe("Personal access tokens", () => {
+  it("should store only the hash of a new token", async () => {
+    const { db, calls } = createFakeD1();
+
+    const { token, record } = await createPersonalAccessToken(db, "user-123", {
+      name: "CI",
+      scopes: ["hubspot:read"],
+      expiresInDays: 30
+    });
+
+    expect(token).toMatch(/^mcp_pat_[A-Za-z0-9_-]{43}$/);
+    expect(calls[0].params).not.toContain(token);
+    expect(calls[0].params).toContain(await hashPersonalAccessToken(token));
+    expect(record.user_id).toBe("user-123");
+    expect(record.expires_at - Math.floor(Date.now() / 1000)).toBeCloseTo(30 * 86400, -1);
+  });
+
+  it("should resolve a token to the user record it belongs to", async () => {
+    const token = "mcp_pat_example";
+    const { db, calls } = createFakeD1({
+      id: "pat-1",
+      user_id: "user-123",
+      name: "CI",
+      scopes: JSON.stringify(["hubspot:read"]),
+      user_email: "jo@example.com",
+      user_name: "Jo Bloggs",
+      user_roles: JSON.stringify(["Tools.Admin"])
+    });
+
+    expect(await verifyPersonalAccessToken(db, token)).toEqual({
+      tokenId: "pat-1",
+      userId: "user-123",
+      email: "jo@example.com",
+      name: "Jo Bloggs",
+      groups: [],
+      roles: ["Tools.Admin"],
+      scopes: ["hubspot:read"]
+    });
+    expect(calls[0].params[0]).toBe(await hashPersonalAccessToken(token));
+  });
+
+  it("should reject unknown tokens and other token formats", async () => {
+    const { db, calls } = createFakeD1(null);
+
+    expect(await verifyPersonalAccessToken(db, "mcp_pat_unknown")).toBeNull();
+    expect(await verifyPersonalAccessToken(db, "lloyd-mcp-dev-secret")).toBeNull();
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should validate name, scopes and expiry", () => {
+    const granted = ["mcp:tools"];
+
+    expect(parseTokenRequest({ name: "CI", scopes: ["hubspot:read"] }, granted)).toEqual({
+      valid: true,
+      request: { name: "CI", scopes: ["hubspot:read"], expiresInDays: 90 }
+    });
+    expect(parseTokenRequest({ name: "", scopes: ["mcp:tools"] }, granted).valid).toBe(false);
+    expect(parseTokenRequest({ name: "CI", scopes: [] }, granted).valid).toBe(false);
+    expect(parseTokenRequest({ name: "CI", scopes: ["admin"] }, granted).valid).toBe(false);
+    expect(parseTokenRequest({ name: "CI", scopes: ["mcp:tools"], expires_in_days: 400 }, granted).valid).toBe(false);
+  });
+
+  it("should not grant scopes beyond the caller's access token", () => {
+    const granted = ["hubspot:read", "profile"];
+
+    expect(parseTokenRequest({ name: "CI", scopes: ["hubspot:read"] }, granted).valid).toBe(true);
+    expect(parseTokenRequest({ name: "CI", scopes: ["mcp:tools"] }, granted)).toEqual({
+      valid: false,
+      error: "Scopes not granted to this access token: mcp:tools"
+    });
+    expect(parseTokenRequest({ name: "CI", scopes: ["hubspot:read", "hubspot:write"] }, granted).valid).toBe(false);
+    expect(parseTokenRequest({ name: "CI", scopes: ["hubspot:read"] }, []).valid).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for server-side provider OAuth state
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { buildAuthUrl, createPkcePair, generateState, validateState } from "../../src/auth/provider-config";
+import { createMockKV } from "../setup/helpers/mockKV";
+
+describe("Provider OAuth state", () => {
+  let kv: ReturnType<typeof createMockKV>;
+
+  beforeEach(() => {
+    kv = createMockKV();
+  });
+
+  it("should return the user and PKCE verifier for a valid state", async () => {
+    const state = await generateState(kv, "user-123", "xero", "verifier-abc");
+
+    expect(await validateState(kv, state, "xero")).toEqual({
+      userId: "user-123",
+      codeVerifier: "verifier-abc",
+      isValid: true
+    });
+  });
+
+  it("should reject a replayed state", async () => {
+    const state = await generateState(kv, "user-123", "hubspot");
+
+    expect((await validateState(kv, state, "hubspot")).isValid).toBe(true);
+    expect((await validateState(kv, state, "hubspot")).isValid).toBe(false);
+  });
+
+  it("should reject a forged state carrying another user's id", async () => {
+    // The old format: base64 of the payload, which anyone could construct
+    const forged = btoa(JSON.stringify({
+      userId: "victim",
+      provider: "hubspot",
+      timestamp: Date.now(),
+      nonce: "attacker"
+    }));
+
+    expect(await validateState(kv, forged, "hubspot")).toEqual({ userId: "", isValid: false });
+  });
+
+  it("should not embed the user id in the state", async () => {
+    const state = await generateState(kv, "user-123", "hubspot");
+
+    expect(state).not.toContain("user-123");
+    expect(() => JSON.parse(atob(state.replace(/-/g, "+").replace(/_/g, "/")))).toThrow();
+  });
+
+  it("should reject a state issued for another provider and consume it", async () => {
+    const state = await generateState(kv, "user-123", "pandadoc");
+
+    expect((await validateState(kv, state, "hubspot")).isValid).toBe(false);
+    expect((await validateState(kv, state, "pandadoc")).isValid).toBe(false);
+  });
+
+  it("should send an S256 challenge derived from the verifier", async () => {
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+    const expected = btoa(String.fromCharCode(...new Uint8Array(digest)))
+      .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+    const authUrl = new URL(buildAuthUrl("xero", {
+      clientId: "client",
+      clientSecret: "secret",
+      scopes: ["accounting.contacts"],
+      authUrl: "https://login.xero.com/identity/connect/authorize",
+      tokenUrl: "https://identity.xero.com/connect/token"
+    }, "state", "https://mcp.example.com", codeChallenge));
+
+    expect(codeChallenge).toBe(expected);
+    expect(authUrl.searchParams.get("code_challenge")).toBe(codeChallenge);
+    expect(authUrl.searchParams.get("code_challenge_method")).toBe("S256");
+  });
+
+  it("should ask HubSpot for the property schema scopes", () => {
+    const authUrl = new URL(buildAuthUrl("hubspot", {
+      clientId: "client",
+      clientSecret: "secret",
+      scopes: ["crm.objects.contacts.read"],
+      authUrl: "https://app.hubspot.com/oauth/authorize",
+      tokenUrl: "https://api.hubapi.com/oauth/v1/token"
+    }, "state", "https://mcp.example.com"));
+
+    expect(authUrl.searchParams.get("optional_scope")!.split(",")).toEqual(expect.arrayContaining([
+      "crm.schemas.contacts.read",
+      "crm.schemas.companies.read",
+      "crm.schemas.deals.read"
+    ]));
+  });
+});
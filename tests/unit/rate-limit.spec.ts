@@ -0,0 +1,224 @@
+/**
+ * Unit tests for global rate limiting
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  applyRules,
+  slidingWindow,
+  tokenBucket,
+  type RateLimitRule,
+  type RuleState
+} from "../../src/auth/rate-limit-algorithms";
+import { RateLimiter as EdgeRateLimiter } from "../../src/auth/rate-limiter";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../../src/config/mcp.defaults";
+import { RateLimiter, withToolRateLimit } from "../../src/middleware/rate-limit";
+import { ProviderRateLimiter, runWithProviderLimits } from "../../src/middleware/provider-rate-limit";
+import { HubSpotClient } from "../../src/tools/hubspot/client";
+
+/**
+ * Stands in for the Durable Object namespace: one state per name, shared by
+ * every limiter instance like the real objects are across isolates
+ */
+function fakeNamespace() {
+  const storage = new Map<string, Record<string, RuleState>>();
+  const failures: string[] = [];
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      async consume(rules: RateLimitRule[], cost = 1) {
+        const result = applyRules(storage.get(name) ?? {}, rules, Date.now(), cost);
+        storage.set(name, result.states);
+        return result.decision;
+      },
+      async peek(rules: RateLimitRule[], cost = 0) {
+        return applyRules(storage.get(name) ?? {}, rules, Date.now(), cost).decision;
+      },
+      async circuit() {
+        return null;
+      },
+      async recordSuccess() {
+        return null;
+      },
+      async recordFailure(threshold: number, timeoutSeconds: number) {
+        failures.push(name);
+        return { state: "closed", failures: failures.length, lastFailureTime: Date.now(), nextRetryTime: Date.now() + timeoutSeconds * 1000 };
+      }
+    })
+  };
+  return { namespace: namespace as unknown as DurableObjectNamespace<any>, storage, failures };
+}
+
+describe("Rate limiting", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should weight the previous window in a sliding window", () => {
+    const rule: RateLimitRule = { limit: 8, windowSeconds: 60 };
+    // 10 requests in the previous minute, a quarter of the way into this one
+    const state = { windowStart: 0, current: 10, previous: 0 };
+
+    const denied = slidingWindow(state, rule, 75_000, 1);
+    expect(denied.decision).toMatchObject({ allowed: false, remaining: 0, retryAfter: 3 });
+    expect(denied.consumed).toEqual({ windowStart: 60_000, current: 0, previous: 10 });
+
+    const allowed = slidingWindow(state, rule, 78_000, 1);
+    expect(allowed.decision).toMatchObject({ allowed: true, remaining: 0, resetAt: 120_000 });
+    expect(allowed.consumed).toEqual({ windowStart: 60_000, current: 1, previous: 10 });
+    expect(slidingWindow(state, rule, 200_000, 1).decision.remaining).toBe(7);
+  });
+
+  it("should allow bursts up to token bucket capacity then refill", () => {
+    const rule: RateLimitRule = { limit: 5, windowSeconds: 10, algorithm: "token-bucket" };
+    let state: RuleState | undefined;
+    const decisions = [];
+    for (let i = 0; i < 6; i++) {
+      const result = tokenBucket(state as never, rule, 1_000, 1);
+      state = result.consumed;
+      decisions.push(result.decision.allowed);
+    }
+
+    expect(decisions).toEqual([true, true, true, true, true, false]);
+    expect(tokenBucket(state as never, rule, 1_500, 1).decision).toMatchObject({ allowed: false, retryAfter: 2 });
+    expect(tokenBucket(state as never, rule, 3_000, 1).decision).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("should count a request against all rules or none", () => {
+    const minute: RateLimitRule = { limit: 100, windowSeconds: 60 };
+    const burst: RateLimitRule = { limit: 1, windowSeconds: 10, algorithm: "token-bucket" };
+
+    const first = applyRules({}, [minute, burst], 0);
+    const second = applyRules(first.states, [minute, burst], 0);
+
+    expect(first.decision).toMatchObject({ allowed: true, limit: 1, remaining: 0 });
+    expect(second.decision).toMatchObject({ allowed: false, limit: 1, retryAfter: 10 });
+    expect(second.states["sliding-window:100:60"]).toEqual({ windowStart: 0, current: 1, previous: 0 });
+  });
+
+  it("should limit users across limiter instances", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { namespace, storage } = fakeNamespace();
+    const env = { RATE_LIMIT_OBJECT: namespace } as unknown as Env;
+    const request = () => new Request("https://mcp.example.com/mcp", { headers: { "CF-Connecting-IP": "203.0.113.9" } });
+
+    // A fresh limiter per request, as each isolate would have
+    for (let i = 0; i < 100; i++) {
+      expect(await new EdgeRateLimiter().limitRequest(env, request(), "user-1", "client-1")).toBeNull();
+    }
+    const limited = await new EdgeRateLimiter().limitRequest(env, request(), "user-1", "client-1");
+
+    expect(limited?.status).toBe(429);
+    expect(limited?.headers.get("X-RateLimit-Limit")).toBe("100");
+    expect(limited?.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(limited?.headers.get("Retry-After")).toBe("61");
+    expect([...storage.keys()].sort()).toEqual(["client:client-1", "ip:203.0.113.9", "user:user-1"]);
+    expect(await new EdgeRateLimiter().limitRequest(env, request(), "user-2", "client-1")).toBeNull();
+  });
+
+  it("should not count a request against the user or client when the IP is limited", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { namespace, storage } = fakeNamespace();
+    const env = { RATE_LIMIT_OBJECT: namespace } as unknown as Env;
+    const request = new Request("https://mcp.example.com/mcp", { headers: { "CF-Connecting-IP": "203.0.113.9" } });
+
+    // Use up the IP's allowance of 1000 per minute
+    storage.set("ip:203.0.113.9", { "sliding-window:1000:60": { windowStart: 0, current: 1000, previous: 0 } });
+
+    const limited = await new EdgeRateLimiter().limitRequest(env, request, "user-1", "client-1");
+
+    expect(limited?.status).toBe(429);
+    expect(limited?.headers.get("X-RateLimit-Limit")).toBe("1000");
+    expect(storage.has("user:user-1")).toBe(false);
+    expect(storage.has("client:client-1")).toBe(false);
+  });
+
+  it("should apply provider limits globally across users", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { namespace, storage } = fakeNamespace();
+    const limiter = new ProviderRateLimiter(new RateLimiter(undefined, namespace));
+
+    // HubSpot allows bursts of 10 per 10 seconds
+    const results = [];
+    for (let i = 0; i < 11; i++) {
+      results.push(await limiter.canMakeRequest("hubspot", `user-${i}`, "search"));
+    }
+
+    expect(results.slice(0, 10).every((r) => r.allowed)).toBe(true);
+    expect(results[10]).toEqual({ allowed: false, reason: "rate_limit_exceeded", retryAfter: 1000 });
+    expect([...storage.keys()]).toEqual(["provider:hubspot"]);
+    expect(await limiter.canMakeRequest("unknown", "user-1", "search")).toEqual({ allowed: true });
+  });
+
+  it("should refuse HubSpot calls once the provider limit is exhausted", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { namespace, failures } = fakeNamespace();
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: "1", properties: {} }), {
+      headers: { "content-type": "application/json" }
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = { limiter: new ProviderRateLimiter(new RateLimiter(undefined, namespace)), userId: "user-1" };
+    const getContact = () => runWithProviderLimits(context, () => new HubSpotClient("token").getContact("1"));
+
+    try {
+      for (let i = 0; i < 10; i++) {
+        await getContact();
+      }
+
+      await expect(getContact()).rejects.toMatchObject({ code: "RATE_LIMITED", statusCode: 429, provider: "hubspot" });
+      expect(fetchMock).toHaveBeenCalledTimes(10);
+      // Our own refusal isn't a provider failure
+      expect(failures).toEqual([]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("should enforce configured tool limits per user with retry metadata", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { namespace, storage } = fakeNamespace();
+    const handlers = new Map<string, (...args: unknown[]) => Promise<any>>();
+    const target = {
+      tool: (name: string, ...rest: unknown[]) => handlers.set(name, rest.pop() as never)
+    } as unknown as McpServer;
+    let userId = "user-1";
+    const server = withToolRateLimit(target, defaults.tools, new RateLimiter(undefined, namespace), () => userId);
+    const ok = async () => ({ content: [{ type: "text" as const, text: "ok" }] });
+    server.tool("pandadoc-send-document", "Send", {}, ok);
+    server.tool("pandadoc-list-documents", "List", {}, ok);
+    server.tool("health", "Health", ok);
+
+    // sendDocument overrides PandaDoc's 30/min with its own 20/min
+    const results = [];
+    for (let i = 0; i < 21; i++) {
+      results.push(await handlers.get("pandadoc-send-document")!({}, {}));
+    }
+    const listed = await handlers.get("pandadoc-list-documents")!({}, {});
+    userId = "user-2";
+    const otherUser = await handlers.get("pandadoc-send-document")!({}, {});
+
+    expect(results[0]._meta).toEqual({
+      rateLimit: { limit: 20, remaining: 19, period: "1m", resetAt: "1970-01-01T00:01:00.000Z" }
+    });
+    expect(results[19].isError).toBeUndefined();
+    expect(results[20]).toMatchObject({
+      isError: true,
+      _meta: { errorCode: "RATE_LIMITED", retryAfter: 63, rateLimit: { limit: 20, remaining: 0 } }
+    });
+    expect(results[20].content[0].text).toContain("Retry after 63 seconds");
+    expect(listed._meta.rateLimit).toMatchObject({ limit: 30, remaining: 29 });
+    expect(otherUser.isError).toBeUndefined();
+    expect(await handlers.get("health")!({})).toEqual(await ok());
+    expect([...storage.keys()].sort()).toEqual([
+      "user:user-1:provider:pandadoc",
+      "user:user-1:tool:pandadoc-send-document",
+      "user:user-2:tool:pandadoc-send-document"
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for refresh token rotation and reuse detection
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { DIRECTORY_GRANT_MAX_AGE_SECONDS, RefreshTokenStore, hashToken, type TokenGrant } from "../../src/auth/refresh-tokens";
+import { createMockKV } from "../setup/helpers/mockKV";
+
+describe("RefreshTokenStore", () => {
+  const grant: TokenGrant = {
+    userId: "user-123",
+    clientId: "mcp-inspector",
+    scope: "mcp:tools profile",
+    email: "user@example.com",
+    name: "Test User"
+  };
+
+  let kv: ReturnType<typeof createMockKV>;
+  let store: RefreshTokenStore;
+
+  beforeEach(() => {
+    kv = createMockKV();
+    store = new RefreshTokenStore(kv);
+  });
+
+  it("should store only a hash of the refresh token", async () => {
+    const { refreshToken } = await store.issue(grant);
+
+    expect(kv.keys().some((key) => key.includes(refreshToken))).toBe(false);
+    expect(await kv.get(`refresh_token:${await hashToken(refreshToken)}`)).not.toBeNull();
+  });
+
+  it("should rotate to a new token in the same family", async () => {
+    const issued = await store.issue(grant);
+    const rotation = await store.rotate(issued.refreshToken, grant.clientId);
+
+    expect(rotation.ok).toBe(true);
+    if (!rotation.ok) return;
+    expect(rotation.refreshToken).not.toBe(issued.refreshToken);
+    expect(rotation.familyId).toBe(issued.familyId);
+    expect(rotation.grant).toEqual(grant);
+  });
+
+  it("should reject unknown tokens with invalid_grant", async () => {
+    const rotation = await store.rotate("not-a-real-token", grant.clientId);
+
+    expect(rotation).toMatchObject({ ok: false, error: "invalid_grant" });
+  });
+
+  it("should reject tokens presented by another client", async () => {
+    const { refreshToken } = await store.issue(grant);
+    const rotation = await store.rotate(refreshToken, "other-client");
+
+    expect(rotation).toMatchObject({ ok: false, error: "invalid_grant" });
+  });
+
+  it("should revoke the whole family when a rotated token is replayed", async () => {
+    const issued = await store.issue(grant);
+    await store.trackAccessToken(issued.familyId, "access-1");
+    await kv.put("access_token:access-1", JSON.stringify({ userId: grant.userId }));
+
+    const first = await store.rotate(issued.refreshToken, grant.clientId);
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+
+    const replay = await store.rotate(issued.refreshToken, grant.clientId);
+    expect(replay).toMatchObject({ ok: false, error: "invalid_grant", reuseDetected: true });
+
+    // The legitimately rotated token and the family's access tokens are gone too
+    const afterRevocation = await store.rotate(first.refreshToken, grant.clientId);
+    expect(afterRevocation.ok).toBe(false);
+    expect(await kv.get("access_token:access-1")).toBeNull();
+    expect(await kv.get(`refresh_family:${issued.familyId}`)).toBeNull();
+  });
+
+  it("should reject a scope broader than the original grant without rotating", async () => {
+    const { refreshToken } = await store.issue(grant);
+
+    const broader = await store.rotate(refreshToken, grant.clientId, "mcp:tools offline_access");
+    expect(broader).toMatchObject({ ok: false, error: "invalid_scope" });
+
+    // The token is still usable because nothing was rotated
+    const narrower = await store.rotate(refreshToken, grant.clientId, "mcp:tools");
+    expect(narrower.ok).toBe(true);
+  });
+
+  describe("grants carrying groups or roles", () => {
+    const directoryGrant: TokenGrant = { ...grant, groups: ["sales"], roles: ["Admin"] };
+
+    // Backdate the family as if its first token was issued this many seconds ago
+    async function ageFamily(familyId: string, seconds: number): Promise<void> {
+      const family = JSON.parse((await kv.get(`refresh_family:${familyId}`))!);
+      await kv.put(`refresh_family:${familyId}`, JSON.stringify({ ...family, createdAt: Date.now() - seconds * 1000 }));
+    }
+
+    it("should end the family once it is older than the directory grant maximum age", async () => {
+      const { refreshToken, familyId } = await store.issue(directoryGrant);
+      await ageFamily(familyId, DIRECTORY_GRANT_MAX_AGE_SECONDS);
+
+      const rotation = await store.rotate(refreshToken, grant.clientId);
+
+      expect(rotation).toMatchObject({ ok: false, error: "invalid_grant" });
+      expect(await kv.get(`refresh_family:${familyId}`)).toBeNull();
+    });
+
+    it("should report the capped expiry on lookup", async () => {
+      const { refreshToken, familyId } = await store.issue(directoryGrant);
+      await ageFamily(familyId, 3600);
+
+      const found = await store.lookup(refreshToken);
+
+      expect(found!.expiresAt).toBeLessThanOrEqual(Date.now() + (DIRECTORY_GRANT_MAX_AGE_SECONDS - 3600) * 1000);
+    });
+
+    it("should keep refreshing a grant without groups or roles past that age", async () => {
+      const { refreshToken, familyId } = await store.issue(grant);
+      await ageFamily(familyId, DIRECTORY_GRANT_MAX_AGE_SECONDS);
+
+      const rotation = await store.rotate(refreshToken, grant.clientId);
+
+      expect(rotation.ok).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for passing the verified user into MCP sessions
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerBuiltInTools } from "../../src/tools/built-in";
+import {
+  bindSession,
+  createSessionProps,
+  isSessionOwner,
+  type VerifiedIdentity
+} from "../../src/auth/session-identity";
+import { createMockKV } from "../setup/helpers/mockKV";
+import { createTestConfig } from "../setup/helpers/testEnv";
+
+const identity: VerifiedIdentity = {
+  userId: "user-123",
+  clientId: "client-a",
+  scopes: ["hubspot:read"],
+  email: "jo@example.com",
+  name: "Jo Bloggs",
+  tenantId: "tenant-1",
+  roles: ["Tools.Admin"],
+  source: "oauth"
+};
+
+const config = createTestConfig();
+
+describe("Session identity", () => {
+  it("should build session props from the verified token", () => {
+    expect(createSessionProps(identity)).toEqual({
+      user_id: "user-123",
+      user_email: "jo@example.com",
+      user_name: "Jo Bloggs",
+      tenant_id: "tenant-1",
+      groups: [],
+      roles: ["Tools.Admin"],
+      scopes: ["hubspot:read"],
+      client_id: "client-a",
+      source: "oauth"
+    });
+  });
+
+  it("should show the session user to a tool call", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const props = createSessionProps(identity);
+    registerBuiltInTools(server, config, () => props);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const result = await client.callTool({ name: "userInfo", arguments: {} });
+    const body = JSON.parse((result.content as { text: string }[])[0].text);
+
+    expect(body.user).toEqual({ id: "user-123", email: "jo@example.com", name: "Jo Bloggs", tenantId: "tenant-1" });
+    expect(body.roles).toEqual(["Tools.Admin"]);
+    expect(body.scopes).toEqual(["hubspot:read"]);
+    expect(body.clientId).toBe("client-a");
+
+    await client.close();
+  });
+
+  describe("session binding", () => {
+    let kv: ReturnType<typeof createMockKV>;
+
+    beforeEach(() => {
+      kv = createMockKV();
+    });
+
+    it("should accept only the user who started the session", async () => {
+      await bindSession(kv, "streamable-http", "session-1", "user-123");
+
+      expect(await isSessionOwner(kv, "streamable-http", "session-1", "user-123")).toBe(true);
+      expect(await isSessionOwner(kv, "streamable-http", "session-1", "user-456")).toBe(false);
+    });
+
+    it("should keep SSE and streamable sessions apart", async () => {
+      await bindSession(kv, "sse", "session-1", "user-123");
+
+      expect(await isSessionOwner(kv, "sse", "session-1", "user-123")).toBe(true);
+      expect(await isSessionOwner(kv, "streamable-http", "session-1", "user-123")).toBe(false);
+    });
+
+    it("should reject unknown sessions", async () => {
+      expect(await isSessionOwner(kv, "sse", "made-up", "user-123")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for JWT access token signing and key rotation
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { SigningKeyManager } from "../../src/auth/signing-keys";
+import { TokenEncryption } from "../../src/auth/crypto";
+import { base64UrlDecode, base64UrlEncode, type AccessTokenClaims, type JwtAlgorithm } from "../../src/auth/jwt";
+import { createMockKV } from "../setup/helpers/mockKV";
+import { testSecrets } from "../setup/helpers/testEnv";
+
+const issuer = "https://mcp.example.com";
+const expected = { issuer, audience: `${issuer}/mcp` };
+
+function claims(overrides: Partial<AccessTokenClaims> = {}): AccessTokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: issuer,
+    sub: "user-123",
+    aud: `${issuer}/mcp`,
+    client_id: "mcp-inspector",
+    scope: "mcp:tools",
+    iat: now,
+    exp: now + 3600,
+    jti: "token-1",
+    ...overrides
+  };
+}
+
+describe("SigningKeyManager", () => {
+  let kv: ReturnType<typeof createMockKV>;
+  const encryption = new TokenEncryption(testSecrets.COOKIE_ENCRYPTION_KEY);
+
+  beforeEach(() => {
+    kv = createMockKV();
+  });
+
+  it.each<JwtAlgorithm>(["ES256", "RS256"])("should sign and verify %s access tokens", async (alg) => {
+    const manager = new SigningKeyManager(kv, encryption, alg);
+    const token = await manager.sign(claims());
+
+    const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split(".")[0])));
+    expect(header).toMatchObject({ alg, typ: "at+jwt" });
+    expect(await manager.verify(token, expected)).toMatchObject({ sub: "user-123", client_id: "mcp-inspector" });
+  });
+
+  it("should reject tampered, expired and wrong-audience tokens", async () => {
+    const manager = new SigningKeyManager(kv, encryption);
+
+    const [header, , signature] = (await manager.sign(claims())).split(".");
+    const tampered = `${header}.${base64UrlEncode(JSON.stringify(claims({ sub: "admin" })))}.${signature}`;
+    expect(await manager.verify(tampered, expected)).toBeNull();
+
+    const expired = await manager.sign(claims({ exp: Math.floor(Date.now() / 1000) - 1 }));
+    expect(await manager.verify(expired, expected)).toBeNull();
+
+    const otherAudience = await manager.sign(claims({ aud: "https://other.example.com" }));
+    expect(await manager.verify(otherAudience, expected)).toBeNull();
+  });
+
+  it("should keep verifying tokens signed before a rotation", async () => {
+    const manager = new SigningKeyManager(kv, encryption);
+    const before = await manager.sign(claims());
+
+    await manager.rotate();
+    const after = await manager.sign(claims());
+
+    const jwks = await manager.getJwks();
+    expect(jwks.keys).toHaveLength(2);
+    expect(jwks.keys.every((key) => !("d" in key))).toBe(true);
+    expect(await manager.verify(before, expected)).not.toBeNull();
+    expect(await manager.verify(after, expected)).not.toBeNull();
+  });
+
+  it("should store private keys encrypted and one record per kid", async () => {
+    const manager = new SigningKeyManager(kv, encryption);
+    await manager.sign(claims());
+    await manager.rotate();
+
+    const names = kv.keys().filter((name) => name.startsWith("jwt_signing_key:"));
+    expect(names).toHaveLength(2);
+    for (const name of names) {
+      const stored = JSON.parse((await kv.get(name))!);
+      expect(name).toBe(`jwt_signing_key:${stored.kid}`);
+      expect(stored).not.toHaveProperty("privateJwk");
+      expect(stored.encryptedPrivateJwk).not.toContain(`"d"`);
+      expect(JSON.parse(await encryption.decrypt(stored.encryptedPrivateJwk))).toHaveProperty("d");
+    }
+  });
+
+  it("should keep every key when rotations run concurrently", async () => {
+    const manager = new SigningKeyManager(kv, encryption);
+    const before = await manager.sign(claims());
+
+    await Promise.all([manager.rotate(), manager.rotate()]);
+
+    expect(kv.keys().filter((name) => name.startsWith("jwt_signing_key:"))).toHaveLength(3);
+    expect(await manager.verify(before, expected)).not.toBeNull();
+    expect(await manager.verify(await manager.sign(claims()), expected)).not.toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for the OAuth token, revocation and introspection endpoints
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { handleOAuthToken, handleOAuthRevoke, handleOAuthIntrospect } from "../../src/auth/token-endpoints";
+import { RefreshTokenStore, type TokenGrant } from "../../src/auth/refresh-tokens";
+import { createMockKV } from "../setup/helpers/mockKV";
+import { createMockD1 } from "../setup/helpers/mockD1";
+import { createTestEnv } from "../setup/helpers/testEnv";
+
+const ISSUER = "https://mcp.example.com";
+
+const grant: TokenGrant = {
+  userId: "user-1",
+  clientId: "confidential-client",
+  scope: "mcp:tools",
+  email: "user@example.com"
+};
+
+function formRequest(path: string, fields: Record<string, string>, headers: Record<string, string> = {}): Request {
+  return new Request(ISSUER + path, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+    body: new URLSearchParams(fields).toString()
+  });
+}
+
+function basicAuth(clientId: string, secret: string): Record<string, string> {
+  return { Authorization: `Basic ${btoa(`${clientId}:${secret}`)}` };
+}
+
+function createContext(): ExecutionContext {
+  return { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+}
+
+async function registerClient(kv: KVNamespace, clientId: string, secret: string): Promise<void> {
+  await kv.put(`oauth_client:${clientId}`, JSON.stringify({
+    clientId,
+    clientName: clientId,
+    redirectUris: ["https://client.example.com/callback"],
+    allowedScopes: ["mcp:tools"],
+    requirePkce: true,
+    active: true
+  }));
+  await kv.put(`client_secret:${clientId}`, secret);
+}
+
+describe("OAuth token endpoints", () => {
+  let kv: ReturnType<typeof createMockKV>;
+  let env: Env;
+
+  beforeEach(async () => {
+    kv = createMockKV();
+    env = createTestEnv({ OAUTH_KV: kv, MCP_DB: createMockD1().db });
+    await registerClient(kv, grant.clientId, "s3cret-value");
+    await registerClient(kv, "other-client", "other-secret");
+  });
+
+  // Runs a refresh grant so the family tracks a live access token alongside the new refresh token
+  async function issueTokens(): Promise<{ access_token: string; refresh_token: string }> {
+    const { refreshToken } = await new RefreshTokenStore(kv).issue(grant);
+    const response = await handleOAuthToken(
+      formRequest("/oauth/token", { grant_type: "refresh_token", refresh_token: refreshToken }, basicAuth(grant.clientId, "s3cret-value")),
+      env,
+      createContext()
+    );
+    return response.json() as Promise<{ access_token: string; refresh_token: string }>;
+  }
+
+  function revoke(fields: Record<string, string>, clientId = grant.clientId, secret = "s3cret-value"): Promise<Response> {
+    return handleOAuthRevoke(formRequest("/oauth/revoke", fields, basicAuth(clientId, secret)), env, createContext());
+  }
+
+  describe("refresh_token grant", () => {
+    it("should refuse a confidential client's refresh without its secret", async () => {
+      const { refreshToken } = await new RefreshTokenStore(kv).issue(grant);
+
+      const withoutSecret = await handleOAuthToken(
+        formRequest("/oauth/token", { grant_type: "refresh_token", refresh_token: refreshToken, client_id: grant.clientId }),
+        env,
+        createContext()
+      );
+      expect(withoutSecret.status).toBe(401);
+      expect(await withoutSecret.json()).toMatchObject({ error: "invalid_client" });
+
+      const wrongSecret = await handleOAuthToken(
+        formRequest("/oauth/token", { grant_type: "refresh_token", refresh_token: refreshToken }, basicAuth(grant.clientId, "s3cret")),
+        env,
+        createContext()
+      );
+      expect(wrongSecret.status).toBe(401);
+
+      // The token was not rotated by the refused attempts
+      expect((await new RefreshTokenStore(kv).lookup(refreshToken))?.rotated).toBe(false);
+    });
+
+    it("should rotate the refresh token for a client presenting its secret", async () => {
+      const { refreshToken } = await new RefreshTokenStore(kv).issue(grant);
+
+      const basic = await handleOAuthToken(
+        formRequest("/oauth/token", { grant_type: "refresh_token", refresh_token: refreshToken }, basicAuth(grant.clientId, "s3cret-value")),
+        env,
+        createContext()
+      );
+      expect(basic.status).toBe(200);
+      const body = await basic.json() as { access_token: string; refresh_token: string };
+      expect(body.refresh_token).not.toBe(refreshToken);
+
+      const post = await handleOAuthToken(
+        formRequest("/oauth/token", {
+          grant_type: "refresh_token",
+          refresh_token: body.refresh_token,
+          client_id: grant.clientId,
+          client_secret: "s3cret-value"
+        }),
+        env,
+        createContext()
+      );
+      expect(post.status).toBe(200);
+    });
+  });
+
+  describe("revocation", () => {
+    it("should revoke an access token and leave its refresh token usable", async () => {
+      const tokens = await issueTokens();
+
+      const response = await revoke({ token: tokens.access_token });
+
+      expect(response.status).toBe(200);
+      expect(await kv.get(`access_token:${tokens.access_token}`)).toBeNull();
+      expect(await new RefreshTokenStore(kv).lookup(tokens.refresh_token)).not.toBeNull();
+    });
+
+    it("should revoke a refresh token's whole family", async () => {
+      const tokens = await issueTokens();
+
+      const response = await revoke({ token: tokens.refresh_token, token_type_hint: "refresh_token" });
+
+      expect(response.status).toBe(200);
+      expect(await new RefreshTokenStore(kv).lookup(tokens.refresh_token)).toBeNull();
+      expect(await kv.get(`access_token:${tokens.access_token}`)).toBeNull();
+    });
+
+    it("should answer 200 for an unknown token", async () => {
+      const response = await revoke({ token: "not-a-real-token" });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should leave another client's tokens untouched and still answer 200", async () => {
+      const tokens = await issueTokens();
+
+      const accessResponse = await revoke({ token: tokens.access_token }, "other-client", "other-secret");
+      const refreshResponse = await revoke({ token: tokens.refresh_token }, "other-client", "other-secret");
+
+      expect(accessResponse.status).toBe(200);
+      expect(refreshResponse.status).toBe(200);
+      expect(await kv.get(`access_token:${tokens.access_token}`)).not.toBeNull();
+      expect(await new RefreshTokenStore(kv).lookup(tokens.refresh_token)).not.toBeNull();
+    });
+
+    it("should refuse a confidential client that omits its secret", async () => {
+      const tokens = await issueTokens();
+
+      const response = await handleOAuthRevoke(
+        formRequest("/oauth/revoke", { token: tokens.access_token, client_id: grant.clientId }),
+        env,
+        createContext()
+      );
+
+      expect(response.status).toBe(401);
+      expect(await kv.get(`access_token:${tokens.access_token}`)).not.toBeNull();
+    });
+  });
+
+  describe("introspection", () => {
+    function introspect(fields: Record<string, string>, headers = basicAuth("other-client", "other-secret")): Promise<Response> {
+      return handleOAuthIntrospect(formRequest("/oauth/introspect", fields, headers), env);
+    }
+
+    it("should describe an active opaque access token", async () => {
+      const tokens = await issueTokens();
+
+      const response = await introspect({ token: tokens.access_token });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        active: true,
+        token_type: "Bearer",
+        client_id: grant.clientId,
+        sub: grant.userId,
+        scope: "mcp:tools",
+        aud: `${ISSUER}/mcp`
+      });
+    });
+
+    it("should describe an active JWT access token", async () => {
+      env = createTestEnv({ OAUTH_KV: kv, MCP_DB: createMockD1().db, ACCESS_TOKEN_FORMAT: "jwt" });
+      const tokens = await issueTokens();
+      expect(tokens.access_token.split(".")).toHaveLength(3);
+
+      const response = await introspect({ token: tokens.access_token });
+
+      expect(await response.json()).toMatchObject({ active: true, client_id: grant.clientId, sub: grant.userId });
+    });
+
+    it("should report an expired access token as inactive", async () => {
+      const tokens = await issueTokens();
+      const record = JSON.parse((await kv.get(`access_token:${tokens.access_token}`))!);
+      await kv.put(`access_token:${tokens.access_token}`, JSON.stringify({ ...record, expiresAt: record.issuedAt - 1 }));
+
+      const response = await introspect({ token: tokens.access_token });
+
+      expect(await response.json()).toEqual({ active: false });
+    });
+
+    it("should report revoked tokens as inactive", async () => {
+      const tokens = await issueTokens();
+      await revoke({ token: tokens.refresh_token });
+
+      const access = await introspect({ token: tokens.access_token });
+      const refresh = await introspect({ token: tokens.refresh_token, token_type_hint: "refresh_token" });
+
+      expect(await access.json()).toEqual({ active: false });
+      expect(await refresh.json()).toEqual({ active: false });
+    });
+
+    it("should reject a caller without a client secret", async () => {
+      const tokens = await issueTokens();
+
+      const response = await introspect({ token: tokens.access_token, client_id: "mcp-inspector" }, {});
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("WWW-Authenticate")).toContain("Basic");
+      expect(await response.json()).toMatchObject({ error: "invalid_client" });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for tool call auditing
+ */
+
+import { describe, it, expect } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../../src/config/mcp.defaults";
+import {
+  auditToolHandler,
+  recordUpstreamStatus,
+  withToolAudit,
+  type ToolAuditOptions
+} from "../../src/observability/tool-audit";
+import { ToolError } from "../../src/types";
+import { createMockD1 } from "../setup/helpers/mockD1";
+
+// Records audit inserts and the promises handed to waitUntil
+function createAuditOptions() {
+  const { db, calls } = createMockD1();
+  const pending: Promise<unknown>[] = [];
+  const options: ToolAuditOptions = {
+    db,
+    tools: defaults.tools,
+    getProps: () => ({
+      user_id: "user-1",
+      user_email: "user@example.com",
+      user_name: "User",
+      scopes: ["mcp:tools"],
+      client_id: "client-1",
+      source: "oauth"
+    }),
+    waitUntil: (promise) => {
+      pending.push(promise);
+    }
+  };
+  return { options, inserts: calls, pending };
+}
+
+function metadataOf(insert: unknown[]) {
+  return JSON.parse(insert.find((value) => typeof value === "string" && value.startsWith("{")) as string);
+}
+
+describe("Tool call auditing", () => {
+  it("should record a successful call with upstream status and redacted args", async () => {
+    const { options, inserts, pending } = createAuditOptions();
+    const handler = auditToolHandler("hubspot-search-contacts", async (_args: unknown, _extra: unknown) => {
+      recordUpstreamStatus(200);
+      return { content: [{ type: "text" as const, text: "ok" }] };
+    }, options);
+
+    await handler({ query: "jane", limit: 5, apiKey: "secret-value" }, {});
+    await Promise.all(pending);
+
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].params).toContain("user-1");
+    expect(inserts[0].params).toContain("hubspot");
+    expect(inserts[0].params).toContain("success");
+    const metadata = metadataOf(inserts[0].params);
+    expect(metadata).toMatchObject({
+      clientId: "client-1",
+      args: { query: "[REDACTED]", limit: 5, apiKey: "[REDACTED]" },
+      errorCode: null,
+      upstreamStatus: 200
+    });
+    expect(typeof metadata.durationMs).toBe("number");
+  });
+
+  it("should record error codes for thrown and flagged failures", async () => {
+    const { options, inserts, pending } = createAuditOptions();
+    const failing = auditToolHandler("hubspot-get-contact", async (_args: unknown, _extra: unknown) => {
+      throw new ToolError("HubSpot API error: rate limited", "RATE_LIMITS", 429, "hubspot");
+    }, options);
+    const needsAuth = auditToolHandler("hubspot-get-contact", async (_args: unknown, _extra: unknown) => ({
+      content: [{ type: "text" as const, text: "Please authenticate" }],
+      isError: true,
+      _meta: { requiresAuth: true }
+    }), options);
+
+    await expect(failing({ contactId: "1" }, {})).rejects.toThrow("rate limited");
+    await needsAuth({ contactId: "1" }, {});
+    await Promise.all(pending);
+
+    expect(inserts[0].params).toContain("failure");
+    expect(metadataOf(inserts[0].params)).toMatchObject({ errorCode: "RATE_LIMITS", upstreamStatus: 429 });
+    expect(metadataOf(inserts[1].params)).toMatchObject({ errorCode: "AUTH_REQUIRED", upstreamStatus: null });
+  });
+
+  it("should wrap the handler passed to either registration method", async () => {
+    const { options, inserts, pending } = createAuditOptions();
+    const registered: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+    const server = {
+      tool: (name: string, ...rest: unknown[]) => { registered[name] = rest.pop() as never; },
+      registerTool: (name: string, _config: unknown, handler: never) => { registered[name] = handler; }
+    } as unknown as McpServer;
+
+    const audited = withToolAudit(server, options);
+    audited.tool("health", async () => ({ content: [] }));
+    audited.registerTool("hubspot-create-contact", { description: "Create" }, async () => ({ content: [] }));
+
+    await registered.health({});
+    await registered["hubspot-create-contact"]({ email: "a@example.com" }, {});
+    await Promise.all(pending);
+
+    expect(inserts).toHaveLength(2);
+    expect(metadataOf(inserts[0].params).args).toEqual({});
+    expect(inserts[1].params).toContain("hubspot-create-contact");
+  });
+});
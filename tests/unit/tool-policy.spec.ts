@@ -0,0 +1,96 @@
+/**
+ * Unit tests for role-based tool access policies
+ */
+
+import { describe, it, expect } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../../src/config/mcp.defaults";
+import {
+  isToolAllowed,
+  loadToolPolicy,
+  parsePolicyRuleRequest,
+  withPolicyFilter,
+  type ToolPolicy
+} from "../../src/auth/tool-policy";
+import { createMockD1 } from "../setup/helpers/mockD1";
+
+// Answers the "any rules?" check and the rule lookup, recording bound parameters
+function createFakeD1(configured: boolean, rules: Record<string, unknown>[] = []) {
+  return createMockD1({ first: () => ({ configured: configured ? 1 : 0 }), all: () => rules });
+}
+
+function registeredToolNames(server: McpServer): string[] {
+  return Object.keys((server as unknown as { _registeredTools: Record<string, unknown> })._registeredTools);
+}
+
+describe("Tool policy", () => {
+  it("should leave every tool available until rules exist", async () => {
+    const { db, calls } = createFakeD1(false);
+
+    const policy = await loadToolPolicy(db, { userId: "user-123", groups: ["group-a"] });
+
+    expect(policy.enforced).toBe(false);
+    expect(isToolAllowed(policy, defaults.tools, "pandadoc-send-document")).toBe(true);
+    expect(calls).toHaveLength(0);
+  });
+
+  it("should load rules for the user and their groups", async () => {
+    const { db, calls } = createFakeD1(true, [{ effect: "allow", provider: "hubspot", operation: "*" }]);
+
+    const policy = await loadToolPolicy(db, { userId: "user-123", groups: ["group-a", "group-b"] });
+
+    expect(policy).toEqual({ enforced: true, rules: [{ effect: "allow", provider: "hubspot", operation: "*" }] });
+    expect(calls[0].params).toEqual(["user-123", '["group-a","group-b"]']);
+  });
+
+  it("should bind every group as a single parameter", async () => {
+    const { db, calls } = createFakeD1(true, [{ effect: "allow", provider: "hubspot", operation: "*" }]);
+    const groups = Array.from({ length: 150 }, (_, i) => `group-${i}`);
+
+    const policy = await loadToolPolicy(db, { userId: "user-123", groups });
+
+    // D1 allows at most 100 bound parameters per query
+    expect(policy.rules).toHaveLength(1);
+    expect(calls[0].params).toEqual(["user-123", JSON.stringify(groups)]);
+    expect(calls[0].sql).toContain("json_each(?)");
+  });
+
+  it("should require an allow and let deny win", () => {
+    const policy: ToolPolicy = {
+      enforced: true,
+      rules: [
+        { effect: "allow", provider: "*", operation: "*" },
+        { effect: "deny", provider: "hubspot", operation: "updateContact" }
+      ]
+    };
+
+    expect(isToolAllowed(policy, defaults.tools, "hubspot-search-contacts")).toBe(true);
+    expect(isToolAllowed(policy, defaults.tools, "hubspot-update-contact")).toBe(false);
+    expect(isToolAllowed({ enforced: true, rules: [] }, defaults.tools, "hubspot-search-contacts")).toBe(false);
+    expect(isToolAllowed({ enforced: true, rules: [] }, defaults.tools, "health")).toBe(true);
+  });
+
+  it("should register only tools the policy allows", () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const policy: ToolPolicy = { enforced: true, rules: [{ effect: "allow", provider: "hubspot", operation: "*" }] };
+    const filtered = withPolicyFilter(server, defaults.tools, policy);
+    const handler = async () => ({ content: [] });
+
+    filtered.tool("hubspot-search-contacts", "Search", {}, handler);
+    filtered.tool("pandadoc-send-document", "Send", {}, handler);
+    filtered.tool("health", "Health", {}, handler);
+
+    expect(registeredToolNames(server).sort()).toEqual(["health", "hubspot-search-contacts"]);
+  });
+
+  it("should validate rules against the tools config", () => {
+    expect(parsePolicyRuleRequest({ effect: "allow", provider: "hubspot" })).toEqual({
+      valid: true,
+      rule: { effect: "allow", provider: "hubspot", operation: "*" }
+    });
+    expect(parsePolicyRuleRequest({ effect: "permit", provider: "hubspot" }).valid).toBe(false);
+    expect(parsePolicyRuleRequest({ effect: "deny", provider: "salesforce" }).valid).toBe(false);
+    expect(parsePolicyRuleRequest({ effect: "deny", provider: "hubspot", operation: "dropTables" }).valid).toBe(false);
+    expect(parsePolicyRuleRequest({ effect: "deny", provider: "*", operation: "searchContacts" }).valid).toBe(false);
+  });
+});
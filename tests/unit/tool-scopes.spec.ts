@@ -0,0 +1,53 @@
+/**
+ * Unit tests for per-tool OAuth scopes
+ */
+
+import { describe, it, expect } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { defaults } from "../../src/config/mcp.defaults";
+import {
+  getAllToolScopes,
+  getToolScope,
+  hasToolScope,
+  operationToolName,
+  withScopeFilter
+} from "../../src/auth/tool-scopes";
+
+function registeredToolNames(server: McpServer): string[] {
+  return Object.keys((server as unknown as { _registeredTools: Record<string, unknown> })._registeredTools);
+}
+
+describe("Tool scopes", () => {
+  it("should map operations to tool names", () => {
+    expect(operationToolName("hubspot", "searchContacts")).toBe("hubspot-search-contacts");
+    expect(operationToolName("pandadoc", "sendDocument")).toBe("pandadoc-send-document");
+  });
+
+  it("should derive the required scope from the operation access level", () => {
+    expect(getToolScope(defaults.tools, "hubspot-search-contacts")).toBe("hubspot:read");
+    expect(getToolScope(defaults.tools, "hubspot-update-contact")).toBe("hubspot:write");
+    expect(getToolScope(defaults.tools, "pandadoc-send-document")).toBe("pandadoc:send");
+    expect(getToolScope(defaults.tools, "health")).toBeNull();
+    expect(getAllToolScopes()).toContain("pandadoc:send");
+  });
+
+  it("should grant every tool with the broad scope only", () => {
+    expect(hasToolScope(["mcp:tools"], "hubspot:write")).toBe(true);
+    expect(hasToolScope(["hubspot:read"], "hubspot:read")).toBe(true);
+    expect(hasToolScope(["hubspot:read"], "hubspot:write")).toBe(false);
+    expect(hasToolScope(undefined, "hubspot:read")).toBe(false);
+  });
+
+  it("should register only tools covered by the granted scopes", () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const filtered = withScopeFilter(server, defaults.tools, ["hubspot:read"]);
+    const handler = async () => ({ content: [] });
+
+    filtered.tool("hubspot-search-contacts", "Search", {}, handler);
+    filtered.tool("hubspot-create-contact", "Create", {}, handler);
+    filtered.tool("pandadoc-send-document", "Send", {}, handler);
+    filtered.tool("health", "Health", {}, handler);
+
+    expect(registeredToolNames(server).sort()).toEqual(["health", "hubspot-search-contacts"]);
+  });
+});
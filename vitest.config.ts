@@ -1,3 +1,4 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
@@ -42,6 +43,8 @@ export default defineConfig({
   // Resolve configuration for better module resolution
   resolve: {
     alias: {
+      // Matches tsconfig's "@/*" paths; absolute so it resolves from any importer
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
       "@config": "./src/config",
       "@tools": "./src/tools",
       "@auth": "./src/auth",
@@ -8,6 +8,25 @@ declare namespace Cloudflare {
 		MICROSOFT_CLIENT_ID: string;
 		MICROSOFT_CLIENT_SECRET: string;
 		MICROSOFT_TENANT_ID: string;
+		MICROSOFT_ALLOWED_TENANTS?: string;
+		GOOGLE_CLIENT_ID?: string;
+		GOOGLE_CLIENT_SECRET?: string;
+		GOOGLE_WORKSPACE_DOMAIN?: string;
+		OKTA_DOMAIN?: string;
+		OKTA_CLIENT_ID?: string;
+		OKTA_CLIENT_SECRET?: string;
+		OKTA_AUTHORIZATION_SERVER?: string;
+		OIDC_ISSUER?: string;
+		OIDC_CLIENT_ID?: string;
+		OIDC_CLIENT_SECRET?: string;
+		OIDC_DISPLAY_NAME?: string;
+		OIDC_SCOPES?: string;
+		OIDC_EMAIL_CLAIM?: string;
+		OIDC_NAME_CLAIM?: string;
+		OIDC_TENANT_CLAIM?: string;
+		IDP_EMAIL_DOMAINS?: string;
+		OAUTH_PROVIDER?: string;
+		ADMIN_ROLE?: string;
 		PANDADOC_CLIENT_ID: string;
 		PANDADOC_CLIENT_SECRET: string;
 		HUBSPOT_CLIENT_ID: string;
@@ -21,13 +40,16 @@ declare namespace Cloudflare {
 		COOKIE_ENCRYPTION_KEY: string;
 		SENTRY_DSN: string;
 		SENTRY_SAMPLE_RATE: string;
-		AUTH_HEADER_SECRET: string;
 		OAUTH_ENABLED: string;
 		OAUTH_REGISTERED_CLIENTS?: string;
+		ACCESS_TOKEN_FORMAT?: string;
+		JWT_SIGNING_ALG?: string;
 		BASE_URL?: string;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").ModularMCP>;
+		RATE_LIMIT_OBJECT: DurableObjectNamespace<import("./src/index").RateLimitObject>;
 		MCP_DB: D1Database;
 		AI: Ai;
+		RATE_LIMITER: RateLimit;
 	}
 }
 interface Env extends Cloudflare.Env {}